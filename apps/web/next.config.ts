@@ -9,6 +9,8 @@ const nextConfig: NextConfig = {
   crossOrigin: "anonymous",
   productionBrowserSourceMaps: false,
   output: "standalone",
+  // API routes import the shared LLM provider layer from the backend package's TypeScript sources
+  transpilePackages: ["@milestoneAI-next-js/backend"],
   experimental: {
     ppr: true,
     optimizePackageImports: [
@@ -0,0 +1,21 @@
+/**
+ * @description
+ * Stops the LLM calls of a streaming route once its client goes away. The returned controller
+ * aborts with the request's signal; routes also abort it from their stream's `cancel()`. Its
+ * signal is passed to the provider, so an abandoned response stops generating and using tokens.
+ *
+ * @receives data from:
+ * - api/chat, api/generate-plan route.ts: the request's abort signal
+ *
+ * @sends data to:
+ * - Route handler: controller whose signal goes to `provider.stream`
+ *
+ * @sideEffects:
+ * - Listens for the request's abort event
+ */
+export function abortOnDisconnect(signal: AbortSignal): AbortController {
+  const controller = new AbortController();
+  if (signal.aborted) controller.abort();
+  else signal.addEventListener('abort', () => controller.abort(), { once: true });
+  return controller;
+}
@@ -0,0 +1,86 @@
+import { NextRequest } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { checkRateLimit } from './rate-limit';
+import { jsonError } from './errors';
+
+/**
+ * The caller of an AI route. `userId` is the Clerk user id, or null for an anonymous demo
+ * caller; `key` identifies the caller for rate limits and usage records.
+ */
+export type AICaller = {
+  userId: string | null;
+  key: string;
+};
+
+export type AIRouteHandler = (req: NextRequest, caller: AICaller) => Promise<Response>;
+
+/**
+ * @description
+ * Best-effort client IP. `x-real-ip` is preferred because it is set by the proxy; for
+ * `x-forwarded-for` the last entry is used since earlier entries are client supplied.
+ *
+ * @receives data from:
+ * - auth.ts; withAuth: incoming NextRequest
+ *
+ * @sends data to:
+ * - auth.ts; withAuth: IP string for the anonymous caller key
+ *
+ * @sideEffects:
+ * - None
+ */
+function getClientIp(req: NextRequest): string {
+  const xri = req.headers.get('x-real-ip')?.trim();
+  const xff = req.headers.get('x-forwarded-for')?.split(',').map((part) => part.trim()).filter(Boolean);
+  return xri || xff?.[xff.length - 1] || 'unknown';
+}
+
+/**
+ * Signed-out callers are rejected unless `AI_ANONYMOUS_DEMO=true`, in which case each IP
+ * gets the small `anonymous-demo` allowance.
+ */
+function isAnonymousDemoEnabled(): boolean {
+  return process.env.AI_ANONYMOUS_DEMO === 'true';
+}
+
+/**
+ * @description
+ * Requires a signed-in Clerk user for an AI route. When the anonymous demo is enabled,
+ * signed-out callers are let through until their daily allowance runs out.
+ *
+ * @receives data from:
+ * - api/chat, api/generate-plan, api/validate-goal, api/replan route.ts: route handler
+ *
+ * @sends data to:
+ * - Route handler: NextRequest and the resolved AICaller
+ * - Client: 401 `unauthenticated` or 403 `demo_exhausted` JSON errors
+ *
+ * @sideEffects:
+ * - Reads the Clerk session attached by middleware
+ * - Consumes anonymous demo allowance for signed-out callers
+ */
+export function withAuth(handler: AIRouteHandler): (req: NextRequest) => Promise<Response> {
+  return async (req: NextRequest) => {
+    let userId: string | null = null;
+    try {
+      ({ userId } = await auth());
+    } catch (err) {
+      console.error('[auth] Failed to read Clerk session:', err);
+    }
+    if (userId) {
+      return handler(req, { userId, key: `user:${userId}` });
+    }
+
+    if (!isAnonymousDemoEnabled()) {
+      return jsonError(401, 'Sign in to use AI features.', 'unauthenticated');
+    }
+
+    const key = `ip:${getClientIp(req)}`;
+    const allowance = await checkRateLimit('anonymous-demo', key);
+    if (!allowance.ok) {
+      return jsonError(403, 'The free demo limit has been reached. Sign in to keep using AI features.', 'demo_exhausted', {
+        'Retry-After': String(Math.max(1, Math.ceil(allowance.retryAfterMs / 1000))),
+      });
+    }
+    return handler(req, { userId: null, key });
+  };
+}
@@ -0,0 +1,27 @@
+import { ConvexHttpClient } from 'convex/browser';
+
+let convexClient: ConvexHttpClient | null = null;
+
+/**
+ * @description
+ * Convex client for server-to-server calls from the API routes (rate limits, AI usage).
+ * Those Convex functions are guarded by the shared `CONVEX_SERVER_SECRET` rather than a
+ * user session. Returns null when either setting is missing.
+ *
+ * @receives data from:
+ * - api/_lib/rate-limit.ts; checkRateLimit
+ * - api/_lib/usage.ts; withUsageCap / recordUsage
+ *
+ * @sends data to:
+ * - Callers: shared ConvexHttpClient and the server secret
+ *
+ * @sideEffects:
+ * - Creates the client once per server instance
+ */
+export function getConvexServerClient(): { client: ConvexHttpClient; secret: string } | null {
+  const convexUrl = process.env.NEXT_PUBLIC_CONVEX_URL;
+  const secret = process.env.CONVEX_SERVER_SECRET;
+  if (!convexUrl || !secret) return null;
+  convexClient ??= new ConvexHttpClient(convexUrl);
+  return { client: convexClient, secret };
+}
@@ -0,0 +1,32 @@
+/**
+ * Machine-readable codes for API route errors, so the client can react to auth and quota
+ * failures without matching on message text.
+ */
+export type APIErrorCode = 'unauthenticated' | 'demo_exhausted' | 'rate_limited' | 'quota_exceeded';
+
+/**
+ * @description
+ * Builds the JSON error response shared by the AI API routes: `{ error, code }`.
+ *
+ * @receives data from:
+ * - api/_lib/auth.ts; withAuth: 401/403 responses
+ * - api/_lib/rate-limit.ts; withRateLimit: 429 responses
+ * - api/_lib/usage.ts; withUsageCap: 403 monthly quota responses
+ *
+ * @sends data to:
+ * - services/ai-service.ts; readAPIError: parses `error` and `code`
+ *
+ * @sideEffects:
+ * - None
+ */
+export function jsonError(
+  status: number,
+  error: string,
+  code: APIErrorCode,
+  headers: Record<string, string> = {}
+): Response {
+  return new Response(JSON.stringify({ error, code }), {
+    status,
+    headers: { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store', ...headers },
+  });
+}
@@ -0,0 +1,78 @@
+import { NextRequest } from 'next/server';
+import { api } from '@milestoneAI-next-js/backend/convex/_generated/api';
+import { takeToken } from '@milestoneAI-next-js/backend/convex/lib/rateLimit';
+import type { RateLimitedRoute, RateLimitResult } from '@milestoneAI-next-js/backend/convex/lib/rateLimit';
+import type { AICaller, AIRouteHandler } from './auth';
+import { getConvexServerClient } from './convex';
+import { jsonError } from './errors';
+
+// Local development fallback when Convex rate limiting is not configured (per server instance)
+const memoryBuckets: Map<string, { tokens: number; lastRefillMs: number }> = (globalThis as any).__aiRateBuckets || new Map();
+(globalThis as any).__aiRateBuckets = memoryBuckets;
+
+/**
+ * @description
+ * Takes one token from the caller's bucket for a route. Buckets live in Convex so limits are
+ * shared across server instances and survive restarts. Without `NEXT_PUBLIC_CONVEX_URL` and
+ * `CONVEX_SERVER_SECRET`, development falls back to an in-memory bucket; if Convex is unreachable
+ * the request is allowed rather than blocking the AI routes.
+ *
+ * @receives data from:
+ * - rate-limit.ts; withRateLimit: route name and caller key
+ * - auth.ts; withAuth: anonymous demo allowance for an IP key
+ *
+ * @sends data to:
+ * - Convex: rateLimits.consume
+ * - rate-limit.ts; withRateLimit: RateLimitResult
+ *
+ * @sideEffects:
+ * - Updates the Convex `rateLimits` table or the in-memory fallback buckets
+ */
+export async function checkRateLimit(route: RateLimitedRoute, key: string): Promise<RateLimitResult> {
+  const convex = getConvexServerClient();
+
+  if (!convex) {
+    if (process.env.NODE_ENV === 'production') {
+      console.error('[rate-limit] CONVEX_SERVER_SECRET or NEXT_PUBLIC_CONVEX_URL is not set; using per-instance limits.');
+    }
+    const bucketKey = `${route}:${key}`;
+    const { bucket, result } = takeToken(route, memoryBuckets.get(bucketKey) ?? null, Date.now());
+    memoryBuckets.set(bucketKey, bucket);
+    return result;
+  }
+
+  try {
+    return await convex.client.mutation(api.rateLimits.consume, { route, key, secret: convex.secret });
+  } catch (err) {
+    console.error('[rate-limit] Convex rate limit check failed, allowing request:', err);
+    return { ok: true, remaining: 0 };
+  }
+}
+
+/**
+ * @description
+ * Wraps an authenticated API route handler with the per-route rate limit, keyed by the
+ * caller (Clerk user, or IP for anonymous demo callers). Rejected requests get a 429 JSON
+ * error with a `Retry-After` header (seconds).
+ *
+ * @receives data from:
+ * - api/chat, api/generate-plan, api/validate-goal, api/replan route.ts: route name and POST handler
+ * - auth.ts; withAuth: NextRequest and resolved AICaller
+ *
+ * @sends data to:
+ * - Route handler: NextRequest and AICaller when within quota
+ *
+ * @sideEffects:
+ * - Consumes a rate limit token per request
+ */
+export function withRateLimit(route: RateLimitedRoute, handler: AIRouteHandler): AIRouteHandler {
+  return async (req: NextRequest, caller: AICaller) => {
+    const result = await checkRateLimit(route, caller.key);
+    if (!result.ok) {
+      return jsonError(429, 'Too many requests. Please slow down.', 'rate_limited', {
+        'Retry-After': String(Math.max(1, Math.ceil(result.retryAfterMs / 1000))),
+      });
+    }
+    return handler(req, caller);
+  };
+}
@@ -0,0 +1,104 @@
+import { NextRequest } from 'next/server';
+import { api } from '@milestoneAI-next-js/backend/convex/_generated/api';
+import type { LLMProvider } from '@milestoneAI-next-js/backend/convex/lib/llm';
+import { withUsageRecording } from '@milestoneAI-next-js/backend/convex/lib/aiUsage';
+import type { AIUsageEntry, AIUsageRoute } from '@milestoneAI-next-js/backend/convex/lib/aiUsage';
+import type { AICaller, AIRouteHandler } from './auth';
+import { getConvexServerClient } from './convex';
+import { jsonError } from './errors';
+
+// Demo calls have no Clerk user; they are accounted together rather than per IP
+const ANONYMOUS_USAGE_USER = 'anonymous';
+
+/**
+ * @description
+ * Stores one AI call in the Convex `aiUsage` table under the caller's user id. Skipped when
+ * Convex server calls are not configured (local development).
+ *
+ * @receives data from:
+ * - usage.ts; trackUsage / withUsageCap: caller and usage entry
+ *
+ * @sends data to:
+ * - Convex: aiUsage.record
+ *
+ * @sideEffects:
+ * - Inserts an `aiUsage` document
+ */
+export async function recordUsage(caller: AICaller, entry: AIUsageEntry): Promise<void> {
+  const convex = getConvexServerClient();
+  if (!convex) return;
+  await convex.client.mutation(api.aiUsage.record, {
+    secret: convex.secret,
+    userId: caller.userId ?? ANONYMOUS_USAGE_USER,
+    ...entry,
+  });
+}
+
+/**
+ * @description
+ * Wraps an LLM provider so every call a route makes is recorded with model, token counts,
+ * latency and outcome for the caller.
+ *
+ * @receives data from:
+ * - api/chat, api/generate-plan, api/validate-goal, api/replan route.ts: provider, route and caller
+ *
+ * @sends data to:
+ * - Route handler: provider that records usage
+ *
+ * @sideEffects:
+ * - Records usage after each LLM call
+ */
+export function trackUsage(provider: LLMProvider, route: AIUsageRoute, caller: AICaller): LLMProvider {
+  return withUsageRecording(provider, route, (entry) => recordUsage(caller, entry));
+}
+
+/**
+ * @description
+ * Blocks signed-in callers that have used up their monthly token cap (`AI_MONTHLY_TOKEN_CAP`
+ * in the Convex environment) with a 403 `quota_exceeded` error. If the quota cannot be read
+ * the request is allowed.
+ *
+ * @receives data from:
+ * - api/chat, api/generate-plan, api/validate-goal, api/replan route.ts: route name and handler
+ *
+ * @sends data to:
+ * - Convex: aiUsage.getQuota
+ * - Route handler: NextRequest and AICaller when under the cap
+ *
+ * @sideEffects:
+ * - Records a `blocked` usage entry when a request is rejected
+ */
+export function withUsageCap(route: AIUsageRoute, handler: AIRouteHandler): AIRouteHandler {
+  return async (req: NextRequest, caller: AICaller) => {
+    const convex = getConvexServerClient();
+    if (!convex || !caller.userId) return handler(req, caller);
+
+    let quota;
+    try {
+      quota = await convex.client.query(api.aiUsage.getQuota, { secret: convex.secret, userId: caller.userId });
+    } catch (err) {
+      console.error('[usage] Failed to read AI usage quota, allowing request:', err);
+      return handler(req, caller);
+    }
+
+    if (quota.exceeded && quota.cap !== null) {
+      const resetsOn = new Date(quota.resetsAt).toLocaleDateString('en-US', { month: 'long', day: 'numeric', timeZone: 'UTC' });
+      await recordUsage(caller, {
+        route,
+        provider: 'none',
+        model: 'none',
+        promptTokens: 0,
+        completionTokens: 0,
+        latencyMs: 0,
+        outcome: 'blocked',
+      }).catch((err) => console.error('[usage] Failed to record blocked request:', err));
+      return jsonError(
+        403,
+        `You've used your monthly AI allowance of ${quota.cap.toLocaleString('en-US')} tokens. It resets on ${resetsOn}.`,
+        'quota_exceeded',
+        { 'Retry-After': String(Math.max(1, Math.ceil((quota.resetsAt - Date.now()) / 1000))) }
+      );
+    }
+    return handler(req, caller);
+  };
+}
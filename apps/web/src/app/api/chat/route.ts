@@ -1,120 +1,55 @@
 import { NextRequest } from 'next/server';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { getLLMProvider, stripJsonFences } from '@milestoneAI-next-js/backend/convex/lib/llm';
+import type { LLMMessage, LLMProvider, LLMUsage } from '@milestoneAI-next-js/backend/convex/lib/llm';
+import type { FullPlan } from '../../types/plan-types';
+import { formatPlanForEditing, planEditOperationSchema } from '../../utils/plan-edits';
+import type { PlanChatStreamEvent, PlanEditOperation } from '../../utils/plan-edits';
+import { serializePlan } from '../../utils/plan-serializer';
+import { abortOnDisconnect } from '../_lib/abort';
+import { withAuth } from '../_lib/auth';
+import type { AICaller } from '../_lib/auth';
+import { withRateLimit } from '../_lib/rate-limit';
+import { trackUsage, withUsageCap } from '../_lib/usage';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-const MODEL_NAME = 'gemini-flash-latest';
-
-const GEMINI_CONFIG = {
-  temperature: 0.6,
-  topK: 40,
-  topP: 0.95,
-  maxOutputTokens: 8192,
-  thinkingConfig: {
-    includeThoughts: false,
-    thinkingBudget: 24576,
-  },
-  frequencyPenalty: 0.0,
-  presencePenalty: 0.0,
-  chatGeneration: {
-    temperature: 0.6,
-    topK: 40,
-    topP: 0.95,
-    thinkingBudget: 24576,
-  },
-};
-
 type GeminiHistoryItem = { role: 'user' | 'model'; parts: string };
 
-// Simple in-memory rate limiter storage (per server instance)
-const ipRateMap: Map<string, { tokens: number; lastRefillMs: number }> = (globalThis as any).__chatRateMap || new Map();
-(globalThis as any).__chatRateMap = ipRateMap;
-
-/**
- * @description
- * Extracts best-effort client IP from request headers for rate limiting.
- *
- * @receives data from:
- * - route.ts; POST: NextRequest with headers
- *
- * @sends data to:
- * - route.ts; POST: Caller uses returned IP string for rate limiting key
- *
- * @sideEffects:
- * - None
- */
-function getClientIp(req: NextRequest): string {
-  const xff = req.headers.get('x-forwarded-for');
-  const xri = req.headers.get('x-real-ip');
-  return (xff?.split(',')[0]?.trim() || xri || 'unknown');
-}
-
-/**
- * @description
- * Token bucket rate limiter keyed by IP and route. Defaults to 60 req/min with a burst of 30.
- *
- * @receives data from:
- * - route.ts; POST: Client IP and unique bucket key
- *
- * @sends data to:
- * - route.ts; POST: Boolean indicating whether the request is allowed
- *
- * @sideEffects:
- * - Mutates in-memory token buckets for the process
- */
-function rateLimit(bucketKey: string, limitPerMinute = 60, burst = 30): boolean {
-  const now = Date.now();
-  const existing = ipRateMap.get(bucketKey);
-  const refillRatePerMs = limitPerMinute / 60000; // tokens per ms
-  if (!existing) {
-    ipRateMap.set(bucketKey, { tokens: burst - 1, lastRefillMs: now });
-    return true;
-  }
-  const elapsed = Math.max(0, now - existing.lastRefillMs);
-  const refilled = existing.tokens + elapsed * refillRatePerMs;
-  const tokens = Math.min(burst, refilled);
-  if (tokens < 1) {
-    existing.tokens = tokens;
-    existing.lastRefillMs = now;
-    return false;
-  }
-  existing.tokens = tokens - 1;
-  existing.lastRefillMs = now;
-  return true;
-}
+// Separates the streamed reply from the trailing JSON operations in edit responses
+const OPERATIONS_DELIMITER = '<<<OPERATIONS>>>';
 
 /**
  * @description
- * Chat endpoint that streams or returns a full AI response. If a plan is included, the
- * system prompt enforces an updated plan format when needed.
+ * Chat endpoint that streams the AI response as it is generated. If a plan is included it is
+ * given to the model as context, as is `summary`, a condensed account of the conversation
+ * older than `history`. With `allowEdits` the model may also propose targeted edit
+ * operations; the response is then NDJSON `PlanChatStreamEvent`s that stream the reply before
+ * the operations and token count arrive. Closing the connection aborts the model call.
  *
  * @receives data from:
- * - aiService.ts; chatWithAI: message, history, and optional plan
+ * - aiService.ts; chatWithAI: message, history, optional plan and summary
+ * - aiService.ts; streamChatWithPlanEdits: message, history, plan, optional summary and `allowEdits`
  *
  * @sends data to:
- * - aiService.ts; chatWithAI: streamed text or full response text
+ * - aiService.ts; chatWithAI: streamed response text
+ * - aiService.ts; streamChatWithPlanEdits: NDJSON reply chunks ending in edit operations
  *
  * @sideEffects:
- * - Network calls to Google Generative AI
+ * - Network calls to the configured LLM provider
+ * - Requires a signed-in user (or anonymous demo allowance) via withAuth
+ * - Rate limited per caller via withRateLimit; blocked past the monthly cap via withUsageCap
+ * - Records token usage per LLM call via trackUsage (cancelled calls included)
  */
-export async function POST(req: NextRequest) {
-  // Rate limiting
-  const ip = getClientIp(req);
-  const bucketKey = `chat:${ip}`;
-  if (!rateLimit(bucketKey)) {
-    return new Response(JSON.stringify({ error: 'Too many requests. Please slow down.' }), {
-      status: 429,
-      headers: { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store' },
-    });
-  }
-
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    return new Response(JSON.stringify({ error: 'GEMINI_API_KEY is not set' }), { status: 500 });
+async function handlePost(req: NextRequest, caller: AICaller) {
+  let provider: LLMProvider;
+  try {
+    provider = trackUsage(getLLMProvider(), 'chat', caller);
+  } catch (err: any) {
+    return new Response(JSON.stringify({ error: err.message }), { status: 500 });
   }
 
-  const { message, history, plan } = await req.json();
+  const { message, history, plan, allowEdits, summary } = await req.json();
   if (!message || typeof message !== 'string') {
     return new Response(JSON.stringify({ error: 'Message is required.' }), { status: 400 });
   }
@@ -125,80 +60,203 @@ export async function POST(req: NextRequest) {
   if (Array.isArray(history) && history.length > 50) {
     return new Response(JSON.stringify({ error: 'History too long.' }), { status: 413 });
   }
+  if (summary !== undefined && summary !== null && typeof summary !== 'string') {
+    return new Response(JSON.stringify({ error: 'Summary must be a string.' }), { status: 400 });
+  }
+  if (typeof summary === 'string' && summary.length > 8000) {
+    return new Response(JSON.stringify({ error: 'Summary too long.' }), { status: 413 });
+  }
+  const earlierConversation = summary?.trim()
+    ? `\n\nEARLIER CONVERSATION (older than the chat history, condensed):\n${summary.trim()}`
+    : '';
 
-  const genAI = new GoogleGenerativeAI(apiKey);
-  const model = genAI.getGenerativeModel({ model: MODEL_NAME });
+  const useChatHistory = Array.isArray(history) && history.length > 0 && history[0].role === 'user';
+  const llmHistory = useChatHistory
+    ? (history as GeminiHistoryItem[]).map((h) => ({ role: h.role === 'model' ? ('model' as const) : ('user' as const), text: h.parts }))
+    : undefined;
+
+  if (plan && allowEdits) {
+    return streamPlanEdits(provider, message, plan, llmHistory, earlierConversation, caller, req.signal);
+  }
 
   let systemPrompt = 'You are a helpful assistant. Answer the user\'s questions.';
   if (plan) {
     try {
-      const planString = JSON.stringify(plan, null, 2);
-      systemPrompt = `You are an AI assistant supporting a user with their 90-day plan.\nCONTEXT:\nHere is their current plan structure:\n${planString}\n\nTASK:\nReview the user's latest message in the context of the chat history and the provided plan.\n1. If the user is asking a question, seeking advice, or making a comment that DOES NOT require changing the plan structure: Respond conversationally.\n2. If the user explicitly asks to modify the plan, change focus, add/remove items, or otherwise requests a structural update: Your response MUST contain ONLY the complete, revised 90-day plan. ABSOLUTELY NO other text, introductions, explanations, or confirmations are allowed before or after the plan. The response MUST start directly with "# Goal:" and follow the precise Markdown structure shown below. Ensure every day has a task.\n\nREQUIRED MARKDOWN FORMAT:\n# Goal: [New Goal Title]\n\n## Month 1: [Milestone Title]\n### Week 1: [Objective Title]\n- Day 1: [Task Description]\n- Day 2: [Task Description]\n...\n(Repeat for all months, weeks, and days)\n\nFAILURE TO FOLLOW THIS FORMAT WILL BREAK THE APPLICATION. Output ONLY the Markdown plan.`;
+      systemPrompt = `You are an AI assistant supporting a user with their plan.\nCONTEXT:\nHere is their current plan ([x] marks completed tasks):\n${serializePlan(plan, { checkboxes: true })}\nRespond conversationally to the user's latest message in the context of the chat history and the plan.`;
     } catch {
-      systemPrompt = 'You are a helpful assistant. The user has a 90-day plan, but it could not be formatted for context.';
+      systemPrompt = 'You are a helpful assistant. The user has a plan, but it could not be formatted for context.';
     }
   }
 
-  const formattingReminder = `\n\n[SYSTEM REMINDER: If you are updating the plan based on this message, your response MUST be ONLY the complete, revised plan in the required Markdown format, starting directly with "# Goal:". NO other text is allowed.]`;
-  const userMessage = plan ? message + formattingReminder : message;
+  const abort = abortOnDisconnect(req.signal);
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        const encoder = new TextEncoder();
+        for await (const text of provider.stream({
+          purpose: 'chat',
+          system: systemPrompt + earlierConversation,
+          prompt: message,
+          history: llmHistory,
+          signal: abort.signal,
+        })) {
+          controller.enqueue(encoder.encode(text));
+        }
+        controller.close();
+      } catch (err: any) {
+        // The client went away; the aborted call is recorded as cancelled
+        if (abort.signal.aborted) return;
+        console.error(`[chat] AI request failed for ${caller.key}:`, err);
+        controller.error(err);
+      }
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
 
-  const fullPrompt = `${systemPrompt}\n\nUser: ${userMessage}`;
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/plain; charset=utf-8',
+      'Cache-Control': 'no-store',
+      'Connection': 'keep-alive',
+      'X-Robots-Tag': 'noindex',
+    },
+  });
+}
 
-  const useChatHistory = Array.isArray(history) && history.length > 0 && history[0].role === 'user';
+export const POST = withAuth(withRateLimit('chat', withUsageCap('chat', handlePost)));
 
-  let finalContent = '';
-  try {
-    if (useChatHistory) {
-      const formattedHistory = (history as GeminiHistoryItem[]).map((h) => ({
-        role: h.role === 'model' ? 'model' : 'user',
-        parts: [{ text: h.parts }],
-      }));
-      const chat: any = (model as any).startChat({ history: formattedHistory });
-      const result = await chat.sendMessage(userMessage, {
-        generationConfig: {
-          temperature: GEMINI_CONFIG.chatGeneration.temperature,
-          topK: GEMINI_CONFIG.chatGeneration.topK,
-          topP: GEMINI_CONFIG.chatGeneration.topP,
-          maxOutputTokens: GEMINI_CONFIG.maxOutputTokens,
-          frequencyPenalty: GEMINI_CONFIG.frequencyPenalty,
-          presencePenalty: GEMINI_CONFIG.presencePenalty,
-        },
-      });
-      finalContent = (await result.response).text();
-    } else {
-      const result: any = await (model as any).generateContent(fullPrompt, {
-        generationConfig: {
-          temperature: GEMINI_CONFIG.chatGeneration.temperature,
-          topK: GEMINI_CONFIG.chatGeneration.topK,
-          topP: GEMINI_CONFIG.chatGeneration.topP,
-          maxOutputTokens: GEMINI_CONFIG.maxOutputTokens,
-          frequencyPenalty: GEMINI_CONFIG.frequencyPenalty,
-          presencePenalty: GEMINI_CONFIG.presencePenalty,
-        },
-      });
-      finalContent = (await result.response).text();
-    }
-  } catch (e) {
-    return new Response(JSON.stringify({ error: 'Failed to get chat response from AI service.' }), { status: 500 });
-  }
+/**
+ * @description
+ * Asks the model for a conversational reply plus structured edit operations that reference
+ * plan items by id, instead of re-emitting the whole plan. The model writes its reply as
+ * plain Markdown, then a delimiter line and the operations as a JSON array, so the reply can
+ * be streamed token by token. Text that might be the start of the delimiter is held back
+ * until the next chunk shows it is not. Invalid operations are dropped individually, so a
+ * malformed response still yields the reply text.
+ *
+ * @receives data from:
+ * - route.ts; POST: provider, user message, plan, chat history, earlier conversation, caller and
+ *   the request's abort signal
+ *
+ * @sends data to:
+ * - aiService.ts; streamChatWithPlanEdits: NDJSON `PlanChatStreamEvent`s
+ *
+ * @sideEffects:
+ * - Network calls to the configured LLM provider
+ */
+function streamPlanEdits(
+  provider: LLMProvider,
+  message: string,
+  plan: FullPlan,
+  history: LLMMessage[] | undefined,
+  earlierConversation: string,
+  caller: AICaller,
+  signal: AbortSignal
+): Response {
+  const system = `You are an AI assistant supporting a user with their plan. Every item is prefixed with its id.
 
-  if (plan && typeof finalContent === 'string' && finalContent.includes('# Goal:')) {
-    const idx = finalContent.indexOf('# Goal:');
-    if (idx !== -1) {
-      const extracted = finalContent.substring(idx);
-      if (extracted.includes('## Month') && extracted.includes('### Week')) {
-        finalContent = extracted;
+CURRENT PLAN:
+${formatPlanForEditing(plan)}
+
+Respond in exactly this format:
+1. Your conversational reply to the user (Markdown allowed).
+2. A line containing only ${OPERATIONS_DELIMITER}
+3. A JSON array of edit operations, or [] when nothing should change. Each operation is one of:
+| { "op": "replaceTask", "taskId": string, "description": string }
+| { "op": "moveTask", "taskId": string, "afterTaskId"?: string, "weekId"?: string }
+| { "op": "insertTask", "description": string, "afterTaskId"?: string, "weekId"?: string }
+| { "op": "deleteTask", "taskId": string }
+| { "op": "renameMilestone", "milestoneId": string, "text": string }
+| { "op": "renameObjective", "objectiveId": string, "text": string }
+
+RULES:
+- Only include operations when the user explicitly asks to change the plan; otherwise return an empty array.
+- Use the smallest set of operations that fulfils the request. Never rewrite untouched items.
+- Reference items only by the ids shown above. Use "weekId" to place a task at the start of a week, "afterTaskId" to place it after a task.
+- In the reply, briefly explain the proposed changes; the user reviews them before they are applied.${earlierConversation}`;
+
+  const encoder = new TextEncoder();
+  const abort = abortOnDisconnect(signal);
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: PlanChatStreamEvent) => controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+      let usage: LLMUsage | null = null;
+      let text = '';
+      let sent = 0; // Length of the reply already streamed
+      let delimiterAt = -1;
+
+      try {
+        const onUsage = (reported: LLMUsage) => {
+          usage = reported;
+        };
+        for await (const piece of provider.stream({ purpose: 'chat', system, prompt: message, history, onUsage, signal: abort.signal })) {
+          text += piece;
+          if (delimiterAt >= 0) continue;
+          delimiterAt = text.indexOf(OPERATIONS_DELIMITER);
+          const safeEnd = delimiterAt >= 0 ? delimiterAt : Math.max(sent, text.length - OPERATIONS_DELIMITER.length + 1);
+          if (safeEnd > sent) {
+            send({ type: 'chunk', text: text.slice(sent, safeEnd) });
+            sent = safeEnd;
+          }
+        }
+
+        const tokens = (usage as LLMUsage | null)?.completionTokens;
+        if (delimiterAt < 0) {
+          // No operations section; the whole response is the reply
+          if (text.length > sent) send({ type: 'chunk', text: text.slice(sent) });
+          send({ type: 'result', response: { reply: text.trim(), operations: [] }, tokens });
+        } else {
+          send({
+            type: 'result',
+            response: {
+              reply: text.slice(0, delimiterAt).trim(),
+              operations: parseEditOperations(text.slice(delimiterAt + OPERATIONS_DELIMITER.length)),
+            },
+            tokens,
+          });
+        }
+        controller.close();
+      } catch (err: any) {
+        // The client went away; the aborted call is recorded as cancelled
+        if (abort.signal.aborted) return;
+        console.error(`[chat] Plan edit request failed for ${caller.key}:`, err);
+        send({ type: 'error', error: 'Failed to get chat response from AI service.' });
+        controller.close();
       }
-    }
-  }
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
 
-  return new Response(finalContent ?? '', {
+  return new Response(body, {
     headers: {
-      'Content-Type': 'text/plain; charset=utf-8',
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
       'Cache-Control': 'no-store',
+      'Connection': 'keep-alive',
       'X-Robots-Tag': 'noindex',
     },
   });
 }
 
-
+/**
+ * Reads the operations section of an edit response, keeping each operation that matches
+ * the schema. Also accepts an `{ "operations": [...] }` object.
+ */
+function parseEditOperations(section: string): PlanEditOperation[] {
+  let raw: any;
+  try {
+    raw = JSON.parse(stripJsonFences(section.trim()));
+  } catch {
+    return [];
+  }
+  const items: unknown[] = Array.isArray(raw) ? raw : Array.isArray(raw?.operations) ? raw.operations : [];
+  const operations: PlanEditOperation[] = [];
+  for (const item of items.slice(0, 50)) {
+    const parsed = planEditOperationSchema.safeParse(item);
+    if (parsed.success) operations.push(parsed.data);
+  }
+  return operations;
+}
@@ -1,144 +1,185 @@
 import { NextRequest } from 'next/server';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { getLLMProvider } from '@milestoneAI-next-js/backend/convex/lib/llm';
+import type { LLMProvider } from '@milestoneAI-next-js/backend/convex/lib/llm';
+import type { PlanAvailability } from '../../types/plan-types';
+import { countWorkingDays, describeWorkingDays, getTodayKey, isDateKey, parseAvailability } from '../../utils/plan-dates';
+import { getPlanShape, parseJsonLoose, planDurationSchema, validateGeneratedPlan } from '../../utils/plan-schema';
+import type { PlanStreamEvent } from '../../utils/plan-schema';
+import { abortOnDisconnect } from '../_lib/abort';
+import { withAuth } from '../_lib/auth';
+import type { AICaller } from '../_lib/auth';
+import { withRateLimit } from '../_lib/rate-limit';
+import { trackUsage, withUsageCap } from '../_lib/usage';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-const MODEL_NAME = 'gemini-flash-latest';
+// Initial attempt plus re-asks when the JSON fails validation
+const MAX_JSON_ATTEMPTS = 3;
 
-const GEMINI_CONFIG = {
-  temperature: 0.6,
-  topK: 40,
-  topP: 0.95,
-  maxOutputTokens: 8192,
-  thinkingConfig: {
-    includeThoughts: false,
-    thinkingBudget: 24576,
-  },
-  frequencyPenalty: 0.0,
-  presencePenalty: 0.0,
-  planGeneration: {
-    temperature: 0.6,
-    topK: 40,
-    topP: 0.95,
-    thinkingBudget: 24576,
-  },
-};
+/**
+ * How the plan's calendar span turns into tasks: one task per working day.
+ */
+interface PlanSchedule {
+  duration: number; // Calendar days the plan spans
+  taskCount: number; // Working days within those days
+  tasksPerWeek: number; // Working weekdays, 7 when every day is a working day
+  workingDays: string | null; // Working weekday names, null when every weekday works
+  daysOff: number; // Blackout dates on otherwise working weekdays within the span
+}
+
+/**
+ * Resolves the task count and week size for a plan of `duration` calendar days starting on
+ * `startDate` with the given availability. Without availability every day gets a task.
+ */
+function resolvePlanSchedule(duration: number, startDate: string, availability?: PlanAvailability): PlanSchedule {
+  const taskCount = Math.max(1, countWorkingDays(startDate, duration, availability));
+  const weekdays = availability?.activeWeekdays.length ?? 0;
+  const tasksPerWeek = weekdays > 0 ? weekdays : 7;
+  return {
+    duration,
+    taskCount,
+    tasksPerWeek,
+    workingDays: describeWorkingDays(availability),
+    daysOff: Math.max(0, countWorkingDays(startDate, duration, availability && { ...availability, blackoutDates: [] }) - taskCount),
+  };
+}
+
+/**
+ * Prompt lines telling the model which days are off, or an empty string without days off.
+ */
+function describePlanSchedule(schedule: PlanSchedule): string {
+  if (schedule.taskCount === schedule.duration) return '';
+  const restDays = [
+    schedule.workingDays && `the user only works on ${schedule.workingDays}`,
+    schedule.daysOff > 0 && `${schedule.daysOff} more day${schedule.daysOff === 1 ? ' is' : 's are'} blocked off (holidays or other commitments)`,
+  ].filter(Boolean).join(', and ');
+  return `SCHEDULE: The plan spans ${schedule.duration} calendar days, but ${restDays}. That leaves ${schedule.taskCount} working days: create ONE task per working day (${schedule.taskCount} tasks in total, at most ${schedule.tasksPerWeek} per week) and plan the pace for rest days in between.`;
+}
 
 /**
  * @description
- * Streams a generated 90-day plan using Gemini with strict Markdown format.
+ * Streams a generated plan from the configured LLM provider. The model returns JSON that is
+ * validated against the plan schema and streamed as newline-delimited `PlanStreamEvent`s.
  *
  * @receives data from:
- * - aiService.ts; generatePlan: Goal string to plan for
+ * - aiService.ts; generatePlanStructured: Goal string, duration, and
+ *   optional start date and availability (working weekdays, days off)
  *
  * @sends data to:
- * - aiService.ts; generatePlan: Streamed text chunks of the plan
+ * - aiService.ts; generatePlanStructured: Streamed NDJSON events ending in a validated plan
  *
  * @sideEffects:
- * - Network calls to Google Generative AI
+ * - Network calls to the configured LLM provider
+ * - Requires a signed-in user (or anonymous demo allowance) via withAuth
+ * - Rate limited per caller via withRateLimit; blocked past the monthly cap via withUsageCap
+ * - Records token usage per LLM call via trackUsage (cancelled calls included)
  */
-export async function POST(req: NextRequest) {
-  // Basic in-memory rate limit per IP for plan generation
-  const ipRateMap: Map<string, { tokens: number; lastRefillMs: number }> = (globalThis as any).__planRateMap || new Map();
-  (globalThis as any).__planRateMap = ipRateMap;
-  const xff = req.headers.get('x-forwarded-for');
-  const xri = req.headers.get('x-real-ip');
-  const ip = (xff?.split(',')[0]?.trim() || xri || 'unknown');
-  const now = Date.now();
-  const key = `plan:${ip}`;
-  const limitPerMinute = 20;
-  const burst = 10;
-  const refillRatePerMs = limitPerMinute / 60000;
-  const existing = ipRateMap.get(key);
-  if (!existing) {
-    ipRateMap.set(key, { tokens: burst - 1, lastRefillMs: now });
-  } else {
-    const elapsed = Math.max(0, now - existing.lastRefillMs);
-    const refilled = existing.tokens + elapsed * refillRatePerMs;
-    const tokens = Math.min(burst, refilled);
-    if (tokens < 1) {
-      existing.tokens = tokens;
-      existing.lastRefillMs = now;
-      return new Response(JSON.stringify({ error: 'Too many requests. Please slow down.' }), {
-        status: 429,
-        headers: { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store' },
-      });
-    }
-    existing.tokens = tokens - 1;
-    existing.lastRefillMs = now;
+async function handlePost(req: NextRequest, caller: AICaller) {
+  let provider: LLMProvider;
+  try {
+    provider = trackUsage(getLLMProvider(), 'generate-plan', caller);
+  } catch (err: any) {
+    return new Response(JSON.stringify({ error: err.message }), { status: 500 });
   }
 
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    return new Response(JSON.stringify({ error: 'GEMINI_API_KEY is not set' }), { status: 500 });
-  }
-
-  const { goal, duration } = await req.json().catch(() => ({ goal: '', duration: undefined }));
+  const { goal, duration, startDate, availability } = await req.json().catch(() => ({ goal: '' }));
   if (!goal || typeof goal !== 'string') {
     return new Response(JSON.stringify({ error: 'Goal is required in the request body.' }), { status: 400 });
   }
   if (goal.length > 4000) {
     return new Response(JSON.stringify({ error: 'Goal is too long.' }), { status: 413 });
   }
+  const parsedDuration = planDurationSchema.optional().safeParse(duration ?? undefined);
+  if (!parsedDuration.success) {
+    return new Response(JSON.stringify({ error: parsedDuration.error.issues[0]?.message ?? 'Invalid duration.' }), { status: 400 });
+  }
 
-  const genAI = new GoogleGenerativeAI(apiKey);
-  const model = genAI.getGenerativeModel({
-    model: MODEL_NAME,
-    generationConfig: {
-      temperature: GEMINI_CONFIG.temperature,
-      topK: GEMINI_CONFIG.topK,
-      topP: GEMINI_CONFIG.topP,
-      maxOutputTokens: GEMINI_CONFIG.maxOutputTokens,
-    },
-  });
+  // Tasks fall on working days only, so the task count depends on the start date and days off
+  const schedule = resolvePlanSchedule(
+    parsedDuration.data ?? 90,
+    isDateKey(startDate) ? startDate : getTodayKey(),
+    parseAvailability(availability)
+  );
+
+  return streamJsonPlan(provider, goal, schedule, caller, req.signal);
+}
 
-  const prompt = createPlanPrompt(goal, duration);
+export const POST = withAuth(withRateLimit('generate-plan', withUsageCap('generate-plan', handlePost)));
+
+/**
+ * @description
+ * Generates a plan in JSON mode. Each attempt's raw text is streamed as `chunk` events so the
+ * client can render partial results; the complete output is then parsed (repairing fences and
+ * truncation), validated and renumbered. Remaining schema or task-count problems trigger a
+ * re-ask that includes the previous output and the list of issues. Closing the connection
+ * aborts the model call and skips any remaining attempts.
+ *
+ * @receives data from:
+ * - route.ts; POST: LLM provider, goal, resolved schedule, the authenticated caller and the
+ *   request's abort signal
+ *
+ * @sends data to:
+ * - aiService.ts; generatePlanStructured: NDJSON `PlanStreamEvent`s
+ *
+ * @sideEffects:
+ * - Network calls to the configured LLM provider
+ */
+function streamJsonPlan(
+  provider: LLMProvider,
+  goal: string,
+  schedule: PlanSchedule,
+  caller: AICaller,
+  signal: AbortSignal
+): Response {
+  const encoder = new TextEncoder();
+  const basePrompt = createJsonPlanPrompt(goal, schedule);
+  const abort = abortOnDisconnect(signal);
 
   const stream = new ReadableStream<Uint8Array>({
-    /**
-     * @description
-     * Streams chunks from Gemini to the HTTP client.
-     *
-     * @receives data from:
-     * - route.ts; POST: prompt and model stream iterator
-     *
-     * @sends data to:
-     * - aiService.ts; generatePlan: reads text chunks
-     *
-     * @sideEffects:
-     * - None beyond network IO
-     */
     async start(controller) {
+      const send = (event: PlanStreamEvent) => controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+      let prompt = basePrompt;
+
       try {
-        const result: any = await (model as any).generateContentStream(prompt, {
-          generationConfig: {
-            temperature: GEMINI_CONFIG.planGeneration.temperature,
-            topK: GEMINI_CONFIG.planGeneration.topK,
-            topP: GEMINI_CONFIG.planGeneration.topP,
-            maxOutputTokens: GEMINI_CONFIG.maxOutputTokens,
-            frequencyPenalty: GEMINI_CONFIG.frequencyPenalty,
-            presencePenalty: GEMINI_CONFIG.presencePenalty,
-          },
-        });
+        for (let attempt = 1; attempt <= MAX_JSON_ATTEMPTS; attempt++) {
+          let text = '';
+          for await (const piece of provider.stream({ purpose: 'plan', prompt, json: true, signal: abort.signal })) {
+            text += piece;
+            send({ type: 'chunk', text: piece });
+          }
 
-        const encoder = new TextEncoder();
-        for await (const chunk of result.stream) {
-          const text = chunk.text?.();
-          if (text) {
-            controller.enqueue(encoder.encode(text));
+          const { plan, issues } = validateGeneratedPlan(parseJsonLoose(text), schedule.taskCount);
+          if (plan && (issues.length === 0 || attempt === MAX_JSON_ATTEMPTS)) {
+            send({ type: 'plan', plan, issues });
+            controller.close();
+            return;
+          }
+          if (attempt === MAX_JSON_ATTEMPTS) {
+            send({ type: 'error', error: 'The generated plan did not match the expected structure.', issues });
+            controller.close();
+            return;
           }
+
+          console.warn(`[generate-plan] JSON attempt ${attempt} for ${caller.key} failed validation:`, issues);
+          send({ type: 'retry', attempt: attempt + 1, issues });
+          prompt = createJsonRepairPrompt(basePrompt, text, issues);
         }
-        controller.close();
       } catch (err: any) {
-        controller.error(err);
+        // The client went away; the aborted call is recorded as cancelled
+        if (abort.signal.aborted) return;
+        send({ type: 'error', error: err?.message || 'Plan generation failed.' });
+        controller.close();
       }
     },
+    cancel() {
+      abort.abort();
+    },
   });
 
   return new Response(stream, {
     headers: {
-      'Content-Type': 'text/plain; charset=utf-8',
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
       'Cache-Control': 'no-store',
       'Connection': 'keep-alive',
       'X-Robots-Tag': 'noindex',
@@ -148,270 +189,79 @@ export async function POST(req: NextRequest) {
 
 /**
  * @description
- * Builds the strict Markdown plan prompt using the user's goal.
+ * Builds the JSON plan prompt, spelling out the exact number of months, weeks and tasks.
  *
  * @receives data from:
- * - route.ts; POST: goal string from request
+ * - route.ts; streamJsonPlan: goal and resolved schedule
  *
  * @sends data to:
- * - Google Generative AI; generateContentStream: prompt string
+ * - LLM provider; stream: prompt string
  *
  * @sideEffects:
  * - None
  */
-function createPlanPrompt(goal: string, duration?: number): string {
-  // Default to 90 days if no duration specified
-  const planDuration = duration || 90;
-
-  // Calculate structure based on duration
-  const daysPerWeek = 7;
-  const weeksPerMonth = 4;
-
-  let structureDescription = '';
-  let totalMonths = 0;
-  let totalWeeks = 0;
-
-  if (planDuration === 7) {
-    // 7-day sprint: 1 week, exactly 7 tasks
-    structureDescription = `# Goal: ${goal}
-
-## Week 1: [One-sentence objective for this 7-day sprint]
-- Day 1: [Actionable task for day 1]
-- Day 2: [Actionable task for day 2]
-- Day 3: [Actionable task for day 3]
-- Day 4: [Actionable task for day 4]
-- Day 5: [Actionable task for day 5]
-- Day 6: [Actionable task for day 6]
-- Day 7: [Actionable task for day 7]`;
-    totalWeeks = 1;
-  } else if (planDuration === 30) {
-    // 30-day month: 4 weeks, exactly 30 tasks
-    structureDescription = `# Goal: ${goal}
-
-## Month 1: [One-sentence milestone for this month]
-### Week 1: [Weekly objective]
-- Day 1: [Task]
-- Day 2: [Task]
-- Day 3: [Task]
-- Day 4: [Task]
-- Day 5: [Task]
-- Day 6: [Task]
-- Day 7: [Task]
-### Week 2: [Weekly objective]
-- Day 1: [Task]
-- Day 2: [Task]
-- Day 3: [Task]
-- Day 4: [Task]
-- Day 5: [Task]
-- Day 6: [Task]
-- Day 7: [Task]
-### Week 3: [Weekly objective]
-- Day 1: [Task]
-- Day 2: [Task]
-- Day 3: [Task]
-- Day 4: [Task]
-- Day 5: [Task]
-- Day 6: [Task]
-- Day 7: [Task]
-### Week 4: [Weekly objective]
-- Day 1: [Task]
-- Day 2: [Task]
-- Day 3: [Task]
-- Day 4: [Task]
-- Day 5: [Task]
-- Day 6: [Task]
-- Day 7: [Task]`;
-    totalMonths = 1;
-    totalWeeks = 4;
-  } else if (planDuration === 90) {
-    // 90-day quarter: 12 weeks, 3 months, exactly 90 tasks
-    structureDescription = `# Goal: ${goal}
-
-## Month 1: [Monthly milestone]
-### Week 1: [Weekly objective]
-- Day 1: [Task]
-- Day 2: [Task]
-- Day 3: [Task]
-- Day 4: [Task]
-- Day 5: [Task]
-- Day 6: [Task]
-- Day 7: [Task]
-### Week 2: [Weekly objective]
-- Day 1: [Task]
-- Day 2: [Task]
-- Day 3: [Task]
-- Day 4: [Task]
-- Day 5: [Task]
-- Day 6: [Task]
-- Day 7: [Task]
-### Week 3: [Weekly objective]
-- Day 1: [Task]
-- Day 2: [Task]
-- Day 3: [Task]
-- Day 4: [Task]
-- Day 5: [Task]
-- Day 6: [Task]
-- Day 7: [Task]
-### Week 4: [Weekly objective]
-- Day 1: [Task]
-- Day 2: [Task]
-- Day 3: [Task]
-- Day 4: [Task]
-- Day 5: [Task]
-- Day 6: [Task]
-- Day 7: [Task]
-
-## Month 2: [Monthly milestone]
-### Week 5: [Weekly objective]
-- Day 1: [Task]
-- Day 2: [Task]
-- Day 3: [Task]
-- Day 4: [Task]
-- Day 5: [Task]
-- Day 6: [Task]
-- Day 7: [Task]
-### Week 6: [Weekly objective]
-- Day 1: [Task]
-- Day 2: [Task]
-- Day 3: [Task]
-- Day 4: [Task]
-- Day 5: [Task]
-- Day 6: [Task]
-- Day 7: [Task]
-### Week 7: [Weekly objective]
-- Day 1: [Task]
-- Day 2: [Task]
-- Day 3: [Task]
-- Day 4: [Task]
-- Day 5: [Task]
-- Day 6: [Task]
-- Day 7: [Task]
-### Week 8: [Weekly objective]
-- Day 1: [Task]
-- Day 2: [Task]
-- Day 3: [Task]
-- Day 4: [Task]
-- Day 5: [Task]
-- Day 6: [Task]
-- Day 7: [Task]
-
-## Month 3: [Monthly milestone]
-### Week 9: [Weekly objective]
-- Day 1: [Task]
-- Day 2: [Task]
-- Day 3: [Task]
-- Day 4: [Task]
-- Day 5: [Task]
-- Day 6: [Task]
-- Day 7: [Task]
-### Week 10: [Weekly objective]
-- Day 1: [Task]
-- Day 2: [Task]
-- Day 3: [Task]
-- Day 4: [Task]
-- Day 5: [Task]
-- Day 6: [Task]
-- Day 7: [Task]
-### Week 11: [Weekly objective]
-- Day 1: [Task]
-- Day 2: [Task]
-- Day 3: [Task]
-- Day 4: [Task]
-- Day 5: [Task]
-- Day 6: [Task]
-- Day 7: [Task]
-### Week 12: [Weekly objective]
-- Day 1: [Task]
-- Day 2: [Task]
-- Day 3: [Task]
-- Day 4: [Task]
-- Day 5: [Task]
-- Day 6: [Task]
-- Day 7: [Task]`;
-    totalMonths = 3;
-    totalWeeks = 12;
-  } else {
-    // Custom duration - calculate months and weeks dynamically
-    const totalWeeksNeeded = Math.ceil(planDuration / daysPerWeek);
-    totalMonths = Math.ceil(totalWeeksNeeded / weeksPerMonth);
-    totalWeeks = totalWeeksNeeded;
-
-    structureDescription = `# Goal: ${goal}`;
-
-    for (let month = 1; month <= totalMonths; month++) {
-      structureDescription += `
-
-## Month ${month}: [Monthly milestone for Month ${month}]`;
-      const weeksInMonth = month === totalMonths ? (totalWeeks - (month - 1) * weeksPerMonth) : weeksPerMonth;
-
-      for (let week = 1; week <= weeksInMonth; week++) {
-        const globalWeekNum = (month - 1) * weeksPerMonth + week;
-        structureDescription += `
-### Week ${globalWeekNum}: [Weekly objective for Week ${globalWeekNum}]
-- Day 1: [Specific actionable task for Day 1]
-- Day 2: [Specific actionable task for Day 2]
-- Day 3: [Specific actionable task for Day 3]
-- Day 4: [Specific actionable task for Day 4]
-- Day 5: [Specific actionable task for Day 5]
-- Day 6: [Specific actionable task for Day 6]
-- Day 7: [Specific actionable task for Day 7]`;
-      }
-    }
-  }
-
-  const durationContext = duration ?
-    `This is a ${planDuration}-day plan. Create exactly ${planDuration} specific, actionable tasks - one for each day.` :
-    'Create a comprehensive 90-day plan with exactly 90 specific, actionable tasks.';
-
-  return `You are an expert project planner. Create EXACTLY ${planDuration} UNIQUE, sequential daily tasks to achieve this goal:
+function createJsonPlanPrompt(goal: string, schedule: PlanSchedule): string {
+  const { duration, taskCount } = schedule;
+  const shape = getPlanShape(taskCount, schedule.tasksPerWeek);
+  const scheduleNote = describePlanSchedule(schedule);
+  let weekNumber = 0;
+  const layout = shape
+    .map((weeks, monthIndex) => {
+      const weekLines = weeks.map((tasks) => `  - Week ${++weekNumber}: exactly ${tasks} daily task${tasks === 1 ? '' : 's'}`);
+      return [`- Month ${monthIndex + 1}:`, ...weekLines].join('\n');
+    })
+    .join('\n');
+
+  return `You are an expert project planner. Create a ${duration}-day plan with EXACTLY ${taskCount} UNIQUE, sequential daily tasks to achieve this goal:
 
 GOAL: "${goal}"
+${scheduleNote ? `\n${scheduleNote}\n` : ''}
+REQUIREMENTS:
+- Exactly ${taskCount} completely different, specific and actionable tasks (no duplicates)
+- Progress from foundations to building, advancement and mastery
+- Each month has a one-sentence milestone; each week has a one-sentence objective
+
+STRUCTURE (follow exactly):
+${layout}
+
+Respond with ONLY a JSON object matching this TypeScript type, with no markdown or extra text:
+{
+  "goal": string,
+  "monthlyMilestones": Array<{
+    "month": number,
+    "milestone": string,
+    "weeklyObjectives": Array<{
+      "week": number,
+      "objective": string,
+      "dailyTasks": Array<{ "day": number, "description": string }>
+    }>
+  }>
+}
 
-${durationContext}
-
-CRITICAL REQUIREMENTS:
-- Generate exactly ${planDuration} COMPLETELY DIFFERENT tasks (no duplicates, no similarities)
-- Each task must target a different aspect, skill, or approach
-- Progress from beginner basics to advanced mastery
-- Use different methods, tools, perspectives, and angles for each task
-
-PHASE BREAKDOWN - Distribute tasks across these phases:
-1. FOUNDATION (${Math.floor(planDuration * 0.25)} tasks): Research, planning, basic concepts
-2. BUILDING (${Math.floor(planDuration * 0.30)} tasks): Core skills, initial implementation
-3. ADVANCEMENT (${Math.floor(planDuration * 0.25)} tasks): Deeper practice, refinement
-4. MASTERY (${Math.floor(planDuration * 0.20)} tasks): Advanced techniques, optimization
-
-UNIQUENESS STRATEGIES - For each task, vary by:
-- Different skills/techniques to practice
-- Different tools/resources to use
-- Different perspectives or approaches
-- Different contexts or scenarios
-- Different depths of complexity
-- Different time allocations or intensities
-
-TASK VARIATION EXAMPLES:
-Instead of multiple "practice X" tasks, create:
-- Study X fundamentals
-- Apply X in a simple project
-- Teach X concepts to others
-- Analyze expert X implementations
-- Create X documentation
-- Debug X issues
-- Optimize X performance
-- Integrate X with other tools
+"week" numbers continue across months (Month 2 starts at Week 5). "day" restarts at 1 in every week.`;
+}
 
-FORMATTING: Use EXACTLY this structure:
+/**
+ * @description
+ * Builds a follow-up prompt asking the model to fix a response that failed validation.
+ *
+ * @receives data from:
+ * - route.ts; streamJsonPlan: original prompt, previous output and validation issues
+ *
+ * @sends data to:
+ * - LLM provider; stream: prompt string
+ *
+ * @sideEffects:
+ * - None
+ */
+function createJsonRepairPrompt(basePrompt: string, previousOutput: string, issues: string[]): string {
+  return `${basePrompt}
 
-${structureDescription}
+Your previous response was rejected for these reasons:
+${issues.map((issue) => `- ${issue}`).join('\n')}
 
-VALIDATION CHECKLIST:
-□ Exactly ${planDuration} unique tasks (count them)
-□ No two tasks are similar or could be considered the same activity
-□ Each task has a different focus/skill/technique
-□ Tasks progress logically from basic to advanced
-□ All tasks are specific and actionable
+Previous response:
+${previousOutput.slice(0, 20000)}
 
-OUTPUT: Only the formatted structure above, no extra text or explanations.`;
+Return the COMPLETE corrected JSON object only.`;
 }
-
-
@@ -0,0 +1,149 @@
+import { NextRequest } from 'next/server';
+import { getLLMProvider, stripJsonFences } from '@milestoneAI-next-js/backend/convex/lib/llm';
+import type { LLMProvider } from '@milestoneAI-next-js/backend/convex/lib/llm';
+import { isFullPlan } from '../../types/plan-types';
+import type { FullPlan } from '../../types/plan-types';
+import { describeWorkingDays, getPlanScheduleDateKeys, getTodayKey } from '../../utils/plan-dates';
+import { getReplanWindow, replanResponseSchema } from '../../utils/replan';
+import type { ReplanResponse, ReplanWindow } from '../../utils/replan';
+import { withAuth } from '../_lib/auth';
+import type { AICaller } from '../_lib/auth';
+import { withRateLimit } from '../_lib/rate-limit';
+import { trackUsage, withUsageCap } from '../_lib/usage';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * @description
+ * Asks the model to reschedule a plan the user has fallen behind on. The model sees the
+ * overdue and upcoming incomplete tasks, the remaining days and the goal, and returns one
+ * schedule entry per day from today that keeps, merges or trims tasks; tasks it leaves out
+ * are dropped. Entries are checked against the plan before they are returned, and nothing
+ * is saved here: the client previews the result and applies it.
+ *
+ * @receives data from:
+ * - aiService.ts; replanFromToday: current plan
+ *
+ * @sends data to:
+ * - aiService.ts; replanFromToday: JSON `ReplanResponse`
+ *
+ * @sideEffects:
+ * - Network calls to the configured LLM provider
+ * - Requires a signed-in user (or anonymous demo allowance) via withAuth
+ * - Rate limited per caller via withRateLimit; blocked past the monthly cap via withUsageCap
+ * - Records token usage per LLM call via trackUsage
+ */
+async function handlePost(req: NextRequest, caller: AICaller) {
+  let provider: LLMProvider;
+  try {
+    provider = trackUsage(getLLMProvider(), 'replan', caller);
+  } catch (err: any) {
+    return new Response(JSON.stringify({ error: err.message }), { status: 500 });
+  }
+
+  const { plan } = await req.json().catch(() => ({ plan: null }));
+  if (!isFullPlan(plan)) {
+    return new Response(JSON.stringify({ error: 'A valid plan is required.' }), { status: 400 });
+  }
+
+  const window = getReplanWindow(plan);
+  if (!window) {
+    return new Response(
+      JSON.stringify({ error: 'There is nothing to replan: the plan has no overdue tasks or is not running today.' }),
+      { status: 400 }
+    );
+  }
+
+  try {
+    const text = stripJsonFences(
+      await provider.generate({ purpose: 'replan', prompt: createReplanPrompt(plan, window), json: true })
+    );
+    const parsed = replanResponseSchema.safeParse(JSON.parse(text));
+    if (!parsed.success) {
+      console.error(`[replan] Invalid model response for ${caller.key}:`, parsed.error.issues);
+      return new Response(JSON.stringify({ error: 'The AI returned an unusable schedule. Please try again.' }), { status: 502 });
+    }
+
+    const response: ReplanResponse = {
+      summary: parsed.data.summary.trim(),
+      schedule: filterSchedule(parsed.data.schedule, window),
+    };
+    return new Response(JSON.stringify(response), {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (err: any) {
+    console.error(`[replan] AI request failed for ${caller.key}:`, err);
+    return new Response(JSON.stringify({ error: 'Failed to replan. Please try again.' }), { status: 500 });
+  }
+}
+
+export const POST = withAuth(withRateLimit('replan', withUsageCap('replan', handlePost)));
+
+/**
+ * Keeps only ids of tasks that may be rescheduled, each at most once, and at most one
+ * entry per remaining day.
+ */
+function filterSchedule(schedule: ReplanResponse['schedule'], window: ReplanWindow): ReplanResponse['schedule'] {
+  const allowed = new Set([...window.overdue, ...window.upcoming].map(({ task }) => task.id));
+  const used = new Set<string>();
+  const filtered: ReplanResponse['schedule'] = [];
+  for (const entry of schedule) {
+    if (filtered.length >= window.remainingDays) break;
+    const taskIds = entry.taskIds.filter((id) => allowed.has(id) && !used.has(id));
+    if (taskIds.length === 0) continue;
+    taskIds.forEach((id) => used.add(id));
+    filtered.push(entry.description ? { taskIds, description: entry.description } : { taskIds });
+  }
+  return filtered;
+}
+
+/**
+ * @description
+ * Builds the replanning prompt: the goal, where today falls in the schedule, and the
+ * incomplete tasks with their ids.
+ *
+ * @receives data from:
+ * - route.ts; POST: plan and its replan window
+ *
+ * @sends data to:
+ * - LLM provider; generate: replanning prompt
+ *
+ * @sideEffects:
+ * - None
+ */
+function createReplanPrompt(plan: FullPlan, window: ReplanWindow): string {
+  const scheduleKeys = getPlanScheduleDateKeys(plan);
+  const totalDays = window.todayIndex + window.remainingDays;
+  // Remaining days count working days only; days off never get a schedule entry
+  const workingDays = describeWorkingDays(plan.availability);
+  const describe = ({ dayNumber, task }: ReplanWindow['overdue'][number]) =>
+    `[task:${task.id}] Day ${dayNumber}: ${task.description}`;
+
+  return `You are an expert project coach rescheduling a plan the user has fallen behind on.
+
+GOAL: "${plan.goal}"
+TODAY: ${getTodayKey(plan.timezone)}, day ${window.todayIndex + 1} of ${totalDays}. The plan ends on ${scheduleKeys[scheduleKeys.length - 1]}.
+REMAINING DAYS: ${window.remainingDays}${workingDays ? ` (working days only: ${workingDays})` : ''}
+
+OVERDUE TASKS (scheduled before today, not done):
+${window.overdue.map(describe).join('\n')}
+
+UPCOMING TASKS (from today on, not done):
+${window.upcoming.map(describe).join('\n') || '(none)'}
+
+Redistribute this work over the remaining days. Respond with ONLY a JSON object in this format:
+{"summary": string, "schedule": [{"taskIds": string[], "description"?: string}]}
+
+RULES:
+- schedule[0] is the next working day (today if it is one), schedule[1] the working day after, and so on. Use at most ${window.remainingDays} entries, one day's work each.
+- Reference tasks only by the ids shown above. Use each id at most once.
+- To merge related tasks into one day, list several ids and give a combined "description".
+- To trim a task so it fits a day, give a shorter "description"; otherwise omit "description".
+- Leave out tasks that matter least for the goal when everything cannot fit; they will be dropped.
+- Keep the order in which the work builds towards the goal, and fit the most important overdue work in early.
+- "summary": 1-2 sentences telling the user what changed and why, without guilt.`;
+}
@@ -1,18 +1,14 @@
 import { NextRequest } from "next/server";
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import { getLLMProvider, stripJsonFences } from "@milestoneAI-next-js/backend/convex/lib/llm";
+import type { LLMProvider } from "@milestoneAI-next-js/backend/convex/lib/llm";
+import { withAuth } from "../_lib/auth";
+import type { AICaller } from "../_lib/auth";
+import { withRateLimit } from "../_lib/rate-limit";
+import { trackUsage, withUsageCap } from "../_lib/usage";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-const MODEL_NAME = "gemini-flash-latest";
-
-const GEMINI_CONFIG = {
-  temperature: 0.3,
-  topK: 40,
-  topP: 0.95,
-  maxOutputTokens: 8192,
-};
-
 function getEndDate(currentDateTime: any, duration: number): string {
   if (!currentDateTime || !currentDateTime.timestamp) {
     return "the end of the sprint";
@@ -42,15 +38,19 @@ function getEndDate(currentDateTime: any, duration: number): string {
  * - goal-page.tsx; validateGoal: JSON response with validation result and suggestions
  *
  * @sideEffects:
- * - Network calls to Google Generative AI
+ * - Network calls to the configured LLM provider
+ * - Requires a signed-in user (or anonymous demo allowance) via withAuth
+ * - Rate limited per caller via withRateLimit; blocked past the monthly cap via withUsageCap
+ * - Records token usage per LLM call via trackUsage
  */
-export async function POST(req: NextRequest) {
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    return new Response(
-      JSON.stringify({ error: "GEMINI_API_KEY is not set" }),
-      { status: 500 }
-    );
+async function handlePost(req: NextRequest, caller: AICaller) {
+  let provider: LLMProvider;
+  try {
+    provider = trackUsage(getLLMProvider(), "validate-goal", caller);
+  } catch (err: any) {
+    return new Response(JSON.stringify({ error: err.message }), {
+      status: 500,
+    });
   }
 
   const { goal, duration, currentDateTime } = await req
@@ -70,36 +70,18 @@ export async function POST(req: NextRequest) {
   }
 
   try {
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({
-      model: MODEL_NAME,
-      generationConfig: {
-        temperature: GEMINI_CONFIG.temperature,
-        topK: GEMINI_CONFIG.topK,
-        topP: GEMINI_CONFIG.topP,
-        maxOutputTokens: GEMINI_CONFIG.maxOutputTokens,
-      },
-    });
-
     const prompt = createValidationPrompt(
       goal,
       duration || undefined,
       currentDateTime
     );
 
-    const result = await model.generateContent(prompt);
-    const response = result.response;
-    let text = response.text();
-
-    // Clean up the response - Gemini sometimes wraps JSON in markdown code blocks
-    text = text.trim();
-    if (text.startsWith("```json")) {
-      text = text.replace(/^```json\s*/, "").replace(/\s*```$/, "");
-    } else if (text.startsWith("```")) {
-      text = text.replace(/^```\s*/, "").replace(/\s*```$/, "");
-    }
+    // Models sometimes wrap JSON in markdown code blocks
+    const text = stripJsonFences(
+      await provider.generate({ purpose: "validation", prompt, json: true })
+    );
 
-    // Parse the JSON response from Gemini
+    // Parse the JSON response from the model
     const validationResult = JSON.parse(text);
 
     return new Response(JSON.stringify(validationResult), {
@@ -109,7 +91,7 @@ export async function POST(req: NextRequest) {
       },
     });
   } catch (err: any) {
-    console.error("Goal validation error:", err);
+    console.error(`Goal validation error for ${caller.key}:`, err);
     return new Response(
       JSON.stringify({
         error: "Failed to validate goal. Please try again.",
@@ -121,6 +103,8 @@ export async function POST(req: NextRequest) {
   }
 }
 
+export const POST = withAuth(withRateLimit("validate-goal", withUsageCap("validate-goal", handlePost)));
+
 /**
  * @description
  * Builds the validation prompt for goal assessment with strict timeframe enforcement.
@@ -129,7 +113,7 @@ export async function POST(req: NextRequest) {
  * - route.ts; POST: goal string, duration, and current date/time context
  *
  * @sends data to:
- * - Google Generative AI; generateContent: timeframe-specific validation prompt
+ * - LLM provider; generate: timeframe-specific validation prompt
  *
  * @sideEffects:
  * - None
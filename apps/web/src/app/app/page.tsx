@@ -1,5 +1,7 @@
 "use client";
-import { Suspense, lazy } from "react";
+import { Suspense, lazy, useEffect, useRef } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import type { Id } from "@milestoneAI-next-js/backend/convex/_generated/dataModel";
 import { usePlan } from "../contexts/plan-context";
 
 // Lazy load page components for route-based code splitting
@@ -8,7 +10,22 @@ const GoalPage = lazy(() => import("../components/planning/goal-page"));
 const MilestonePage = lazy(() => import("../components/planning/milestone-page"));
 
 function AppContent() {
-  const { selectedDuration, goal } = usePlan();
+  const { selectedDuration, goal, openPlanById } = usePlan();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const openedLinkRef = useRef<string | null>(null);
+
+  // Links such as /app?plan=<id>&day=<N> (from the profile heatmap) open that plan in the
+  // calendar at its "Day N"
+  const linkedPlanId = searchParams.get("plan");
+  const linkedDay = Number(searchParams.get("day"));
+  useEffect(() => {
+    if (!linkedPlanId) return;
+    const link = `${linkedPlanId}|${linkedDay}`;
+    if (openedLinkRef.current === link) return;
+    openedLinkRef.current = link;
+    void openPlanById(linkedPlanId as Id<"plans">, Number.isInteger(linkedDay) && linkedDay > 0 ? linkedDay : null).finally(() => router.replace("/app"));
+  }, [linkedPlanId, linkedDay, openPlanById, router]);
 
   // If no duration is selected, show the planning page first
   // If duration is selected but no goal is set, show the goal page
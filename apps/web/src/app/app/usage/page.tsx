@@ -0,0 +1,16 @@
+"use client";
+import { Suspense, lazy } from "react";
+
+const UsagePage = lazy(() => import("../../components/usage/usage-page"));
+
+export default function AppUsagePage() {
+  return (
+    <Suspense fallback={
+      <div className="flex items-center justify-center min-h-screen" style={{ backgroundColor: 'var(--bg-deep)' }}>
+        <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-white"></div>
+      </div>
+    }>
+      <UsagePage />
+    </Suspense>
+  );
+}
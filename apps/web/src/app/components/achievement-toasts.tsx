@@ -0,0 +1,47 @@
+"use client";
+import { useEffect, useRef } from "react";
+import { toast } from "sonner";
+import { useConvexAuth, useMutation, useQuery } from "convex/react";
+import { api } from "@milestoneAI-next-js/backend/convex/_generated/api";
+import { achievementDefinitions } from "../config/achievements";
+
+/**
+ * @description
+ * Announces newly unlocked achievements. Subscribes to unlocks the server recorded but the
+ * app has not shown yet, shows a toast for each and marks them as notified so they are shown
+ * once, whichever tab or device sees them first. Renders nothing.
+ *
+ * @receives data from:
+ * - convex/achievements.ts; listUnnotifiedUnlocks: unlocks awaiting a toast
+ *
+ * @sends data to:
+ * - convex/achievements.ts; markUnlocksNotified: ids of the announced unlocks
+ *
+ * @sideEffects:
+ * - Shows sonner toasts
+ */
+export default function AchievementToasts() {
+  const { isAuthenticated } = useConvexAuth();
+  const unlocks = useQuery(api.achievements.listUnnotifiedUnlocks, isAuthenticated ? {} : "skip");
+  const markNotified = useMutation(api.achievements.markUnlocksNotified);
+  // The subscription still lists an unlock until the mark round-trips; toast it only once
+  const shown = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!unlocks) return;
+    const fresh = unlocks.filter((unlock) => !shown.current.has(unlock._id));
+    if (fresh.length === 0) return;
+
+    for (const unlock of fresh) {
+      shown.current.add(unlock._id);
+      const definition = achievementDefinitions.find((d) => d.id === unlock.achievementId);
+      if (!definition) continue;
+      toast.success(`Achievement unlocked: ${definition.name}`, { description: definition.description });
+    }
+    markNotified({ ids: fresh.map((unlock) => unlock._id) }).catch((error) => {
+      console.error("[AchievementToasts] Failed to mark unlocks as notified:", error);
+    });
+  }, [unlocks, markNotified]);
+
+  return null;
+}
@@ -1,4 +1,4 @@
-import React, { useState, lazy, Suspense, useMemo, useCallback } from "react";
+import React, { useState, lazy, Suspense, useMemo, useCallback, useEffect } from "react";
 import type {
   FullPlan,
   MonthlyMilestone,
@@ -6,7 +6,21 @@ import type {
   DailyTask,
 } from "../../types/plan-types";
 import { usePlan } from "../../contexts/plan-context";
-import { chatWithAI } from "../../services/ai-service";
+import { streamChatWithPlanEdits } from "../../services/ai-service";
+import type { PlanChatReply } from "../../utils/plan-edits";
+import {
+  daysBetweenKeys,
+  flattenPlanTasks,
+  getPlanScheduleDateKeys,
+  getPlanStartDateKey,
+  getTodayKey,
+  isAvailableDay,
+  parseDateKey,
+  toDateKey,
+} from "../../utils/plan-dates";
+import { findTaskById } from "../../utils/plan-ids";
+import { buildTaskChatHistory, formatTaskChatContext } from "../../utils/task-chat-context";
+import type { TaskChatMessage, TaskThreadSummary } from "../../utils/task-chat-context";
 import { FaCheck, FaCalendarAlt } from "react-icons/fa";
 
 // Lazy load modal component
@@ -25,49 +39,55 @@ interface CalendarProps {
  *
  * @receives data from:
  * - milestone-page.tsx; plan: Full plan data to display in calendar format
+ * - milestone-page.tsx; streamingPlan: Plan built incrementally while it is generated
  * - contexts/PlanContext.tsx; toggleTaskCompletion: Function to update task completion
+ * - contexts/PlanContext.tsx; focusDayNumber: Plan day to scroll to, e.g. from a heatmap link
  *
  * @sends data to:
  * - contexts/PlanContext.tsx; toggleTaskCompletion: Updates task completion status
  *
  * @sideEffects:
  * - Updates task completion state through context
+ * - Scrolls to and highlights the focused plan day, then clears the focus
  */
 const Calendar: React.FC<CalendarProps> = ({
   plan,
   streamingText,
   streamingPlan,
 }) => {
-  const { toggleTaskCompletion } = usePlan();
+  const { toggleTaskCompletion, focusDayNumber, clearFocusDay } = usePlan();
   const [currentDate] = React.useState(new Date());
-  const [selectedTask, setSelectedTask] = useState<DailyTask | null>(null);
-  const [selectedTaskIndices, setSelectedTaskIndices] = useState<{monthIndex: number, weekIndex: number, taskDay: number} | null>(null);
+  const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
   const [isTaskModalOpen, setIsTaskModalOpen] = useState(false);
   const [hoveredTaskId, setHoveredTaskId] = useState<string | null>(null);
+  const [highlightedDateKey, setHighlightedDateKey] = useState<string | null>(null);
 
   // Use streaming plan if available, otherwise use regular plan
   const displayPlan = streamingPlan || plan;
+  // Streamed tasks are a preview: they are not saved yet and cannot be opened or completed
+  const isStreaming = Boolean(streamingPlan);
 
-  // Calculate plan duration and date range
+  // Resolve the selected task from the live plan so completion changes show in the modal
+  const selectedTask = useMemo(
+    () => (displayPlan && selectedTaskId ? findTaskById(displayPlan, selectedTaskId)?.task ?? null : null),
+    [displayPlan, selectedTaskId]
+  );
+
+  // Calculate the calendar dates of the plan's tasks and the range they span
   const planDateRange = React.useMemo(() => {
     if (!displayPlan) return null;
 
-    const startDate = new Date(); // Start from today
-    let totalDays = 0;
-
-    // Calculate total days in the plan
-    displayPlan.monthlyMilestones?.forEach((month) => {
-      month.weeklyObjectives?.forEach((week) => {
-        totalDays += week.dailyTasks?.length || 0;
-      });
-    });
+    // Day 1 is pinned to the plan's persisted start date; days off are skipped
+    const startKey = getPlanStartDateKey(displayPlan);
+    const scheduleKeys = getPlanScheduleDateKeys(displayPlan);
 
     // If we can't determine duration, default to 90 days
-    const planDays = totalDays > 0 ? totalDays : 90;
+    const totalDays = scheduleKeys.length > 0 ? daysBetweenKeys(startKey, scheduleKeys[scheduleKeys.length - 1]) + 1 : 90;
+    const startDate = parseDateKey(startKey);
     const endDate = new Date(startDate);
-    endDate.setDate(startDate.getDate() + planDays - 1);
+    endDate.setDate(startDate.getDate() + totalDays - 1);
 
-    return { startDate, endDate, totalDays: planDays };
+    return { startDate, endDate, totalDays, scheduleKeys };
   }, [displayPlan]);
 
   // Generate calendar data structure with actual dates
@@ -81,10 +101,13 @@ const Calendar: React.FC<CalendarProps> = ({
       tasks: DailyTask[];
       isCurrentMonth: boolean;
       isToday: boolean;
+      isOverdue: boolean;
+      isRestDay: boolean;
       hasTasks: boolean;
     }> = [];
 
-    const { startDate, totalDays } = planDateRange;
+    const { startDate, totalDays, scheduleKeys } = planDateRange;
+    const todayKey = getTodayKey(displayPlan.timezone, currentDate);
 
     // Flatten all tasks into a sequential array first
     const allTasks: DailyTask[] = [];
@@ -107,13 +130,20 @@ const Calendar: React.FC<CalendarProps> = ({
       });
     }
 
+    // Task N sits on the Nth working day of the schedule
+    const taskByDate = new Map<string, DailyTask>();
+    scheduleKeys.forEach((key, index) => {
+      if (allTasks[index]) taskByDate.set(key, allTasks[index]);
+    });
+
     // Generate dates for the plan duration
     for (let i = 0; i < totalDays; i++) {
       const date = new Date(startDate);
       date.setDate(startDate.getDate() + i);
+      const dateKey = toDateKey(date);
 
       // Get the task for this day (if available)
-      const task = allTasks[i];
+      const task = taskByDate.get(dateKey);
       const foundTasks = task ? [task] : [];
       const currentMonth = task ? taskToMonthMap.get(task) || null : null;
       const currentWeek = task ? taskToWeekMap.get(task) || null : null;
@@ -126,7 +156,9 @@ const Calendar: React.FC<CalendarProps> = ({
         isCurrentMonth:
           date.getMonth() === currentDate.getMonth() &&
           date.getFullYear() === currentDate.getFullYear(),
-        isToday: date.toDateString() === currentDate.toDateString(),
+        isToday: dateKey === todayKey,
+        isOverdue: foundTasks.some((t) => !t.completed) && dateKey < todayKey,
+        isRestDay: !isAvailableDay(dateKey, displayPlan.availability),
         hasTasks: foundTasks.length > 0,
       });
     }
@@ -149,6 +181,8 @@ const Calendar: React.FC<CalendarProps> = ({
           tasks: DailyTask[];
           isCurrentMonth: boolean;
           isToday: boolean;
+          isOverdue: boolean;
+          isRestDay: boolean;
           hasTasks: boolean;
           dayOfWeek: number; // 0-6, Sunday-Saturday
         }>;
@@ -180,10 +214,8 @@ const Calendar: React.FC<CalendarProps> = ({
       .forEach((monthKey) => {
         const days = daysByMonth[monthKey];
         const firstDay = days[0];
-        const monthData =
-          displayPlan?.monthlyMilestones?.find(
-            (m) => m.month === firstDay.date.getMonth() + 1
-          ) || null;
+        // Show the plan milestone scheduled at the start of this calendar month
+        const monthData = days.find((d) => d.month)?.month || null;
 
         // Group days by weeks (starting Sunday)
         const weeks: Array<{
@@ -195,6 +227,8 @@ const Calendar: React.FC<CalendarProps> = ({
             tasks: DailyTask[];
             isCurrentMonth: boolean;
             isToday: boolean;
+            isOverdue: boolean;
+            isRestDay: boolean;
             hasTasks: boolean;
             dayOfWeek: number;
           }>;
@@ -246,49 +280,59 @@ const Calendar: React.FC<CalendarProps> = ({
       });
 
     return months;
-  }, [calendarData, displayPlan?.monthlyMilestones]);
-
-  const handleTaskClick = (task: DailyTask, monthIndex: number, weekIndex: number, taskDay: number) => {
-    setSelectedTask(task);
-    setSelectedTaskIndices({ monthIndex, weekIndex, taskDay });
+  }, [calendarData]);
+
+  // Bring the focused "Day N" into view once its plan is shown
+  useEffect(() => {
+    if (!focusDayNumber || isStreaming || !planDateRange) return;
+    const dateKey = planDateRange.scheduleKeys[focusDayNumber - 1];
+    clearFocusDay();
+    if (!dateKey) return;
+    setHighlightedDateKey(dateKey);
+    document.getElementById(`calendar-day-${dateKey}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [focusDayNumber, isStreaming, planDateRange, clearFocusDay]);
+
+  useEffect(() => {
+    if (!highlightedDateKey) return;
+    const timeout = setTimeout(() => setHighlightedDateKey(null), 4000);
+    return () => clearTimeout(timeout);
+  }, [highlightedDateKey]);
+
+  const handleTaskClick = (task: DailyTask) => {
+    if (isStreaming) return;
+    setSelectedTaskId(task.id);
     setIsTaskModalOpen(true);
   };
 
   const handleTaskToggle = useCallback(async (task: DailyTask) => {
-    // Find the task in the plan structure to get the correct indices
-    if (!displayPlan?.monthlyMilestones) return;
-
-    for (
-      let monthIdx = 0;
-      monthIdx < displayPlan.monthlyMilestones.length;
-      monthIdx++
-    ) {
-      const month = displayPlan.monthlyMilestones[monthIdx];
-      if (month.weeklyObjectives) {
-        for (
-          let weekIdx = 0;
-          weekIdx < month.weeklyObjectives.length;
-          weekIdx++
-        ) {
-          const week = month.weeklyObjectives[weekIdx];
-          if (week.dailyTasks) {
-            const taskIdx = week.dailyTasks.findIndex((t) => t === task);
-            if (taskIdx !== -1) {
-              await toggleTaskCompletion(monthIdx, weekIdx, task.day);
-              return;
-            }
-          }
-        }
-      }
-    }
-  }, [displayPlan, toggleTaskCompletion]);
+    if (isStreaming) return;
+    await toggleTaskCompletion(task.id);
+  }, [toggleTaskCompletion, isStreaming]);
 
   const handleSendMessage = useCallback(async (
     message: string,
     task: DailyTask,
-    plan: FullPlan
-  ): Promise<string> => {
+    plan: FullPlan,
+    options: {
+      thread: TaskChatMessage[];
+      notes: string[];
+      summary: TaskThreadSummary | null;
+      onChunk: (chunk: string) => void;
+      signal: AbortSignal;
+    }
+  ): Promise<PlanChatReply> => {
     try {
+      // Earlier turns go to the model as history; what does not fit is condensed into the context,
+      // and anything older than that is covered by the thread's stored summary
+      const { history, earlierSummary } = buildTaskChatHistory(options.thread, options.summary?.summarizedThrough);
+      const taskContext = formatTaskChatContext({
+        plan,
+        taskId: task.id,
+        notes: options.notes,
+        threadSummary: options.summary?.summary ?? null,
+        earlierSummary,
+      });
+
       // Create a contextual message for the AI that prioritizes user's message
       // but provides task context for relevant responses
       const contextualMessage = `User: ${message}
@@ -296,26 +340,30 @@ const Calendar: React.FC<CalendarProps> = ({
 Context: You're chatting about this task: "${task.description}"
 This task is part of a 90-day plan with the goal: "${plan.goal}"
 Current task status: ${task.completed ? "COMPLETED" : "NOT COMPLETED"}
-
+${taskContext ? `\n${taskContext}\n` : ""}
 IMPORTANT: Analyze the user's message carefully.
 
 - If the message is a simple greeting, single word, or casual phrase (like "hey", "hi", "hello", "sup", "yo", "hey there", "what's up", "howdy"), respond with a very brief, friendly, casual reply. Do NOT provide task guidance or explanations.
 - If the message shows clear intent to get help, advice, or information about the task (like "how do I...", "what should I...", "can you explain...", "help with..."), then provide helpful guidance about the task.
 - If the message is a question or statement that relates to the task content, provide relevant guidance.
-- Default to brief, casual responses for unclear or very short messages.`;
+- Default to brief, casual responses for unclear or very short messages.
+- Build on the earlier conversation in this thread; do not repeat advice you already gave.
+- If the user asks to change this task or other parts of the plan, propose the edit operations; the user will review them before they are applied.`;
 
-      // Use empty history for task-specific chat
-      const history: Array<{ role: "user" | "model"; parts: string }> = [];
-
-      return await chatWithAI(contextualMessage, history, plan);
+      return await streamChatWithPlanEdits(contextualMessage, history, plan, options.onChunk, options.signal);
     } catch (error) {
+      // Cancelled by the user; the modal keeps whatever was streamed so far
+      if ((error as Error)?.name === "AbortError") throw error;
       console.error("Failed to send message to AI:", error);
-      return "Sorry, I encountered an error while processing your question. Please try again.";
+      return {
+        reply: "Sorry, I encountered an error while processing your question. Please try again.",
+        operations: [],
+      };
     }
-  }, [chatWithAI]);
+  }, []);
 
-  // Show streaming text if available (during plan generation)
-  if (streamingText) {
+  // Until the first milestone has streamed in there is nothing to lay out yet
+  if (streamingText && !streamingPlan) {
     return (
       <article
         className="group relative overflow-hidden rounded-lg border transition-shadow motion-reduce:transition-none"
@@ -389,9 +437,9 @@ IMPORTANT: Analyze the user's message carefully.
                     </span>
                   </div>
                   <div className="prose prose-sm max-w-none">
-                    <pre className="text-sm leading-6 whitespace-pre-wrap font-mono text-[var(--text-inverse)] bg-transparent border-0 p-0 m-0">
-                      {streamingText}
-                    </pre>
+                    <p className="text-sm leading-6 text-[var(--text-inverse)]">
+                      Drafting the first milestone. Tasks will appear here as they are written.
+                    </p>
                     {/* Typing indicator */}
                     <span className="inline-block w-2 h-5 bg-[var(--accent-cyan)] animate-pulse ml-1 align-baseline"></span>
                   </div>
@@ -424,14 +472,10 @@ IMPORTANT: Analyze the user's message carefully.
           isOpen={isTaskModalOpen}
           onClose={() => {
             setIsTaskModalOpen(false);
-            setSelectedTask(null);
-            setSelectedTaskIndices(null);
+            setSelectedTaskId(null);
           }}
           task={selectedTask}
           plan={displayPlan || null}
-          monthIndex={selectedTaskIndices?.monthIndex ?? 0}
-          weekIndex={selectedTaskIndices?.weekIndex ?? 0}
-          taskDay={selectedTaskIndices?.taskDay ?? 0}
           onToggleComplete={handleTaskToggle}
           onSendMessage={handleSendMessage}
         />
@@ -474,14 +518,26 @@ IMPORTANT: Analyze the user's message carefully.
       }}
     >
       <div className="p-6 border-b border-[var(--border-color,#E5E9ED)]">
-        <div className="flex items-center space-x-2">
-          <FaCalendarAlt className="text-[var(--accent-cyan,#22D3EE)]" />
-          <h2
-            className="text-lg font-semibold"
-            style={{ color: "var(--text-inverse)" }}
-          >
-            Plan Calendar
-          </h2>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <FaCalendarAlt className="text-[var(--accent-cyan,#22D3EE)]" />
+            <h2
+              className="text-lg font-semibold"
+              style={{ color: "var(--text-inverse)" }}
+            >
+              Plan Calendar
+            </h2>
+          </div>
+          {isStreaming && (
+            <div className="flex items-center space-x-2">
+              <div className="animate-pulse">
+                <div className="w-2 h-2 bg-[var(--accent-cyan)] rounded-full"></div>
+              </div>
+              <span className="text-xs text-[var(--accent-cyan)] font-medium">
+                Generating · {flattenPlanTasks(displayPlan).length} tasks so far
+              </span>
+            </div>
+          )}
         </div>
         <p className="mt-2 text-sm" style={{ color: "var(--text-muted)" }}>
           Track your milestones, objectives, and daily tasks
@@ -489,7 +545,7 @@ IMPORTANT: Analyze the user's message carefully.
       </div>
 
       <div className="p-6 space-y-8">
-        {monthsData.map((month, monthIndex) => (
+        {monthsData.map((month) => (
           <div key={`${month.monthName}-${month.year}`} className="space-y-4">
             {/* Month Header */}
             <div className="flex items-center justify-between">
@@ -537,6 +593,8 @@ IMPORTANT: Analyze the user's message carefully.
                       tasks: [],
                       isCurrentMonth: false,
                       isToday: false,
+                      isOverdue: false,
+                      isRestDay: false,
                       hasTasks: false,
                       dayOfWeek: i,
                     }
@@ -551,13 +609,17 @@ IMPORTANT: Analyze the user's message carefully.
                     {fullWeek.map((day, dayIndex) => (
                       <div
                         key={dayIndex}
+                        id={day.hasTasks ? `calendar-day-${toDateKey(day.date)}` : undefined}
                         className={`min-h-[100px] p-2 border-r border-[var(--border-subtle)] last:border-r-0 ${
                           day.isCurrentMonth
                             ? day.isToday
                               ? "bg-[var(--surface-card)]"
                               : "bg-[var(--bg-deep)]"
                             : "bg-[var(--neutral-950)]"
-                        } ${day.hasTasks ? "ring-2 ring-[var(--accent-cyan,#22D3EE)] ring-opacity-30" : ""}`}
+                        } ${day.hasTasks ? "ring-2 ring-[var(--accent-cyan,#22D3EE)] ring-opacity-30" : ""} ${
+                          day.hasTasks && highlightedDateKey === toDateKey(day.date) ? "ring-4 ring-opacity-100" : ""
+                        }`}
+                        title={day.isOverdue ? "Overdue" : undefined}
                       >
                         {/* Day Number */}
                         <div
@@ -570,18 +632,28 @@ IMPORTANT: Analyze the user's message carefully.
                           }`}
                         >
                           {day.date.getDate()}
+                          {day.isOverdue && (
+                            <span className="ml-1 text-[10px] font-semibold uppercase text-red-400">
+                              Overdue
+                            </span>
+                          )}
+                          {day.isRestDay && (
+                            <span className="ml-1 text-[10px] font-semibold uppercase text-[var(--text-muted)]">
+                              Day off
+                            </span>
+                          )}
                         </div>
 
                         {/* Tasks */}
                         <div className="space-y-1">
                           {day.tasks.map((task, index) => {
-                            const isHovered = hoveredTaskId === `${monthIndex}-${weekIndex}-${task.day}`;
+                            const isHovered = hoveredTaskId === task.id;
                             return (
                               <div
-                                key={task.day}
+                                key={task.id}
                                 className="cursor-pointer"
-                                onClick={() => handleTaskClick(task, monthIndex, weekIndex, task.day)}
-                                onMouseEnter={() => setHoveredTaskId(`${monthIndex}-${weekIndex}-${task.day}`)}
+                                onClick={() => handleTaskClick(task)}
+                                onMouseEnter={() => setHoveredTaskId(task.id)}
                                 onMouseLeave={() => setHoveredTaskId(null)}
                               >
                                 <div className="flex items-start space-x-1">
@@ -638,14 +710,10 @@ IMPORTANT: Analyze the user's message carefully.
           isOpen={isTaskModalOpen}
           onClose={() => {
             setIsTaskModalOpen(false);
-            setSelectedTask(null);
-            setSelectedTaskIndices(null);
+            setSelectedTaskId(null);
           }}
           task={selectedTask}
           plan={displayPlan}
-          monthIndex={selectedTaskIndices?.monthIndex ?? 0}
-          weekIndex={selectedTaskIndices?.weekIndex ?? 0}
-          taskDay={selectedTaskIndices?.taskDay ?? 0}
           onToggleComplete={handleTaskToggle}
           onSendMessage={handleSendMessage}
         />
@@ -0,0 +1,375 @@
+import React, { useEffect, useRef, useState } from "react";
+import { FaComments, FaRobot, FaTrash, FaMagic } from "react-icons/fa";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "@milestoneAI-next-js/backend/convex/_generated/api";
+import { toast } from "sonner";
+import { usePlan } from "../../contexts/plan-context";
+import { chatWithAI, streamChatWithPlanEdits } from "../../services/ai-service";
+import type { ChatMessage } from "../../types/chat-types";
+import type { InteractionMode } from "../../types/general-types";
+import { describePlanEdit } from "../../utils/plan-edits";
+import type { PlanEditOperation } from "../../utils/plan-edits";
+import { buildTaskChatHistory } from "../../utils/task-chat-context";
+import type { TaskThreadSummary } from "../../utils/task-chat-context";
+
+const MODE_OPTIONS: { mode: InteractionMode; label: string; title: string }[] = [
+  { mode: "chat", label: "Advice", title: "Ask for advice; the plan is never changed" },
+  { mode: "plan", label: "Edit plan", title: "Ask for changes; proposed edits are shown for review" },
+];
+
+/**
+ * Converts the stored conversation into model history the way task threads are: the newest
+ * turns that fit the chat API's limit are sent as history, and older messages are condensed
+ * into a summary made of the stored rolling summary and an excerpt of what it does not cover.
+ * Messages stored before timestamps existed count as the oldest.
+ */
+function toModelHistory(
+  messages: ChatMessage[],
+  stored: TaskThreadSummary | null
+): { history: { role: "user" | "model"; parts: string }[]; summary: string | null } {
+  const { history, earlierSummary } = buildTaskChatHistory(
+    messages.map((message) => ({
+      role: message.role === "ai" ? ("assistant" as const) : message.role,
+      content: message.text,
+      createdAt: message.createdAt ?? 0,
+    })),
+    stored?.summarizedThrough
+  );
+  const sections = [
+    stored ? `Summary of the earlier conversation:\n${stored.summary}` : null,
+    earlierSummary ? `Earlier in this conversation (condensed):\n${earlierSummary}` : null,
+  ].filter((section): section is string => section !== null);
+  return { history, summary: sections.length > 0 ? sections.join("\n\n") : null };
+}
+
+/**
+ * @description
+ * Plan-wide coach chat on the milestone page. In "chat" mode the coach only gives advice; in
+ * "plan" mode it may propose edit operations, which are previewed and applied as a new plan
+ * version. Replies stream in token by token; the conversation and mode persist on the plan.
+ *
+ * @receives data from:
+ * - contexts/plan-context.tsx; usePlan: current plan, plan id and applyChatEdits
+ * - convex/plans.ts; getPlanChat: stored chat history, its rolling summary and interaction mode
+ *
+ * @sends data to:
+ * - services/ai-service.ts; chatWithAI / streamChatWithPlanEdits: message, history, summary and plan
+ * - convex/plans.ts; appendPlanChat / clearPlanChat / setInteractionMode: chat persistence
+ * - contexts/plan-context.tsx; applyChatEdits: accepted edit operations
+ *
+ * @sideEffects:
+ * - Network streaming to the chat API; writes chat history and mode to the plan document
+ */
+export default function PlanChat() {
+  const { plan, currentPlanId, applyChatEdits } = usePlan();
+  const planChat = useQuery(api.plans.getPlanChat, currentPlanId ? { id: currentPlanId } : "skip");
+  const appendPlanChat = useMutation(api.plans.appendPlanChat);
+  const clearPlanChat = useMutation(api.plans.clearPlanChat);
+  const setInteractionMode = useMutation(api.plans.setInteractionMode);
+
+  const [mode, setMode] = useState<InteractionMode>("chat");
+  const [messageInput, setMessageInput] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [streamingReply, setStreamingReply] = useState<string | null>(null);
+  // Edits proposed by the coach, shown for review before they touch the plan
+  const [pendingEdits, setPendingEdits] = useState<PlanEditOperation[]>([]);
+  const [isApplyingEdits, setIsApplyingEdits] = useState(false);
+  const chatContainerRef = useRef<HTMLDivElement>(null);
+
+  const messages: ChatMessage[] = planChat?.chatHistory ?? [];
+  const storedMode = planChat?.interactionMode;
+  const isChatDisabled = !plan || !currentPlanId || isSending;
+
+  // Follow the stored mode when a plan's chat loads
+  useEffect(() => {
+    if (storedMode) setMode(storedMode);
+  }, [currentPlanId, storedMode]);
+
+  // Proposed edits belong to the plan they were made for
+  useEffect(() => {
+    setPendingEdits([]);
+  }, [currentPlanId]);
+
+  // Auto-scroll to bottom of chat
+  useEffect(() => {
+    if (chatContainerRef.current) {
+      chatContainerRef.current.scrollTop = chatContainerRef.current.scrollHeight;
+    }
+  }, [messages.length, streamingReply, pendingEdits]);
+
+  const handleModeChange = async (nextMode: InteractionMode) => {
+    if (!currentPlanId || nextMode === mode) return;
+    setMode(nextMode);
+    if (nextMode === "chat") setPendingEdits([]);
+    try {
+      await setInteractionMode({ id: currentPlanId, interactionMode: nextMode });
+    } catch (error) {
+      console.error("[PlanChat] Saving interaction mode failed:", error);
+    }
+  };
+
+  const handleSend = async () => {
+    const text = messageInput.trim();
+    if (!text || !plan || !currentPlanId || isSending) return;
+
+    // History is taken before this message is persisted, so it is not sent twice
+    const { history, summary } = toModelHistory(messages, planChat?.summary ?? null);
+    setMessageInput("");
+    setPendingEdits([]);
+    setIsSending(true);
+    setStreamingReply("");
+
+    try {
+      await appendPlanChat({ id: currentPlanId, messages: [{ role: "user", text }] });
+
+      let streamed = "";
+      const onChunk = (chunk: string) => {
+        streamed += chunk;
+        setStreamingReply(streamed);
+      };
+
+      let reply: string;
+      if (mode === "plan") {
+        const response = await streamChatWithPlanEdits(text, history, plan, onChunk, undefined, summary);
+        reply = response.reply;
+        setPendingEdits(response.operations);
+      } else {
+        reply = (await chatWithAI(text, history, plan, onChunk, summary)).trim();
+      }
+
+      await appendPlanChat({
+        id: currentPlanId,
+        messages: [{ role: "ai", text: reply || "Sorry, I couldn't come up with a reply. Please try again." }],
+      });
+    } catch (error) {
+      console.error("[PlanChat] Failed to get coach reply:", error);
+      toast.error("The coach couldn't reply. Please try again.");
+    } finally {
+      setStreamingReply(null);
+      setIsSending(false);
+    }
+  };
+
+  const handleApplyEdits = async () => {
+    if (!currentPlanId) return;
+    setIsApplyingEdits(true);
+    const count = pendingEdits.length;
+    const applied = await applyChatEdits(pendingEdits);
+    setIsApplyingEdits(false);
+    if (!applied) return;
+    setPendingEdits([]);
+    // Leave a trace in the conversation so later turns know the plan changed
+    appendPlanChat({
+      id: currentPlanId,
+      messages: [{ role: "system", text: `Applied ${count} proposed change${count === 1 ? "" : "s"} to the plan.` }],
+    }).catch((error) => console.error("[PlanChat] Recording applied edits failed:", error));
+  };
+
+  const handleClear = async () => {
+    if (!currentPlanId) return;
+    setPendingEdits([]);
+    try {
+      await clearPlanChat({ id: currentPlanId });
+    } catch (error) {
+      console.error("[PlanChat] Clearing chat failed:", error);
+      toast.error("Failed to clear the conversation.");
+    }
+  };
+
+  return (
+    <article className="group relative overflow-hidden rounded-lg border transition-shadow motion-reduce:transition-none flex flex-col" style={{
+      background: "radial-gradient(360px 200px at 50% 0%, rgba(34,211,238,0.22), rgba(0,0,0,0) 70%), var(--surface-card)",
+      borderColor: "var(--border-subtle)",
+    }}>
+      <div className="p-6 border-b border-[var(--border-subtle)]">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <FaComments className="text-[var(--accent-cyan,#22D3EE)]" />
+            <h2 className="text-lg font-semibold" style={{ color: "var(--text-inverse)" }}>
+              Plan Coach
+            </h2>
+          </div>
+          <button
+            onClick={handleClear}
+            disabled={!currentPlanId || messages.length === 0 || isSending}
+            className="p-2 rounded-lg text-[var(--text-secondary)] hover:text-red-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Clear conversation"
+            aria-label="Clear conversation"
+          >
+            <FaTrash className="text-xs" />
+          </button>
+        </div>
+        <div className="mt-3 inline-flex rounded-lg border border-[var(--border-subtle)] p-0.5" role="group" aria-label="Coach mode">
+          {MODE_OPTIONS.map((option) => (
+            <button
+              key={option.mode}
+              onClick={() => handleModeChange(option.mode)}
+              disabled={!currentPlanId || isSending}
+              aria-pressed={mode === option.mode}
+              title={option.title}
+              className={`px-3 py-1 rounded-md text-sm font-medium transition-colors disabled:cursor-not-allowed ${
+                mode === option.mode
+                  ? "bg-[var(--accent-cyan)] text-white"
+                  : "text-[var(--text-secondary)] hover:text-[var(--text-inverse)]"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Messages */}
+      <div ref={chatContainerRef} className="max-h-96 min-h-[10rem] overflow-y-auto p-4 space-y-3">
+        {!currentPlanId ? (
+          <div className="text-center py-8 text-[var(--text-muted)]">
+            <FaComments className="text-4xl mx-auto mb-4 opacity-50" />
+            <p className="text-sm">Sign in and save your plan to chat with your coach</p>
+          </div>
+        ) : messages.length === 0 && streamingReply === null ? (
+          <div className="text-center py-8 text-[var(--text-muted)]">
+            <FaRobot className="text-4xl mx-auto mb-4 opacity-50" />
+            <p className="text-sm">
+              {mode === "plan"
+                ? "Ask for changes, like \"make week 3 lighter\""
+                : "Ask anything about your plan or progress"}
+            </p>
+          </div>
+        ) : (
+          messages.map((message, index) =>
+            message.role === "system" ? (
+              <p key={index} className="text-center text-xs text-[var(--text-secondary)]">
+                {message.text}
+              </p>
+            ) : (
+              <ChatBubble key={index} role={message.role} text={message.text} />
+            )
+          )
+        )}
+        {streamingReply !== null && (
+          streamingReply ? (
+            <ChatBubble role="ai" text={streamingReply} />
+          ) : (
+            <div className="flex items-start space-x-2 justify-start">
+              <div className="w-6 h-6 rounded-full bg-[var(--accent-cyan)] flex items-center justify-center flex-shrink-0 mt-0.5">
+                <FaRobot className="text-white text-xs" />
+              </div>
+              <div className="bg-[var(--bg-deep)] border border-[var(--border-subtle)] p-3 rounded-lg">
+                <div className="flex space-x-1">
+                  <div className="w-1.5 h-1.5 bg-[var(--accent-cyan)] rounded-full animate-bounce" />
+                  <div className="w-1.5 h-1.5 bg-[var(--accent-cyan)] rounded-full animate-bounce [animation-delay:100ms]" />
+                  <div className="w-1.5 h-1.5 bg-[var(--accent-cyan)] rounded-full animate-bounce [animation-delay:200ms]" />
+                </div>
+              </div>
+            </div>
+          )
+        )}
+      </div>
+
+      {/* Proposed plan edits */}
+      {pendingEdits.length > 0 && plan && (
+        <div className="p-4 border-t border-[var(--border-subtle)] space-y-3">
+          <div className="flex items-center space-x-2 text-sm font-medium text-[var(--text-inverse)]">
+            <FaMagic className="text-[var(--accent-cyan)] text-xs" />
+            <span>Proposed plan changes</span>
+          </div>
+          <ul className="space-y-1 max-h-32 overflow-y-auto">
+            {pendingEdits.map((operation, index) => (
+              <li key={index} className="text-sm text-[var(--text-secondary)] break-words">
+                {describePlanEdit(plan, operation)}
+              </li>
+            ))}
+          </ul>
+          <div className="flex space-x-2">
+            <button
+              onClick={handleApplyEdits}
+              disabled={isApplyingEdits}
+              className="px-3 py-1.5 bg-[var(--accent-cyan)] text-white rounded-lg text-sm font-medium hover:bg-opacity-80 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isApplyingEdits ? "Applying..." : "Apply changes"}
+            </button>
+            <button
+              onClick={() => setPendingEdits([])}
+              disabled={isApplyingEdits}
+              className="px-3 py-1.5 border border-[var(--border-subtle)] text-[var(--text-inverse)] rounded-lg text-sm hover:border-[var(--accent-cyan)] transition-colors disabled:opacity-50"
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Input */}
+      <div className="p-4 border-t border-[var(--border-subtle)] bg-[var(--bg-deep)]">
+        <div className="flex space-x-2">
+          <textarea
+            rows={1}
+            value={messageInput}
+            onChange={(e) => setMessageInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault();
+                handleSend();
+              }
+            }}
+            placeholder={mode === "plan" ? "Ask for a change to your plan..." : "Ask your coach..."}
+            aria-label="Coach chat input"
+            className="flex-1 px-3 py-2 rounded-lg border border-[var(--border-subtle)] bg-[var(--neutral-950)] text-[var(--text-inverse)] placeholder-[var(--text-secondary)] focus:border-[var(--accent-cyan)] focus:outline-none text-sm resize-none max-h-40"
+            disabled={isChatDisabled}
+          />
+          <button
+            onClick={handleSend}
+            disabled={!messageInput.trim() || isChatDisabled}
+            aria-label="Send message"
+            className="px-3 py-2 bg-[var(--accent-cyan)] text-white rounded-lg font-medium hover:bg-opacity-80 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+          >
+            Send
+          </button>
+        </div>
+      </div>
+    </article>
+  );
+}
+
+function ChatBubble({ role, text }: { role: ChatMessage["role"]; text: string }) {
+  const isUser = role === "user";
+  return (
+    <div className={`flex items-start space-x-2 ${isUser ? "justify-end" : "justify-start"}`}>
+      {!isUser && (
+        <div className="w-6 h-6 rounded-full bg-[var(--accent-cyan)] flex items-center justify-center flex-shrink-0 mt-0.5">
+          <FaRobot className="text-white text-xs" />
+        </div>
+      )}
+      <div
+        className={`max-w-[85%] p-3 text-sm leading-relaxed break-words ${
+          isUser
+            ? "bg-[var(--accent-cyan)] text-white rounded-t-2xl rounded-l-2xl rounded-br-md whitespace-pre-wrap"
+            : "bg-[var(--bg-deep)] border border-[var(--border-subtle)] text-[var(--text-inverse)] rounded-t-2xl rounded-r-2xl rounded-bl-md"
+        }`}
+      >
+        {isUser ? (
+          text
+        ) : (
+          <div className="[&>*:first-child]:mt-0 [&>*:last-child]:mb-0">
+            <ReactMarkdown
+              remarkPlugins={[remarkGfm]}
+              components={{
+                p: ({ node, ...props }) => <p className="mb-2" {...props} />,
+                ul: ({ node, ...props }) => <ul className="list-disc pl-5 mb-2 space-y-1" {...props} />,
+                ol: ({ node, ...props }) => <ol className="list-decimal pl-5 mb-2 space-y-1" {...props} />,
+                a: ({ node, ...props }) => (
+                  <a className="underline text-[var(--accent-cyan)]" target="_blank" rel="noreferrer" {...props} />
+                ),
+                strong: ({ node, ...props }) => <strong className="font-semibold" {...props} />,
+              }}
+            >
+              {text}
+            </ReactMarkdown>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -7,6 +7,12 @@ import type {
 } from "../../types/plan-types";
 import { usePlan } from "../../contexts/plan-context";
 import { FaCheck, FaClock, FaCalendarAlt } from "react-icons/fa";
+import {
+  flattenPlanTasks,
+  getPlanScheduleDateKeys,
+  getTodayKey,
+  parseDateKey,
+} from "../../utils/plan-dates";
 
 interface CalendarProps {
   plan?: FullPlan | null;
@@ -21,6 +27,7 @@ interface CalendarProps {
  *
  * @receives data from:
  * - milestone-page.tsx; plan: Full plan data to display in calendar format
+ * - milestone-page.tsx; streamingPlan: Plan built incrementally while it is generated
  * - contexts/PlanContext.tsx; toggleTaskCompletion: Function to update task completion
  *
  * @sends data to:
@@ -39,60 +46,33 @@ const PlanTimeline: React.FC<CalendarProps> = ({
 
   // Use streaming plan if available, otherwise use regular plan
   const displayPlan = streamingPlan || plan;
+  // Streamed tasks are a preview: they are not saved yet and cannot be completed
+  const isStreaming = Boolean(streamingPlan);
 
-  // Calculate plan duration and date range
-  const planDateRange = React.useMemo(() => {
-    if (!displayPlan) return null;
+  // Map each task to its scheduled calendar date, anchored to the plan's start date and skipping days off
+  const taskSchedule = React.useMemo(() => {
+    const schedule = new Map<DailyTask, { date: Date; isOverdue: boolean }>();
+    if (!displayPlan) return schedule;
 
-    const startDate = new Date(); // Start from today
-    let totalDays = 0;
-
-    // Calculate total days in the plan
-    displayPlan.monthlyMilestones?.forEach((month) => {
-      month.weeklyObjectives?.forEach((week) => {
-        totalDays += week.dailyTasks?.length || 0;
+    const scheduleKeys = getPlanScheduleDateKeys(displayPlan);
+    const todayKey = getTodayKey(displayPlan.timezone, currentDate);
+    flattenPlanTasks(displayPlan).forEach((task, index) => {
+      const dateKey = scheduleKeys[index];
+      schedule.set(task, {
+        date: parseDateKey(dateKey),
+        isOverdue: !task.completed && dateKey < todayKey,
       });
     });
-
-    // If we can't determine duration, default to 90 days
-    const planDays = totalDays > 0 ? totalDays : 90;
-    const endDate = new Date(startDate);
-    endDate.setDate(startDate.getDate() + planDays - 1);
-
-    return { startDate, endDate, totalDays: planDays };
-  }, [displayPlan]);
+    return schedule;
+  }, [displayPlan, currentDate]);
 
   const handleTaskToggle = async (task: DailyTask) => {
-    // Find the task in the plan structure to get the correct indices
-    if (!displayPlan?.monthlyMilestones) return;
-
-    for (
-      let monthIdx = 0;
-      monthIdx < displayPlan.monthlyMilestones.length;
-      monthIdx++
-    ) {
-      const month = displayPlan.monthlyMilestones[monthIdx];
-      if (month.weeklyObjectives) {
-        for (
-          let weekIdx = 0;
-          weekIdx < month.weeklyObjectives.length;
-          weekIdx++
-        ) {
-          const week = month.weeklyObjectives[weekIdx];
-          if (week.dailyTasks) {
-            const taskIdx = week.dailyTasks.findIndex((t) => t === task);
-            if (taskIdx !== -1) {
-              await toggleTaskCompletion(monthIdx, weekIdx, task.day);
-              return;
-            }
-          }
-        }
-      }
-    }
+    if (isStreaming) return;
+    await toggleTaskCompletion(task.id);
   };
 
-  // Show streaming text if available (during plan generation)
-  if (streamingText) {
+  // Until the first milestone has streamed in there is nothing to lay out yet
+  if (streamingText && !streamingPlan) {
     return (
       <article
         className="group relative overflow-hidden rounded-lg border transition-shadow motion-reduce:transition-none"
@@ -166,9 +146,9 @@ const PlanTimeline: React.FC<CalendarProps> = ({
                     </span>
                   </div>
                   <div className="prose prose-sm max-w-none">
-                    <pre className="text-sm leading-6 whitespace-pre-wrap font-mono text-[var(--text-inverse)] bg-transparent border-0 p-0 m-0">
-                      {streamingText}
-                    </pre>
+                    <p className="text-sm leading-6 text-[var(--text-inverse)]">
+                      Drafting the first milestone. Tasks will appear here as they are written.
+                    </p>
                     {/* Typing indicator */}
                     <span className="inline-block w-2 h-5 bg-[var(--accent-cyan)] animate-pulse ml-1 align-baseline"></span>
                   </div>
@@ -234,14 +214,26 @@ const PlanTimeline: React.FC<CalendarProps> = ({
       }}
     >
       <div className="p-6 border-b border-[var(--border-color,#E5E9ED)]">
-        <div className="flex items-center space-x-2">
-          <FaCalendarAlt className="text-[var(--accent-cyan,#22D3EE)]" />
-          <h2
-            className="text-lg font-semibold"
-            style={{ color: "var(--text-inverse)" }}
-          >
-            Plan Timeline
-          </h2>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <FaCalendarAlt className="text-[var(--accent-cyan,#22D3EE)]" />
+            <h2
+              className="text-lg font-semibold"
+              style={{ color: "var(--text-inverse)" }}
+            >
+              Plan Timeline
+            </h2>
+          </div>
+          {isStreaming && (
+            <div className="flex items-center space-x-2">
+              <div className="animate-pulse">
+                <div className="w-2 h-2 bg-[var(--accent-cyan)] rounded-full"></div>
+              </div>
+              <span className="text-xs text-[var(--accent-cyan)] font-medium">
+                Generating · {flattenPlanTasks(displayPlan).length} tasks so far
+              </span>
+            </div>
+          )}
         </div>
         <p className="mt-2 text-sm" style={{ color: "var(--text-muted)" }}>
           Track your milestones, objectives, and daily tasks
@@ -250,7 +242,7 @@ const PlanTimeline: React.FC<CalendarProps> = ({
 
       <div className="p-6 space-y-8">
         {displayPlan?.monthlyMilestones?.map((month, monthIndex) => (
-          <div key={`month-${month.month}`} className="space-y-6">
+          <div key={month.id} className="space-y-6">
             {/* Month Header */}
             <div className="pb-4 border-b border-[var(--border-subtle)]">
               <div className="flex items-center space-x-3">
@@ -276,7 +268,7 @@ const PlanTimeline: React.FC<CalendarProps> = ({
 
             {/* Weeks and Tasks */}
             {month.weeklyObjectives?.map((week, weekIndex) => (
-              <div key={`week-${week.week}`} className="ml-11 space-y-3">
+              <div key={week.id} className="ml-11 space-y-3">
                 {/* Week Header */}
                 <div className="flex items-center space-x-3">
                   <div className="w-6 h-6 rounded-full bg-[var(--accent-teal,#14B8A6)] flex items-center justify-center text-white text-xs font-bold">
@@ -294,11 +286,12 @@ const PlanTimeline: React.FC<CalendarProps> = ({
                 <div className="ml-9 space-y-2">
                   {week.dailyTasks?.map((task, taskIndex) => (
                     <div
-                      key={`task-${task.day}`}
+                      key={task.id}
                       className="flex items-start space-x-3 p-3 rounded-lg bg-[var(--bg-deep)] border border-[var(--border-subtle)] hover:border-[var(--accent-cyan,#22D3EE)] transition-colors"
                     >
                       <button
                         onClick={() => handleTaskToggle(task)}
+                        disabled={isStreaming}
                         className={`w-5 h-5 rounded border-2 flex items-center justify-center flex-shrink-0 mt-0.5 transition-colors ${
                           task.completed
                             ? "bg-[var(--accent-cyan,#22D3EE)] border-[var(--accent-cyan,#22D3EE)]"
@@ -316,6 +309,21 @@ const PlanTimeline: React.FC<CalendarProps> = ({
                           <span className="text-sm font-medium text-[var(--accent-cyan,#22D3EE)]">
                             Day {task.day}
                           </span>
+                          {taskSchedule.get(task) && (
+                            <span className="flex items-center text-xs text-[var(--text-secondary)]">
+                              <FaClock className="mr-1" />
+                              {taskSchedule.get(task)!.date.toLocaleDateString("en-US", {
+                                weekday: "short",
+                                month: "short",
+                                day: "numeric",
+                              })}
+                            </span>
+                          )}
+                          {taskSchedule.get(task)?.isOverdue && (
+                            <span className="text-xs font-semibold text-red-400">
+                              Overdue
+                            </span>
+                          )}
                           {task.completed && (
                             <span className="text-xs text-[var(--text-secondary)] line-through">
                               Completed
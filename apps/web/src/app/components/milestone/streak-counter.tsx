@@ -0,0 +1,115 @@
+import type { FullPlan } from '../../types/plan-types';
+import { FaFire, FaLock, FaTrophy } from 'react-icons/fa';
+import { useQuery } from 'convex/react';
+import { api } from '@milestoneAI-next-js/backend/convex/_generated/api';
+import { achievementDefinitions, STREAK_ACHIEVEMENT_DAYS } from '../../config/achievements';
+import { getLocalTimezone } from '../../utils/plan-dates';
+
+interface StreakCounterProps {
+  plan: FullPlan;
+}
+
+const streakAchievements = STREAK_ACHIEVEMENT_DAYS.map((days) => ({
+  days,
+  definition: achievementDefinitions.find((achievement) => achievement.id === `streak-${days}`)!,
+}));
+
+const dayCount = (days: number) => `${days} day${days === 1 ? '' : 's'}`;
+
+/**
+ * @description
+ * Streak counter for the milestone sidebar: the user's current and longest run of consecutive
+ * days with a completed task (across all plans), and the streak achievements those runs unlock.
+ *
+ * @receives data from:
+ * - components/planning/milestone-page.tsx: current plan
+ * - convex/activity.ts; getStreaks: streak summary for the browser's timezone
+ *
+ * @sends data to:
+ * - None
+ *
+ * @sideEffects:
+ * - None
+ */
+const StreakCounter: React.FC<StreakCounterProps> = ({ plan }) => {
+  const streaks = useQuery(api.activity.getStreaks, { timezone: getLocalTimezone() });
+
+  const stats = {
+    currentStreak: streaks?.currentStreak ?? 0,
+    longestStreak: streaks?.longestStreak ?? 0,
+  };
+  const nextGoal = streakAchievements.find(({ days }) => stats.currentStreak < days);
+
+  return (
+    <article className="group relative overflow-hidden rounded-lg border transition-shadow motion-reduce:transition-none" style={{
+      background: 'radial-gradient(360px 200px at 50% 0%, rgba(251,146,60,0.18), rgba(0,0,0,0) 70%), var(--surface-card)',
+      borderColor: 'var(--border-subtle)',
+    }}>
+      <div className="p-6 border-b border-[var(--border-color,#E5E9ED)]">
+        <div className="flex items-center space-x-2">
+          <FaFire className="text-orange-400" />
+          <h2 className="text-lg font-semibold" style={{ color: 'var(--text-inverse)' }}>
+            Streak
+          </h2>
+        </div>
+        <p className="mt-2 text-sm" style={{ color: 'var(--text-muted)' }}>
+          Consecutive days with at least one completed task
+        </p>
+      </div>
+
+      <div className="p-6 space-y-5">
+        {streaks === undefined ? (
+          <div className="h-16 bg-white/10 rounded animate-pulse"></div>
+        ) : (
+          <div className="flex items-end justify-between">
+            <div>
+              <div className="text-4xl font-bold text-[var(--text-inverse)]">{stats.currentStreak}</div>
+              <div className="text-xs text-[var(--text-muted)]">
+                {stats.currentStreak === 1 ? 'day' : 'days'} in a row
+                {stats.currentStreak > 0 && !streaks.activeToday && ' · complete a task today to keep it'}
+              </div>
+            </div>
+            <div className="text-right">
+              <div className="text-sm font-medium text-[var(--text-inverse)]">{dayCount(stats.longestStreak)}</div>
+              <div className="text-xs text-[var(--text-muted)]">longest streak</div>
+            </div>
+          </div>
+        )}
+
+        <ul className="space-y-2">
+          {streakAchievements.map(({ days, definition }) => {
+            const unlocked = definition.checkCriteria(plan, stats);
+            return (
+              <li
+                key={definition.id}
+                className={`flex items-center space-x-3 p-3 rounded-lg border ${
+                  unlocked ? 'border-orange-400/60 bg-[var(--bg-deep)]' : 'border-[var(--border-subtle)] opacity-60'
+                }`}
+              >
+                {unlocked ? (
+                  <FaTrophy className="text-orange-400 flex-shrink-0" />
+                ) : (
+                  <FaLock className="text-[var(--text-muted)] flex-shrink-0" />
+                )}
+                <div className="min-w-0">
+                  <div className="text-sm font-medium text-[var(--text-inverse)]">{definition.name}</div>
+                  <div className="text-xs text-[var(--text-muted)]">
+                    {unlocked ? definition.description : `Reach a ${dayCount(days)} streak`}
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        {streaks !== undefined && nextGoal && stats.currentStreak > 0 && (
+          <p className="text-xs text-[var(--text-muted)]">
+            {dayCount(nextGoal.days - stats.currentStreak)} to go until a {nextGoal.days}-day streak.
+          </p>
+        )}
+      </div>
+    </article>
+  );
+};
+
+export default StreakCounter;
@@ -0,0 +1,136 @@
+import React, { useMemo } from "react";
+import { FaTimes, FaTrophy, FaLock } from "react-icons/fa";
+import { useQuery } from "convex/react";
+import { api } from "@milestoneAI-next-js/backend/convex/_generated/api";
+import type { Id } from "@milestoneAI-next-js/backend/convex/_generated/dataModel";
+import { achievementDefinitions } from "../../config/achievements";
+import type { AchievementDefinition } from "../../config/achievements";
+
+interface AchievementsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  planId: Id<"plans">;
+}
+
+const SECTIONS: { scope: AchievementDefinition["scope"]; title: string }[] = [
+  { scope: "plan", title: "This plan" },
+  { scope: "user", title: "Across all plans" },
+];
+
+const formatUnlockDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+
+/**
+ * @description
+ * Achievements gallery: every achievement as a badge, unlocked ones with the date they were
+ * earned and locked ones greyed out. Plan achievements are shown for the current plan,
+ * streak achievements for the user.
+ *
+ * @receives data from:
+ * - components/planning/milestone-page.tsx: current plan id
+ * - convex/achievements.ts; listUnlocks: unlocks for the plan and the user
+ *
+ * @sends data to:
+ * - None
+ *
+ * @sideEffects:
+ * - None
+ */
+export default function AchievementsModal({ isOpen, onClose, planId }: AchievementsModalProps) {
+  const unlocks = useQuery(api.achievements.listUnlocks, isOpen ? { planId } : "skip");
+
+  const unlockedAt = useMemo(() => {
+    const byId = new Map<string, number>();
+    for (const unlock of unlocks ?? []) {
+      const key = `${unlock.planId ? "plan" : "user"}:${unlock.achievementId}`;
+      byId.set(key, Math.min(byId.get(key) ?? Infinity, unlock.unlockedAt));
+    }
+    return byId;
+  }, [unlocks]);
+  const unlockedCount = achievementDefinitions.filter((d) => unlockedAt.has(`${d.scope}:${d.id}`)).length;
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 flex items-center justify-center z-50"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-3xl max-h-[80vh] relative overflow-hidden rounded-2xl border border-[var(--accent-cyan)] bg-[var(--neutral-950)] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-6 border-b border-[var(--border-subtle)]">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <FaTrophy className="text-[var(--accent-cyan)] text-xl" />
+              <h2 className="text-xl font-semibold text-[var(--text-inverse)]">
+                Achievements
+              </h2>
+              {unlocks !== undefined && (
+                <span className="text-sm text-[var(--text-secondary)]">
+                  {unlockedCount} of {achievementDefinitions.length} unlocked
+                </span>
+              )}
+            </div>
+            <button
+              onClick={onClose}
+              aria-label="Close"
+              className="p-2 rounded-full hover:bg-[var(--bg-deep)] transition-colors focus:outline-none focus:ring-2 focus:ring-[var(--accent-cyan)] focus:ring-offset-0"
+            >
+              <FaTimes className="text-[var(--text-secondary)]" />
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 min-h-0 overflow-y-auto p-6 space-y-6">
+          {unlocks === undefined ? (
+            <div className="text-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[var(--accent-cyan)] mx-auto"></div>
+            </div>
+          ) : (
+            SECTIONS.map((section) => (
+              <section key={section.scope}>
+                <h3 className="text-sm font-semibold text-[var(--text-inverse)] mb-3">{section.title}</h3>
+                <ul className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {achievementDefinitions
+                    .filter((definition) => definition.scope === section.scope)
+                    .map((definition) => {
+                      const earnedAt = unlockedAt.get(`${definition.scope}:${definition.id}`);
+                      return (
+                        <li
+                          key={definition.id}
+                          className={`flex items-start space-x-3 p-3 rounded-lg border ${
+                            earnedAt !== undefined
+                              ? "border-[var(--accent-cyan)] bg-[var(--bg-deep)]"
+                              : "border-[var(--border-subtle)] opacity-50"
+                          }`}
+                        >
+                          {earnedAt !== undefined ? (
+                            <FaTrophy className="mt-0.5 text-[var(--accent-cyan)] flex-shrink-0" />
+                          ) : (
+                            <FaLock className="mt-0.5 text-[var(--text-muted)] flex-shrink-0" />
+                          )}
+                          <div className="min-w-0">
+                            <div className="text-sm font-medium text-[var(--text-inverse)]">{definition.name}</div>
+                            <div className="text-xs text-[var(--text-secondary)]">{definition.description}</div>
+                            {earnedAt !== undefined && (
+                              <div className="mt-1 text-xs text-[var(--text-muted)]">
+                                Unlocked {formatUnlockDate(earnedAt)}
+                              </div>
+                            )}
+                          </div>
+                        </li>
+                      );
+                    })}
+                </ul>
+              </section>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,273 @@
+import React from "react";
+import { FaTimes, FaChartLine } from "react-icons/fa";
+import { useQuery } from "convex/react";
+import { api } from "@milestoneAI-next-js/backend/convex/_generated/api";
+import type { Id } from "@milestoneAI-next-js/backend/convex/_generated/dataModel";
+import type { BurndownPoint } from "@milestoneAI-next-js/backend/convex/lib/analytics";
+import { PACE_WINDOW_DAYS } from "@milestoneAI-next-js/backend/convex/lib/analytics";
+import { daysBetweenKeys } from "@milestoneAI-next-js/backend/convex/lib/dates";
+import { getLocalTimezone, parseDateKey, WEEKDAY_NAMES } from "../../utils/plan-dates";
+
+interface AnalyticsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  planId: Id<"plans">;
+}
+
+// Monday first, matching the weekly velocity buckets
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 180;
+
+const formatDateKey = (key: string) =>
+  parseDateKey(key).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+
+const percent = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 100) : 0);
+
+/**
+ * SVG polyline points for one burndown series; days without a value are skipped.
+ */
+const linePoints = (points: BurndownPoint[], total: number, pick: (point: BurndownPoint) => number | null) => {
+  const stepX = points.length > 1 ? CHART_WIDTH / (points.length - 1) : 0;
+  return points
+    .map((point, i) => {
+      const value = pick(point);
+      if (value === null) return null;
+      const y = total > 0 ? CHART_HEIGHT - (value / total) * CHART_HEIGHT : CHART_HEIGHT;
+      return `${(i * stepX).toFixed(1)},${y.toFixed(1)}`;
+    })
+    .filter((point): point is string => point !== null)
+    .join(" ");
+};
+
+/**
+ * @description
+ * Progress dashboard for a plan: burndown of remaining tasks against the schedule, weekly
+ * velocity, completion per milestone and per weekday, and the finish date projected from the
+ * recent pace. All numbers come from Convex (analytics.getPlanAnalytics), computed from task
+ * completion times.
+ *
+ * @receives data from:
+ * - components/planning/milestone-page.tsx: current plan id
+ * - convex/analytics.ts; getPlanAnalytics: plan analytics
+ *
+ * @sends data to:
+ * - None
+ *
+ * @sideEffects:
+ * - None
+ */
+export default function AnalyticsModal({ isOpen, onClose, planId }: AnalyticsModalProps) {
+  const analytics = useQuery(
+    api.analytics.getPlanAnalytics,
+    isOpen ? { planId, timezone: getLocalTimezone() } : "skip"
+  );
+
+  if (!isOpen) return null;
+
+  const finishDelta =
+    analytics?.projectedFinish ? daysBetweenKeys(analytics.endDate, analytics.projectedFinish) : null;
+  const maxWeekly = Math.max(1, ...(analytics?.velocity ?? []).map((week) => Math.max(week.completed, week.scheduled)));
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 flex items-center justify-center z-50"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-4xl max-h-[85vh] relative overflow-hidden rounded-2xl border border-[var(--accent-cyan)] bg-[var(--neutral-950)] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-6 border-b border-[var(--border-subtle)]">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <FaChartLine className="text-[var(--accent-cyan)] text-xl" />
+              <h2 className="text-xl font-semibold text-[var(--text-inverse)]">
+                Progress Analytics
+              </h2>
+            </div>
+            <button
+              onClick={onClose}
+              aria-label="Close"
+              className="p-2 rounded-full hover:bg-[var(--bg-deep)] transition-colors focus:outline-none focus:ring-2 focus:ring-[var(--accent-cyan)] focus:ring-offset-0"
+            >
+              <FaTimes className="text-[var(--text-secondary)]" />
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 min-h-0 overflow-y-auto p-6 space-y-8">
+          {!analytics ? (
+            <div className="text-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[var(--accent-cyan)] mx-auto"></div>
+            </div>
+          ) : (
+            <>
+              {/* Summary */}
+              <section className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                {[
+                  {
+                    label: "Completed",
+                    value: `${analytics.completedTasks} / ${analytics.totalTasks}`,
+                    detail: `${percent(analytics.completedTasks, analytics.totalTasks)}%`,
+                  },
+                  {
+                    label: "Pace",
+                    value: analytics.pace === null ? "–" : analytics.pace.toFixed(2),
+                    detail: `tasks per working day, last ${PACE_WINDOW_DAYS} days`,
+                  },
+                  { label: "Scheduled end", value: formatDateKey(analytics.endDate), detail: "if every task is done on its day" },
+                  {
+                    label: "Projected finish",
+                    value: analytics.projectedFinish ? formatDateKey(analytics.projectedFinish) : "–",
+                    detail:
+                      finishDelta === null
+                        ? "no recent completions"
+                        : finishDelta > 0
+                          ? `${finishDelta} day${finishDelta === 1 ? "" : "s"} behind schedule`
+                          : finishDelta < 0
+                            ? `${-finishDelta} day${finishDelta === -1 ? "" : "s"} ahead of schedule`
+                            : "on schedule",
+                  },
+                ].map((stat) => (
+                  <div key={stat.label} className="p-3 rounded-lg border border-[var(--border-subtle)] bg-[var(--bg-deep)]">
+                    <p className="text-xs text-[var(--text-muted)]">{stat.label}</p>
+                    <p className="text-lg font-semibold text-[var(--text-inverse)]">{stat.value}</p>
+                    <p className="text-xs text-[var(--text-secondary)]">{stat.detail}</p>
+                  </div>
+                ))}
+              </section>
+
+              {/* Burndown */}
+              <section>
+                <h3 className="text-sm font-semibold text-[var(--text-inverse)] mb-1">Burndown</h3>
+                <p className="text-xs text-[var(--text-muted)] mb-3">
+                  Remaining tasks by date against the schedule (dashed).
+                </p>
+                <svg
+                  viewBox={`-4 -4 ${CHART_WIDTH + 8} ${CHART_HEIGHT + 8}`}
+                  className="w-full h-48"
+                  role="img"
+                  aria-label="Burndown chart of remaining tasks against the schedule"
+                >
+                  <line x1={0} y1={CHART_HEIGHT} x2={CHART_WIDTH} y2={CHART_HEIGHT} stroke="var(--border-subtle)" />
+                  <polyline
+                    points={linePoints(analytics.burndown, analytics.totalTasks, (point) => point.ideal)}
+                    fill="none"
+                    stroke="var(--text-muted)"
+                    strokeDasharray="6 4"
+                    strokeWidth={2}
+                  />
+                  <polyline
+                    points={linePoints(analytics.burndown, analytics.totalTasks, (point) => point.remaining)}
+                    fill="none"
+                    stroke="var(--accent-cyan)"
+                    strokeWidth={2.5}
+                  />
+                </svg>
+                {analytics.burndown.length > 0 && (
+                  <div className="flex justify-between text-xs text-[var(--text-muted)] mt-1">
+                    <span>{formatDateKey(analytics.burndown[0].date)}</span>
+                    <span>{formatDateKey(analytics.burndown[analytics.burndown.length - 1].date)}</span>
+                  </div>
+                )}
+                {analytics.undatedCompletions > 0 && (
+                  <p className="mt-2 text-xs text-[var(--text-muted)]">
+                    {analytics.undatedCompletions} task{analytics.undatedCompletions === 1 ? " was" : "s were"} completed
+                    before completion times were recorded and count on the start date.
+                  </p>
+                )}
+              </section>
+
+              {/* Weekly velocity */}
+              <section>
+                <h3 className="text-sm font-semibold text-[var(--text-inverse)] mb-1">Weekly velocity</h3>
+                <p className="text-xs text-[var(--text-muted)] mb-3">
+                  Tasks completed each week (filled) and tasks scheduled (outline).
+                </p>
+                <div className="flex items-end gap-1 h-32 overflow-x-auto">
+                  {analytics.velocity.map((week) => (
+                    <div
+                      key={week.weekStart}
+                      className="relative flex-1 min-w-[14px] h-full"
+                      title={`Week of ${formatDateKey(week.weekStart)}: ${week.completed} completed, ${week.scheduled} scheduled`}
+                    >
+                      <div
+                        className="absolute bottom-0 inset-x-0 rounded-t border border-[var(--border-subtle)]"
+                        style={{ height: `${(week.scheduled / maxWeekly) * 100}%` }}
+                      />
+                      <div
+                        className="absolute bottom-0 inset-x-1 rounded-t bg-[var(--accent-cyan)]"
+                        style={{ height: `${(week.completed / maxWeekly) * 100}%` }}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </section>
+
+              {/* Per milestone */}
+              <section>
+                <h3 className="text-sm font-semibold text-[var(--text-inverse)] mb-3">By milestone</h3>
+                <ul className="space-y-3">
+                  {analytics.milestones.map((month) => (
+                    <li key={month.month} className="text-sm">
+                      <div className="flex flex-wrap items-baseline justify-between gap-2">
+                        <span className="text-[var(--text-inverse)] break-words">
+                          Month {month.month}: {month.milestone}
+                        </span>
+                        <span className="text-[var(--text-secondary)]">
+                          {month.completed} / {month.total} · {percent(month.completed, month.total)}%
+                          {month.due > month.completed && ` · ${month.due - month.completed} behind`}
+                        </span>
+                      </div>
+                      <div className="mt-1 h-1.5 w-full rounded-full bg-[var(--bg-deep)] overflow-hidden">
+                        <div
+                          className="h-full rounded-full bg-[var(--accent-cyan)]"
+                          style={{ width: `${percent(month.completed, month.total)}%` }}
+                        />
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+
+              {/* Per weekday */}
+              <section>
+                <h3 className="text-sm font-semibold text-[var(--text-inverse)] mb-1">By weekday</h3>
+                <p className="text-xs text-[var(--text-muted)] mb-3">
+                  Share of past tasks done on or before their day, and how many tasks you completed on each weekday.
+                </p>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-[var(--text-secondary)]">
+                      <th className="pb-2 font-medium">Day</th>
+                      <th className="pb-2 font-medium text-right">Due</th>
+                      <th className="pb-2 font-medium text-right">On time</th>
+                      <th className="pb-2 font-medium text-right">Completions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {WEEKDAY_ORDER.map((weekday) => {
+                      const row = analytics.weekdays[weekday];
+                      return (
+                        <tr key={weekday} className="border-t border-[var(--border-subtle)] text-[var(--text-inverse)]">
+                          <td className="py-2">{WEEKDAY_NAMES[weekday]}</td>
+                          <td className="py-2 text-right">{row.due}</td>
+                          <td className="py-2 text-right">{row.due > 0 ? `${percent(row.completedOnTime, row.due)}%` : "–"}</td>
+                          <td className="py-2 text-right">{row.completions}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </section>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
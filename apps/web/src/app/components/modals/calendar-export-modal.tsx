@@ -0,0 +1,248 @@
+import React, { useState } from "react";
+import { FaTimes, FaCalendarAlt, FaDownload, FaCopy, FaSyncAlt } from "react-icons/fa";
+import { useMutation, useQuery } from "convex/react";
+import { toast } from "sonner";
+import { api } from "@milestoneAI-next-js/backend/convex/_generated/api";
+import type { Id } from "@milestoneAI-next-js/backend/convex/_generated/dataModel";
+import { buildPlanCalendar } from "@milestoneAI-next-js/backend/convex/lib/ics";
+import type { CalendarComponent } from "@milestoneAI-next-js/backend/convex/lib/ics";
+import type { FullPlan } from "../../types/plan-types";
+import { getPlanStartDateKey } from "../../utils/plan-dates";
+
+interface CalendarExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  plan: FullPlan;
+  planId: Id<"plans"> | null;
+}
+
+const COMPONENT_OPTIONS: { value: CalendarComponent; label: string; hint: string }[] = [
+  { value: "event", label: "Events", hint: "All-day events for Google Calendar, Outlook and Apple Calendar" },
+  { value: "todo", label: "To-dos", hint: "Tasks with completion status for Apple Reminders, Thunderbird and other task apps" },
+];
+
+const ctaStyle = {
+  backgroundColor: "var(--black)",
+  backgroundImage: "var(--grad-cta), linear-gradient(var(--black), var(--black))",
+  backgroundRepeat: "no-repeat, no-repeat",
+  backgroundSize: "calc(100% - 12px) 1px, 100% 100%",
+  backgroundPosition: "center 100%, 0 0",
+  border: "none",
+};
+
+const fileNameForGoal = (goal: string) =>
+  `${goal.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 60) || "plan"}.ics`;
+
+/**
+ * @description
+ * Modal for getting a plan into calendar apps: a one-off `.ics` download of the current plan,
+ * and a secret subscription URL (served by Convex) that stays in sync as tasks change.
+ *
+ * @receives data from:
+ * - components/planning/milestone-page.tsx: current plan and saved plan id
+ * - Convex: calendarFeed.getCalendarFeed for the existing feed URL
+ *
+ * @sends data to:
+ * - Convex: calendarFeed.enableCalendarFeed / disableCalendarFeed
+ *
+ * @sideEffects:
+ * - Triggers a file download; writes the feed URL to the clipboard
+ */
+export default function CalendarExportModal({ isOpen, onClose, plan, planId }: CalendarExportModalProps) {
+  const [component, setComponent] = useState<CalendarComponent>("event");
+  const [isUpdatingFeed, setIsUpdatingFeed] = useState(false);
+  const feed = useQuery(api.calendarFeed.getCalendarFeed, isOpen && planId ? { planId } : "skip");
+  const enableFeed = useMutation(api.calendarFeed.enableCalendarFeed);
+  const disableFeed = useMutation(api.calendarFeed.disableCalendarFeed);
+
+  const feedUrl = feed ? (component === "todo" ? `${feed.url}?type=todo` : feed.url) : null;
+
+  const handleDownload = () => {
+    const ics = buildPlanCalendar(plan, {
+      startDate: getPlanStartDateKey(plan),
+      availability: plan.availability,
+      component,
+      planKey: planId ?? undefined,
+    });
+    const url = URL.createObjectURL(new Blob([ics], { type: "text/calendar;charset=utf-8" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileNameForGoal(plan.goal);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleEnableFeed = async (rotate: boolean) => {
+    if (!planId) return;
+    if (rotate && !confirm("Reset the feed URL? Calendars subscribed to the current URL will stop updating.")) return;
+    setIsUpdatingFeed(true);
+    try {
+      await enableFeed({ planId });
+      toast.success(rotate ? "Feed URL reset." : "Calendar feed created.");
+    } catch (error) {
+      console.error("[CalendarExportModal] Failed to update calendar feed:", error);
+      toast.error("Failed to update the calendar feed.");
+    } finally {
+      setIsUpdatingFeed(false);
+    }
+  };
+
+  const handleDisableFeed = async () => {
+    if (!planId) return;
+    if (!confirm("Turn off the calendar feed? Subscribed calendars will stop updating.")) return;
+    setIsUpdatingFeed(true);
+    try {
+      await disableFeed({ planId });
+      toast.success("Calendar feed turned off.");
+    } catch (error) {
+      console.error("[CalendarExportModal] Failed to disable calendar feed:", error);
+      toast.error("Failed to turn off the calendar feed.");
+    } finally {
+      setIsUpdatingFeed(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast.success("Feed URL copied.");
+    } catch {
+      toast.error("Could not copy the URL.");
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 flex items-center justify-center z-50"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-xl relative overflow-hidden rounded-2xl border border-[var(--accent-cyan)] bg-[var(--neutral-950)]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-6 border-b border-[var(--border-subtle)]">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <FaCalendarAlt className="text-[var(--accent-cyan)] text-xl" />
+              <h2 className="text-xl font-semibold text-[var(--text-inverse)]">
+                Add to Calendar
+              </h2>
+            </div>
+            <button
+              onClick={onClose}
+              aria-label="Close"
+              className="p-2 rounded-full hover:bg-[var(--bg-deep)] transition-colors focus:outline-none focus:ring-2 focus:ring-[var(--accent-cyan)] focus:ring-offset-0"
+            >
+              <FaTimes className="text-[var(--text-secondary)]" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* Format */}
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-semibold text-[var(--text-inverse)] mb-2">Format</legend>
+            {COMPONENT_OPTIONS.map((option) => (
+              <label key={option.value} className="flex items-start space-x-3 cursor-pointer">
+                <input
+                  type="radio"
+                  name="calendar-component"
+                  value={option.value}
+                  checked={component === option.value}
+                  onChange={() => setComponent(option.value)}
+                  className="mt-1 accent-[var(--accent-cyan)]"
+                />
+                <span>
+                  <span className="block text-sm text-[var(--text-inverse)]">{option.label}</span>
+                  <span className="block text-xs text-[var(--text-secondary)]">{option.hint}</span>
+                </span>
+              </label>
+            ))}
+          </fieldset>
+
+          {/* Download */}
+          <section>
+            <h3 className="text-sm font-semibold text-[var(--text-inverse)] mb-1">Download</h3>
+            <p className="text-xs text-[var(--text-secondary)] mb-3">
+              A one-time snapshot of the plan. Import it into any calendar app.
+            </p>
+            <button
+              onClick={handleDownload}
+              className="inline-flex items-center rounded-full px-6 py-1.5 text-sm font-medium text-white shadow-md transition-colors motion-reduce:transition-none"
+              style={ctaStyle}
+            >
+              <FaDownload className="text-sm mr-2" />
+              <span>Download .ics</span>
+            </button>
+          </section>
+
+          {/* Subscription feed */}
+          <section>
+            <h3 className="text-sm font-semibold text-[var(--text-inverse)] mb-1">Subscribe</h3>
+            {!planId ? (
+              <p className="text-xs text-[var(--text-secondary)]">
+                Save the plan to get a calendar feed that stays in sync.
+              </p>
+            ) : feed === undefined ? (
+              <p className="text-xs text-[var(--text-secondary)]">Loading feed...</p>
+            ) : !feedUrl ? (
+              <>
+                <p className="text-xs text-[var(--text-secondary)] mb-3">
+                  A private URL your calendar app checks for updates, so completed and changed tasks stay in sync.
+                </p>
+                <button
+                  onClick={() => handleEnableFeed(false)}
+                  disabled={isUpdatingFeed}
+                  className="px-4 py-2 rounded-lg text-sm font-medium border border-[var(--border-subtle)] text-[var(--text-inverse)] hover:border-[var(--accent-cyan)] transition-colors disabled:opacity-50"
+                >
+                  Create feed URL
+                </button>
+              </>
+            ) : (
+              <>
+                <p className="text-xs text-[var(--text-secondary)] mb-3">
+                  Anyone with this URL can see the plan. Add it in your calendar app as a subscription (&quot;From URL&quot;).
+                </p>
+                <div className="flex items-center space-x-2">
+                  <input
+                    readOnly
+                    value={feedUrl}
+                    onFocus={(e) => e.target.select()}
+                    className="flex-1 min-w-0 px-3 py-2 rounded-lg border border-[var(--border-subtle)] bg-[var(--bg-deep)] text-xs text-[var(--text-inverse)] focus:border-[var(--accent-cyan)] focus:outline-none"
+                  />
+                  <button
+                    onClick={handleCopy}
+                    aria-label="Copy feed URL"
+                    className="p-2 rounded-lg border border-[var(--border-subtle)] text-[var(--text-inverse)] hover:border-[var(--accent-cyan)] transition-colors"
+                  >
+                    <FaCopy />
+                  </button>
+                </div>
+                <div className="flex items-center space-x-4 mt-3 text-xs">
+                  <button
+                    onClick={() => handleEnableFeed(true)}
+                    disabled={isUpdatingFeed}
+                    className="inline-flex items-center text-[var(--text-secondary)] hover:text-[var(--accent-cyan)] transition-colors disabled:opacity-50"
+                  >
+                    <FaSyncAlt className="mr-1" /> Reset URL
+                  </button>
+                  <button
+                    onClick={handleDisableFeed}
+                    disabled={isUpdatingFeed}
+                    className="text-red-400 hover:text-red-300 transition-colors disabled:opacity-50"
+                  >
+                    Turn off feed
+                  </button>
+                </div>
+              </>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState } from 'react';
 import { usePlan } from '../../contexts/plan-context';
+import { MAX_PLAN_DURATION_DAYS } from '../../utils/plan-schema';
 
 interface CustomDurationModalProps {
   isOpen: boolean;
@@ -7,7 +8,6 @@ interface CustomDurationModalProps {
   onConfirm: (duration: number) => void;
 }
 
-const MAX_DAYS = 90;
 const UNIT_MULTIPLIERS = { days: 1, weeks: 7, months: 30 } as const;
 
 export default function CustomDurationModal({ isOpen, onClose, onConfirm }: CustomDurationModalProps) {
@@ -16,11 +16,11 @@ export default function CustomDurationModal({ isOpen, onClose, onConfirm }: Cust
   const { setSelectedDuration } = usePlan();
 
   const totalDays = value * UNIT_MULTIPLIERS[unit];
-  const isValid = totalDays <= MAX_DAYS;
+  const isValid = totalDays <= MAX_PLAN_DURATION_DAYS;
 
   const handleIncrement = () => {
     const newTotalDays = (value + 1) * UNIT_MULTIPLIERS[unit];
-    if (newTotalDays <= MAX_DAYS) setValue(value + 1);
+    if (newTotalDays <= MAX_PLAN_DURATION_DAYS) setValue(value + 1);
   };
 
   const handleDecrement = () => {
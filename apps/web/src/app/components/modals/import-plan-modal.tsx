@@ -0,0 +1,208 @@
+import React, { useMemo, useRef, useState } from "react";
+import { FaTimes, FaFileImport, FaExclamationCircle, FaExclamationTriangle, FaUpload } from "react-icons/fa";
+import { usePlan } from "../../contexts/plan-context";
+import { importPlan } from "../../utils/plan-import";
+import { flattenPlanTasks } from "../../utils/plan-dates";
+
+interface ImportPlanModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Large enough for multi-year plans, small enough to keep parsing instant
+const MAX_IMPORT_BYTES = 1024 * 1024;
+
+const PLACEHOLDER = `# Goal: Run a half marathon
+
+## Month 1: Build a base
+### Week 1: Get comfortable running
+- Day 1: Run/walk for 20 minutes
+- Day 2: ...
+
+or paste a .json plan file`;
+
+/**
+ * @description
+ * Modal for importing a plan from pasted text or an uploaded file, in the Markdown plan format
+ * or the versioned JSON format. Shows a validation report with line numbers before saving.
+ *
+ * @receives data from:
+ * - components/planning/planning-page.tsx: open/close state
+ * - utils/plan-import.ts; importPlan: parsed plan and issues
+ *
+ * @sends data to:
+ * - contexts/plan-context.tsx; saveImportedPlan: validated plan to save via `savePlan`
+ *
+ * @sideEffects:
+ * - Reads the selected file; creates a new plan document on import
+ */
+export default function ImportPlanModal({ isOpen, onClose }: ImportPlanModalProps) {
+  const { saveImportedPlan } = usePlan();
+  const [text, setText] = useState("");
+  const [fileName, setFileName] = useState<string | undefined>(undefined);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const result = useMemo(() => (text.trim() ? importPlan(text, fileName) : null), [text, fileName]);
+  const errors = result?.issues.filter((issue) => issue.severity === "error") ?? [];
+  const warnings = result?.issues.filter((issue) => issue.severity === "warning") ?? [];
+  const weekCount = result?.plan?.monthlyMilestones.reduce((sum, month) => sum + month.weeklyObjectives.length, 0) ?? 0;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    if (file.size > MAX_IMPORT_BYTES) {
+      setFileError("That file is too large to be a plan (limit 1 MB).");
+      return;
+    }
+    setFileError(null);
+    setFileName(file.name);
+    setText(await file.text());
+  };
+
+  const handleTextChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    // Pasted text is detected by content, not by a previously chosen file's extension
+    setFileName(undefined);
+    setText(e.target.value);
+  };
+
+  const handleImport = async () => {
+    if (!result?.plan) return;
+    setIsImporting(true);
+    const saved = await saveImportedPlan(result.plan);
+    setIsImporting(false);
+    if (saved) {
+      setText("");
+      setFileName(undefined);
+      onClose();
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 flex items-center justify-center z-50"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-3xl max-h-[85vh] relative overflow-hidden rounded-2xl border border-[var(--accent-cyan)] bg-[var(--neutral-950)] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-6 border-b border-[var(--border-subtle)]">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <FaFileImport className="text-[var(--accent-cyan)] text-xl" />
+              <h2 className="text-xl font-semibold text-[var(--text-inverse)]">
+                Import Plan
+              </h2>
+            </div>
+            <button
+              onClick={onClose}
+              aria-label="Close"
+              className="p-2 rounded-full hover:bg-[var(--bg-deep)] transition-colors focus:outline-none focus:ring-2 focus:ring-[var(--accent-cyan)] focus:ring-offset-0"
+            >
+              <FaTimes className="text-[var(--text-secondary)]" />
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-[var(--text-secondary)]">
+              Paste a plan in the Markdown format or upload a <code>.md</code> / <code>.json</code> file.
+            </p>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="inline-flex items-center px-4 py-2 rounded-lg text-sm font-medium border border-[var(--border-subtle)] text-[var(--text-inverse)] hover:border-[var(--accent-cyan)] transition-colors"
+            >
+              <FaUpload className="mr-2" />
+              Upload file
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".md,.markdown,.txt,.json,text/markdown,text/plain,application/json"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+          </div>
+          {fileError && <p className="text-sm text-red-400">{fileError}</p>}
+
+          <textarea
+            value={text}
+            onChange={handleTextChange}
+            placeholder={PLACEHOLDER}
+            spellCheck={false}
+            className="w-full h-64 p-3 rounded-lg border border-[var(--border-subtle)] bg-[var(--bg-deep)] text-sm font-mono text-[var(--text-inverse)] focus:border-[var(--accent-cyan)] focus:outline-none resize-y"
+          />
+
+          {/* Validation report */}
+          {result && (
+            <section className="space-y-3">
+              {result.plan ? (
+                <p className="text-sm text-emerald-400">
+                  Ready to import &quot;{result.plan.goal}&quot;: {result.plan.monthlyMilestones.length} month
+                  {result.plan.monthlyMilestones.length === 1 ? "" : "s"}, {weekCount} week{weekCount === 1 ? "" : "s"},{" "}
+                  {flattenPlanTasks(result.plan).length} tasks ({result.format === "json" ? "JSON" : "Markdown"}).
+                </p>
+              ) : (
+                <p className="text-sm text-red-400">
+                  Fix {errors.length === 1 ? "this error" : `these ${errors.length} errors`} to import the plan.
+                </p>
+              )}
+              {[...errors, ...warnings].length > 0 && (
+                <ul className="space-y-1 max-h-48 overflow-y-auto">
+                  {[...errors, ...warnings].map((issue, index) => (
+                    <li key={index} className="flex items-start space-x-2 text-sm">
+                      {issue.severity === "error" ? (
+                        <FaExclamationCircle className="mt-0.5 shrink-0 text-red-400" />
+                      ) : (
+                        <FaExclamationTriangle className="mt-0.5 shrink-0 text-amber-400" />
+                      )}
+                      <span className="text-[var(--text-inverse)]">
+                        {issue.line !== undefined && (
+                          <span className="text-[var(--text-secondary)]">Line {issue.line}: </span>
+                        )}
+                        {issue.message}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-6 border-t border-[var(--border-subtle)] flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg font-medium border border-[var(--border-subtle)] text-[var(--text-inverse)] hover:border-[var(--accent-cyan)] transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!result?.plan || isImporting}
+            className="inline-flex items-center rounded-full px-6 py-1.5 text-sm font-medium text-white shadow-md transition-colors motion-reduce:transition-none disabled:opacity-50"
+            style={{
+              backgroundColor: 'var(--black)',
+              backgroundImage: 'var(--grad-cta), linear-gradient(var(--black), var(--black))',
+              backgroundRepeat: 'no-repeat, no-repeat',
+              backgroundSize: 'calc(100% - 12px) 1px, 100% 100%',
+              backgroundPosition: 'center 100%, 0 0',
+              border: 'none',
+            }}
+          >
+            {isImporting ? "Importing..." : warnings.length > 0 && result?.plan ? "Import anyway" : "Import plan"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,285 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { FaTimes, FaHistory, FaUndo } from "react-icons/fa";
+import { useQuery } from "convex/react";
+import { api } from "@milestoneAI-next-js/backend/convex/_generated/api";
+import type { Id } from "@milestoneAI-next-js/backend/convex/_generated/dataModel";
+import { usePlan } from "../../contexts/plan-context";
+import { diffPlans, isEmptyDiff } from "../../utils/plan-diff";
+import type { SectionChange, TaskChange } from "../../utils/plan-diff";
+
+interface PlanHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  planId: Id<"plans">;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  initial: "Original",
+  generate: "Generated",
+  import: "Imported",
+  refine: "AI refinement",
+  manual: "Saved",
+  restore: "Restored",
+  "chat-edit": "Chat edits",
+  replan: "Replanned from today",
+};
+
+const formatTimestamp = (timestamp: number) =>
+  new Date(timestamp).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+const sectionChangeText = (change: SectionChange) => {
+  if (change.kind === "added") return `${change.label} added: ${change.to}`;
+  if (change.kind === "removed") return `${change.label} removed: ${change.from}`;
+  return `${change.label}: "${change.from}" → "${change.to}"`;
+};
+
+const taskChangeText = (change: TaskChange) => {
+  if (change.kind === "added") return `Day ${change.toDay} added: ${change.to}`;
+  if (change.kind === "removed") return `Day ${change.fromDay} removed: ${change.from}`;
+  if (change.kind === "moved") return `Moved from day ${change.fromDay} to day ${change.toDay}: ${change.to}`;
+  return `Day ${change.toDay}: "${change.from}" → "${change.to}"`;
+};
+
+const CHANGE_COLORS: Record<string, string> = {
+  added: "text-emerald-400",
+  removed: "text-red-400",
+  renamed: "text-[var(--accent-cyan)]",
+  reworded: "text-[var(--accent-cyan)]",
+  moved: "text-[var(--text-secondary)]",
+};
+
+/**
+ * @description
+ * Modal listing the saved versions of a plan. Selecting a version shows a structured diff
+ * against an earlier version (the previous one by default) and allows restoring it.
+ *
+ * @receives data from:
+ * - Convex: plans.listVersions for the plan's version history
+ * - contexts/plan-context.tsx; usePlan: restorePlanVersion
+ *
+ * @sends data to:
+ * - Convex: plans.restoreVersion (via plan context)
+ *
+ * @sideEffects:
+ * - Replaces the current plan content with the restored version
+ */
+export default function PlanHistoryModal({ isOpen, onClose, planId }: PlanHistoryModalProps) {
+  const { restorePlanVersion } = usePlan();
+  const versions = useQuery(api.plans.listVersions, isOpen ? { planId } : "skip");
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [baseVersion, setBaseVersion] = useState<number | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  // Default to comparing the latest version with the one before it
+  useEffect(() => {
+    if (!versions || versions.length === 0 || selectedVersion !== null) return;
+    setSelectedVersion(versions[0].version);
+    setBaseVersion(versions[1]?.version ?? null);
+  }, [versions, selectedVersion]);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setSelectedVersion(null);
+      setBaseVersion(null);
+    }
+  }, [isOpen]);
+
+  const selected = versions?.find((v) => v.version === selectedVersion);
+  const base = versions?.find((v) => v.version === baseVersion);
+  const diff = useMemo(() => (selected && base ? diffPlans(base, selected) : null), [selected, base]);
+  const isLatest = !!versions && versions[0]?.version === selectedVersion;
+
+  const handleSelectVersion = (version: number) => {
+    setSelectedVersion(version);
+    const previous = versions?.find((v) => v.version < version);
+    setBaseVersion(previous?.version ?? null);
+  };
+
+  const handleRestore = async () => {
+    if (selectedVersion === null) return;
+    if (!confirm(`Restore version ${selectedVersion}? Progress on tasks that still exist is kept.`)) return;
+    setIsRestoring(true);
+    const restored = await restorePlanVersion(selectedVersion);
+    setIsRestoring(false);
+    if (restored) onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 flex items-center justify-center z-50"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-5xl max-h-[80vh] relative overflow-hidden rounded-2xl border border-[var(--accent-cyan)] bg-[var(--neutral-950)] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-6 border-b border-[var(--border-subtle)]">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <FaHistory className="text-[var(--accent-cyan)] text-xl" />
+              <h2 className="text-xl font-semibold text-[var(--text-inverse)]">
+                Plan History
+              </h2>
+            </div>
+            <button
+              onClick={onClose}
+              aria-label="Close"
+              className="p-2 rounded-full hover:bg-[var(--bg-deep)] transition-colors focus:outline-none focus:ring-2 focus:ring-[var(--accent-cyan)] focus:ring-offset-0"
+            >
+              <FaTimes className="text-[var(--text-secondary)]" />
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        {!versions ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[var(--accent-cyan)] mx-auto mb-4"></div>
+            <p className="text-sm text-[var(--text-secondary)]">Loading history...</p>
+          </div>
+        ) : versions.length === 0 ? (
+          <div className="text-center py-12">
+            <FaHistory className="text-2xl text-[var(--accent-cyan)] mx-auto mb-3" />
+            <p className="text-sm text-[var(--text-secondary)]">
+              No versions yet. Refining or saving the plan records a new version.
+            </p>
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 grid grid-cols-1 md:grid-cols-3">
+            {/* Version list */}
+            <ul className="overflow-y-auto p-4 space-y-2 border-b md:border-b-0 md:border-r border-[var(--border-subtle)]">
+              {versions.map((version) => (
+                <li key={version._id}>
+                  <button
+                    onClick={() => handleSelectVersion(version.version)}
+                    className={`w-full text-left rounded-lg border p-3 transition-colors ${
+                      version.version === selectedVersion
+                        ? "border-[var(--accent-cyan)] bg-[var(--bg-deep)]"
+                        : "border-[var(--border-subtle)] hover:border-[var(--accent-cyan)]"
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-semibold text-[var(--text-inverse)]">
+                        Version {version.version}
+                      </span>
+                      <span className="text-xs text-[var(--text-secondary)]">
+                        {formatTimestamp(version.createdAt)}
+                      </span>
+                    </div>
+                    <div className="text-xs text-[var(--text-secondary)] mt-1">
+                      {version.summary ?? SOURCE_LABELS[version.source] ?? version.source}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {/* Diff */}
+            <div className="md:col-span-2 overflow-y-auto p-6 space-y-4">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <label className="flex items-center space-x-2 text-sm text-[var(--text-secondary)]">
+                  <span>Compare with</span>
+                  <select
+                    value={baseVersion ?? ""}
+                    onChange={(e) => setBaseVersion(e.target.value ? Number(e.target.value) : null)}
+                    className="px-2 py-1 rounded-lg border border-[var(--border-subtle)] bg-[var(--bg-deep)] text-[var(--text-inverse)] focus:border-[var(--accent-cyan)] focus:outline-none"
+                  >
+                    <option value="">—</option>
+                    {versions
+                      .filter((v) => v.version !== selectedVersion)
+                      .map((v) => (
+                        <option key={v._id} value={v.version}>
+                          Version {v.version}
+                        </option>
+                      ))}
+                  </select>
+                </label>
+                {!isLatest && selectedVersion !== null && (
+                  <button
+                    onClick={handleRestore}
+                    disabled={isRestoring}
+                    className="inline-flex items-center rounded-full px-6 py-1.5 text-sm font-medium text-white shadow-md transition-colors motion-reduce:transition-none disabled:opacity-50"
+                    style={{
+                      backgroundColor: 'var(--black)',
+                      backgroundImage: 'var(--grad-cta), linear-gradient(var(--black), var(--black))',
+                      backgroundRepeat: 'no-repeat, no-repeat',
+                      backgroundSize: 'calc(100% - 12px) 1px, 100% 100%',
+                      backgroundPosition: 'center 100%, 0 0',
+                      border: 'none',
+                    }}
+                  >
+                    <FaUndo className="text-sm mr-2" />
+                    <span>{isRestoring ? "Restoring..." : `Restore version ${selectedVersion}`}</span>
+                  </button>
+                )}
+              </div>
+
+              {!diff ? (
+                <p className="text-sm text-[var(--text-secondary)]">
+                  Choose a version to compare against.
+                </p>
+              ) : isEmptyDiff(diff) ? (
+                <p className="text-sm text-[var(--text-secondary)]">
+                  No content changes between version {baseVersion} and version {selectedVersion}.
+                </p>
+              ) : (
+                <>
+                  <p className="text-sm text-[var(--text-secondary)]">
+                    {diff.tasks.length} task change{diff.tasks.length === 1 ? "" : "s"} · {diff.completionCarriedOver} completed task
+                    {diff.completionCarriedOver === 1 ? "" : "s"} carried over
+                    {diff.completionReset > 0 && ` · ${diff.completionReset} reset`}
+                  </p>
+                  {diff.goal && (
+                    <section>
+                      <h3 className="text-sm font-semibold text-[var(--text-inverse)] mb-2">Goal</h3>
+                      <p className="text-sm text-[var(--accent-cyan)]">
+                        &quot;{diff.goal.from}&quot; → &quot;{diff.goal.to}&quot;
+                      </p>
+                    </section>
+                  )}
+                  {[
+                    { title: "Milestones", changes: diff.milestones },
+                    { title: "Weekly Objectives", changes: diff.objectives },
+                  ]
+                    .filter((group) => group.changes.length > 0)
+                    .map((group) => (
+                      <section key={group.title}>
+                        <h3 className="text-sm font-semibold text-[var(--text-inverse)] mb-2">{group.title}</h3>
+                        <ul className="space-y-1">
+                          {group.changes.map((change) => (
+                            <li key={change.key} className={`text-sm ${CHANGE_COLORS[change.kind]}`}>
+                              {sectionChangeText(change)}
+                            </li>
+                          ))}
+                        </ul>
+                      </section>
+                    ))}
+                  {diff.tasks.length > 0 && (
+                    <section>
+                      <h3 className="text-sm font-semibold text-[var(--text-inverse)] mb-2">Daily Tasks</h3>
+                      <ul className="space-y-1">
+                        {diff.tasks.map((change) => (
+                          <li key={change.key} className={`text-sm ${CHANGE_COLORS[change.kind]}`}>
+                            {taskChangeText(change)}
+                          </li>
+                        ))}
+                      </ul>
+                    </section>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from "react";
+import { FaTimes, FaRedo, FaSyncAlt } from "react-icons/fa";
+import { usePlan } from "../../contexts/plan-context";
+import { replanFromToday } from "../../services/ai-service";
+import type { FullPlan } from "../../types/plan-types";
+import { parseDateKey } from "../../utils/plan-dates";
+import { applyReplan } from "../../utils/replan";
+import type { ReplanChange, ReplanPreview } from "../../utils/replan";
+
+interface ReplanModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  plan: FullPlan;
+}
+
+const ctaStyle = {
+  backgroundColor: "var(--black)",
+  backgroundImage: "var(--grad-cta), linear-gradient(var(--black), var(--black))",
+  backgroundRepeat: "no-repeat, no-repeat",
+  backgroundSize: "calc(100% - 12px) 1px, 100% 100%",
+  backgroundPosition: "center 100%, 0 0",
+  border: "none",
+};
+
+const formatDateKey = (key: string) =>
+  parseDateKey(key).toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric" });
+
+const CHANGE_GROUPS: { kind: ReplanChange["kind"]; title: string; color: string }[] = [
+  { kind: "moved", title: "Rescheduled", color: "text-[var(--accent-cyan)]" },
+  { kind: "merged", title: "Merged", color: "text-emerald-400" },
+  { kind: "reworded", title: "Trimmed", color: "text-amber-400" },
+  { kind: "dropped", title: "Dropped", color: "text-red-400" },
+];
+
+const changeText = (change: ReplanChange) => {
+  switch (change.kind) {
+    case "moved":
+      return `${change.description} — ${formatDateKey(change.fromDate)} → ${formatDateKey(change.toDate)}`;
+    case "merged":
+      return `${change.from.map((text) => `"${text}"`).join(" + ")} → "${change.to}" on ${formatDateKey(change.toDate)}`;
+    case "reworded":
+      return `"${change.from}" → "${change.to}" on ${formatDateKey(change.toDate)}`;
+    case "dropped":
+      return `${change.description} (was ${formatDateKey(change.fromDate)})`;
+  }
+};
+
+// Short version-history label, e.g. "Replanned: 3 rescheduled, 1 dropped"
+const versionSummary = (preview: ReplanPreview) => {
+  const counts = CHANGE_GROUPS.map(({ kind, title }) => ({
+    title: title.toLowerCase(),
+    count: preview.changes.filter((change) => change.kind === kind).length,
+  })).filter(({ count }) => count > 0);
+  return counts.length > 0
+    ? `Replanned: ${counts.map(({ title, count }) => `${count} ${title}`).join(", ")}`
+    : "Replanned from today";
+};
+
+/**
+ * @description
+ * Modal for "replan from today": asks the AI to redistribute overdue and remaining work over
+ * the days left, previews which tasks are rescheduled, merged, trimmed or dropped, and
+ * applies the new schedule to the plan on confirmation.
+ *
+ * @receives data from:
+ * - components/planning/milestone-page.tsx: current plan
+ * - aiService.ts; replanFromToday: proposed schedule
+ *
+ * @sends data to:
+ * - contexts/plan-context.tsx; applyReplannedPlan: replanned plan and version summary
+ *
+ * @sideEffects:
+ * - Network request to the replan route; saves the plan on apply
+ */
+export default function ReplanModal({ isOpen, onClose, plan }: ReplanModalProps) {
+  const { applyReplannedPlan } = usePlan();
+  const [summary, setSummary] = useState("");
+  const [preview, setPreview] = useState<ReplanPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setError(null);
+    setPreview(null);
+    try {
+      const response = await replanFromToday(plan);
+      setSummary(response.summary);
+      setPreview(applyReplan(plan, response));
+    } catch (replanError) {
+      console.error("[ReplanModal] Replanning failed:", replanError);
+      setError((replanError as Error)?.message || "Failed to replan. Please try again.");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  // A fresh proposal each time the modal opens
+  useEffect(() => {
+    if (isOpen) handleGenerate();
+    else {
+      setPreview(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const handleApply = async () => {
+    if (!preview) return;
+    setIsApplying(true);
+    const applied = await applyReplannedPlan(preview.plan, versionSummary(preview));
+    setIsApplying(false);
+    if (applied) onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 flex items-center justify-center z-50"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-3xl max-h-[80vh] relative overflow-hidden rounded-2xl border border-[var(--accent-cyan)] bg-[var(--neutral-950)] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-6 border-b border-[var(--border-subtle)]">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <FaSyncAlt className="text-[var(--accent-cyan)] text-xl" />
+              <h2 className="text-xl font-semibold text-[var(--text-inverse)]">
+                Replan from Today
+              </h2>
+            </div>
+            <button
+              onClick={onClose}
+              aria-label="Close"
+              className="p-2 rounded-full hover:bg-[var(--bg-deep)] transition-colors focus:outline-none focus:ring-2 focus:ring-[var(--accent-cyan)] focus:ring-offset-0"
+            >
+              <FaTimes className="text-[var(--text-secondary)]" />
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 min-h-0 overflow-y-auto p-6 space-y-4">
+          {isGenerating ? (
+            <div className="text-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[var(--accent-cyan)] mx-auto mb-4"></div>
+              <p className="text-sm text-[var(--text-secondary)]">Working out a new schedule...</p>
+            </div>
+          ) : error ? (
+            <p className="text-sm text-red-400">{error}</p>
+          ) : preview ? (
+            <>
+              {summary && <p className="text-sm text-[var(--text-inverse)]">{summary}</p>}
+              <p className="text-sm text-[var(--text-secondary)]">
+                Finishes on {formatDateKey(preview.endDate)}
+                {preview.endDate !== preview.previousEndDate && ` (was ${formatDateKey(preview.previousEndDate)})`}.
+                Completed tasks keep their order and end on your last working day before today; the plan start date moves to match.
+              </p>
+              {preview.changes.length === 0 && (
+                <p className="text-sm text-[var(--text-secondary)]">No task changes were proposed.</p>
+              )}
+              {CHANGE_GROUPS.map((group) => {
+                const changes = preview.changes.filter((change) => change.kind === group.kind);
+                if (changes.length === 0) return null;
+                return (
+                  <section key={group.kind}>
+                    <h3 className="text-sm font-semibold text-[var(--text-inverse)] mb-2">
+                      {group.title} ({changes.length})
+                    </h3>
+                    <ul className="space-y-1">
+                      {changes.map((change) => (
+                        <li key={change.taskId} className={`text-sm break-words ${group.color}`}>
+                          {changeText(change)}
+                        </li>
+                      ))}
+                    </ul>
+                  </section>
+                );
+              })}
+              {preview.shiftedTasks > 0 && (
+                <p className="text-sm text-[var(--text-secondary)]">
+                  {preview.shiftedTasks} upcoming task{preview.shiftedTasks === 1 ? "" : "s"} move to a different day.
+                </p>
+              )}
+            </>
+          ) : null}
+        </div>
+
+        {/* Actions */}
+        <div className="flex-shrink-0 p-4 border-t border-[var(--border-subtle)] flex justify-end space-x-2">
+          <button
+            onClick={handleGenerate}
+            disabled={isGenerating || isApplying}
+            className="inline-flex items-center px-4 py-1.5 border border-[var(--border-subtle)] text-[var(--text-inverse)] rounded-full text-sm hover:border-[var(--accent-cyan)] transition-colors disabled:opacity-50"
+          >
+            <FaRedo className="text-xs mr-2" />
+            Try again
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={!preview || isGenerating || isApplying}
+            className="inline-flex items-center rounded-full px-6 py-1.5 text-sm font-medium text-white shadow-md transition-colors motion-reduce:transition-none disabled:opacity-50"
+            style={ctaStyle}
+          >
+            {isApplying ? "Applying..." : "Apply new schedule"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -121,6 +121,9 @@ export default function SavedPlansModal({
                       </h3>
                       <div className="flex items-center space-x-4 text-sm text-[var(--text-secondary)]">
                         <span>Created {formatDate(plan.createdAt)}</span>
+                        {plan.currentVersion !== undefined && (
+                          <span>Version {plan.currentVersion}</span>
+                        )}
                       </div>
                     </div>
                     <div className="flex items-center space-x-2 ml-4">
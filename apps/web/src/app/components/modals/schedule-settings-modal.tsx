@@ -0,0 +1,188 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { FaTimes, FaCalendarTimes } from "react-icons/fa";
+import { usePlan } from "../../contexts/plan-context";
+import type { FullPlan, PlanAvailability } from "../../types/plan-types";
+import { getPlanScheduleDateKeys, isDateKey, parseDateKey } from "../../utils/plan-dates";
+import WorkingDaysPicker from "../planning/working-days-picker";
+
+interface ScheduleSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  plan: FullPlan;
+}
+
+const ctaStyle = {
+  backgroundColor: "var(--black)",
+  backgroundImage: "var(--grad-cta), linear-gradient(var(--black), var(--black))",
+  backgroundRepeat: "no-repeat, no-repeat",
+  backgroundSize: "calc(100% - 12px) 1px, 100% 100%",
+  backgroundPosition: "center 100%, 0 0",
+  border: "none",
+};
+
+const formatDateKey = (key: string) =>
+  parseDateKey(key).toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric", year: "numeric" });
+
+/**
+ * @description
+ * Modal for a plan's working days: which weekdays get tasks and which dates are days off
+ * (holidays, skipped days). Shows when the plan would end with the edited settings before
+ * saving them.
+ *
+ * @receives data from:
+ * - components/planning/milestone-page.tsx: current plan
+ *
+ * @sends data to:
+ * - contexts/plan-context.tsx; updatePlanAvailability: edited working days and days off
+ *
+ * @sideEffects:
+ * - Saves the plan's availability on confirm
+ */
+export default function ScheduleSettingsModal({ isOpen, onClose, plan }: ScheduleSettingsModalProps) {
+  const { updatePlanAvailability } = usePlan();
+  const [activeWeekdays, setActiveWeekdays] = useState<number[]>([]);
+  const [blackoutDates, setBlackoutDates] = useState<string[]>([]);
+  const [newDate, setNewDate] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the saved settings each time the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setActiveWeekdays(plan.availability?.activeWeekdays ?? []);
+    setBlackoutDates(plan.availability?.blackoutDates ?? []);
+    setNewDate("");
+  }, [isOpen, plan.availability]);
+
+  // No settings at all means every day is a working day
+  const availability = useMemo<PlanAvailability | null>(() => {
+    const everyDay = activeWeekdays.length === 0 || activeWeekdays.length === 7;
+    if (everyDay && blackoutDates.length === 0) return null;
+    return { activeWeekdays: everyDay ? [] : activeWeekdays, blackoutDates };
+  }, [activeWeekdays, blackoutDates]);
+
+  const endDates = useMemo(() => {
+    const current = getPlanScheduleDateKeys(plan);
+    const edited = getPlanScheduleDateKeys({ ...plan, availability: availability ?? undefined });
+    return { current: current[current.length - 1], edited: edited[edited.length - 1] };
+  }, [plan, availability]);
+
+  const handleAddDate = () => {
+    if (!isDateKey(newDate) || blackoutDates.includes(newDate)) return;
+    setBlackoutDates([...blackoutDates, newDate].sort());
+    setNewDate("");
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const saved = await updatePlanAvailability(availability);
+    setIsSaving(false);
+    if (saved) onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 flex items-center justify-center z-50"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-lg max-h-[80vh] relative overflow-hidden rounded-2xl border border-[var(--accent-cyan)] bg-[var(--neutral-950)] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-6 border-b border-[var(--border-subtle)]">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <FaCalendarTimes className="text-[var(--accent-cyan)] text-xl" />
+              <h2 className="text-xl font-semibold text-[var(--text-inverse)]">
+                Working Days
+              </h2>
+            </div>
+            <button
+              onClick={onClose}
+              aria-label="Close"
+              className="p-2 rounded-full hover:bg-[var(--bg-deep)] transition-colors focus:outline-none focus:ring-2 focus:ring-[var(--accent-cyan)] focus:ring-offset-0"
+            >
+              <FaTimes className="text-[var(--text-secondary)]" />
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 min-h-0 overflow-y-auto p-6 space-y-6">
+          <section>
+            <h3 className="text-sm font-semibold text-[var(--text-inverse)] mb-3">Weekdays with tasks</h3>
+            <WorkingDaysPicker activeWeekdays={activeWeekdays} onChange={setActiveWeekdays} />
+          </section>
+
+          <section>
+            <h3 className="text-sm font-semibold text-[var(--text-inverse)] mb-1">Days off</h3>
+            <p className="text-xs text-[var(--text-muted)] mb-3">
+              Holidays and skipped days. Tasks on these dates move to the next working day.
+            </p>
+            <div className="flex items-center space-x-2 mb-3">
+              <input
+                type="date"
+                value={newDate}
+                onChange={(e) => setNewDate(e.target.value)}
+                aria-label="Day off"
+                className="flex-1 px-2 py-1 rounded-lg border border-[var(--border-subtle)] bg-[var(--bg-deep)] text-[var(--text-inverse)] focus:border-[var(--accent-cyan)] focus:outline-none"
+              />
+              <button
+                onClick={handleAddDate}
+                disabled={!isDateKey(newDate)}
+                className="px-4 py-1.5 border border-[var(--border-subtle)] text-[var(--text-inverse)] rounded-full text-sm hover:border-[var(--accent-cyan)] transition-colors disabled:opacity-50"
+              >
+                Add
+              </button>
+            </div>
+            {blackoutDates.length === 0 ? (
+              <p className="text-sm text-[var(--text-secondary)]">No days off.</p>
+            ) : (
+              <ul className="space-y-1">
+                {blackoutDates.map((key) => (
+                  <li key={key} className="flex items-center justify-between text-sm text-[var(--text-inverse)]">
+                    <span>{formatDateKey(key)}</span>
+                    <button
+                      onClick={() => setBlackoutDates(blackoutDates.filter((d) => d !== key))}
+                      aria-label={`Remove ${key}`}
+                      className="p-1 rounded-full hover:bg-[var(--bg-deep)] transition-colors"
+                    >
+                      <FaTimes className="text-xs text-[var(--text-secondary)]" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          {endDates.edited && (
+            <p className="text-sm text-[var(--text-secondary)]">
+              The plan ends on {formatDateKey(endDates.edited)}
+              {endDates.edited !== endDates.current && endDates.current && ` (now ${formatDateKey(endDates.current)})`}.
+            </p>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="flex-shrink-0 p-4 border-t border-[var(--border-subtle)] flex justify-end space-x-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-1.5 border border-[var(--border-subtle)] text-[var(--text-inverse)] rounded-full text-sm hover:border-[var(--accent-cyan)] transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="inline-flex items-center rounded-full px-6 py-1.5 text-sm font-medium text-white shadow-md transition-colors motion-reduce:transition-none disabled:opacity-50"
+            style={ctaStyle}
+          >
+            {isSaving ? "Saving..." : "Save"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,55 +1,146 @@
 import { useState, useEffect, useRef } from "react";
-import { FaCheck, FaTimes, FaRobot } from "react-icons/fa";
+import { FaCheck, FaTimes, FaRobot, FaStickyNote, FaTrash, FaMagic, FaStop } from "react-icons/fa";
 import ReactMarkdown from "react-markdown";
+import type { Components } from "react-markdown";
 import remarkGfm from "remark-gfm";
 import type { DailyTask, FullPlan } from "../../types/plan-types";
-import { useQuery, useMutation, useAction } from "convex/react";
+import { useQuery, useMutation, useAction, usePaginatedQuery } from "convex/react";
 import { api } from "@milestoneAI-next-js/backend/convex/_generated/api";
 import { usePlan } from "../../contexts/plan-context";
 import { useUser } from "@clerk/nextjs";
+import { toast } from "sonner";
+import { describePlanEdit } from "../../utils/plan-edits";
+import type { PlanChatReply, PlanEditOperation } from "../../utils/plan-edits";
+import type { TaskChatMessage, TaskThreadSummary } from "../../utils/task-chat-context";
 
 interface TaskModalProps {
   isOpen: boolean;
   onClose: () => void;
   task: DailyTask | null;
   plan: FullPlan | null;
-  monthIndex: number;
-  weekIndex: number;
-  taskDay: number;
   onToggleComplete: (task: DailyTask) => void;
   onSendMessage: (
     message: string,
     task: DailyTask,
-    plan: FullPlan
-  ) => Promise<string>;
+    plan: FullPlan,
+    options: {
+      thread: TaskChatMessage[]; // Stored thread before this message, oldest first
+      notes: string[];
+      summary: TaskThreadSummary | null; // Rolling summary of the thread's older messages
+      onChunk: (chunk: string) => void;
+      signal: AbortSignal;
+    }
+  ) => Promise<PlanChatReply>;
 }
 
+// Marker appended to a reply the user stopped before it finished
+const STOPPED_SUFFIX = "\n\n_(stopped)_";
+
+const markdownComponents: Components = {
+  p: ({ node, ...props }) => (
+    <p className="mb-2" {...props} />
+  ),
+  ul: ({ node, ...props }) => (
+    <ul
+      className="list-disc pl-5 mb-2 space-y-1"
+      {...props}
+    />
+  ),
+  ol: ({ node, ...props }) => (
+    <ol
+      className="list-decimal pl-5 mb-2 space-y-1"
+      {...props}
+    />
+  ),
+  li: ({ node, ...props }) => (
+    <li className="ml-1" {...props} />
+  ),
+  a: ({ node, ...props }) => (
+    <a
+      className="underline text-[var(--accent-cyan)]"
+      target="_blank"
+      rel="noreferrer"
+      {...props}
+    />
+  ),
+  strong: ({ node, ...props }) => (
+    <strong className="font-semibold" {...props} />
+  ),
+  em: ({ node, ...props }) => (
+    <em className="italic" {...props} />
+  ),
+  code: (props: any) =>
+    props.inline ? (
+      <code
+        className="px-1 rounded bg-black/20"
+        {...props}
+      />
+    ) : (
+      <code
+        className="block p-3 rounded bg-black/30 overflow-x-auto text-xs"
+        {...props}
+      />
+    ),
+  input: ({ node, ...props }) => (
+    // Task list checkboxes (from GFM)
+    <input
+      {...props}
+      className="mr-2 align-middle"
+      disabled
+    />
+  ),
+};
+
 export default function TaskModal({
   isOpen,
   onClose,
   task,
   plan,
-  monthIndex,
-  weekIndex,
-  taskDay,
   onToggleComplete,
   onSendMessage,
 }: TaskModalProps) {
   const [messageInput, setMessageInput] = useState("");
+  const [noteInput, setNoteInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  // Assistant output received so far for the in-flight answer; null when idle
+  const [streamingReply, setStreamingReply] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Edits proposed by the assistant, shown for review before they touch the plan
+  const [pendingEdits, setPendingEdits] = useState<PlanEditOperation[]>([]);
+  const [isApplyingEdits, setIsApplyingEdits] = useState(false);
+  // Whole thread from the first message, paged, instead of only the latest turns
+  const [showTranscript, setShowTranscript] = useState(false);
   const chatContainerRef = useRef<HTMLDivElement>(null);
-  const { currentPlanId } = usePlan();
+  const { currentPlanId, applyChatEdits } = usePlan();
   const { user, isLoaded } = useUser();
 
-  // Create unique task identifier: "month-week-day"
-  const taskIdentifier = `${monthIndex}-${weekIndex}-${taskDay}`;
+  // Chat threads and notes are keyed by the task's stable id
+  const taskIdentifier = task?.id ?? "";
 
-  const messagesPage = useQuery(
+  // Latest turns of the thread; they are also the model's memory of the conversation
+  const recentMessages = useQuery(
+    api.chat.listRecentMessages,
+    currentPlanId && taskIdentifier ? { planId: currentPlanId, taskIdentifier, limit: 100 } : "skip"
+  );
+  const threadSummary = useQuery(
+    api.chatSummaries.getThreadSummary,
+    currentPlanId && taskIdentifier ? { planId: currentPlanId, taskIdentifier } : "skip"
+  );
+  const transcript = usePaginatedQuery(
     api.chat.listMessages,
-    currentPlanId ? { planId: currentPlanId, taskIdentifier } : "skip"
+    showTranscript && currentPlanId && taskIdentifier ? { planId: currentPlanId, taskIdentifier } : "skip",
+    { initialNumItems: 50 }
+  );
+  const notesPage = useQuery(
+    api.notes.listNotes,
+    currentPlanId && taskIdentifier ? { planId: currentPlanId, taskId: taskIdentifier, limit: 20 } : "skip"
   );
-  const messages = messagesPage?.page ?? [];
-  const hasChatError = !messagesPage && currentPlanId !== null && isLoaded && user; // Error if we have a planId but no messagesPage and user is authenticated
+  const taskNotes = notesPage?.page ?? [];
+  const addNote = useMutation(api.notes.addNote);
+  const deleteNote = useMutation(api.notes.deleteNote);
+  const messages = recentMessages ?? [];
+  const displayedMessages = showTranscript ? transcript.results : messages;
+  const hasChatError = !recentMessages && currentPlanId !== null && isLoaded && user; // Error if we have a planId but no messages and user is authenticated
   const isChatDisabled = Boolean(isLoading || currentPlanId === null || hasChatError || !isLoaded || (user === null));
   const appendMessage = useMutation(api.chat.appendMessage);
   const recomputeInsights = useAction(api.insights.recomputeInsightsForPlan);
@@ -59,51 +150,137 @@ export default function TaskModal({
 
     const userMessageContent = messageInput.trim();
     setMessageInput(""); // Clear input immediately
-
-    // 1. Persist user message
-    await appendMessage({
-      planId: currentPlanId,
-      taskIdentifier,
-      role: "user",
-      content: userMessageContent,
-    });
-
-    // 2. Call AI to get response
+    // Context is taken before this message is persisted, so it is not sent twice
+    const thread = messages.map(({ role, content, createdAt }) => ({ role, content, createdAt }));
+    const notes = taskNotes.map((note) => note.text);
+    const summary = threadSummary
+      ? { summary: threadSummary.summary, summarizedThrough: threadSummary.summarizedThrough }
+      : null;
+    // New turns show up at the end of the live view
+    setShowTranscript(false);
+    // Block further sends before anything is written, so a double submit cannot save the message twice
     setIsLoading(true);
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let streamed = "";
+    let userMessageSaved = false;
     try {
-      const response = await onSendMessage(userMessageContent, task!, plan!);
+      // 1. Persist user message
+      await appendMessage({
+        planId: currentPlanId,
+        taskIdentifier,
+        role: "user",
+        content: userMessageContent,
+      });
+      userMessageSaved = true;
+
+      // 2. Stream the AI response, rendering partial output as it arrives
+      setStreamingReply("");
+      const response = await onSendMessage(userMessageContent, task!, plan!, {
+        thread,
+        notes,
+        summary,
+        onChunk: (chunk) => {
+          streamed += chunk;
+          setStreamingReply(streamed);
+        },
+        signal: controller.signal,
+      });
 
-      // 3. Persist assistant message
+      // 3. Persist the complete assistant message with its token count
       await appendMessage({
         planId: currentPlanId,
         taskIdentifier,
         role: "assistant",
-        content: response,
+        content: response.reply,
+        tokens: response.tokens,
       });
+      setPendingEdits(response.operations);
       // Fire-and-forget recompute of insights
       const userTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
       recomputeInsights({ planId: currentPlanId, userTimezone }).catch(() => {});
     } catch (error) {
+      if ((error as Error)?.name === "AbortError") {
+        // Keep what was streamed before the user stopped the answer
+        if (streamed.trim()) {
+          try {
+            await appendMessage({
+              planId: currentPlanId,
+              taskIdentifier,
+              role: "assistant",
+              content: streamed.trim() + STOPPED_SUFFIX,
+            });
+          } catch (saveError) {
+            console.error("Failed to save the stopped answer:", saveError);
+            toast.error("Failed to save the partial answer.");
+          }
+        }
+        return;
+      }
       console.error("Failed to send message:", error);
+      if (!userMessageSaved) {
+        // Nothing was stored; give the message back so it can be sent again
+        setMessageInput(userMessageContent);
+        return;
+      }
       // Persist the error message from the assistant
-      await appendMessage({
-        planId: currentPlanId,
-        taskIdentifier,
-        role: "assistant",
-        content: "Sorry, I encountered an error. Please try again.",
-      });
+      try {
+        await appendMessage({
+          planId: currentPlanId,
+          taskIdentifier,
+          role: "assistant",
+          content: "Sorry, I encountered an error. Please try again.",
+        });
+      } catch (saveError) {
+        console.error("Failed to save the error reply:", saveError);
+        toast.error("The assistant could not answer. Please try again.");
+      }
     } finally {
+      if (abortControllerRef.current === controller) abortControllerRef.current = null;
+      setStreamingReply(null);
       setIsLoading(false);
     }
   };
 
-  // Auto-scroll to bottom of chat
+  const handleStopMessage = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleApplyEdits = async () => {
+    setIsApplyingEdits(true);
+    const applied = await applyChatEdits(pendingEdits);
+    setIsApplyingEdits(false);
+    if (applied) setPendingEdits([]);
+  };
+
+  const handleAddNote = async () => {
+    const text = noteInput.trim();
+    if (!text || currentPlanId === null || !taskIdentifier) return;
+    setNoteInput("");
+    await addNote({ planId: currentPlanId, taskId: taskIdentifier, text });
+  };
+
+  // Proposed edits and in-flight answers belong to the conversation they came from
+  useEffect(() => {
+    setPendingEdits([]);
+    setShowTranscript(false);
+    return () => abortControllerRef.current?.abort();
+  }, [taskIdentifier]);
+
+  // Closing the modal stops an answer that is still streaming
   useEffect(() => {
+    if (!isOpen) abortControllerRef.current?.abort();
+  }, [isOpen]);
+
+  // Auto-scroll to bottom of chat; the transcript is read from the top
+  useEffect(() => {
+    if (showTranscript) return;
     if (chatContainerRef.current) {
       chatContainerRef.current.scrollTop =
         chatContainerRef.current.scrollHeight;
     }
-  }, [messages, isLoading]);
+  }, [messages, isLoading, streamingReply, pendingEdits, showTranscript]);
 
   if (!isOpen || !task) return null;
 
@@ -179,19 +356,84 @@ export default function TaskModal({
                 />
               </button>
             </div>
+
+            {/* Task Notes */}
+            {currentPlanId && user && (
+              <div className="space-y-2">
+                <div className="flex items-center space-x-2 text-sm font-medium text-[var(--text-inverse)]">
+                  <FaStickyNote className="text-[var(--accent-cyan)] text-xs" />
+                  <span>Notes</span>
+                </div>
+                {taskNotes.map((note) => (
+                  <div
+                    key={note._id}
+                    className="flex items-start justify-between text-sm text-[var(--text-inverse)] bg-[var(--bg-deep)] border border-[var(--border-subtle)] rounded-lg px-3 py-2"
+                  >
+                    <p className="whitespace-pre-wrap break-words">{note.text}</p>
+                    <button
+                      onClick={() => deleteNote({ noteId: note._id })}
+                      className="ml-2 p-1 text-[var(--text-secondary)] hover:text-red-400 transition-colors"
+                      title="Delete note"
+                    >
+                      <FaTrash className="text-xs" />
+                    </button>
+                  </div>
+                ))}
+                <div className="flex space-x-2">
+                  <input
+                    type="text"
+                    value={noteInput}
+                    onChange={(e) => setNoteInput(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") {
+                        e.preventDefault();
+                        handleAddNote();
+                      }
+                    }}
+                    placeholder="Add a note for this task..."
+                    aria-label="Task note"
+                    className="flex-1 px-3 py-1.5 rounded-lg border border-[var(--border-subtle)] bg-[var(--bg-deep)] text-[var(--text-inverse)] placeholder-[var(--text-secondary)] focus:border-[var(--accent-cyan)] focus:outline-none text-sm"
+                  />
+                  <button
+                    onClick={handleAddNote}
+                    disabled={!noteInput.trim()}
+                    className="px-3 py-1.5 border border-[var(--border-subtle)] text-[var(--text-inverse)] rounded-lg text-sm hover:border-[var(--accent-cyan)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Add
+                  </button>
+                </div>
+              </div>
+            )}
           </div>
 
           {/* AI Assistant - Takes remaining space */}
           <div className="flex-1 flex flex-col min-h-0">
             <div className="flex-shrink-0 px-4 py-3 border-b border-[var(--border-subtle)] bg-[var(--bg-deep)]">
-              <div className="flex items-center space-x-2">
-                <FaRobot className="text-[var(--accent-cyan)] text-sm" />
-                <span className="text-sm font-medium text-[var(--text-inverse)]">
-                  AI Assistant
-                </span>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <FaRobot className="text-[var(--accent-cyan)] text-sm" />
+                  <span className="text-sm font-medium text-[var(--text-inverse)]">
+                    AI Assistant
+                  </span>
+                </div>
+                {messages.length > 0 && (
+                  <button
+                    onClick={() => setShowTranscript((current) => !current)}
+                    className="text-xs text-[var(--text-secondary)] hover:text-[var(--accent-cyan)] transition-colors"
+                  >
+                    {showTranscript ? "Back to latest" : "View full transcript"}
+                  </button>
+                )}
               </div>
             </div>
 
+            {threadSummary && !showTranscript && (
+              <div className="flex-shrink-0 px-4 py-2 border-b border-[var(--border-subtle)] text-xs text-[var(--text-secondary)]">
+                The assistant remembers {threadSummary.messageCount} earlier messages through a summary.
+                Open the full transcript to read them.
+              </div>
+            )}
+
             {/* Chat Messages - Scrollable container */}
             <div
               ref={chatContainerRef}
@@ -218,7 +460,7 @@ export default function TaskModal({
                     Chat temporarily unavailable. Please refresh the page.
                   </p>
                 </div>
-              ) : messages.length === 0 && !isLoading ? (
+              ) : displayedMessages.length === 0 && !isLoading && !showTranscript ? (
                 <div className="text-center py-8">
                   <FaRobot className="text-2xl text-[var(--accent-cyan)] mx-auto mb-3" />
                   <p className="text-sm text-[var(--text-secondary)]">
@@ -226,7 +468,7 @@ export default function TaskModal({
                   </p>
                 </div>
               ) : (
-                messages.map((message) => (
+                displayedMessages.map((message) => (
                   <div
                     key={message._id}
                     className={`flex items-start space-x-2 ${
@@ -249,60 +491,7 @@ export default function TaskModal({
                       <div className="[&>*:first-child]:mt-0 [&>*:last-child]:mb-0">
                         <ReactMarkdown
                           remarkPlugins={[remarkGfm]}
-                          components={{
-                            p: ({ node, ...props }) => (
-                              <p className="mb-2" {...props} />
-                            ),
-                            ul: ({ node, ...props }) => (
-                              <ul
-                                className="list-disc pl-5 mb-2 space-y-1"
-                                {...props}
-                              />
-                            ),
-                            ol: ({ node, ...props }) => (
-                              <ol
-                                className="list-decimal pl-5 mb-2 space-y-1"
-                                {...props}
-                              />
-                            ),
-                            li: ({ node, ...props }) => (
-                              <li className="ml-1" {...props} />
-                            ),
-                            a: ({ node, ...props }) => (
-                              <a
-                                className="underline text-[var(--accent-cyan)]"
-                                target="_blank"
-                                rel="noreferrer"
-                                {...props}
-                              />
-                            ),
-                            strong: ({ node, ...props }) => (
-                              <strong className="font-semibold" {...props} />
-                            ),
-                            em: ({ node, ...props }) => (
-                              <em className="italic" {...props} />
-                            ),
-                            code: (props: any) =>
-                              props.inline ? (
-                                <code
-                                  className="px-1 rounded bg-black/20"
-                                  {...props}
-                                />
-                              ) : (
-                                <code
-                                  className="block p-3 rounded bg-black/30 overflow-x-auto text-xs"
-                                  {...props}
-                                />
-                              ),
-                            input: ({ node, ...props }) => (
-                              // Task list checkboxes (from GFM)
-                              <input
-                                {...props}
-                                className="mr-2 align-middle"
-                                disabled
-                              />
-                            ),
-                          }}
+                          components={markdownComponents}
                         >
                           {message.content}
                         </ReactMarkdown>
@@ -319,7 +508,34 @@ export default function TaskModal({
                   </div>
                 ))
               )}
-              {isLoading && (
+              {showTranscript && transcript.status !== "Exhausted" && (
+                <div className="text-center">
+                  <button
+                    onClick={() => transcript.loadMore(50)}
+                    disabled={transcript.status !== "CanLoadMore"}
+                    className="px-3 py-1.5 border border-[var(--border-subtle)] text-[var(--text-inverse)] rounded-lg text-xs hover:border-[var(--accent-cyan)] transition-colors disabled:opacity-50"
+                  >
+                    {transcript.status === "CanLoadMore" ? "Load more" : "Loading..."}
+                  </button>
+                </div>
+              )}
+              {isLoading && streamingReply ? (
+                <div className="flex items-start space-x-2 justify-start">
+                  <div className="w-6 h-6 rounded-full bg-[var(--accent-cyan)] flex items-center justify-center flex-shrink-0 mt-0.5">
+                    <FaRobot className="text-white text-xs" />
+                  </div>
+                  <div className="max-w-[85%] p-3 text-sm leading-relaxed break-words bg-[var(--bg-deep)] border border-[var(--border-subtle)] text-[var(--text-inverse)] rounded-t-2xl rounded-r-2xl rounded-bl-md">
+                    <div className="[&>*:first-child]:mt-0 [&>*:last-child]:mb-0">
+                      <ReactMarkdown
+                        remarkPlugins={[remarkGfm]}
+                        components={markdownComponents}
+                      >
+                        {streamingReply}
+                      </ReactMarkdown>
+                    </div>
+                  </div>
+                </div>
+              ) : isLoading && (
                 <div className="flex items-start space-x-2 justify-start">
                   <div className="w-6 h-6 rounded-full bg-[var(--accent-cyan)] flex items-center justify-center flex-shrink-0 mt-0.5">
                     <FaRobot className="text-white text-xs" />
@@ -335,6 +551,39 @@ export default function TaskModal({
               )}
             </div>
 
+            {/* Proposed plan edits */}
+            {pendingEdits.length > 0 && plan && (
+              <div className="flex-shrink-0 p-4 border-t border-[var(--border-subtle)] space-y-3">
+                <div className="flex items-center space-x-2 text-sm font-medium text-[var(--text-inverse)]">
+                  <FaMagic className="text-[var(--accent-cyan)] text-xs" />
+                  <span>Proposed plan changes</span>
+                </div>
+                <ul className="space-y-1 max-h-32 overflow-y-auto">
+                  {pendingEdits.map((operation, index) => (
+                    <li key={index} className="text-sm text-[var(--text-secondary)] break-words">
+                      {describePlanEdit(plan, operation)}
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={handleApplyEdits}
+                    disabled={isApplyingEdits}
+                    className="px-3 py-1.5 bg-[var(--accent-cyan)] text-white rounded-lg text-sm font-medium hover:bg-opacity-80 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isApplyingEdits ? "Applying..." : "Apply changes"}
+                  </button>
+                  <button
+                    onClick={() => setPendingEdits([])}
+                    disabled={isApplyingEdits}
+                    className="px-3 py-1.5 border border-[var(--border-subtle)] text-[var(--text-inverse)] rounded-lg text-sm hover:border-[var(--accent-cyan)] transition-colors disabled:opacity-50"
+                  >
+                    Dismiss
+                  </button>
+                </div>
+              </div>
+            )}
+
             {/* Chat Input - Fixed at bottom */}
             <div className="flex-shrink-0 p-4 border-t border-[var(--border-subtle)] bg-[var(--bg-deep)]">
               <div className="flex space-x-2">
@@ -363,14 +612,25 @@ export default function TaskModal({
                   className="flex-1 px-3 py-2 rounded-lg border border-[var(--border-subtle)] bg-[var(--neutral-950)] text-[var(--text-inverse)] placeholder-[var(--text-secondary)] focus:border-[var(--accent-cyan)] focus:outline-none text-sm resize-none max-h-40"
                   disabled={isChatDisabled}
                 />
-                <button
-                  onClick={handleSendMessage}
-                  disabled={!messageInput.trim() || isChatDisabled}
-                  aria-label="Send message"
-                  className="px-3 py-2 bg-[var(--accent-cyan)] text-white rounded-lg font-medium hover:bg-opacity-80 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm"
-                >
-                  Send
-                </button>
+                {isLoading ? (
+                  <button
+                    onClick={handleStopMessage}
+                    aria-label="Stop answer"
+                    className="inline-flex items-center px-3 py-2 border border-[var(--border-subtle)] text-[var(--text-inverse)] rounded-lg font-medium hover:border-[var(--accent-cyan)] transition-colors text-sm"
+                  >
+                    <FaStop className="mr-1.5 text-xs" />
+                    Stop
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleSendMessage}
+                    disabled={!messageInput.trim() || isChatDisabled}
+                    aria-label="Send message"
+                    className="px-3 py-2 bg-[var(--accent-cyan)] text-white rounded-lg font-medium hover:bg-opacity-80 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+                  >
+                    Send
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -2,7 +2,7 @@
 import React, { useState, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import { usePlan } from "../../contexts/plan-context";
-import { validateGoal } from "../../services/ai-service";
+import { APIError, validateGoal } from "../../services/ai-service";
 import BackgroundGradients from "../background-gradients";
 import { UserButton } from "@clerk/nextjs";
 
@@ -22,6 +22,7 @@ export default function GoalPage() {
   const [showSuggestions, setShowSuggestions] = useState(false);
   const {
     setGoal: setContextGoal,
+    setGoalCategory,
     selectedDuration,
     generateNewPlan,
     backgroundGenerationInProgress,
@@ -42,6 +43,7 @@ export default function GoalPage() {
         selectedDuration || undefined
       );
       setValidation(result);
+      setGoalCategory(goalText.trim(), result.category);
 
       // Start background generation if goal is valid and not already generating
       if (result.isValid && !backgroundGenerationInProgress) {
@@ -52,7 +54,10 @@ export default function GoalPage() {
       setValidation({
         isValid: false,
         confidence: 0,
-        feedback: "Unable to validate goal. Please try again.",
+        // Auth, demo allowance and rate limit errors carry a user-facing message
+        feedback: error instanceof APIError && error.status < 500
+          ? error.message
+          : "Unable to validate goal. Please try again.",
         suggestions: [],
         category: "other",
       });
@@ -1,18 +1,30 @@
 "use client";
-import React, { Suspense, lazy } from "react";
+import React, { Suspense, lazy, useMemo, useState } from "react";
 import { usePlan } from "../../contexts/plan-context";
 import { useRouter } from "next/navigation";
 import { UserButton } from "@clerk/nextjs";
+import { FaChartBar, FaUser } from "react-icons/fa";
 import BackgroundGradients from "../background-gradients";
+import { describeWorkingDays, getPlanStartDateKey } from "../../utils/plan-dates";
+import { getReplanWindow } from "../../utils/replan";
+import { serializePlan } from "../../utils/plan-serializer";
 
 // Lazy load heavy components
 const Calendar = lazy(() => import("../../components/milestone/calendar"));
 const AIInsights = lazy(() => import("../../components/milestone/ai-insights"));
+const StreakCounter = lazy(() => import("../../components/milestone/streak-counter"));
 const QuickNotes = lazy(() => import("../../components/milestone/quick-notes"));
+const PlanChat = lazy(() => import("../../components/milestone/plan-chat"));
+const PlanHistoryModal = lazy(() => import("../../components/modals/plan-history-modal"));
+const AchievementsModal = lazy(() => import("../../components/modals/achievements-modal"));
+const AnalyticsModal = lazy(() => import("../../components/modals/analytics-modal"));
+const CalendarExportModal = lazy(() => import("../../components/modals/calendar-export-modal"));
+const ReplanModal = lazy(() => import("../../components/modals/replan-modal"));
+const ScheduleSettingsModal = lazy(() => import("../../components/modals/schedule-settings-modal"));
 
 /**
  * @description
- * Main milestone page displaying plan data with calendar view, AI insights, and quick notes.
+ * Main milestone page displaying plan data with calendar view, streaks, AI insights, coach chat and quick notes.
  * Replaces the previous MainContent layout with a redesigned interface.
  *
  * @receives data from:
@@ -20,11 +32,21 @@ const QuickNotes = lazy(() => import("../../components/milestone/quick-notes"));
  *
  * @sends data to:
  * - components/milestone/calendar.tsx: Plan data for calendar display
+ * - components/milestone/streak-counter.tsx: Plan for the streak counter and streak achievements
  * - components/milestone/ai-insights.tsx: Plan data for progress analysis
  * - components/milestone/quick-notes.tsx: User notes management
+ * - components/milestone/plan-chat.tsx: Plan-wide coach chat
+ * - components/modals/plan-history-modal.tsx: Version history for the current plan
+ * - components/modals/achievements-modal.tsx: Plan whose achievements gallery to show
+ * - components/modals/analytics-modal.tsx: Plan whose progress analytics to show
+ * - components/modals/calendar-export-modal.tsx: Plan for .ics export and feed
+ * - components/modals/replan-modal.tsx: Plan to reschedule from today when tasks are overdue
+ * - components/modals/schedule-settings-modal.tsx: Plan whose working days and days off to edit
+ * - utils/plan-serializer.ts; serializePlan: Plan for Markdown export
  *
  * @sideEffects:
  * - Navigates to goal page if no plan exists
+ * - Triggers a file download on Markdown export
  * - Manages plan state through context
  */
 export default function MilestonePage() {
@@ -35,8 +57,18 @@ export default function MilestonePage() {
     resetPlanState,
     selectedDuration,
     currentPlanId,
+    updatePlanStartDate,
+    pushScheduleByOneDay,
   } = usePlan();
   const router = useRouter();
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isAchievementsOpen, setIsAchievementsOpen] = useState(false);
+  const [isAnalyticsOpen, setIsAnalyticsOpen] = useState(false);
+  const [isCalendarExportOpen, setIsCalendarExportOpen] = useState(false);
+  const [isReplanOpen, setIsReplanOpen] = useState(false);
+  const [isScheduleSettingsOpen, setIsScheduleSettingsOpen] = useState(false);
+  // Replanning is offered while the plan is running and tasks before today are still open
+  const replanWindow = useMemo(() => (plan ? getReplanWindow(plan) : null), [plan]);
 
   // Redirect to goal page if no plan exists and no streaming is happening
   React.useEffect(() => {
@@ -49,6 +81,17 @@ export default function MilestonePage() {
     }
   }, [plan, streamingPlanText, router]);
 
+  const handleExportMarkdown = () => {
+    if (!plan) return;
+    const markdown = serializePlan(plan, { checkboxes: true });
+    const url = URL.createObjectURL(new Blob([markdown], { type: "text/markdown;charset=utf-8" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${plan.goal.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 60) || "plan"}.md`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   const handleCreateNewPlan = () => {
     resetPlanState();
     router.push("/app");
@@ -82,6 +125,51 @@ export default function MilestonePage() {
           </div>
 
           <div className="flex items-center space-x-4">
+            {plan && (
+              <button
+                onClick={() => setIsCalendarExportOpen(true)}
+                className="px-4 py-2 rounded-lg font-medium border border-[var(--border-subtle)] text-[var(--text-inverse)] hover:border-[var(--accent-cyan)] transition-colors"
+                title="Export to your calendar app"
+              >
+                Add to Calendar
+              </button>
+            )}
+            {plan && (
+              <button
+                onClick={handleExportMarkdown}
+                className="px-4 py-2 rounded-lg font-medium border border-[var(--border-subtle)] text-[var(--text-inverse)] hover:border-[var(--accent-cyan)] transition-colors"
+                title="Download the plan as Markdown, with completed tasks checked"
+              >
+                Export
+              </button>
+            )}
+            {currentPlanId && (
+              <button
+                onClick={() => setIsHistoryOpen(true)}
+                className="px-4 py-2 rounded-lg font-medium border border-[var(--border-subtle)] text-[var(--text-inverse)] hover:border-[var(--accent-cyan)] transition-colors"
+                title="View plan history"
+              >
+                History
+              </button>
+            )}
+            {currentPlanId && (
+              <button
+                onClick={() => setIsAnalyticsOpen(true)}
+                className="px-4 py-2 rounded-lg font-medium border border-[var(--border-subtle)] text-[var(--text-inverse)] hover:border-[var(--accent-cyan)] transition-colors"
+                title="Burndown, velocity and projected finish date"
+              >
+                Analytics
+              </button>
+            )}
+            {currentPlanId && (
+              <button
+                onClick={() => setIsAchievementsOpen(true)}
+                className="px-4 py-2 rounded-lg font-medium border border-[var(--border-subtle)] text-[var(--text-inverse)] hover:border-[var(--accent-cyan)] transition-colors"
+                title="View unlocked and locked achievements"
+              >
+                Achievements
+              </button>
+            )}
             <button
               onClick={handleCreateNewPlan}
               className="px-4 py-2 text-white rounded-lg font-medium shadow-md transition-colors motion-reduce:transition-none"
@@ -105,7 +193,12 @@ export default function MilestonePage() {
                   avatarBox: "w-8 h-8",
                 },
               }}
-            />
+            >
+              <UserButton.MenuItems>
+                <UserButton.Link label="Profile" labelIcon={<FaUser />} href="/app/profile" />
+                <UserButton.Link label="AI usage" labelIcon={<FaChartBar />} href="/app/usage" />
+              </UserButton.MenuItems>
+            </UserButton>
           </div>
         </nav>
       </header>
@@ -131,6 +224,62 @@ export default function MilestonePage() {
                 ? "Track your progress and stay on top of your milestones"
                 : "Watch your personalized milestone plan come to life in real-time..."}
             </p>
+            {plan && (
+              <label
+                className="mt-4 inline-flex items-center space-x-2 text-sm"
+                style={{ color: "var(--text-secondary)" }}
+              >
+                <span>Day 1 starts on</span>
+                <input
+                  type="date"
+                  value={getPlanStartDateKey(plan)}
+                  onChange={(e) => {
+                    if (e.target.value) updatePlanStartDate(e.target.value);
+                  }}
+                  aria-label="Plan start date"
+                  className="px-2 py-1 rounded-lg border border-[var(--border-subtle)] bg-[var(--bg-deep)] text-[var(--text-inverse)] focus:border-[var(--accent-cyan)] focus:outline-none"
+                />
+              </label>
+            )}
+            {plan && (
+              <div
+                className="mt-3 flex items-center justify-center space-x-3 text-sm"
+                style={{ color: "var(--text-secondary)" }}
+              >
+                <span>{describeWorkingDays(plan.availability) ?? "Tasks every day"}</span>
+                <button
+                  onClick={() => setIsScheduleSettingsOpen(true)}
+                  className="px-3 py-1 rounded-lg font-medium border border-[var(--border-subtle)] text-[var(--text-inverse)] hover:border-[var(--accent-cyan)] transition-colors"
+                  title="Choose working weekdays and days off"
+                >
+                  Working days
+                </button>
+                <button
+                  onClick={pushScheduleByOneDay}
+                  className="px-3 py-1 rounded-lg font-medium border border-[var(--border-subtle)] text-[var(--text-inverse)] hover:border-[var(--accent-cyan)] transition-colors"
+                  title="Take the next task's day off and move every remaining task back one working day"
+                >
+                  Push by one day
+                </button>
+              </div>
+            )}
+            {replanWindow && (
+              <div
+                className="mt-3 flex items-center justify-center space-x-3 text-sm"
+                style={{ color: "var(--text-secondary)" }}
+              >
+                <span>
+                  {replanWindow.overdue.length} overdue task{replanWindow.overdue.length === 1 ? "" : "s"}
+                </span>
+                <button
+                  onClick={() => setIsReplanOpen(true)}
+                  className="px-3 py-1 rounded-lg font-medium border border-[var(--border-subtle)] text-[var(--text-inverse)] hover:border-[var(--accent-cyan)] transition-colors"
+                  title="Let the AI redistribute overdue and remaining work over the days left"
+                >
+                  Replan from today
+                </button>
+              </div>
+            )}
           </div>
 
           {/* Main Layout Grid */}
@@ -151,8 +300,18 @@ export default function MilestonePage() {
               </Suspense>
             </div>
 
-            {/* Sidebar with AI Insights and Quick Notes */}
+            {/* Sidebar with Streak, AI Insights, Plan Coach and Quick Notes */}
             <div className="space-y-8">
+              {plan && (
+                <Suspense fallback={
+                  <div className="bg-white/5 rounded-lg p-6 animate-pulse">
+                    <div className="h-6 bg-white/10 rounded mb-3"></div>
+                    <div className="h-24 bg-white/10 rounded"></div>
+                  </div>
+                }>
+                  <StreakCounter plan={plan} />
+                </Suspense>
+              )}
               <Suspense fallback={
                 <div className="bg-white/5 rounded-lg p-6 animate-pulse">
                   <div className="h-6 bg-white/10 rounded mb-3"></div>
@@ -161,6 +320,16 @@ export default function MilestonePage() {
               }>
                 <AIInsights plan={plan || undefined} planId={currentPlanId || undefined} />
               </Suspense>
+              {plan && (
+                <Suspense fallback={
+                  <div className="bg-white/5 rounded-lg p-6 animate-pulse">
+                    <div className="h-6 bg-white/10 rounded mb-3"></div>
+                    <div className="h-40 bg-white/10 rounded"></div>
+                  </div>
+                }>
+                  <PlanChat />
+                </Suspense>
+              )}
               <Suspense fallback={
                 <div className="bg-white/5 rounded-lg p-6 animate-pulse">
                   <div className="h-6 bg-white/10 rounded mb-3"></div>
@@ -173,6 +342,67 @@ export default function MilestonePage() {
           </div>
         </div>
       </section>
+
+      {currentPlanId && isHistoryOpen && (
+        <Suspense fallback={null}>
+          <PlanHistoryModal
+            isOpen={isHistoryOpen}
+            onClose={() => setIsHistoryOpen(false)}
+            planId={currentPlanId}
+          />
+        </Suspense>
+      )}
+
+      {currentPlanId && isAnalyticsOpen && (
+        <Suspense fallback={null}>
+          <AnalyticsModal
+            isOpen={isAnalyticsOpen}
+            onClose={() => setIsAnalyticsOpen(false)}
+            planId={currentPlanId}
+          />
+        </Suspense>
+      )}
+
+      {currentPlanId && isAchievementsOpen && (
+        <Suspense fallback={null}>
+          <AchievementsModal
+            isOpen={isAchievementsOpen}
+            onClose={() => setIsAchievementsOpen(false)}
+            planId={currentPlanId}
+          />
+        </Suspense>
+      )}
+
+      {plan && isReplanOpen && (
+        <Suspense fallback={null}>
+          <ReplanModal
+            isOpen={isReplanOpen}
+            onClose={() => setIsReplanOpen(false)}
+            plan={plan}
+          />
+        </Suspense>
+      )}
+
+      {plan && isScheduleSettingsOpen && (
+        <Suspense fallback={null}>
+          <ScheduleSettingsModal
+            isOpen={isScheduleSettingsOpen}
+            onClose={() => setIsScheduleSettingsOpen(false)}
+            plan={plan}
+          />
+        </Suspense>
+      )}
+
+      {plan && isCalendarExportOpen && (
+        <Suspense fallback={null}>
+          <CalendarExportModal
+            isOpen={isCalendarExportOpen}
+            onClose={() => setIsCalendarExportOpen(false)}
+            plan={plan}
+            planId={currentPlanId}
+          />
+        </Suspense>
+      )}
     </main>
   );
 }
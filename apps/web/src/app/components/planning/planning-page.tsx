@@ -3,14 +3,17 @@ import { useState, lazy, Suspense } from "react";
 import Image from "next/image";
 import { usePlan } from "../../contexts/plan-context";
 import BackgroundGradients from "../background-gradients";
+import WorkingDaysPicker from "./working-days-picker";
 import { timelineOptions } from "../../config/timeline-options";
 import { useQuery } from "convex/react";
 import { api } from "@milestoneAI-next-js/backend/convex/_generated/api";
 import { useUser, UserButton } from "@clerk/nextjs";
+import { FaChartBar, FaFileImport, FaUser } from "react-icons/fa";
 
 // Lazy load modal components
 const CustomDurationModal = lazy(() => import("../modals/custom-duration-modal"));
 const SavedPlansModal = lazy(() => import("../modals/saved-plans-modal"));
+const ImportPlanModal = lazy(() => import("../modals/import-plan-modal"));
 
 const getCardStyles = (isSelected: boolean) => ({
   background: isSelected
@@ -27,10 +30,18 @@ const getCardStyles = (isSelected: boolean) => ({
 export default function PlanningPage() {
   const [isCustomModalOpen, setIsCustomModalOpen] = useState(false);
   const [isPlansModalOpen, setIsPlansModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
   const [selectedTimeline, setSelectedTimeline] = useState<
     number | "custom" | null
   >(null);
-  const { setSelectedDuration, setPlan, setCurrentPlanId, setGoal } = usePlan();
+  const {
+    setSelectedDuration,
+    selectedAvailability,
+    setSelectedAvailability,
+    setPlan,
+    setCurrentPlanId,
+    setGoal,
+  } = usePlan();
   const { user, isLoaded } = useUser();
 
   // Check if user has existing plans
@@ -102,6 +113,15 @@ export default function PlanningPage() {
           </div>
 
           <div className="flex items-center space-x-4">
+            <button
+              onClick={() => setIsImportModalOpen(true)}
+              className="inline-flex items-center px-4 py-1.5 rounded-full text-sm font-medium border border-[var(--border-subtle)] text-[var(--text-inverse)] hover:border-[var(--accent-cyan)] transition-colors"
+              title="Import a plan from a Markdown or JSON file"
+            >
+              <FaFileImport className="mr-2" />
+              Import Plan
+            </button>
+
             {hasExistingPlans && (
               <button
                 onClick={() => setIsPlansModalOpen(true)}
@@ -127,7 +147,12 @@ export default function PlanningPage() {
                   avatarBox: "w-8 h-8",
                 },
               }}
-            />
+            >
+              <UserButton.MenuItems>
+                <UserButton.Link label="Profile" labelIcon={<FaUser />} href="/app/profile" />
+                <UserButton.Link label="AI usage" labelIcon={<FaChartBar />} href="/app/usage" />
+              </UserButton.MenuItems>
+            </UserButton>
           </div>
         </nav>
       </header>
@@ -193,8 +218,21 @@ export default function PlanningPage() {
         </div>
       </section>
 
-      {/* Continue Button */}
+      {/* Working Days and Continue Button */}
       <section className="mx-auto max-w-7xl px-6 py-8 text-center">
+        <p className="mb-3 text-sm" style={{ color: "var(--text-secondary)" }}>
+          Which days can you work on this? Tasks are only scheduled on these days.
+        </p>
+        <div className="mb-6">
+          <WorkingDaysPicker
+            activeWeekdays={selectedAvailability?.activeWeekdays ?? []}
+            onChange={(activeWeekdays) =>
+              setSelectedAvailability(
+                activeWeekdays.length === 7 ? null : { activeWeekdays, blackoutDates: [] }
+              )
+            }
+          />
+        </div>
         <button
           onClick={handleContinue}
           disabled={!selectedTimeline}
@@ -228,6 +266,13 @@ export default function PlanningPage() {
           onSelectPlan={handleSelectSavedPlan}
         />
       </Suspense>
+
+      <Suspense fallback={null}>
+        <ImportPlanModal
+          isOpen={isImportModalOpen}
+          onClose={() => setIsImportModalOpen(false)}
+        />
+      </Suspense>
     </main>
   );
 }
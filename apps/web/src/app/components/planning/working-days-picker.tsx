@@ -0,0 +1,59 @@
+import React from "react";
+import { WEEKDAY_NAMES } from "../../utils/plan-dates";
+
+interface WorkingDaysPickerProps {
+  activeWeekdays: number[]; // 0 = Sunday; empty means every day
+  onChange: (activeWeekdays: number[]) => void;
+}
+
+// Monday first, the way most people think of a working week
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+/**
+ * @description
+ * Row of weekday toggles choosing which days of the week a plan schedules tasks on.
+ * At least one day always stays selected.
+ *
+ * @receives data from:
+ * - components/planning/planning-page.tsx: working days for the plan about to be generated
+ * - components/modals/schedule-settings-modal.tsx: working days of the current plan
+ *
+ * @sends data to:
+ * - Parent component; onChange: updated working weekdays
+ *
+ * @sideEffects:
+ * - None
+ */
+export default function WorkingDaysPicker({ activeWeekdays, onChange }: WorkingDaysPickerProps) {
+  const selected = activeWeekdays.length > 0 ? activeWeekdays : WEEKDAY_ORDER;
+
+  const toggle = (day: number) => {
+    const next = selected.includes(day) ? selected.filter((d) => d !== day) : [...selected, day];
+    if (next.length === 0) return;
+    onChange(next.sort((a, b) => a - b));
+  };
+
+  return (
+    <div className="flex flex-wrap justify-center gap-2" role="group" aria-label="Working days">
+      {WEEKDAY_ORDER.map((day) => {
+        const isActive = selected.includes(day);
+        return (
+          <button
+            key={day}
+            type="button"
+            onClick={() => toggle(day)}
+            aria-pressed={isActive}
+            title={WEEKDAY_NAMES[day]}
+            className={`w-12 py-1.5 rounded-full text-sm font-medium border transition-colors ${
+              isActive
+                ? "border-[var(--accent-cyan)] text-[var(--text-inverse)] bg-[var(--surface-card)]"
+                : "border-[var(--border-subtle)] text-[var(--text-muted)] hover:border-[var(--accent-cyan)]"
+            }`}
+          >
+            {WEEKDAY_NAMES[day].slice(0, 3)}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+"use client";
+import { useMemo, useState } from "react";
+import type { CSSProperties } from "react";
+import Link from "next/link";
+import { useQuery } from "convex/react";
+import { FaCalendarAlt } from "react-icons/fa";
+import { api } from "@milestoneAI-next-js/backend/convex/_generated/api";
+import { HEATMAP_WEEKS } from "@milestoneAI-next-js/backend/convex/lib/heatmap";
+import { addDaysToKey, getLocalTimezone, parseDateKey } from "../../utils/plan-dates";
+
+// Fill of each intensity level, from no completions to the busiest days
+const LEVEL_COLORS = [
+  "var(--bg-deep)",
+  "rgba(34,211,238,0.25)",
+  "rgba(34,211,238,0.45)",
+  "rgba(34,211,238,0.7)",
+  "rgba(34,211,238,1)",
+];
+
+const WEEKDAY_LABELS = ["", "Mon", "", "Wed", "", "Fri", ""];
+
+const formatDateKey = (key: string) =>
+  parseDateKey(key).toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric", year: "numeric" });
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" });
+
+/**
+ * Intensity level 0-4 of a day, relative to the busiest day so sparse and busy years both
+ * use the whole scale.
+ */
+const levelFor = (count: number, maxCount: number) =>
+  count === 0 || maxCount === 0 ? 0 : Math.min(4, Math.ceil((count / maxCount) * 4));
+
+/**
+ * @description
+ * Year-long contribution heatmap of task completions across all of the user's plans, one
+ * cell per day in week columns. Hovering a day lists the tasks done on it, and clicking pins
+ * the list so its links can be followed back to the plan and day in the calendar.
+ *
+ * @receives data from:
+ * - components/profile/profile-page.tsx: rendered on the profile page
+ * - convex/activity.ts; getCompletionHeatmap: completions per day
+ *
+ * @sends data to:
+ * - app/app/page.tsx: links with the plan id and day number to open in the calendar
+ *
+ * @sideEffects:
+ * - None
+ */
+export default function CompletionHeatmap({ cardStyle }: { cardStyle: CSSProperties }) {
+  const heatmap = useQuery(api.activity.getCompletionHeatmap, { timezone: getLocalTimezone() });
+  const [hoveredDate, setHoveredDate] = useState<string | null>(null);
+  const [pinnedDate, setPinnedDate] = useState<string | null>(null);
+
+  const daysByDate = useMemo(() => new Map((heatmap?.days ?? []).map((day) => [day.date, day])), [heatmap]);
+
+  // Week columns from Sunday to Saturday, with a month label where a month begins
+  const weeks = useMemo(() => {
+    if (!heatmap) return [];
+    return Array.from({ length: HEATMAP_WEEKS }, (_, w) => {
+      const dates = Array.from({ length: 7 }, (_, d) => addDaysToKey(heatmap.startDate, w * 7 + d));
+      const firstOfMonth = dates.find((date) => date.endsWith("-01"));
+      const label =
+        w === 0 || firstOfMonth
+          ? parseDateKey(firstOfMonth ?? dates[0]).toLocaleDateString("en-US", { month: "short" })
+          : null;
+      return { dates, label };
+    });
+  }, [heatmap]);
+
+  const activeDate = pinnedDate ?? hoveredDate;
+  const activeDay = activeDate ? daysByDate.get(activeDate) : undefined;
+
+  return (
+    <article className="rounded-lg border p-6" style={cardStyle}>
+      <div className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+        <h2 className="text-lg font-semibold" style={{ color: "var(--text-inverse)" }}>
+          Activity
+        </h2>
+        {heatmap && (
+          <span className="text-sm text-[var(--text-secondary)]">
+            {heatmap.totalCompletions} task{heatmap.totalCompletions === 1 ? "" : "s"} completed on{" "}
+            {heatmap.activeDays} day{heatmap.activeDays === 1 ? "" : "s"} in the last year
+          </span>
+        )}
+      </div>
+
+      {!heatmap ? (
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[var(--accent-cyan)] mx-auto"></div>
+        </div>
+      ) : (
+        <>
+          <div className="overflow-x-auto pb-2">
+            <div className="inline-flex gap-[3px]" onMouseLeave={() => setHoveredDate(null)}>
+              {/* Weekday labels */}
+              <div className="flex flex-col gap-[3px] pr-1 pt-4">
+                {WEEKDAY_LABELS.map((label, i) => (
+                  <span key={i} className="h-[11px] text-[9px] leading-[11px] text-[var(--text-muted)]">
+                    {label}
+                  </span>
+                ))}
+              </div>
+
+              {weeks.map((week) => (
+                <div key={week.dates[0]} className="flex flex-col gap-[3px]">
+                  <span className="h-[13px] text-[9px] leading-[13px] whitespace-nowrap text-[var(--text-muted)]">
+                    {week.label ?? ""}
+                  </span>
+                  {week.dates.map((date) => {
+                    if (date > heatmap.endDate) return <span key={date} className="h-[11px] w-[11px]" />;
+                    const count = daysByDate.get(date)?.count ?? 0;
+                    return (
+                      <button
+                        key={date}
+                        type="button"
+                        aria-label={`${formatDateKey(date)}: ${count} task${count === 1 ? "" : "s"} completed`}
+                        title={`${count} task${count === 1 ? "" : "s"} on ${formatDateKey(date)}`}
+                        className={`h-[11px] w-[11px] rounded-[2px] border focus:outline-none focus:ring-1 focus:ring-[var(--accent-cyan)] ${
+                          activeDate === date ? "border-[var(--text-inverse)]" : "border-[var(--border-subtle)]"
+                        }`}
+                        style={{ backgroundColor: LEVEL_COLORS[levelFor(count, heatmap.maxCount)] }}
+                        onMouseEnter={() => setHoveredDate(date)}
+                        onFocus={() => setHoveredDate(date)}
+                        onClick={() => setPinnedDate((pinned) => (pinned === date ? null : date))}
+                      />
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="mt-2 flex items-center justify-end gap-1 text-xs text-[var(--text-muted)]">
+            <span className="mr-1">Less</span>
+            {LEVEL_COLORS.map((color) => (
+              <span
+                key={color}
+                className="h-[11px] w-[11px] rounded-[2px] border border-[var(--border-subtle)]"
+                style={{ backgroundColor: color }}
+              />
+            ))}
+            <span className="ml-1">More</span>
+          </div>
+
+          {/* Day details */}
+          <div className="mt-4 rounded-lg border border-[var(--border-subtle)] bg-[var(--bg-deep)] p-4 min-h-[88px]">
+            {!activeDate ? (
+              <p className="text-sm text-[var(--text-muted)]">
+                Hover over a day to see what you completed; click to pin it.
+              </p>
+            ) : (
+              <>
+                <div className="flex items-center justify-between gap-2 mb-2">
+                  <p className="text-sm font-medium text-[var(--text-inverse)]">
+                    {formatDateKey(activeDate)} · {activeDay?.count ?? 0} task{activeDay?.count === 1 ? "" : "s"}
+                  </p>
+                  {pinnedDate && (
+                    <button
+                      type="button"
+                      onClick={() => setPinnedDate(null)}
+                      className="text-xs text-[var(--text-secondary)] hover:text-[var(--accent-cyan)]"
+                    >
+                      Unpin
+                    </button>
+                  )}
+                </div>
+                {!activeDay ? (
+                  <p className="text-sm text-[var(--text-muted)]">No tasks completed on this day.</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {activeDay.tasks.map((task) => (
+                      <li key={`${task.planId}-${task.dayNumber}`} className="text-sm">
+                        <Link
+                          href={`/app?plan=${task.planId}&day=${task.dayNumber}`}
+                          className="group flex items-start space-x-2"
+                        >
+                          <FaCalendarAlt className="mt-0.5 flex-shrink-0 text-[var(--accent-cyan)]" />
+                          <span>
+                            <span className="text-[var(--text-inverse)] group-hover:text-[var(--accent-cyan)] break-words">
+                              {task.description}
+                            </span>
+                            <span className="block text-xs text-[var(--text-secondary)] break-words">
+                              {task.goal} · Day {task.dayNumber} ({parseDateKey(task.scheduledDate).toLocaleDateString("en-US", { month: "short", day: "numeric" })})
+                              {" "}· done at {formatTime(task.completedAt)}
+                            </span>
+                          </span>
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </>
+            )}
+          </div>
+        </>
+      )}
+    </article>
+  );
+}
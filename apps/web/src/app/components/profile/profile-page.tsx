@@ -0,0 +1,211 @@
+"use client";
+import Link from "next/link";
+import { useQuery } from "convex/react";
+import { UserButton } from "@clerk/nextjs";
+import { FaUser, FaTrophy } from "react-icons/fa";
+import { api } from "@milestoneAI-next-js/backend/convex/_generated/api";
+import { XP_PER_PLAN, XP_PER_TASK } from "@milestoneAI-next-js/backend/convex/lib/progress";
+import { achievementDefinitions } from "../../config/achievements";
+import { getLocalTimezone } from "../../utils/plan-dates";
+import BackgroundGradients from "../background-gradients";
+import CompletionHeatmap from "./completion-heatmap";
+
+const cardStyle = {
+  background: "radial-gradient(360px 200px at 50% 0%, rgba(34,211,238,0.22), rgba(0,0,0,0) 70%), var(--surface-card)",
+  borderColor: "var(--border-subtle)",
+};
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+
+const achievementName = (id: string) => achievementDefinitions.find((d) => d.id === id)?.name ?? id;
+
+/**
+ * @description
+ * Profile page with lifetime stats across all of the user's plans: level and XP, plans and
+ * tasks completed, streaks, a year-long completion heatmap, goal categories tried, progress
+ * per plan and recent achievements.
+ *
+ * @receives data from:
+ * - Convex: profile.getProfile for the signed-in user
+ * - components/profile/completion-heatmap.tsx: completions per day across all plans
+ *
+ * @sends data to:
+ * - None
+ *
+ * @sideEffects:
+ * - None
+ */
+export default function ProfilePage() {
+  const profile = useQuery(api.profile.getProfile, { timezone: getLocalTimezone() });
+  const lifetime = profile?.lifetime;
+  const levelPercent = lifetime ? Math.round((lifetime.xpIntoLevel / lifetime.xpForNextLevel) * 100) : 0;
+
+  return (
+    <main className="relative min-h-screen overflow-hidden" style={{ backgroundColor: "var(--bg-deep)" }}>
+      <BackgroundGradients />
+
+      <header
+        className="sticky top-0 z-50 border-b backdrop-blur-md"
+        style={{ borderColor: "var(--border-subtle)", backgroundColor: "transparent" }}
+      >
+        <nav className="mx-auto flex max-w-7xl items-center justify-between px-6 py-4" aria-label="Primary">
+          <Link href="/app" className="text-lg font-semibold" style={{ color: "var(--text-inverse)" }}>
+            MilestoneAI
+          </Link>
+          <div className="flex items-center space-x-4">
+            <Link
+              href="/app"
+              className="px-4 py-2 rounded-lg font-medium border border-[var(--border-subtle)] text-[var(--text-inverse)] hover:border-[var(--accent-cyan)] transition-colors"
+            >
+              Back to plans
+            </Link>
+            <UserButton afterSignOutUrl="/" appearance={{ elements: { avatarBox: "w-8 h-8" } }} />
+          </div>
+        </nav>
+      </header>
+
+      <section className="relative mx-auto max-w-5xl px-6 py-8 space-y-6">
+        <div className="flex items-center space-x-3">
+          <FaUser className="text-[var(--accent-cyan)] text-2xl" />
+          <h1 className="text-3xl font-bold tracking-tight" style={{ color: "var(--text-inverse)" }}>
+            Profile
+          </h1>
+        </div>
+
+        {!profile || !lifetime ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[var(--accent-cyan)] mx-auto mb-4"></div>
+            <p className="text-sm text-[var(--text-secondary)]">Loading profile...</p>
+          </div>
+        ) : (
+          <>
+            {/* Level and XP */}
+            <article className="rounded-lg border p-6" style={cardStyle}>
+              <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <h2 className="text-lg font-semibold" style={{ color: "var(--text-inverse)" }}>
+                  Level {lifetime.level}
+                </h2>
+                <span className="text-sm text-[var(--text-secondary)]">
+                  {lifetime.xp.toLocaleString("en-US")} XP total
+                </span>
+              </div>
+              <div className="mt-4 h-2 w-full rounded-full bg-[var(--bg-deep)] overflow-hidden">
+                <div className="h-full rounded-full bg-[var(--accent-cyan)]" style={{ width: `${levelPercent}%` }} />
+              </div>
+              <p className="mt-3 text-sm text-[var(--text-secondary)]">
+                {lifetime.xpIntoLevel} / {lifetime.xpForNextLevel} XP to level {lifetime.level + 1} · {XP_PER_TASK} XP
+                per completed task, {XP_PER_PLAN} XP per finished plan
+              </p>
+            </article>
+
+            {/* Lifetime stats */}
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+              {[
+                { label: "Plans", value: lifetime.plans },
+                { label: "Plans finished", value: lifetime.plansCompleted },
+                { label: "Tasks completed", value: `${lifetime.tasksCompleted} / ${lifetime.tasksTotal}` },
+                { label: "Current streak", value: `${profile.streaks.currentStreak} d` },
+                { label: "Longest streak", value: `${profile.streaks.longestStreak} d` },
+                { label: "Achievements", value: profile.achievementsUnlocked },
+              ].map((stat) => (
+                <article key={stat.label} className="rounded-lg border p-4" style={cardStyle}>
+                  <p className="text-2xl font-bold text-[var(--text-inverse)]">{stat.value}</p>
+                  <p className="text-sm text-[var(--text-secondary)]">{stat.label}</p>
+                </article>
+              ))}
+            </div>
+
+            {/* Completion heatmap */}
+            <CompletionHeatmap cardStyle={cardStyle} />
+
+            {/* Goal categories */}
+            <article className="rounded-lg border p-6" style={cardStyle}>
+              <h2 className="text-lg font-semibold mb-4" style={{ color: "var(--text-inverse)" }}>
+                Goal categories
+              </h2>
+              {lifetime.categories.length === 0 ? (
+                <p className="text-sm text-[var(--text-muted)]">No categorised goals yet.</p>
+              ) : (
+                <ul className="flex flex-wrap gap-2">
+                  {lifetime.categories.map(({ category, plans }) => (
+                    <li
+                      key={category}
+                      className="rounded-full border border-[var(--border-subtle)] px-3 py-1 text-sm capitalize text-[var(--text-inverse)]"
+                    >
+                      {category}
+                      <span className="text-[var(--text-secondary)]"> · {plans}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </article>
+
+            {/* Plans */}
+            <article className="rounded-lg border p-6" style={cardStyle}>
+              <h2 className="text-lg font-semibold mb-4" style={{ color: "var(--text-inverse)" }}>
+                Plans
+              </h2>
+              {profile.plans.length === 0 ? (
+                <p className="text-sm text-[var(--text-muted)]">No plans yet.</p>
+              ) : (
+                <ul className="space-y-3">
+                  {profile.plans.map((plan) => {
+                    const percent = plan.tasksTotal > 0 ? Math.round((plan.tasksCompleted / plan.tasksTotal) * 100) : 0;
+                    return (
+                      <li key={plan._id} className="text-sm">
+                        <div className="flex flex-wrap items-baseline justify-between gap-2">
+                          <span className="text-[var(--text-inverse)] break-words">
+                            {plan.goal}
+                            {plan.archived && <span className="text-[var(--text-muted)]"> (archived)</span>}
+                          </span>
+                          <span className="text-[var(--text-secondary)]">
+                            {plan.tasksCompleted} / {plan.tasksTotal} tasks · {formatDate(plan.createdAt)}
+                          </span>
+                        </div>
+                        <div className="mt-1 h-1.5 w-full rounded-full bg-[var(--bg-deep)] overflow-hidden">
+                          <div
+                            className={`h-full rounded-full ${percent === 100 ? "bg-emerald-400" : "bg-[var(--accent-cyan)]"}`}
+                            style={{ width: `${percent}%` }}
+                          />
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </article>
+
+            {/* Recent achievements */}
+            <article className="rounded-lg border p-6" style={cardStyle}>
+              <h2 className="text-lg font-semibold mb-4" style={{ color: "var(--text-inverse)" }}>
+                Recent achievements
+              </h2>
+              {profile.recentUnlocks.length === 0 ? (
+                <p className="text-sm text-[var(--text-muted)]">No achievements unlocked yet.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {profile.recentUnlocks.map((unlock) => (
+                    <li
+                      key={unlock._id}
+                      className="flex flex-wrap items-center justify-between gap-2 rounded-lg border border-[var(--border-subtle)] px-3 py-2 text-sm"
+                    >
+                      <span className="flex items-center space-x-2 text-[var(--text-inverse)]">
+                        <FaTrophy className="text-[var(--accent-cyan)]" />
+                        <span>
+                          {achievementName(unlock.achievementId)}
+                          {unlock.planGoal && <span className="text-[var(--text-secondary)]"> · {unlock.planGoal}</span>}
+                        </span>
+                      </span>
+                      <span className="text-[var(--text-secondary)]">{formatDate(unlock.unlockedAt)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </article>
+          </>
+        )}
+      </section>
+    </main>
+  );
+}
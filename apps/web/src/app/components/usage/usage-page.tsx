@@ -0,0 +1,193 @@
+"use client";
+import Link from "next/link";
+import { useQuery } from "convex/react";
+import { UserButton } from "@clerk/nextjs";
+import { FaChartBar } from "react-icons/fa";
+import { api } from "@milestoneAI-next-js/backend/convex/_generated/api";
+import BackgroundGradients from "../background-gradients";
+
+const ROUTE_LABELS: Record<string, string> = {
+  chat: "Chat",
+  "generate-plan": "Plan generation",
+  "validate-goal": "Goal validation",
+  insights: "Insights",
+  "chat-summary": "Chat summaries",
+  replan: "Replanning",
+};
+
+const OUTCOME_COLORS: Record<string, string> = {
+  success: "text-emerald-400",
+  error: "text-red-400",
+  cancelled: "text-[var(--text-secondary)]",
+  blocked: "text-amber-400",
+};
+
+const cardStyle = {
+  background: "radial-gradient(360px 200px at 50% 0%, rgba(34,211,238,0.22), rgba(0,0,0,0) 70%), var(--surface-card)",
+  borderColor: "var(--border-subtle)",
+};
+
+const formatTokens = (tokens: number) => tokens.toLocaleString("en-US");
+
+const formatDate = (timestamp: number, withTime = false) =>
+  new Date(timestamp).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    ...(withTime ? { hour: "numeric", minute: "2-digit" } : {}),
+  });
+
+/**
+ * @description
+ * Per-user AI usage page: tokens used this month against the monthly cap, a breakdown by
+ * feature, and the most recent AI calls with their model, tokens, latency and outcome.
+ *
+ * @receives data from:
+ * - Convex: aiUsage.getMyUsage for the signed-in user
+ *
+ * @sends data to:
+ * - None
+ *
+ * @sideEffects:
+ * - None
+ */
+export default function UsagePage() {
+  const usage = useQuery(api.aiUsage.getMyUsage, {});
+  const capPercent = usage?.cap ? Math.min(100, Math.round((usage.usedTokens / usage.cap) * 100)) : null;
+
+  return (
+    <main className="relative min-h-screen overflow-hidden" style={{ backgroundColor: "var(--bg-deep)" }}>
+      <BackgroundGradients />
+
+      <header
+        className="sticky top-0 z-50 border-b backdrop-blur-md"
+        style={{ borderColor: "var(--border-subtle)", backgroundColor: "transparent" }}
+      >
+        <nav className="mx-auto flex max-w-7xl items-center justify-between px-6 py-4" aria-label="Primary">
+          <Link href="/app" className="text-lg font-semibold" style={{ color: "var(--text-inverse)" }}>
+            MilestoneAI
+          </Link>
+          <div className="flex items-center space-x-4">
+            <Link
+              href="/app"
+              className="px-4 py-2 rounded-lg font-medium border border-[var(--border-subtle)] text-[var(--text-inverse)] hover:border-[var(--accent-cyan)] transition-colors"
+            >
+              Back to plans
+            </Link>
+            <UserButton afterSignOutUrl="/" appearance={{ elements: { avatarBox: "w-8 h-8" } }} />
+          </div>
+        </nav>
+      </header>
+
+      <section className="relative mx-auto max-w-5xl px-6 py-8 space-y-6">
+        <div className="flex items-center space-x-3">
+          <FaChartBar className="text-[var(--accent-cyan)] text-2xl" />
+          <h1 className="text-3xl font-bold tracking-tight" style={{ color: "var(--text-inverse)" }}>
+            AI Usage
+          </h1>
+        </div>
+
+        {!usage ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[var(--accent-cyan)] mx-auto mb-4"></div>
+            <p className="text-sm text-[var(--text-secondary)]">Loading usage...</p>
+          </div>
+        ) : (
+          <>
+            {/* Monthly summary */}
+            <article className="rounded-lg border p-6" style={cardStyle}>
+              <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <h2 className="text-lg font-semibold" style={{ color: "var(--text-inverse)" }}>
+                  This month
+                </h2>
+                <span className="text-sm text-[var(--text-secondary)]">
+                  Since {formatDate(usage.monthStart)} · resets {formatDate(usage.resetsAt)}
+                </span>
+              </div>
+              <p className="mt-4 text-3xl font-bold text-[var(--text-inverse)]">
+                {formatTokens(usage.usedTokens)}
+                <span className="text-base font-normal text-[var(--text-secondary)]">
+                  {usage.cap ? ` / ${formatTokens(usage.cap)} tokens` : " tokens"}
+                </span>
+              </p>
+              {capPercent !== null && (
+                <div className="mt-3 h-2 w-full rounded-full bg-[var(--bg-deep)] overflow-hidden">
+                  <div
+                    className={`h-full rounded-full ${capPercent >= 100 ? "bg-red-400" : capPercent >= 80 ? "bg-amber-400" : "bg-[var(--accent-cyan)]"}`}
+                    style={{ width: `${capPercent}%` }}
+                  />
+                </div>
+              )}
+              <p className="mt-3 text-sm text-[var(--text-secondary)]">
+                {usage.requests} AI call{usage.requests === 1 ? "" : "s"} · {formatTokens(usage.promptTokens)} prompt ·{" "}
+                {formatTokens(usage.completionTokens)} completion tokens
+                {capPercent !== null && capPercent >= 100 && " · AI features are paused until the allowance resets"}
+              </p>
+            </article>
+
+            {/* By feature */}
+            <article className="rounded-lg border p-6" style={cardStyle}>
+              <h2 className="text-lg font-semibold mb-4" style={{ color: "var(--text-inverse)" }}>
+                By feature
+              </h2>
+              {usage.byRoute.length === 0 ? (
+                <p className="text-sm text-[var(--text-muted)]">No AI calls this month.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-[var(--text-secondary)]">
+                      <th className="pb-2 font-medium">Feature</th>
+                      <th className="pb-2 font-medium text-right">Calls</th>
+                      <th className="pb-2 font-medium text-right">Tokens</th>
+                      <th className="pb-2 font-medium text-right">Avg latency</th>
+                      <th className="pb-2 font-medium text-right">Errors</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {usage.byRoute.map((row) => (
+                      <tr key={row.route} className="border-t border-[var(--border-subtle)] text-[var(--text-inverse)]">
+                        <td className="py-2">{ROUTE_LABELS[row.route] ?? row.route}</td>
+                        <td className="py-2 text-right">{row.requests}</td>
+                        <td className="py-2 text-right">{formatTokens(row.totalTokens)}</td>
+                        <td className="py-2 text-right">{(row.avgLatencyMs / 1000).toFixed(1)}s</td>
+                        <td className="py-2 text-right">{row.errors}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </article>
+
+            {/* Recent calls */}
+            <article className="rounded-lg border p-6" style={cardStyle}>
+              <h2 className="text-lg font-semibold mb-4" style={{ color: "var(--text-inverse)" }}>
+                Recent calls
+              </h2>
+              {usage.recent.length === 0 ? (
+                <p className="text-sm text-[var(--text-muted)]">No AI calls this month.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {usage.recent.map((entry) => (
+                    <li
+                      key={entry._id}
+                      className="flex flex-wrap items-center justify-between gap-2 rounded-lg border border-[var(--border-subtle)] px-3 py-2 text-sm"
+                    >
+                      <span className="text-[var(--text-inverse)]">
+                        {ROUTE_LABELS[entry.route] ?? entry.route}
+                        <span className="text-[var(--text-secondary)]"> · {entry.model}</span>
+                      </span>
+                      <span className="text-[var(--text-secondary)]">
+                        {formatTokens(entry.totalTokens)} tokens · {(entry.latencyMs / 1000).toFixed(1)}s ·{" "}
+                        <span className={OUTCOME_COLORS[entry.outcome] ?? ""}>{entry.outcome}</span> ·{" "}
+                        {formatDate(entry.createdAt, true)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </article>
+          </>
+        )}
+      </section>
+    </main>
+  );
+}
@@ -1,10 +1,25 @@
 import React, { createContext, useState, useContext, useCallback, useMemo, useRef } from "react";
 import type { ReactNode } from "react";
-import { generatePlan as apiGeneratePlan } from "../services/ai-service";
-import type { FullPlan } from "../types/plan-types";
-import { parsePlanString } from "../utils/plan-parser";
+import { generatePlanStructured as apiGeneratePlanStructured } from "../services/ai-service";
+import type { FullPlan, PlanAvailability } from "../types/plan-types";
+import { diagnoseTaskCount, parsePlanString } from "../utils/plan-parser";
+import { toFullPlan } from "../utils/plan-schema";
+import { createPlanStreamParser } from "../utils/plan-stream-parser";
+import { applyPlanEdits } from "../utils/plan-edits";
+import type { PlanEditOperation } from "../utils/plan-edits";
+import {
+  countWorkingDays,
+  flattenPlanTasks,
+  getLocalTimezone,
+  getNextOpenTaskDateKey,
+  getTodayKey,
+  isDateKey,
+  parseDateKey,
+} from "../utils/plan-dates";
+import { carryOverPlanIds, findTaskById } from "../utils/plan-ids";
+import { hasAllPlanItemIds } from "@milestoneAI-next-js/backend/convex/lib/ids";
 import { useUser } from "@clerk/nextjs";
-import { useMutation, useAction } from "convex/react";
+import { useMutation, useAction, useConvex } from "convex/react";
 import { api } from "@milestoneAI-next-js/backend/convex/_generated/api";
 import type { Id } from "@milestoneAI-next-js/backend/convex/_generated/dataModel";
 import { toast } from "sonner";
@@ -17,8 +32,10 @@ export interface IPlanContext {
   backgroundGenerationInProgress: boolean;
   error: string | null;
   selectedDuration: number | null;
+  selectedAvailability: PlanAvailability | null; // Working days for the next generated plan
   goal: string | null;
   currentPlanId: Id<"plans"> | null;
+  focusDayNumber: number | null; // "Day N" the calendar should scroll to once, e.g. from a heatmap link
   generateNewPlan: (
     goal: string,
     onChunk?: (chunk: string) => void
@@ -28,16 +45,23 @@ export interface IPlanContext {
     planString: string,
     originalGoal: string | undefined
   ) => Promise<boolean>;
-  setPlan: (loadedPlan: FullPlan) => void;
+  setPlan: (loadedPlan: FullPlan & { _id?: Id<"plans"> }) => void;
   setSelectedDuration: (duration: number) => void;
+  setSelectedAvailability: (availability: PlanAvailability | null) => void;
   setGoal: (goal: string) => void;
+  setGoalCategory: (goal: string, category: string) => void; // Category from goal validation, saved with the plan
   setCurrentPlanId: (id: Id<"plans"> | null) => void;
   saveCurrentPlan: () => Promise<void>;
-  toggleTaskCompletion: (
-    monthIndex: number,
-    weekIndex: number,
-    taskDay: number
-  ) => Promise<void>;
+  saveImportedPlan: (importedPlan: FullPlan) => Promise<boolean>;
+  openPlanById: (id: Id<"plans">, focusDayNumber?: number | null) => Promise<boolean>;
+  clearFocusDay: () => void;
+  toggleTaskCompletion: (taskId: string) => Promise<void>;
+  updatePlanStartDate: (startDate: string) => Promise<void>;
+  updatePlanAvailability: (availability: PlanAvailability | null) => Promise<boolean>;
+  pushScheduleByOneDay: () => Promise<void>;
+  restorePlanVersion: (version: number) => Promise<boolean>;
+  applyChatEdits: (operations: PlanEditOperation[]) => Promise<boolean>;
+  applyReplannedPlan: (replanned: FullPlan, summary: string) => Promise<boolean>;
   resetPlanState: () => void;
 }
 
@@ -59,23 +83,34 @@ export const PlanProvider: React.FC<PlanProviderProps> = ({ children }) => {
   const [selectedDuration, setSelectedDurationState] = useState<number | null>(
     null
   );
+  const [selectedAvailability, setSelectedAvailability] = useState<PlanAvailability | null>(null);
   const [goal, setGoalState] = useState<string | null>(null);
+  // A ref so that background generation, started right after validation, sees the category
+  const goalCategoryRef = useRef<{ goal: string; category: string } | null>(null);
   const [currentPlanId, setCurrentPlanIdState] = useState<Id<"plans"> | null>(
     null
   );
+  const [focusDayNumber, setFocusDayNumber] = useState<number | null>(null);
   const { user } = useUser();
+  const convex = useConvex();
   const savePlanMutation = useMutation(api.plans.savePlan);
+  const setTaskCompletionMutation = useMutation(api.plans.setTaskCompletion);
+  const setPlanStartDateMutation = useMutation(api.plans.setPlanStartDate);
+  const setPlanAvailabilityMutation = useMutation(api.plans.setPlanAvailability);
+  const commitPlanVersionMutation = useMutation(api.plans.commitPlanVersion);
+  const restoreVersionMutation = useMutation(api.plans.restoreVersion);
   const updatePlanMutation = useMutation(api.plans.updatePlan);
+  const assignPlanItemIdsMutation = useMutation(api.plans.assignPlanItemIds);
   const generateInsights = useAction(api.insights.recomputeInsightsForPlan);
 
-  // Debounce streaming plan parsing to reduce performance overhead
-  const lastParseTimeRef = useRef<number>(0);
-  const PARSE_DEBOUNCE_MS = 500; // Only parse every 500ms during streaming
-
   const setGoal = useCallback((newGoal: string) => {
     setGoalState(newGoal);
   }, []);
 
+  const setGoalCategory = useCallback((categoryGoal: string, category: string) => {
+    goalCategoryRef.current = { goal: categoryGoal.trim(), category };
+  }, []);
+
   const resetPlanState = useCallback(() => {
     setPlanState(null);
     setStreamingPlanText(null);
@@ -84,8 +119,11 @@ export const PlanProvider: React.FC<PlanProviderProps> = ({ children }) => {
     setBackgroundGenerationInProgress(false);
     setError(null);
     setSelectedDurationState(null);
+    setSelectedAvailability(null);
     setGoalState(null);
+    goalCategoryRef.current = null;
     setCurrentPlanIdState(null);
+    setFocusDayNumber(null);
   }, []);
 
   const startBackgroundGeneration = (goal: string) => {
@@ -114,7 +152,6 @@ export const PlanProvider: React.FC<PlanProviderProps> = ({ children }) => {
     }
 
     const maxRetries = 2;
-    const expectedTasks = selectedDuration || 30;
 
     // Only set loading state for foreground generation
     if (!isBackground) {
@@ -124,124 +161,108 @@ export const PlanProvider: React.FC<PlanProviderProps> = ({ children }) => {
     setPlanState(null);
     setStreamingPlanText("");
 
+    // New plans start today in the user's timezone; tasks fall on the chosen working days
+    const timezone = getLocalTimezone();
+    const startDate = getTodayKey(timezone);
+    const availability = selectedAvailability ?? undefined;
+
     try {
       let accumulatedText = "";
+      // Builds the live preview chunk by chunk instead of re-parsing the accumulated text
+      let streamParser = createPlanStreamParser(trimmedGoal);
 
-      const rawPlanString = await apiGeneratePlan(
+      // JSON mode: the server validates the plan against the schema and re-asks on violations
+      const { plan: generatedPlan, issues } = await apiGeneratePlanStructured(
         trimmedGoal,
         selectedDuration || undefined,
-        (chunk: string) => {
-          accumulatedText += chunk;
-          setStreamingPlanText(accumulatedText);
-
-          // Debounce streaming plan parsing to reduce performance overhead
-          const now = Date.now();
-          if (now - lastParseTimeRef.current >= PARSE_DEBOUNCE_MS) {
-            try {
-              const parsedStreamingPlan = parsePlanString(
-                accumulatedText,
-                trimmedGoal,
-                selectedDuration || undefined,
-                true
-              );
-              if (parsedStreamingPlan) {
-                setStreamingPlan(parsedStreamingPlan);
-              }
-              lastParseTimeRef.current = now;
-            } catch (parseError) {
-              console.debug("Streaming parse failed:", parseError);
+        {
+          onChunk: (chunk: string) => {
+            accumulatedText += chunk;
+            setStreamingPlanText(accumulatedText);
+
+            // Only re-render the preview when the chunk completed a milestone, objective or task
+            if (streamParser.push(chunk).length > 0) {
+              setStreamingPlan(streamParser.plan);
             }
-          }
 
-          if (onChunk) {
-            onChunk(chunk);
-          }
-        }
+            if (onChunk) {
+              onChunk(chunk);
+            }
+          },
+          onRetry: (attempt, retryIssues) => {
+            // The server is asking the model again; discard the rejected partial output
+            console.warn(`[PlanContext] Plan failed validation, regenerating (attempt ${attempt}):`, retryIssues);
+            accumulatedText = "";
+            streamParser = createPlanStreamParser(trimmedGoal);
+            setStreamingPlanText("");
+            setStreamingPlan(null);
+          },
+        },
+        { startDate, availability }
       );
 
       setStreamingPlanText(null);
       setStreamingPlan(null);
 
-      const parsedPlan = parsePlanString(
-        rawPlanString,
-        trimmedGoal,
-        selectedDuration || undefined
-      );
-
-      if (parsedPlan) {
-        let totalTasks = 0;
-        parsedPlan.monthlyMilestones.forEach((month) => {
-          month.weeklyObjectives.forEach((week) => {
-            totalTasks += week.dailyTasks.length;
-          });
-        });
-
-        // Check if we need to retry due to insufficient tasks
-        if (totalTasks < expectedTasks * 0.9 && retryCount < maxRetries) {
-          console.warn(
-            `Insufficient tasks (${totalTasks}/${expectedTasks}), retrying... (attempt ${retryCount + 1}/${maxRetries + 1})`
-          );
-          // Retry with the same parameters
-          return generateNewPlan(trimmedGoal, onChunk, isBackground, retryCount + 1);
-        }
+      if (issues.length > 0) {
+        console.warn("[PlanContext] Plan accepted with validation issues:", issues);
+      }
+      const parsedPlan = toFullPlan(generatedPlan);
+
+      // The model may reword the goal; plans are stored, listed and grouped by what the user typed
+      parsedPlan.goal = trimmedGoal;
+      parsedPlan.startDate = startDate;
+      parsedPlan.timezone = timezone;
+      parsedPlan.availability = availability;
+      if (goalCategoryRef.current?.goal === trimmedGoal) {
+        parsedPlan.category = goalCategoryRef.current.category;
+      }
 
-        if (selectedDuration && totalTasks !== selectedDuration) {
-          console.warn(
-            `Final validation: Task count mismatch: got ${totalTasks}, expected ${selectedDuration}`
-          );
-          if (totalTasks < selectedDuration * 0.7) {
-            setError(
-              `Plan generation incomplete. Expected ${selectedDuration} tasks but got only ${totalTasks} unique tasks. Please try again.`
-            );
-            setPlanState(null);
-            return;
-          }
+      // The server already re-asked for the exact count; only plans that are far off are errors
+      const expectedTasks = selectedDuration ? countWorkingDays(startDate, selectedDuration, availability) : undefined;
+      const diagnostics = diagnoseTaskCount(parsedPlan, expectedTasks);
+      const planErrors = diagnostics.filter((diagnostic) => diagnostic.severity === "error");
+      if (planErrors.length > 0) {
+        if (retryCount < maxRetries) {
+          console.warn(`[PlanContext] Generated plan rejected, retrying (attempt ${retryCount + 2}/${maxRetries + 1}):`, planErrors);
+          return await generateNewPlan(trimmedGoal, onChunk, isBackground, retryCount + 1);
         }
+        setError(`${planErrors[0].message} Please try again.`);
+        setPlanState(null);
+        return;
+      }
+      if (diagnostics.length > 0) {
+        console.warn("[PlanContext] Generated plan accepted with warnings:", diagnostics);
+      }
 
-        setPlanState(parsedPlan);
+      setPlanState(parsedPlan);
 
-        if (user) {
-          try {
-            const insertedId = await savePlanMutation({
-              userId: user.id,
-              plan: parsedPlan,
-            });
-            if (insertedId) {
-              setCurrentPlanIdState(insertedId as Id<"plans">);
-              // Automatically generate insights for the new plan
-              // Add a small delay to ensure plan is fully committed
-              setTimeout(async () => {
-                try {
-                  const userTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
-                  await generateInsights({
-                    planId: insertedId as Id<"plans">,
-                    userTimezone
-                  });
-                } catch (insightsError) {
-                  console.error("[PlanContext] Auto-insights generation failed:", insightsError);
-                  // Don't show error to user - insights are optional enhancement
-                }
-              }, 100); // 100ms delay
-            }
-          } catch (saveError) {
-            console.error("[PlanContext] Auto-save failed:", saveError);
+      if (user) {
+        try {
+          const insertedId = await savePlanMutation({
+            userId: user.id,
+            plan: parsedPlan,
+          });
+          if (insertedId) {
+            setCurrentPlanIdState(insertedId as Id<"plans">);
+            // Automatically generate insights for the new plan
+            // Add a small delay to ensure plan is fully committed
+            setTimeout(async () => {
+              try {
+                const userTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+                await generateInsights({
+                  planId: insertedId as Id<"plans">,
+                  userTimezone
+                });
+              } catch (insightsError) {
+                console.error("[PlanContext] Auto-insights generation failed:", insightsError);
+                // Don't show error to user - insights are optional enhancement
+              }
+            }, 100); // 100ms delay
           }
+        } catch (saveError) {
+          console.error("[PlanContext] Auto-save failed:", saveError);
         }
-      } else {
-        // If parsing failed and we haven't retried, try again
-        if (retryCount < maxRetries) {
-          console.warn(`Plan parsing failed, retrying... (attempt ${retryCount + 1}/${maxRetries + 1})`);
-          return generateNewPlan(trimmedGoal, onChunk, isBackground, retryCount + 1);
-        }
-
-        console.error(
-          "Failed to parse the generated plan string. Raw string:",
-          rawPlanString
-        );
-        setError(
-          "AI generated a plan, but it could not be structured correctly."
-        );
-        setPlanState(null);
       }
     } catch (err) {
       // If it's a retryable error and we haven't maxed retries, try again
@@ -281,19 +302,44 @@ export const PlanProvider: React.FC<PlanProviderProps> = ({ children }) => {
 
     try {
       const goalForParsing = plan?.goal || originalGoal || "Updated Plan";
-      const parsedPlan = parsePlanString(planString, goalForParsing);
+      const { plan: reparsedPlan, diagnostics } = parsePlanString(planString, goalForParsing);
+      const planErrors = diagnostics.filter((diagnostic) => diagnostic.severity === "error");
+      // Keep task ids (chat threads, notes) and completion from the current revision
+      const parsedPlan =
+        reparsedPlan && planErrors.length === 0
+          ? plan ? carryOverPlanIds(plan, reparsedPlan) : reparsedPlan
+          : null;
 
       if (parsedPlan) {
+        const warnings = diagnostics.filter((diagnostic) => diagnostic.severity === "warning");
+        if (warnings.length > 0) {
+          console.warn("[PlanContext] Updated plan parsed with warnings:", warnings);
+        }
+        // Refinements keep the original schedule anchor
+        const timezone = plan?.timezone ?? getLocalTimezone();
+        parsedPlan.startDate = plan?.startDate ?? getTodayKey(timezone);
+        parsedPlan.timezone = timezone;
+        parsedPlan.availability = plan?.availability;
+        parsedPlan.category = plan?.category;
         setPlanState(parsedPlan);
 
         if (user) {
           try {
-            const insertedId = await savePlanMutation({
-              userId: user.id,
-              plan: parsedPlan,
-            });
-            if (!currentPlanId && insertedId)
-              setCurrentPlanIdState(insertedId as Id<"plans">);
+            // Refinements become a new version of the same plan document
+            if (currentPlanId) {
+              await commitPlanVersionMutation({
+                id: currentPlanId,
+                goal: parsedPlan.goal,
+                monthlyMilestones: parsedPlan.monthlyMilestones,
+                source: "refine",
+              });
+            } else {
+              const insertedId = await savePlanMutation({
+                userId: user.id,
+                plan: parsedPlan,
+              });
+              if (insertedId) setCurrentPlanIdState(insertedId as Id<"plans">);
+            }
           } catch (saveError) {
             console.error(
               "[PlanContext] Updated plan auto-save failed:",
@@ -306,11 +352,14 @@ export const PlanProvider: React.FC<PlanProviderProps> = ({ children }) => {
         return true;
       } else {
         console.error(
-          "[PlanContext] Failed to parse the updated plan string. String:",
+          "[PlanContext] Failed to parse the updated plan string:",
+          planErrors,
           planString
         );
         setError(
-          "Received an AI response, but it could not be structured into an updated plan."
+          `Received an AI response, but it could not be structured into an updated plan: ${
+            planErrors[0]?.message ?? "no plan structure was found."
+          }`
         );
         setIsLoading(false);
         return false;
@@ -326,11 +375,23 @@ export const PlanProvider: React.FC<PlanProviderProps> = ({ children }) => {
     }
   };
 
-  const setPlan = useCallback((loadedPlan: FullPlan) => {
+  const setPlan = useCallback((loadedPlan: FullPlan & { _id?: Id<"plans"> }) => {
     setPlanState(loadedPlan);
     setError(null);
     setIsLoading(false);
-  }, []);
+
+    // Plans saved before stable ids existed get them assigned and saved on the server
+    if (loadedPlan._id && !hasAllPlanItemIds(loadedPlan.monthlyMilestones)) {
+      assignPlanItemIdsMutation({ id: loadedPlan._id })
+        .then((updated) => {
+          setPlanState((current) => (current === loadedPlan ? (updated as unknown as FullPlan) : current));
+        })
+        .catch((assignError) => {
+          console.error("[PlanContext] Failed to assign plan item ids:", assignError);
+          toast.error("Failed to prepare this plan for editing. Please reload it.");
+        });
+    }
+  }, [assignPlanItemIdsMutation]);
 
   const saveCurrentPlan = async () => {
     if (!user) {
@@ -342,9 +403,17 @@ export const PlanProvider: React.FC<PlanProviderProps> = ({ children }) => {
     }
 
     try {
-      const insertedId = await savePlanMutation({ userId: user.id, plan });
-      if (!currentPlanId && insertedId)
-        setCurrentPlanIdState(insertedId as Id<"plans">);
+      if (currentPlanId) {
+        await commitPlanVersionMutation({
+          id: currentPlanId,
+          goal: plan.goal,
+          monthlyMilestones: plan.monthlyMilestones,
+          source: "manual",
+        });
+      } else {
+        const insertedId = await savePlanMutation({ userId: user.id, plan });
+        if (insertedId) setCurrentPlanIdState(insertedId as Id<"plans">);
+      }
     } catch (saveError) {
       console.error(
         "[PlanContext] Failed to save current plan state:",
@@ -354,35 +423,80 @@ export const PlanProvider: React.FC<PlanProviderProps> = ({ children }) => {
     }
   };
 
-  const toggleTaskCompletion = async (
-    monthIndex: number,
-    weekIndex: number,
-    taskDay: number
-  ) => {
+  const saveImportedPlan = async (importedPlan: FullPlan): Promise<boolean> => {
+    if (!user) {
+      toast.error("You must be logged in to import a plan.");
+      return false;
+    }
+
+    // Imports without a start date begin today
+    const timezone = importedPlan.timezone ?? getLocalTimezone();
+    const planToSave: FullPlan = {
+      goal: importedPlan.goal,
+      monthlyMilestones: importedPlan.monthlyMilestones,
+      startDate: isDateKey(importedPlan.startDate) ? importedPlan.startDate : getTodayKey(timezone),
+      timezone,
+      availability: importedPlan.availability,
+      category: importedPlan.category,
+    };
+
+    try {
+      const insertedId = await savePlanMutation({ userId: user.id, plan: planToSave, source: "import" });
+      // The server drops completions it cannot vouch for, so show the plan as stored
+      const saved = await convex.query(api.plans.getPlan, { id: insertedId as Id<"plans"> });
+      setPlan(saved as unknown as FullPlan);
+      setGoalState(saved.goal);
+      setSelectedDurationState(flattenPlanTasks(saved as unknown as FullPlan).length);
+      setCurrentPlanIdState(insertedId as Id<"plans">);
+      setError(null);
+      toast.success("Plan imported.");
+      return true;
+    } catch (saveError) {
+      console.error("[PlanContext] Failed to save imported plan:", saveError);
+      toast.error("Failed to save the imported plan.");
+      return false;
+    }
+  };
+
+  const openPlanById = async (id: Id<"plans">, dayNumber: number | null = null): Promise<boolean> => {
+    try {
+      const loaded = await convex.query(api.plans.getPlan, { id });
+      // Loaded the same way as plans picked from the saved plans list
+      setPlan(loaded as unknown as FullPlan);
+      setGoalState(loaded.goal);
+      setSelectedDurationState(flattenPlanTasks(loaded as unknown as FullPlan).length);
+      setCurrentPlanIdState(id);
+      setFocusDayNumber(dayNumber);
+      return true;
+    } catch (loadError) {
+      console.error("[PlanContext] Failed to open plan:", loadError);
+      toast.error("That plan could not be opened.");
+      return false;
+    }
+  };
+
+  const clearFocusDay = useCallback(() => setFocusDayNumber(null), []);
+
+  const toggleTaskCompletion = async (taskId: string) => {
     if (!plan) return;
 
     const originalPlanState = plan;
-    let planAfterToggle: FullPlan | null = null;
+    let completed = false;
 
     try {
       const tempUpdatedPlan = JSON.parse(
         JSON.stringify(originalPlanState)
       ) as FullPlan;
-      const task = tempUpdatedPlan.monthlyMilestones?.[
-        monthIndex
-      ]?.weeklyObjectives?.[weekIndex]?.dailyTasks?.find(
-        (t) => t.day === taskDay
-      );
-
-      if (task) {
-        task.completed = !task.completed;
-        planAfterToggle = tempUpdatedPlan;
-
-        setPlanState(planAfterToggle);
+      const located = findTaskById(tempUpdatedPlan, taskId);
+
+      if (located) {
+        located.task.completed = !located.task.completed;
+        completed = located.task.completed;
+        if (completed) located.task.completedAt = Date.now();
+        else delete located.task.completedAt;
+        setPlanState(tempUpdatedPlan);
       } else {
-        console.error(
-          `[PlanContext] Task not found for toggling: Month ${monthIndex + 1}, Week ${weekIndex + 1}, Day ${taskDay}`
-        );
+        console.error(`[PlanContext] Task not found for toggling: ${taskId}`);
         return;
       }
     } catch (error) {
@@ -392,9 +506,9 @@ export const PlanProvider: React.FC<PlanProviderProps> = ({ children }) => {
       return;
     }
 
-    if (user && planAfterToggle && currentPlanId) {
+    if (user && currentPlanId) {
       try {
-        await updatePlanMutation({ id: currentPlanId, patch: planAfterToggle });
+        await setTaskCompletionMutation({ id: currentPlanId, taskId, completed, timezone: getLocalTimezone() });
         // Regenerate insights after task completion to provide updated guidance
         setTimeout(async () => {
           try {
@@ -420,6 +534,158 @@ export const PlanProvider: React.FC<PlanProviderProps> = ({ children }) => {
     }
   };
 
+  const updatePlanStartDate = async (startDate: string) => {
+    if (!plan) return;
+    if (!isDateKey(startDate)) {
+      toast.error("Please choose a valid start date.");
+      return;
+    }
+
+    const originalPlanState = plan;
+    const timezone = plan.timezone ?? getLocalTimezone();
+    setPlanState({ ...plan, startDate, timezone });
+
+    if (user && currentPlanId) {
+      try {
+        await setPlanStartDateMutation({ id: currentPlanId, startDate, timezone });
+      } catch (updateError) {
+        console.error(
+          "[PlanContext] Update of plan start date failed:",
+          updateError
+        );
+        toast.error("Failed to update the plan start date.");
+        setPlanState(originalPlanState);
+      }
+    }
+  };
+
+  const updatePlanAvailability = async (availability: PlanAvailability | null): Promise<boolean> => {
+    if (!plan) return false;
+
+    const originalPlanState = plan;
+    setPlanState({ ...plan, availability: availability ?? undefined });
+
+    if (user && currentPlanId) {
+      try {
+        await setPlanAvailabilityMutation({ id: currentPlanId, availability });
+      } catch (updateError) {
+        console.error(
+          "[PlanContext] Update of plan availability failed:",
+          updateError
+        );
+        toast.error("Failed to update the plan's working days.");
+        setPlanState(originalPlanState);
+        return false;
+      }
+    }
+    return true;
+  };
+
+  // Takes the day of the next open task off, so it and every later task move one working day on
+  const pushScheduleByOneDay = async () => {
+    if (!plan) return;
+    const dayOff = getNextOpenTaskDateKey(plan);
+    if (!dayOff) {
+      toast.error("There are no upcoming tasks to push back.");
+      return;
+    }
+
+    const current = plan.availability ?? { activeWeekdays: [], blackoutDates: [] };
+    const pushed = await updatePlanAvailability({
+      ...current,
+      blackoutDates: [...current.blackoutDates, dayOff].sort(),
+    });
+    if (pushed) {
+      const label = parseDateKey(dayOff).toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric" });
+      toast.success(`${label} is now a day off; remaining tasks moved back a day.`);
+    }
+  };
+
+  const restorePlanVersion = async (version: number): Promise<boolean> => {
+    if (!user || !currentPlanId) return false;
+
+    try {
+      const restored = await restoreVersionMutation({ planId: currentPlanId, version });
+      // Loaded the same way as plans picked from the saved plans list
+      setPlan(restored as unknown as FullPlan);
+      toast.success(`Restored version ${version}.`);
+      return true;
+    } catch (restoreError) {
+      console.error("[PlanContext] Restoring plan version failed:", restoreError);
+      toast.error("Failed to restore that version.");
+      return false;
+    }
+  };
+
+  const applyChatEdits = async (operations: PlanEditOperation[]): Promise<boolean> => {
+    if (!plan) return false;
+
+    const originalPlanState = plan;
+    const { plan: editedPlan, applied, rejected } = applyPlanEdits(plan, operations);
+    if (rejected.length > 0) {
+      console.warn("[PlanContext] Some chat edits could not be applied:", rejected);
+    }
+    if (applied.length === 0) {
+      toast.error("None of the proposed changes could be applied.");
+      return false;
+    }
+    setPlanState(editedPlan);
+
+    if (user && currentPlanId) {
+      try {
+        await commitPlanVersionMutation({
+          id: currentPlanId,
+          goal: editedPlan.goal,
+          monthlyMilestones: editedPlan.monthlyMilestones,
+          source: "chat-edit",
+          summary: `${applied.length} change${applied.length === 1 ? "" : "s"} from chat`,
+        });
+      } catch (saveError) {
+        console.error("[PlanContext] Saving chat edits failed:", saveError);
+        toast.error("Failed to save the plan changes.");
+        setPlanState(originalPlanState);
+        return false;
+      }
+    }
+
+    toast.success(
+      rejected.length > 0
+        ? `Applied ${applied.length} change${applied.length === 1 ? "" : "s"}; ${rejected.length} skipped.`
+        : `Applied ${applied.length} change${applied.length === 1 ? "" : "s"}.`
+    );
+    return true;
+  };
+
+  const applyReplannedPlan = async (replanned: FullPlan, summary: string): Promise<boolean> => {
+    if (!plan) return false;
+
+    const originalPlanState = plan;
+    setPlanState(replanned);
+
+    if (user && currentPlanId) {
+      try {
+        // The start date moves with the new schedule, so content and date are saved together
+        await updatePlanMutation({
+          id: currentPlanId,
+          patch: {
+            monthlyMilestones: replanned.monthlyMilestones,
+            startDate: replanned.startDate,
+          },
+          source: "replan",
+          summary: summary || undefined,
+        });
+      } catch (saveError) {
+        console.error("[PlanContext] Saving the replanned plan failed:", saveError);
+        toast.error("Failed to save the new schedule.");
+        setPlanState(originalPlanState);
+        return false;
+      }
+    }
+
+    toast.success("Plan rescheduled from today.");
+    return true;
+  };
+
   const contextValue: IPlanContext = useMemo(() => ({
     plan,
     streamingPlanText,
@@ -428,17 +694,30 @@ export const PlanProvider: React.FC<PlanProviderProps> = ({ children }) => {
     backgroundGenerationInProgress,
     error,
     selectedDuration,
+    selectedAvailability,
     goal,
     currentPlanId,
+    focusDayNumber,
     generateNewPlan,
     startBackgroundGeneration,
     setPlanFromString,
     setPlan,
     setSelectedDuration: setSelectedDurationState,
+    setSelectedAvailability,
     setGoal,
+    setGoalCategory,
     setCurrentPlanId: setCurrentPlanIdState,
     saveCurrentPlan,
+    saveImportedPlan,
+    openPlanById,
+    clearFocusDay,
     toggleTaskCompletion,
+    updatePlanStartDate,
+    updatePlanAvailability,
+    pushScheduleByOneDay,
+    restorePlanVersion,
+    applyChatEdits,
+    applyReplannedPlan,
     resetPlanState,
   }), [
     plan,
@@ -448,17 +727,30 @@ export const PlanProvider: React.FC<PlanProviderProps> = ({ children }) => {
     backgroundGenerationInProgress,
     error,
     selectedDuration,
+    selectedAvailability,
     goal,
     currentPlanId,
+    focusDayNumber,
     generateNewPlan,
     startBackgroundGeneration,
     setPlanFromString,
     setPlan,
     setSelectedDurationState,
+    setSelectedAvailability,
     setGoal,
+    setGoalCategory,
     setCurrentPlanIdState,
     saveCurrentPlan,
+    saveImportedPlan,
+    openPlanById,
+    clearFocusDay,
     toggleTaskCompletion,
+    updatePlanStartDate,
+    updatePlanAvailability,
+    pushScheduleByOneDay,
+    restorePlanVersion,
+    applyChatEdits,
+    applyReplannedPlan,
     resetPlanState,
   ]);
 
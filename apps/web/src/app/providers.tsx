@@ -2,6 +2,7 @@
 import React, { useMemo } from "react";
 import { Toaster } from "sonner";
 import { PlanProvider } from "./contexts/plan-context";
+import AchievementToasts from "./components/achievement-toasts";
 import { ConvexReactClient } from "convex/react";
 import { ConvexProviderWithClerk } from "convex/react-clerk";
 import { useAuth } from "@clerk/nextjs";
@@ -18,6 +19,7 @@ import { useAuth } from "@clerk/nextjs";
  * - contexts/PlanContext.tsx; PlanProvider: Supplies plan state to the app
  * - convex backend: Configures Convex context with Clerk auth forwarding
  * - sonner Toaster: Renders global toast portal
+ * - components/achievement-toasts.tsx: Announces newly unlocked achievements
  *
  * @sideEffects:
  * - Initializes Convex with Clerk so server functions receive user identity.
@@ -39,6 +41,7 @@ export default function Providers({ children }: { children: React.ReactNode }) {
     <PlanProvider>
       {children}
       <Toaster richColors position="bottom-right" />
+      <AchievementToasts />
     </PlanProvider>
   );
 
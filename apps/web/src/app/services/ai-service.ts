@@ -1,14 +1,64 @@
-import type { FullPlan } from '../types/plan-types';
+import type { FullPlan, PlanAvailability } from '../types/plan-types';
+import type { GeneratedPlan, PlanStreamEvent } from '../utils/plan-schema';
+import type { PlanChatReply, PlanChatStreamEvent } from '../utils/plan-edits';
+import type { ReplanResponse } from '../utils/replan';
 
 // Use Next.js API routes under /api
 const BACKEND_URL = '/api';
 
+/**
+ * Error returned by an API route. `status` is the HTTP status and `code` the route's
+ * machine-readable code (e.g. `unauthenticated`, `demo_exhausted`, `rate_limited`) when given.
+ */
+export class APIError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly code?: string,
+    public readonly retryAfterSeconds?: number
+  ) {
+    super(message);
+    this.name = 'APIError';
+  }
+}
+
+/**
+ * @description
+ * Converts a failed API response into an APIError, preferring the route's JSON `error`
+ * message and falling back to status text for non-JSON bodies.
+ *
+ * @receives data from:
+ * - aiService.ts; _fetchAPI / generatePlanStructured / chatWithAI: failed Response
+ *
+ * @sends data to:
+ * - Callers: APIError to throw
+ *
+ * @sideEffects:
+ * - Consumes the response body
+ */
+async function readAPIError(response: Response, url: string): Promise<APIError> {
+  const retryAfter = Number(response.headers.get('Retry-After'));
+  const retryAfterSeconds = Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : undefined;
+  let data: any = null;
+  try {
+    data = JSON.parse(await response.text());
+  } catch {
+    // Non-JSON error body; keep the status message
+  }
+  const message =
+    typeof data?.error === 'string' && data.error
+      ? data.error
+      : `Backend Error: ${response.status} ${response.statusText} at ${url}`;
+  return new APIError(message, response.status, typeof data?.code === 'string' ? data.code : undefined, retryAfterSeconds);
+}
+
 /**
  * @description
  * Reusable fetch helper for backend API calls. Adds headers, JSON body, status checks, and parsing.
+ * Failed responses (including 401/403/429 from the auth and rate limit wrappers) throw an APIError.
  *
  * @receives data from:
- * - aiService.ts; generatePlan/chatWithAI: Endpoint and payload for POST
+ * - aiService.ts; validateGoal/replanFromToday: Endpoint and payload for POST
  *
  * @sends data to:
  * - Next.js API routes under `/api`: Executes POST request and returns JSON
@@ -26,25 +76,15 @@ async function _fetchAPI<T>(endpoint: string, body: object): Promise<T> {
     body: JSON.stringify(body),
   });
 
-  // Attempt to parse JSON regardless of status to potentially get error details
-  let data;
-  try {
-    data = await response.json();
-  } catch (jsonError) {
-    // If JSON parsing fails AND status is bad, throw based on status
-    if (!response.ok) {
-      throw new Error(`Backend Error: ${response.status} ${response.statusText} at ${url}`);
-    }
-    // If JSON parsing fails but status is ok, something else is wrong
-    throw new Error(`Failed to parse JSON response from ${url}, status: ${response.status}`);
-  }
-
   if (!response.ok) {
-    // Use error message from backend if available, otherwise use status text
-    throw new Error(data?.error || `Backend Error: ${response.status} ${response.statusText} at ${url}`);
+    throw await readAPIError(response, url);
   }
 
-  return data;
+  try {
+    return await response.json();
+  } catch {
+    throw new Error(`Failed to parse JSON response from ${url}, status: ${response.status}`);
+  }
 }
 
 /**
@@ -78,86 +118,117 @@ export async function validateGoal(goal: string, duration?: number): Promise<{
     timestamp: currentDate.toISOString()
   };
 
-  return _fetchAPI('/validate-goal', {
+  return _fetchAPI('validate-goal', {
     goal,
     duration,
     currentDateTime
   });
 }
 
-// Function to generate the initial 90-day plan via backend proxy with streaming
 /**
  * @description
- * Requests a streamed 90-day plan from backend and returns the full concatenated text.
+ * Asks the AI to reschedule overdue and upcoming tasks from today on. The result is a
+ * proposal only; it is previewed with `applyReplan` before the plan changes.
  *
  * @receives data from:
- * - contexts/PlanContext.tsx; generateNewPlan: Goal string and optional onChunk callback
+ * - components/modals/replan-modal.tsx; handleGenerate: current plan
  *
  * @sends data to:
- * - api/generate-plan route: Initiates streaming plan generation
+ * - api/replan/route.ts; POST: plan to reschedule
  *
  * @sideEffects:
- * - Network streaming; invokes onChunk callback for UI updates
+ * - Network request
+ */
+export async function replanFromToday(plan: FullPlan): Promise<ReplanResponse> {
+  return _fetchAPI('replan', { plan });
+}
+
+// Start date and working days of a plan being generated; tasks go on working days only
+export interface PlanScheduleOptions {
+  startDate?: string;
+  availability?: PlanAvailability;
+}
+
+/**
+ * @description
+ * Requests a generated plan. The server validates the model output against the plan
+ * schema, re-asking the model when needed, and streams NDJSON events while it works.
+ *
+ * @receives data from:
+ * - contexts/PlanContext.tsx; generateNewPlan: Goal, optional duration, stream callbacks and schedule
+ *
+ * @sends data to:
+ * - api/generate-plan route: Initiates JSON-mode plan generation
+ *
+ * @sideEffects:
+ * - Network streaming; invokes onChunk for raw JSON text and onRetry when the server re-asks
  */
-export const generatePlan = async (
+export const generatePlanStructured = async (
   goal: string,
   duration?: number,
-  onChunk?: (chunk: string) => void
-): Promise<string> => {
-  
+  callbacks: {
+    onChunk?: (chunk: string) => void;
+    onRetry?: (attempt: number, issues: string[]) => void;
+  } = {},
+  schedule: PlanScheduleOptions = {}
+): Promise<{ plan: GeneratedPlan; issues: string[] }> => {
   const url = `${BACKEND_URL}/generate-plan`;
   const response = await fetch(url, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify({ goal, duration }),
+    body: JSON.stringify({ goal, duration, ...schedule }),
   });
 
   if (!response.ok) {
-    // For streaming endpoints, try to get error from response body
-    const errorText = await response.text();
-    try {
-      const errorData = JSON.parse(errorText);
-      throw new Error(errorData.error || `Backend Error: ${response.status} ${response.statusText}`);
-    } catch {
-      throw new Error(`Backend Error: ${response.status} ${response.statusText}`);
-    }
+    throw await readAPIError(response, url);
   }
 
   const reader = response.body?.getReader();
   const decoder = new TextDecoder();
-  
+
   if (!reader) {
     throw new Error("No response stream available");
   }
 
-  let fullContent = '';
-  
+  let buffer = '';
+  let result: { plan: GeneratedPlan; issues: string[] } | null = null;
+
+  const handleEvent = (event: PlanStreamEvent) => {
+    if (event.type === 'chunk') {
+      callbacks.onChunk?.(event.text);
+    } else if (event.type === 'retry') {
+      callbacks.onRetry?.(event.attempt, event.issues);
+    } else if (event.type === 'plan') {
+      result = { plan: event.plan, issues: event.issues };
+    } else {
+      const details = event.issues?.length ? ` (${event.issues.join('; ')})` : '';
+      throw new Error(`Structured plan was rejected: ${event.error}${details}`);
+    }
+  };
+
   try {
     while (true) {
       const { done, value } = await reader.read();
-      
       if (done) break;
-      
-      const chunk = decoder.decode(value, { stream: true });
-      fullContent += chunk;
-      
-      // Call the chunk callback if provided
-      if (onChunk) {
-        onChunk(chunk);
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line.trim()) handleEvent(JSON.parse(line) as PlanStreamEvent);
       }
     }
-    
-    return fullContent;
-    
-  } catch (error) {
-    console.error("[Client] Error during plan streaming:", error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    throw new Error(`Failed to generate plan via backend: ${errorMessage}`);
+    if (buffer.trim()) handleEvent(JSON.parse(buffer) as PlanStreamEvent);
   } finally {
     reader.releaseLock();
   }
+
+  if (!result) {
+    throw new Error("Plan generation ended without a plan.");
+  }
+  return result;
 };
 
 // NOTE: Ensure this history type matches exactly what the backend expects.
@@ -167,9 +238,10 @@ type GeminiHistoryItem = { role: 'user' | 'model'; parts: string };
 /**
  * @description
  * Sends a chat message and relevant history/plan to backend, streams and returns the full response.
+ * `summary` condenses the conversation older than `history`.
  *
  * @receives data from:
- * - components/layout/Sidebar.tsx; handleChatOrRefinement: message, history, plan, and onChunk
+ * - components/milestone/plan-chat.tsx; handleSend: message, history, plan, onChunk and summary (advice mode)
  *
  * @sends data to:
  * - api/chat route: Initiates streaming chat response
@@ -181,7 +253,8 @@ export const chatWithAI = async (
   message: string,
   history: GeminiHistoryItem[], 
   plan: FullPlan | null,
-  onChunk?: (chunk: string) => void
+  onChunk?: (chunk: string) => void,
+  summary?: string | null
 ): Promise<string> => {
   
   const url = `${BACKEND_URL}/chat`;
@@ -193,19 +266,13 @@ export const chatWithAI = async (
     body: JSON.stringify({
       message,
       history,
-      plan
+      plan,
+      summary
     }),
   });
 
   if (!response.ok) {
-    // For streaming endpoints, try to get error from response body
-    const errorText = await response.text();
-    try {
-      const errorData = JSON.parse(errorText);
-      throw new Error(errorData.error || `Backend Error: ${response.status} ${response.statusText}`);
-    } catch {
-      throw new Error(`Backend Error: ${response.status} ${response.statusText}`);
-    }
+    throw await readAPIError(response, url);
   }
 
   const reader = response.body?.getReader();
@@ -242,3 +309,86 @@ export const chatWithAI = async (
     reader.releaseLock();
   }
 };
+
+/**
+ * @description
+ * Sends a chat message with the current plan and lets the model propose targeted edit
+ * operations alongside its reply. The reply arrives token by token through `onChunk`, followed
+ * by the operations and the reply's token count. Operations are not applied here; callers
+ * preview them. Aborting `signal` cancels the request and rejects with an AbortError.
+ * `summary` condenses the conversation older than `history`.
+ *
+ * @receives data from:
+ * - components/milestone/plan-chat.tsx; handleSend: message, history, plan, onChunk and summary (plan mode)
+ * - components/milestone/calendar.tsx; handleSendMessage: task chat message, history, plan, onChunk and signal
+ *
+ * @sends data to:
+ * - api/chat route: Chat request with `allowEdits`; the reply arrives as NDJSON events
+ *
+ * @sideEffects:
+ * - Network streaming; invokes onChunk callback for UI updates
+ */
+export const streamChatWithPlanEdits = async (
+  message: string,
+  history: GeminiHistoryItem[],
+  plan: FullPlan,
+  onChunk?: (chunk: string) => void,
+  signal?: AbortSignal,
+  summary?: string | null
+): Promise<PlanChatReply> => {
+  const url = `${BACKEND_URL}/chat`;
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ message, history, plan, summary, allowEdits: true }),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw await readAPIError(response, url);
+  }
+
+  const reader = response.body?.getReader();
+  const decoder = new TextDecoder();
+
+  if (!reader) {
+    throw new Error("No response stream available");
+  }
+
+  let buffer = '';
+  let result: PlanChatReply | null = null;
+
+  const handleEvent = (event: PlanChatStreamEvent) => {
+    if (event.type === 'chunk') {
+      onChunk?.(event.text);
+    } else if (event.type === 'result') {
+      result = { ...event.response, tokens: event.tokens };
+    } else {
+      throw new Error(event.error);
+    }
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line.trim()) handleEvent(JSON.parse(line) as PlanChatStreamEvent);
+      }
+    }
+    if (buffer.trim()) handleEvent(JSON.parse(buffer) as PlanChatStreamEvent);
+  } finally {
+    reader.releaseLock();
+  }
+
+  if (!result) {
+    throw new Error("Chat response ended without a reply.");
+  }
+  return result;
+};
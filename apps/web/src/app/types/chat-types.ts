@@ -6,5 +6,6 @@ export interface ChatMessage {
   id?: number | string;
   role: ChatRole;
   text: string;
+  createdAt?: number; // Set by the server when a plan chat message is stored
   isError?: boolean;
 }
@@ -4,27 +4,41 @@ import type { InteractionMode } from './general-types';
 // Defines the structure for the AI-generated 90-day plan
 
 export interface DailyTask {
+  id: string; // Stable identifier; survives reordering and AI refinements
   day: number; // e.g., 1-7 within the week
   description: string;
   completed: boolean; // For tracking
+  completedAt?: number; // Epoch ms when last marked complete; absent for incomplete and legacy tasks
 }
 
 export interface WeeklyObjective {
+  id: string;
   week: number; // e.g., 1-4 within the month
   objective: string;
   dailyTasks: DailyTask[];
 }
 
 export interface MonthlyMilestone {
+  id: string;
   month: number; // e.g., 1-3
   milestone: string;
   weeklyObjectives: WeeklyObjective[];
 }
 
+// Days a plan schedules tasks on; task N falls on the Nth available day from the start date
+export interface PlanAvailability {
+  activeWeekdays: number[]; // 0 = Sunday … 6 = Saturday
+  blackoutDates: string[]; // Days off as YYYY-MM-DD, e.g. holidays or a skipped day
+}
+
 // Represents the entire 90-day plan structure
 export interface FullPlan {
   goal: string;
   monthlyMilestones: MonthlyMilestone[];
+  startDate?: string; // Calendar date of Day 1 as YYYY-MM-DD
+  timezone?: string; // IANA timezone the start date was chosen in, e.g. "Europe/Berlin"
+  availability?: PlanAvailability; // Absent: tasks on every day
+  category?: string; // Goal category from goal validation, e.g. "health"
   chatHistory?: ChatMessage[];
   interactionMode?: InteractionMode;
   unlockedAchievements?: { [achievementId: string]: boolean }; // Added for achievements
@@ -41,6 +55,7 @@ export const isFullPlan = (obj: any): obj is FullPlan => {
       (m: any) =>
         typeof m === 'object' &&
         m !== null &&
+        (m.id === undefined || typeof m.id === 'string') &&
         typeof m.month === 'number' &&
         typeof m.milestone === 'string' &&
         Array.isArray(m.weeklyObjectives) &&
@@ -48,6 +63,7 @@ export const isFullPlan = (obj: any): obj is FullPlan => {
           (w: any) =>
             typeof w === 'object' &&
             w !== null &&
+            (w.id === undefined || typeof w.id === 'string') &&
             typeof w.week === 'number' &&
             typeof w.objective === 'string' &&
             Array.isArray(w.dailyTasks) &&
@@ -55,12 +71,24 @@ export const isFullPlan = (obj: any): obj is FullPlan => {
               (d: any) =>
                 typeof d === 'object' &&
                 d !== null &&
+                (d.id === undefined || typeof d.id === 'string') &&
                 typeof d.day === 'number' &&
                 typeof d.description === 'string' &&
-                typeof d.completed === 'boolean' // Updated check
+                typeof d.completed === 'boolean' && // Updated check
+                (d.completedAt === undefined || typeof d.completedAt === 'number')
             )
         )
     ) &&
+    (obj.startDate === undefined || typeof obj.startDate === 'string') &&
+    (obj.timezone === undefined || typeof obj.timezone === 'string') &&
+    (obj.availability === undefined ||
+      (typeof obj.availability === 'object' &&
+        obj.availability !== null &&
+        Array.isArray(obj.availability.activeWeekdays) &&
+        obj.availability.activeWeekdays.every((d: any) => typeof d === 'number') &&
+        Array.isArray(obj.availability.blackoutDates) &&
+        obj.availability.blackoutDates.every((d: any) => typeof d === 'string'))) &&
+    (obj.category === undefined || typeof obj.category === 'string') &&
     // Check for optional unlockedAchievements: must be absent or an object with boolean values
     (obj.unlockedAchievements === undefined ||
       (typeof obj.unlockedAchievements === 'object' &&
@@ -0,0 +1,167 @@
+import {
+  addDaysToKey,
+  countAvailableDays,
+  daysBetweenKeys,
+  isDateKey,
+  isAvailableDay,
+  normalizeAvailability,
+  scheduleDateKeys,
+  subtractAvailableDays,
+} from '@milestoneAI-next-js/backend/convex/lib/dates';
+import type { FullPlan, DailyTask, PlanAvailability } from '../types/plan-types';
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const DATE_KEY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Formats a Date as a `YYYY-MM-DD` key using its local calendar fields.
+ */
+export function toDateKey(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Returns the `YYYY-MM-DD` key for "today" in the given IANA timezone.
+ * Falls back to the browser's local calendar if the timezone is missing or invalid.
+ */
+export function getTodayKey(timezone?: string, now: Date = new Date()): string {
+  if (timezone) {
+    try {
+      // en-CA formats dates as YYYY-MM-DD
+      return new Intl.DateTimeFormat('en-CA', {
+        timeZone: timezone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+      }).format(now);
+    } catch {
+      // Invalid timezone - use local calendar below
+    }
+  }
+  return toDateKey(now);
+}
+
+/**
+ * Returns the browser's IANA timezone, e.g. "America/New_York".
+ */
+export function getLocalTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Parses a `YYYY-MM-DD` key into a Date at local midnight, for display and calendar grids.
+ */
+export function parseDateKey(key: string): Date {
+  const match = key.match(DATE_KEY_PATTERN);
+  if (!match) return new Date(NaN);
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+/**
+ * Resolves the persisted start date of a plan. Plans saved before start dates existed
+ * fall back to their creation day, and unsaved plans to today.
+ */
+export function getPlanStartDateKey(plan: FullPlan & { createdAt?: number }): string {
+  if (isDateKey(plan.startDate)) return plan.startDate;
+  if (typeof plan.createdAt === 'number') return toDateKey(new Date(plan.createdAt));
+  return getTodayKey(plan.timezone);
+}
+
+/**
+ * Flattens a plan into its daily tasks in schedule order (task N is on the Nth available day).
+ */
+export function flattenPlanTasks(plan: FullPlan): DailyTask[] {
+  return (plan.monthlyMilestones ?? []).flatMap((month) =>
+    (month.weeklyObjectives ?? []).flatMap((week) => week.dailyTasks ?? [])
+  );
+}
+
+export { addDaysToKey, daysBetweenKeys, isAvailableDay, isDateKey, scheduleDateKeys, subtractAvailableDays };
+
+/**
+ * Calendar dates of the plan's tasks in schedule order, skipping the plan's days off.
+ */
+export function getPlanScheduleDateKeys(plan: FullPlan & { createdAt?: number }): string[] {
+  return scheduleDateKeys(getPlanStartDateKey(plan), flattenPlanTasks(plan).length, plan.availability);
+}
+
+/**
+ * Whether today is a day off for the plan (an inactive weekday or a blackout date).
+ */
+export function isRestDay(plan: FullPlan, now: Date = new Date()): boolean {
+  return !isAvailableDay(getTodayKey(plan.timezone, now), plan.availability);
+}
+
+/**
+ * Zero-based index of "today" within the plan schedule: the number of working days since the
+ * start. On a day off it is the index of the next task. Negative before the plan starts and
+ * greater than or equal to the task count after it ends.
+ */
+export function getPlanDayIndex(plan: FullPlan & { createdAt?: number }, now: Date = new Date()): number {
+  return countAvailableDays(getPlanStartDateKey(plan), getTodayKey(plan.timezone, now), plan.availability);
+}
+
+/**
+ * Returns the task scheduled for today, or null on a day off or when today falls outside the plan.
+ */
+export function getTodaysTask(plan: FullPlan & { createdAt?: number }, now: Date = new Date()): DailyTask | null {
+  if (isRestDay(plan, now)) return null;
+  const index = getPlanDayIndex(plan, now);
+  return flattenPlanTasks(plan)[index] ?? null;
+}
+
+/**
+ * Date of the first incomplete task scheduled today or later, or null when nothing is left
+ * to do from today on. Taking that date off pushes the remaining schedule back by one day.
+ */
+export function getNextOpenTaskDateKey(plan: FullPlan & { createdAt?: number }, now: Date = new Date()): string | null {
+  const todayKey = getTodayKey(plan.timezone, now);
+  const keys = getPlanScheduleDateKeys(plan);
+  const index = flattenPlanTasks(plan).findIndex((task, i) => !task.completed && keys[i] >= todayKey);
+  return index === -1 ? null : keys[index];
+}
+
+/**
+ * Number of working days from `startKey` through the day `durationDays` calendar days later,
+ * i.e. how many tasks a plan of that length needs with the given availability.
+ */
+export function countWorkingDays(startKey: string, durationDays: number, availability?: PlanAvailability): number {
+  return countAvailableDays(startKey, addDaysToKey(startKey, durationDays), availability);
+}
+
+/**
+ * Counts incomplete tasks whose scheduled date is before today.
+ */
+export function countOverdueTasks(plan: FullPlan & { createdAt?: number }, now: Date = new Date()): number {
+  const todayIndex = getPlanDayIndex(plan, now);
+  return flattenPlanTasks(plan)
+    .slice(0, Math.max(0, todayIndex))
+    .filter((task) => !task.completed).length;
+}
+
+/**
+ * Reads availability settings from untrusted input (request bodies), or undefined when the
+ * value is missing or malformed. Invalid weekdays and dates are dropped.
+ */
+export function parseAvailability(value: unknown): PlanAvailability | undefined {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const { activeWeekdays, blackoutDates } = value as Record<string, unknown>;
+  if (!Array.isArray(activeWeekdays) || !Array.isArray(blackoutDates)) return undefined;
+  return normalizeAvailability({
+    activeWeekdays: activeWeekdays.filter((day): day is number => typeof day === 'number'),
+    blackoutDates: blackoutDates.filter(isDateKey),
+  });
+}
+
+/**
+ * Lists the working weekdays, e.g. "Monday, Tuesday, Wednesday, Thursday, Friday", or null
+ * when the plan works every day of the week.
+ */
+export function describeWorkingDays(availability?: PlanAvailability): string | null {
+  const days = availability?.activeWeekdays ?? [];
+  if (days.length === 0 || days.length === 7) return null;
+  return days.map((day) => WEEKDAY_NAMES[day]).join(', ');
+}
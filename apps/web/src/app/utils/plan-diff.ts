@@ -0,0 +1,138 @@
+import type { FullPlan } from '../types/plan-types';
+
+// Versions stored before stable ids existed may lack them, so ids are optional here
+type PlanContent = {
+  goal: string;
+  monthlyMilestones: Array<{
+    id?: string;
+    month: number;
+    milestone: string;
+    weeklyObjectives: Array<{
+      id?: string;
+      week: number;
+      objective: string;
+      dailyTasks: Array<{ id?: string; day: number; description: string; completed: boolean }>;
+    }>;
+  }>;
+};
+
+export type ChangeKind = 'added' | 'removed' | 'renamed';
+export type TaskChangeKind = 'added' | 'removed' | 'reworded' | 'moved';
+
+export interface SectionChange {
+  kind: ChangeKind;
+  key: string;
+  label: string; // e.g. "Month 2" or "Week 5"
+  from?: string;
+  to?: string;
+}
+
+export interface TaskChange {
+  kind: TaskChangeKind;
+  key: string;
+  from?: string;
+  to?: string;
+  fromDay?: number; // 1-based position in the schedule
+  toDay?: number;
+}
+
+export interface PlanDiff {
+  goal: { from: string; to: string } | null;
+  milestones: SectionChange[];
+  objectives: SectionChange[];
+  tasks: TaskChange[];
+  completionCarriedOver: number; // Completed in base and still completed in target
+  completionReset: number; // Completed in base but incomplete (or reworded) in target
+}
+
+type FlatTask = { key: string; description: string; completed: boolean; position: number };
+
+function flattenForDiff(plan: PlanContent) {
+  const milestones = new Map<string, { label: string; text: string }>();
+  const objectives = new Map<string, { label: string; text: string }>();
+  const tasks = new Map<string, FlatTask>();
+  let position = 0;
+
+  plan.monthlyMilestones.forEach((month, m) => {
+    milestones.set(month.id ?? `month:${m}`, { label: `Month ${month.month}`, text: month.milestone });
+    month.weeklyObjectives.forEach((week, w) => {
+      objectives.set(week.id ?? `week:${m}-${w}`, { label: `Week ${week.week}`, text: week.objective });
+      week.dailyTasks.forEach((task, d) => {
+        position++;
+        const key = task.id ?? `task:${m}-${w}-${d}`;
+        tasks.set(key, { key, description: task.description, completed: task.completed, position });
+      });
+    });
+  });
+
+  return { milestones, objectives, tasks };
+}
+
+function diffSections(
+  base: Map<string, { label: string; text: string }>,
+  target: Map<string, { label: string; text: string }>
+): SectionChange[] {
+  const changes: SectionChange[] = [];
+  for (const [key, item] of target) {
+    const previous = base.get(key);
+    if (!previous) {
+      changes.push({ kind: 'added', key, label: item.label, to: item.text });
+    } else if (previous.text !== item.text) {
+      changes.push({ kind: 'renamed', key, label: item.label, from: previous.text, to: item.text });
+    }
+  }
+  for (const [key, item] of base) {
+    if (!target.has(key)) changes.push({ kind: 'removed', key, label: item.label, from: item.text });
+  }
+  return changes;
+}
+
+/**
+ * Computes a structured diff between two plan revisions. Items are matched by their stable
+ * id (falling back to position for legacy data), so reworded tasks are reported as such
+ * rather than as a removal plus an addition.
+ */
+export function diffPlans(base: PlanContent | FullPlan, target: PlanContent | FullPlan): PlanDiff {
+  const a = flattenForDiff(base);
+  const b = flattenForDiff(target);
+
+  const tasks: TaskChange[] = [];
+  let completionCarriedOver = 0;
+  let completionReset = 0;
+
+  for (const [key, task] of b.tasks) {
+    const previous = a.tasks.get(key);
+    if (!previous) {
+      tasks.push({ kind: 'added', key, to: task.description, toDay: task.position });
+      continue;
+    }
+    if (previous.description !== task.description) {
+      tasks.push({ kind: 'reworded', key, from: previous.description, to: task.description, fromDay: previous.position, toDay: task.position });
+    } else if (previous.position !== task.position) {
+      tasks.push({ kind: 'moved', key, to: task.description, fromDay: previous.position, toDay: task.position });
+    }
+    if (previous.completed) {
+      if (task.completed) completionCarriedOver++;
+      else completionReset++;
+    }
+  }
+  for (const [key, task] of a.tasks) {
+    if (!b.tasks.has(key)) tasks.push({ kind: 'removed', key, from: task.description, fromDay: task.position });
+  }
+
+  return {
+    goal: base.goal !== target.goal ? { from: base.goal, to: target.goal } : null,
+    milestones: diffSections(a.milestones, b.milestones),
+    objectives: diffSections(a.objectives, b.objectives),
+    tasks,
+    completionCarriedOver,
+    completionReset,
+  };
+}
+
+/**
+ * True when the diff contains no structural or wording changes.
+ */
+export function isEmptyDiff(diff: PlanDiff): boolean {
+  return !diff.goal && diff.milestones.length === 0 && diff.objectives.length === 0 && diff.tasks.length === 0;
+}
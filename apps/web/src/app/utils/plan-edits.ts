@@ -0,0 +1,194 @@
+import { z } from 'zod';
+import type { FullPlan, DailyTask } from '../types/plan-types';
+import { createPlanItemId } from '@milestoneAI-next-js/backend/convex/lib/ids';
+import { findTaskById } from './plan-ids';
+
+// Position for inserted/moved tasks: after a task, or at the start of a week
+const positionShape = {
+  afterTaskId: z.string().optional(),
+  weekId: z.string().optional(),
+};
+
+export const planEditOperationSchema = z.discriminatedUnion('op', [
+  z.object({ op: z.literal('replaceTask'), taskId: z.string(), description: z.string().trim().min(1) }),
+  z.object({ op: z.literal('moveTask'), taskId: z.string(), ...positionShape }),
+  z.object({ op: z.literal('insertTask'), description: z.string().trim().min(1), ...positionShape }),
+  z.object({ op: z.literal('deleteTask'), taskId: z.string() }),
+  z.object({ op: z.literal('renameMilestone'), milestoneId: z.string(), text: z.string().trim().min(1) }),
+  z.object({ op: z.literal('renameObjective'), objectiveId: z.string(), text: z.string().trim().min(1) }),
+]);
+
+export const planChatResponseSchema = z.object({
+  reply: z.string(),
+  operations: z.array(planEditOperationSchema).max(50).default([]),
+});
+
+export type PlanEditOperation = z.infer<typeof planEditOperationSchema>;
+export type PlanChatResponse = z.infer<typeof planChatResponseSchema>;
+
+// A chat reply with its proposed edits and, when the provider reported it, its completion token count
+export type PlanChatReply = PlanChatResponse & { tokens?: number };
+
+// NDJSON events of a streamed chat reply with edits: reply text first, then the parsed result
+export type PlanChatStreamEvent =
+  | { type: 'chunk'; text: string }
+  | { type: 'result'; response: PlanChatResponse; tokens?: number }
+  | { type: 'error'; error: string };
+
+/**
+ * Renders the plan as one line per item, prefixed with the ids the model must reference
+ * in edit operations.
+ */
+export function formatPlanForEditing(plan: FullPlan): string {
+  const lines = [`Goal: ${plan.goal}`];
+  let dayNumber = 0;
+  for (const month of plan.monthlyMilestones) {
+    lines.push(`[milestone:${month.id}] Month ${month.month}: ${month.milestone}`);
+    for (const week of month.weeklyObjectives) {
+      lines.push(`  [week:${week.id}] Week ${week.week}: ${week.objective}`);
+      for (const task of week.dailyTasks) {
+        dayNumber++;
+        lines.push(`    [task:${task.id}] Day ${dayNumber}${task.completed ? ' (done)' : ''}: ${task.description}`);
+      }
+    }
+  }
+  return lines.join('\n');
+}
+
+function findWeek(plan: FullPlan, weekId: string) {
+  for (const month of plan.monthlyMilestones) {
+    const week = month.weeklyObjectives.find((w) => w.id === weekId);
+    if (week) return week;
+  }
+  return null;
+}
+
+/**
+ * Inserts a task at the requested position. Returns false when the position does not exist.
+ */
+function insertAt(plan: FullPlan, task: DailyTask, position: { afterTaskId?: string; weekId?: string }): boolean {
+  if (position.afterTaskId) {
+    const anchor = findTaskById(plan, position.afterTaskId);
+    if (!anchor) return false;
+    const tasks = plan.monthlyMilestones[anchor.monthIndex].weeklyObjectives[anchor.weekIndex].dailyTasks;
+    tasks.splice(tasks.indexOf(anchor.task) + 1, 0, task);
+    return true;
+  }
+  if (position.weekId) {
+    const week = findWeek(plan, position.weekId);
+    if (!week) return false;
+    week.dailyTasks.unshift(task);
+    return true;
+  }
+  return false;
+}
+
+function removeTask(plan: FullPlan, taskId: string): DailyTask | null {
+  const located = findTaskById(plan, taskId);
+  if (!located) return null;
+  const tasks = plan.monthlyMilestones[located.monthIndex].weeklyObjectives[located.weekIndex].dailyTasks;
+  tasks.splice(tasks.indexOf(located.task), 1);
+  return located.task;
+}
+
+/**
+ * Applies edit operations to a copy of the plan, in order. Edited items keep their ids, so
+ * completion state, chat threads and notes stay attached. Operations that reference unknown
+ * ids are skipped and reported in `rejected`. Day numbers are renumbered within each week.
+ */
+export function applyPlanEdits(
+  plan: FullPlan,
+  operations: PlanEditOperation[]
+): { plan: FullPlan; applied: PlanEditOperation[]; rejected: Array<{ operation: PlanEditOperation; reason: string }> } {
+  const next = JSON.parse(JSON.stringify(plan)) as FullPlan;
+  const applied: PlanEditOperation[] = [];
+  const rejected: Array<{ operation: PlanEditOperation; reason: string }> = [];
+
+  for (const operation of operations) {
+    let error: string | null = null;
+    switch (operation.op) {
+      case 'replaceTask': {
+        const located = findTaskById(next, operation.taskId);
+        if (located) located.task.description = operation.description;
+        else error = 'Task not found';
+        break;
+      }
+      case 'moveTask': {
+        const targetExists = operation.afterTaskId
+          ? Boolean(findTaskById(next, operation.afterTaskId))
+          : Boolean(operation.weekId && findWeek(next, operation.weekId));
+        if (operation.afterTaskId === operation.taskId) error = 'Cannot move a task after itself';
+        else if (!targetExists) error = 'Target position not found';
+        else {
+          const task = removeTask(next, operation.taskId);
+          if (task) insertAt(next, task, operation);
+          else error = 'Task not found';
+        }
+        break;
+      }
+      case 'insertTask': {
+        const task: DailyTask = { id: createPlanItemId(), day: 0, description: operation.description, completed: false };
+        if (!insertAt(next, task, operation)) error = 'Target position not found';
+        break;
+      }
+      case 'deleteTask':
+        if (!removeTask(next, operation.taskId)) error = 'Task not found';
+        break;
+      case 'renameMilestone': {
+        const month = next.monthlyMilestones.find((m) => m.id === operation.milestoneId);
+        if (month) month.milestone = operation.text;
+        else error = 'Milestone not found';
+        break;
+      }
+      case 'renameObjective': {
+        const week = findWeek(next, operation.objectiveId);
+        if (week) week.objective = operation.text;
+        else error = 'Weekly objective not found';
+        break;
+      }
+    }
+    if (error) rejected.push({ operation, reason: error });
+    else applied.push(operation);
+  }
+
+  for (const month of next.monthlyMilestones) {
+    for (const week of month.weeklyObjectives) {
+      week.dailyTasks.forEach((task, index) => {
+        task.day = index + 1;
+      });
+    }
+  }
+
+  return { plan: next, applied, rejected };
+}
+
+/**
+ * Human-readable summary of an edit operation for the preview list.
+ */
+export function describePlanEdit(plan: FullPlan, operation: PlanEditOperation): string {
+  const taskText = (taskId?: string) => (taskId ? findTaskById(plan, taskId)?.task.description : undefined) ?? 'unknown task';
+  const position = (op: { afterTaskId?: string; weekId?: string }) => {
+    if (op.afterTaskId) return `after "${taskText(op.afterTaskId)}"`;
+    const week = op.weekId ? findWeek(plan, op.weekId) : null;
+    return week ? `at the start of Week ${week.week}` : 'at an unknown position';
+  };
+
+  switch (operation.op) {
+    case 'replaceTask':
+      return `Reword "${taskText(operation.taskId)}" → "${operation.description}"`;
+    case 'moveTask':
+      return `Move "${taskText(operation.taskId)}" ${position(operation)}`;
+    case 'insertTask':
+      return `Add "${operation.description}" ${position(operation)}`;
+    case 'deleteTask':
+      return `Remove "${taskText(operation.taskId)}"`;
+    case 'renameMilestone': {
+      const month = plan.monthlyMilestones.find((m) => m.id === operation.milestoneId);
+      return `Rename Month ${month?.month ?? '?'} milestone → "${operation.text}"`;
+    }
+    case 'renameObjective': {
+      const week = findWeek(plan, operation.objectiveId);
+      return `Rename Week ${week?.week ?? '?'} objective → "${operation.text}"`;
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { ensurePlanItemIds } from '@milestoneAI-next-js/backend/convex/lib/ids';
+import type { FullPlan, DailyTask } from '../types/plan-types';
+
+/**
+ * Normalizes a task description for matching tasks across plan revisions.
+ */
+function normalizeForMatch(text: string): string {
+  return text.toLowerCase().replace(/[^\w\s]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Carries ids (and completion) from a previous plan revision onto a freshly parsed one so
+ * chat threads, notes and progress survive AI refinements.
+ *
+ * - Tasks whose description is unchanged keep their id and completion state.
+ * - Remaining tasks inherit the id of the previous task in the same schedule slot
+ *   (a reworded task keeps its chat thread) but start incomplete.
+ * - Milestones and objectives are matched by position.
+ */
+export function carryOverPlanIds(previous: FullPlan, next: FullPlan): FullPlan {
+  const previousTasks = previous.monthlyMilestones.flatMap((m) => m.weeklyObjectives.flatMap((w) => w.dailyTasks));
+  const byDescription = new Map<string, DailyTask[]>();
+  for (const task of previousTasks) {
+    const key = normalizeForMatch(task.description);
+    byDescription.set(key, [...(byDescription.get(key) ?? []), task]);
+  }
+
+  const usedIds = new Set<string>();
+  const nextTasks = next.monthlyMilestones.flatMap((m) => m.weeklyObjectives.flatMap((w) => w.dailyTasks));
+  const resolved = new Map<DailyTask, DailyTask>();
+
+  // Pass 1: exact description matches keep id + completion
+  for (const task of nextTasks) {
+    const candidates = byDescription.get(normalizeForMatch(task.description)) ?? [];
+    const match = candidates.find((c) => c.id && !usedIds.has(c.id));
+    if (match) {
+      usedIds.add(match.id);
+      resolved.set(task, { ...task, id: match.id, completed: match.completed, completedAt: match.completedAt });
+    }
+  }
+
+  // Pass 2: unmatched tasks inherit the id of the same schedule slot
+  nextTasks.forEach((task, index) => {
+    if (resolved.has(task)) return;
+    const slot = previousTasks[index];
+    if (slot?.id && !usedIds.has(slot.id)) {
+      usedIds.add(slot.id);
+      resolved.set(task, { ...task, id: slot.id, completed: false, completedAt: undefined });
+    }
+  });
+
+  return {
+    ...next,
+    monthlyMilestones: ensurePlanItemIds(next.monthlyMilestones.map((month, monthIndex) => {
+      const previousMonth = previous.monthlyMilestones[monthIndex];
+      return {
+        ...month,
+        id: previousMonth?.id ?? month.id,
+        weeklyObjectives: month.weeklyObjectives.map((week, weekIndex) => ({
+          ...week,
+          id: previousMonth?.weeklyObjectives[weekIndex]?.id ?? week.id,
+          dailyTasks: week.dailyTasks.map((task) => resolved.get(task) ?? task),
+        })),
+      };
+    })),
+  };
+}
+
+/**
+ * Locates a task by id, returning it with its milestone/objective indices.
+ */
+export function findTaskById(
+  plan: FullPlan,
+  taskId: string
+): { task: DailyTask; monthIndex: number; weekIndex: number } | null {
+  for (let monthIndex = 0; monthIndex < plan.monthlyMilestones.length; monthIndex++) {
+    const month = plan.monthlyMilestones[monthIndex];
+    for (let weekIndex = 0; weekIndex < month.weeklyObjectives.length; weekIndex++) {
+      const task = month.weeklyObjectives[weekIndex].dailyTasks.find((t) => t.id === taskId);
+      if (task) return { task, monthIndex, weekIndex };
+    }
+  }
+  return null;
+}
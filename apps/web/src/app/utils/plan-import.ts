@@ -0,0 +1,195 @@
+import { ensurePlanItemIds } from '@milestoneAI-next-js/backend/convex/lib/ids';
+import type { FullPlan } from '../types/plan-types';
+import { isFullPlan } from '../types/plan-types';
+import { hasPlanErrors, parsePlanString, TASK_LINE_PATTERN } from './plan-parser';
+import { isDateKey } from './plan-dates';
+
+/**
+ * Versioned JSON envelope for plans exchanged outside the app:
+ * `{ "format": "milestoneai-plan", "version": 1, "plan": { goal, monthlyMilestones, ... } }`
+ */
+export const PLAN_FILE_FORMAT = 'milestoneai-plan';
+export const PLAN_FILE_VERSION = 1;
+
+export type PlanImportFormat = 'markdown' | 'json';
+
+export interface PlanImportIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  line?: number; // 1-based line in the imported text, when the issue maps to one
+}
+
+export interface PlanImportResult {
+  format: PlanImportFormat;
+  plan: FullPlan | null; // Null when any error was reported
+  issues: PlanImportIssue[];
+}
+
+/**
+ * Guesses the format from the file name, falling back to the first non-blank character.
+ */
+export function detectImportFormat(text: string, fileName?: string): PlanImportFormat {
+  if (fileName && /\.json$/i.test(fileName)) return 'json';
+  if (fileName && /\.(md|markdown|txt)$/i.test(fileName)) return 'markdown';
+  return /^\s*[[{]/.test(text) ? 'json' : 'markdown';
+}
+
+/**
+ * Imports a plan written in the canonical Markdown format. The goal comes from the
+ * `# Goal:` line and the parser's diagnostics become the validation report. Files with
+ * checkboxes are exports from the app, where repeated tasks are intentional and kept.
+ */
+export function importPlanFromMarkdown(text: string): PlanImportResult {
+  const keepSimilarTasks = text
+    .split(/\r?\n/)
+    .some((rawLine) => TASK_LINE_PATTERN.exec(rawLine.trim())?.[2] !== undefined);
+  const { plan, diagnostics } = parsePlanString(text, '', undefined, false, { keepSimilarTasks });
+
+  // Informational findings (e.g. implicit day numbers) are normal in hand-written plans
+  const issues: PlanImportIssue[] = diagnostics
+    .filter((diagnostic) => diagnostic.severity !== 'info')
+    .map(({ severity, message, line }) => ({
+      severity: severity === 'error' ? 'error' : 'warning',
+      message,
+      ...(line !== undefined ? { line } : {}),
+    }));
+
+  if (!plan || hasPlanErrors(diagnostics) || !isFullPlan(plan)) {
+    return { format: 'markdown', plan: null, issues };
+  }
+  return { format: 'markdown', plan: { ...plan, monthlyMilestones: ensurePlanItemIds(plan.monthlyMilestones) }, issues };
+}
+
+/**
+ * Finds the first place where a value does not match the FullPlan shape, as a readable path.
+ */
+function describeShapeError(value: any): string {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return 'The plan must be an object.';
+  if (typeof value.goal !== 'string') return '"goal" must be a string.';
+  if (!Array.isArray(value.monthlyMilestones)) return '"monthlyMilestones" must be an array.';
+  for (const [m, month] of value.monthlyMilestones.entries()) {
+    const monthPath = `monthlyMilestones[${m}]`;
+    if (typeof month?.month !== 'number') return `${monthPath}.month must be a number.`;
+    if (typeof month.milestone !== 'string') return `${monthPath}.milestone must be a string.`;
+    if (!Array.isArray(month.weeklyObjectives)) return `${monthPath}.weeklyObjectives must be an array.`;
+    for (const [w, week] of month.weeklyObjectives.entries()) {
+      const weekPath = `${monthPath}.weeklyObjectives[${w}]`;
+      if (typeof week?.week !== 'number') return `${weekPath}.week must be a number.`;
+      if (typeof week.objective !== 'string') return `${weekPath}.objective must be a string.`;
+      if (!Array.isArray(week.dailyTasks)) return `${weekPath}.dailyTasks must be an array.`;
+      for (const [d, task] of week.dailyTasks.entries()) {
+        const taskPath = `${weekPath}.dailyTasks[${d}]`;
+        if (typeof task?.day !== 'number') return `${taskPath}.day must be a number.`;
+        if (typeof task.description !== 'string') return `${taskPath}.description must be a string.`;
+        if (typeof task.completed !== 'boolean') return `${taskPath}.completed must be true or false.`;
+      }
+    }
+  }
+  return 'The plan does not match the expected structure.';
+}
+
+/**
+ * Maps a JSON.parse error to a line number when the engine reports a position.
+ */
+function jsonErrorLine(text: string, error: unknown): number | undefined {
+  const message = error instanceof Error ? error.message : '';
+  const lineMatch = message.match(/line (\d+)/i);
+  if (lineMatch) return Number(lineMatch[1]);
+  const positionMatch = message.match(/position (\d+)/i);
+  if (positionMatch) return text.slice(0, Number(positionMatch[1])).split('\n').length;
+  return undefined;
+}
+
+/**
+ * Imports a plan from the versioned JSON format. A bare plan object without the envelope is
+ * accepted with a warning. Completion state is kept; ids are regenerated where missing.
+ */
+export function importPlanFromJson(text: string): PlanImportResult {
+  const issues: PlanImportIssue[] = [];
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    issues.push({
+      severity: 'error',
+      line: jsonErrorLine(text, error),
+      message: `Invalid JSON: ${error instanceof Error ? error.message : 'could not be parsed'}`,
+    });
+    return { format: 'json', plan: null, issues };
+  }
+
+  let candidate: any = data;
+  if (data && typeof data === 'object' && 'format' in data) {
+    if (data.format !== PLAN_FILE_FORMAT) {
+      issues.push({ severity: 'error', message: `Unknown format "${String(data.format)}"; expected "${PLAN_FILE_FORMAT}".` });
+      return { format: 'json', plan: null, issues };
+    }
+    if (typeof data.version !== 'number' || data.version > PLAN_FILE_VERSION) {
+      issues.push({ severity: 'error', message: `Unsupported version ${String(data.version)}; this app reads version ${PLAN_FILE_VERSION}.` });
+      return { format: 'json', plan: null, issues };
+    }
+    candidate = data.plan;
+  } else {
+    issues.push({ severity: 'warning', message: `No "format"/"version" header; read as a version ${PLAN_FILE_VERSION} plan.` });
+  }
+
+  if (!isFullPlan(candidate)) {
+    issues.push({ severity: 'error', message: describeShapeError(candidate) });
+    return { format: 'json', plan: null, issues };
+  }
+
+  if (!candidate.goal.trim()) {
+    issues.push({ severity: 'error', message: '"goal" is empty.' });
+  }
+  const taskCount = candidate.monthlyMilestones.reduce(
+    (sum, month) => sum + month.weeklyObjectives.reduce((weekSum, week) => weekSum + week.dailyTasks.length, 0),
+    0
+  );
+  if (taskCount === 0) {
+    issues.push({ severity: 'error', message: 'The plan has no tasks.' });
+  }
+  for (const month of candidate.monthlyMilestones) {
+    const weekNumbers = new Set<number>();
+    for (const week of month.weeklyObjectives) {
+      if (weekNumbers.has(week.week)) {
+        issues.push({ severity: 'warning', message: `Week ${week.week} appears more than once in Month ${month.month}.` });
+      }
+      weekNumbers.add(week.week);
+      if (week.dailyTasks.length === 0) {
+        issues.push({ severity: 'warning', message: `Week ${week.week} in Month ${month.month} has no tasks.` });
+      }
+    }
+  }
+  if (candidate.startDate !== undefined && !isDateKey(candidate.startDate)) {
+    issues.push({ severity: 'warning', message: `Start date "${candidate.startDate}" is not a YYYY-MM-DD date and is ignored.` });
+  }
+
+  if (issues.some((issue) => issue.severity === 'error')) {
+    return { format: 'json', plan: null, issues };
+  }
+
+  // Only plan content is imported; chat history and achievements start fresh
+  const plan: FullPlan = {
+    goal: candidate.goal.trim(),
+    monthlyMilestones: ensurePlanItemIds(candidate.monthlyMilestones),
+    startDate: isDateKey(candidate.startDate) ? candidate.startDate : undefined,
+    timezone: candidate.timezone,
+    availability: candidate.availability,
+    category: candidate.category,
+  };
+  return { format: 'json', plan, issues };
+}
+
+/**
+ * Imports pasted text or an uploaded file in either supported format.
+ */
+export function importPlan(text: string, fileName?: string): PlanImportResult {
+  if (!text.trim()) {
+    return {
+      format: detectImportFormat(text, fileName),
+      plan: null,
+      issues: [{ severity: 'error', message: 'Nothing to import.' }],
+    };
+  }
+  return detectImportFormat(text, fileName) === 'json' ? importPlanFromJson(text) : importPlanFromMarkdown(text);
+}
@@ -1,14 +1,88 @@
 import type { FullPlan, MonthlyMilestone, WeeklyObjective, DailyTask } from '../types/plan-types';
+import { createPlanItemId } from '@milestoneAI-next-js/backend/convex/lib/ids';
 
 // Simple LRU cache for plan parsing to avoid expensive re-parsing
-const PLAN_CACHE = new Map<string, FullPlan>();
+const PLAN_CACHE = new Map<string, PlanParseResult>();
 const MAX_CACHE_SIZE = 10;
 
-function getCacheKey(planString: string, goal: string, duration?: number, isStreaming = false): string {
-  return `${planString.length}-${goal}-${duration || 'default'}-${isStreaming}`;
+// Tasks at least this similar to an earlier task are dropped as duplicates
+export const SIMILAR_TASK_THRESHOLD = 0.85;
+
+// `- Day 1: Task`, `* [x] Day 1: Task` or `- Task`; groups: marker, checkbox, day, description
+export const TASK_LINE_PATTERN = /^(-|\*)\s*(?:\[([ xX])\]\s*)?(?:Day\s*(\d+):?)?\s*(.*)/i;
+
+// Below this share of the expected task count the plan is treated as incomplete
+const MIN_TASK_RATIO = 0.7;
+
+export interface ParsePlanOptions {
+  keepSimilarTasks?: boolean; // Skip duplicate filtering, for text that was not written by the AI
+  keepEmptyTitles?: boolean; // Leave empty Month/Week titles empty instead of using placeholders
+}
+
+export type PlanDiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export type PlanDiagnosticCode =
+  | 'no-structure' // No Month, Week or task lines at all
+  | 'no-tasks'
+  | 'missing-goal' // No goal passed in and no `# Goal:` line
+  | 'duplicate-goal'
+  | 'task-count-mismatch' // Error below MIN_TASK_RATIO of the expected count, warning otherwise
+  | 'duplicate-task' // Too similar to an earlier task; skipped
+  | 'implicit-day' // Task without `Day N:`; numbered by position
+  | 'missing-day'
+  | 'empty-task'
+  | 'orphan-task' // Task before any Week heading; skipped
+  | 'synthetic-month' // Week before any Month heading; grouped into an invented month
+  | 'duplicate-month'
+  | 'duplicate-week'
+  | 'empty-week'
+  | 'missing-title' // Month or Week heading without a title; a placeholder is used
+  | 'unrecognized-line';
+
+export interface PlanDiagnostic {
+  line?: number; // 1-based line in the parsed text; absent for plan-level findings
+  severity: PlanDiagnosticSeverity;
+  code: PlanDiagnosticCode;
+  message: string;
+}
+
+export interface PlanParseResult {
+  plan: FullPlan | null; // Null only when no plan structure was found
+  diagnostics: PlanDiagnostic[]; // In line order, plan-level findings first
+}
+
+export const hasPlanErrors = (diagnostics: PlanDiagnostic[]): boolean =>
+  diagnostics.some((diagnostic) => diagnostic.severity === 'error');
+
+/**
+ * Checks the task count of a finished plan against the requested duration. Shared with
+ * structured (JSON) generation so both paths judge completeness the same way.
+ */
+export function diagnoseTaskCount(plan: FullPlan, expectedDuration?: number): PlanDiagnostic[] {
+  const taskCount = plan.monthlyMilestones.reduce(
+    (sum, month) => sum + month.weeklyObjectives.reduce((weekSum, week) => weekSum + week.dailyTasks.length, 0),
+    0
+  );
+  if (taskCount === 0) {
+    return [{ severity: 'error', code: 'no-tasks', message: 'The plan has no tasks.' }];
+  }
+  if (!expectedDuration || taskCount === expectedDuration) return [];
+  const tooFew = taskCount < expectedDuration * MIN_TASK_RATIO;
+  return [{
+    severity: tooFew ? 'error' : 'warning',
+    code: 'task-count-mismatch',
+    message: tooFew
+      ? `Plan is incomplete: expected ${expectedDuration} tasks but got only ${taskCount} unique tasks.`
+      : `Expected ${expectedDuration} tasks but got ${taskCount}.`,
+  }];
 }
 
-function setCache(key: string, value: FullPlan) {
+function getCacheKey(planString: string, goal: string, duration?: number, isStreaming = false, options: ParsePlanOptions = {}): string {
+  // Full text in the key: edits like toggling a checkbox keep the length the same
+  return `${goal}-${duration || 'default'}-${isStreaming}-${options.keepSimilarTasks ? 'all' : 'unique'}-${options.keepEmptyTitles ? 'empty' : 'titled'}\n${planString}`;
+}
+
+function setCache(key: string, value: PlanParseResult) {
   if (PLAN_CACHE.size >= MAX_CACHE_SIZE) {
     const firstKey = PLAN_CACHE.keys().next().value;
     if (firstKey) {
@@ -21,12 +95,14 @@ function setCache(key: string, value: FullPlan) {
 /**
  * Strips markdown formatting from text
  */
-function stripMarkdown(text: string): string {
+export function stripMarkdown(text: string): string {
   return text
+    .replace(/\\([\\*`[\]])/g, (_, char: string) => `\u0000${char.charCodeAt(0)}\u0000`) // Protect escaped characters
     .replace(/\*\*(.*?)\*\*/g, '$1') // Remove bold
     .replace(/\*(.*?)\*/g, '$1')     // Remove italic
     .replace(/`(.*?)`/g, '$1')       // Remove code
     .replace(/\[([^\]]+)\]\([^\)]+\)/g, '$1') // Remove links, keep text
+    .replace(/\u0000(\d+)\u0000/g, (_, code: string) => String.fromCharCode(Number(code)))
     .trim();
 }
 
@@ -44,7 +120,7 @@ function normalizeTaskDescription(text: string): string {
 /**
  * Checks if two task descriptions are similar (basic fuzzy matching)
  */
-function areTasksSimilar(task1: string, task2: string, threshold: number = 0.8): boolean {
+export function areTasksSimilar(task1: string, task2: string, threshold: number = 0.8): boolean {
   const normalized1 = normalizeTaskDescription(task1);
   const normalized2 = normalizeTaskDescription(task2);
 
@@ -63,8 +139,9 @@ function areTasksSimilar(task1: string, task2: string, threshold: number = 0.8):
 }
 
 /**
- * Parses a raw markdown-like string into a structured FullPlan object.
- * Can handle partial/incomplete plan strings during streaming.
+ * Parses a raw markdown-like string into a structured FullPlan object, with a diagnostic for
+ * everything the parser had to skip, guess or repair. Can handle partial/incomplete plan
+ * strings during streaming, in which case end-of-document checks are left out.
  *
  * WARNING: This parser is fragile and depends heavily on consistent formatting
  * from the AI (specific Markdown headers like `#`, `##`, `###`, and list markers `-` or `*`).
@@ -73,12 +150,12 @@ function areTasksSimilar(task1: string, task2: string, threshold: number = 0.8):
  * Tip: Requesting structured JSON from the AI is a more robust long-term solution.
  *
  * Expected Format Example:
- * # Goal: [User's Goal]    ← (Actual goal is taken from input param)
+ * # Goal: [User's Goal]    ← (Used only when no goal is passed in)
  *
  * ## Month 1: [Milestone Title]
  * ### Week 1: [Objective Title]
  * - Day 1: [Task description]
- * - Day 2: [Task description]
+ * - [x] Day 2: [Task description]    ← (Optional checkbox sets completion)
  * ...
  * ### Week 2: ...
  * ...
@@ -88,63 +165,127 @@ function areTasksSimilar(task1: string, task2: string, threshold: number = 0.8):
  * @param userGoal - User-defined goal
  * @param expectedDuration - Expected number of days/tasks
  * @param isStreaming - Whether this is a streaming parse (allows incomplete results)
- * @returns Parsed FullPlan or partial result, or null if parsing fails completely
+ * @param options - See `ParsePlanOptions`
+ * @returns The plan (null when no structure was found) and its diagnostics; callers decide
+ * from the error diagnostics whether the plan is usable
  */
-export const parsePlanString = (rawPlanString: string, userGoal: string, expectedDuration?: number, isStreaming = false): FullPlan | null => {
-  if (!rawPlanString) return null;
+export const parsePlanString = (
+  rawPlanString: string,
+  userGoal: string,
+  expectedDuration?: number,
+  isStreaming = false,
+  options: ParsePlanOptions = {}
+): PlanParseResult => {
+  if (!rawPlanString.trim()) {
+    return { plan: null, diagnostics: [{ severity: 'error', code: 'no-structure', message: 'The plan is empty.' }] };
+  }
 
   // Check cache for completed plans (not streaming)
   if (!isStreaming) {
-    const cacheKey = getCacheKey(rawPlanString, userGoal, expectedDuration, isStreaming);
+    const cacheKey = getCacheKey(rawPlanString, userGoal, expectedDuration, isStreaming, options);
     const cached = PLAN_CACHE.get(cacheKey);
     if (cached) {
-      return cached;
+      // Callers stamp dates and ids onto the result, so never hand out the cached object
+      return structuredClone(cached);
     }
   }
 
-  const lines = rawPlanString.split('\n').filter(line => line.trim() !== '');
+  const lines = rawPlanString.split(/\r?\n/);
   const plan: FullPlan = {
     goal: userGoal,
     monthlyMilestones: [],
   };
+  const diagnostics: PlanDiagnostic[] = [];
+  const report = (line: number | undefined, severity: PlanDiagnosticSeverity, code: PlanDiagnosticCode, message: string) => {
+    diagnostics.push(line === undefined ? { severity, code, message } : { line, severity, code, message });
+  };
 
   let currentMilestone: MonthlyMilestone | null = null;
   let currentObjective: WeeklyObjective | null = null;
+  let objectiveLine = 0;
   let monthCounter = 0;
   let weekCounter = 0;
   let dayCounter = 0;
   let hasWeeklyStructure = false;
-  let totalTasksFound = 0;
-  const seenTasks: string[] = []; // Track unique task descriptions
+  let goalLine: number | null = null;
+  const monthLines = new Map<number, number>();
+  let weekLines = new Map<number, number>();
+  const seenTasks: { description: string; line: number }[] = []; // Track unique task descriptions
+
+  const closeObjective = () => {
+    if (!currentObjective) return;
+    if (currentObjective.dailyTasks.length === 0) {
+      report(objectiveLine, 'warning', 'empty-week', `Week ${currentObjective.week} has no tasks.`);
+    }
+    const days = currentObjective.dailyTasks.map((task) => task.day).sort((a, b) => a - b);
+    for (let i = 1; i < days.length; i++) {
+      for (let missing = days[i - 1] + 1; missing < days[i]; missing++) {
+        report(objectiveLine, 'warning', 'missing-day', `Week ${currentObjective.week} is missing Day ${missing}.`);
+      }
+    }
+    currentObjective = null;
+  };
 
-  for (const line of lines) {
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1;
     const trimmedLine = line.trim();
+    if (!trimmedLine) return;
+
+    // Match: # Goal: Goal text
+    const goalMatch = trimmedLine.match(/^#\s*Goal:?\s*(.*)$/i);
+    if (goalMatch) {
+      if (goalLine !== null) {
+        report(lineNumber, 'warning', 'duplicate-goal', `Additional goal line ignored; the one on line ${goalLine} is used.`);
+        return;
+      }
+      goalLine = lineNumber;
+      if (!userGoal) plan.goal = stripMarkdown(goalMatch[1]);
+      return;
+    }
 
     // Match: ## Month 1: Milestone Title
     const monthMatch = trimmedLine.match(/^#+\s*Month\s*(\d+):?\s*(.*)/i);
     if (monthMatch) {
+      closeObjective();
       monthCounter = parseInt(monthMatch[1], 10);
+      const previousLine = monthLines.get(monthCounter);
+      if (previousLine !== undefined) {
+        report(lineNumber, 'warning', 'duplicate-month', `Month ${monthCounter} already appears on line ${previousLine}.`);
+      }
+      monthLines.set(monthCounter, lineNumber);
+      if (!monthMatch[2].trim() && !options.keepEmptyTitles) {
+        report(lineNumber, 'warning', 'missing-title', `Month ${monthCounter} has no milestone title; a placeholder is used.`);
+      }
       currentMilestone = {
+        id: createPlanItemId(),
         month: monthCounter,
-        milestone: monthMatch[2].trim() || `Month ${monthCounter} Milestone`,
+        milestone: monthMatch[2].trim() || (options.keepEmptyTitles ? '' : `Month ${monthCounter} Milestone`),
         weeklyObjectives: [],
       };
       plan.monthlyMilestones.push(currentMilestone);
-      currentObjective = null;
+      weekLines = new Map();
       weekCounter = 0;
-      continue;
+      return;
     }
 
     // Match: ### Week 1: Objective Title (can be standalone or under months)
     const weekMatch = trimmedLine.match(/^#+\s*Week\s*(\d+):?\s*(.*)/i);
     if (weekMatch) {
+      closeObjective();
       hasWeeklyStructure = true;
       weekCounter = parseInt(weekMatch[1], 10);
 
       // If we don't have a current milestone, create a synthetic one for weeks without months
       if (!currentMilestone) {
         const syntheticMonthNumber = Math.ceil(weekCounter / 4); // Group weeks into months
+        report(
+          lineNumber,
+          'warning',
+          'synthetic-month',
+          `Week ${weekCounter} is not under a Month heading; it is grouped into Month ${syntheticMonthNumber}.`
+        );
         currentMilestone = {
+          id: createPlanItemId(),
           month: syntheticMonthNumber,
           milestone: `Month ${syntheticMonthNumber} Objectives`,
           weeklyObjectives: [],
@@ -153,86 +294,95 @@ export const parsePlanString = (rawPlanString: string, userGoal: string, expecte
         monthCounter = syntheticMonthNumber;
       }
 
+      const previousLine = weekLines.get(weekCounter);
+      if (previousLine !== undefined) {
+        report(lineNumber, 'warning', 'duplicate-week', `Week ${weekCounter} already appears on line ${previousLine} in Month ${monthCounter}.`);
+      }
+      weekLines.set(weekCounter, lineNumber);
+      if (!weekMatch[2].trim() && !options.keepEmptyTitles) {
+        report(lineNumber, 'warning', 'missing-title', `Week ${weekCounter} has no objective; a placeholder is used.`);
+      }
+
       currentObjective = {
+        id: createPlanItemId(),
         week: weekCounter,
-        objective: weekMatch[2].trim() || `Week ${weekCounter} Objective`,
+        objective: weekMatch[2].trim() || (options.keepEmptyTitles ? '' : `Week ${weekCounter} Objective`),
         dailyTasks: [],
       };
       currentMilestone.weeklyObjectives.push(currentObjective);
+      objectiveLine = lineNumber;
       dayCounter = 0;
-      continue;
+      return;
     }
 
-    // Match: - Day 1: Task or - Task
-    const taskMatch = trimmedLine.match(/^(-|\*)\s*(?:Day\s*(\d+):?)?\s*(.*)/i);
-    if (taskMatch && currentObjective) {
+    // Match: - Day 1: Task, - [x] Day 1: Task or - Task
+    const taskMatch = trimmedLine.match(TASK_LINE_PATTERN);
+    if (taskMatch) {
+      if (!currentObjective) {
+        report(lineNumber, 'warning', 'orphan-task', 'Task is not under a Week heading and is skipped.');
+        return;
+      }
       dayCounter++;
-      const dayNumber = taskMatch[2] ? parseInt(taskMatch[2], 10) : dayCounter;
-      const rawDescription = taskMatch[3].trim();
+      const dayNumber = taskMatch[3] ? parseInt(taskMatch[3], 10) : dayCounter;
+      if (!taskMatch[3]) {
+        report(lineNumber, 'info', 'implicit-day', `Task has no "Day N:" label; numbered as Day ${dayNumber}.`);
+      }
+      const rawDescription = taskMatch[4].trim();
       const cleanDescription = stripMarkdown(rawDescription);
+      if (!cleanDescription) {
+        report(lineNumber, 'warning', 'empty-task', 'Task has no description.');
+      }
 
       // Check for duplicate or very similar tasks and skip them
-      const isDuplicate = seenTasks.some(existingTask =>
-        areTasksSimilar(cleanDescription, existingTask, 0.85) // 85% similarity threshold
-      );
-
-      if (isDuplicate) {
-        console.warn(`Skipping duplicate/similar task: ${cleanDescription}`);
-        continue;
+      const similar = options.keepSimilarTasks
+        ? undefined
+        : seenTasks.find(existingTask =>
+            areTasksSimilar(cleanDescription, existingTask.description, SIMILAR_TASK_THRESHOLD)
+          );
+      if (similar) {
+        report(lineNumber, 'warning', 'duplicate-task', `Task is too similar to line ${similar.line} and is skipped.`);
+        return;
       }
 
       const task: DailyTask = {
+        id: createPlanItemId(),
         day: dayNumber,
         description: cleanDescription,
-        completed: false,
+        completed: taskMatch[2] !== undefined && taskMatch[2] !== ' ',
       };
       currentObjective.dailyTasks.push(task);
-      seenTasks.push(cleanDescription);
-      totalTasksFound++;
-
-      continue;
+      seenTasks.push({ description: cleanDescription, line: lineNumber });
+      return;
     }
 
-    // Optional: append unmatched lines to the last task as a multi-line description
-    // if (currentObjective && currentObjective.dailyTasks.length > 0 && /^[a-zA-Z]/.test(trimmedLine)) {
-    //   const lastTask = currentObjective.dailyTasks[currentObjective.dailyTasks.length - 1];
-    //   lastTask.description += '\n' + trimmedLine;
-    // }
-  }
+    report(lineNumber, 'warning', 'unrecognized-line', `Unrecognised line ignored: "${trimmedLine.slice(0, 60)}"`);
+  });
 
-  // Validate task count matches expected duration
-  if (expectedDuration && !isStreaming) {
-    if (totalTasksFound !== expectedDuration) {
-      console.warn(`Task count mismatch: found ${totalTasksFound}, expected ${expectedDuration}`);
-      // For non-streaming, allow some flexibility since we filter duplicates
-      if (totalTasksFound < expectedDuration * 0.7) {
-        // Too many missing tasks (less than 70% of expected), return null for retry
-        console.error(`Too few unique tasks: ${totalTasksFound}/${expectedDuration}`);
-        return null;
-      }
-      // Allow plans with reasonable number of unique tasks
-    }
-  }
+  const hasStructure = plan.monthlyMilestones.length > 0 || hasWeeklyStructure;
 
-  // For streaming, allow partial results
+  // For streaming, allow partial results; the document is not finished yet
   if (isStreaming) {
-    // Return partial plan if we have any content
-    if (plan.monthlyMilestones.length > 0 || hasWeeklyStructure) {
-      return plan;
-    }
+    return { plan: hasStructure ? plan : null, diagnostics };
   }
 
-  // For complete parsing, require at least some structure
-  if (plan.monthlyMilestones.length === 0 && !hasWeeklyStructure) {
-    console.warn('Parser could not find any monthly milestones or weekly structure.');
-    return null;
+  closeObjective();
+  if (!plan.goal) {
+    report(undefined, 'error', 'missing-goal', 'Missing goal. Start the plan with a line like "# Goal: Run a marathon".');
   }
 
-  // Cache successful parses
-  if (!isStreaming) {
-    const cacheKey = getCacheKey(rawPlanString, userGoal, expectedDuration, isStreaming);
-    setCache(cacheKey, plan);
+  // For complete parsing, require at least some structure
+  if (!hasStructure) {
+    report(undefined, 'error', 'no-structure', 'No "## Month", "### Week" or "- Day" lines were found.');
+  } else {
+    diagnostics.push(...diagnoseTaskCount(plan, expectedDuration));
   }
 
-  return plan;
-};
\ No newline at end of file
+  // Report in document order; plan-level findings (no line) first
+  diagnostics.sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+  const result: PlanParseResult = { plan: hasStructure ? plan : null, diagnostics };
+
+  const cacheKey = getCacheKey(rawPlanString, userGoal, expectedDuration, isStreaming, options);
+  setCache(cacheKey, structuredClone(result));
+
+  return result;
+};
@@ -0,0 +1,208 @@
+import { z } from 'zod';
+import type { FullPlan } from '../types/plan-types';
+import { createPlanItemId } from '@milestoneAI-next-js/backend/convex/lib/ids';
+
+// Shape the model is asked to return in JSON generation mode. Ids and completion are
+// assigned client-side, so they are not part of the generated payload.
+export const generatedTaskSchema = z.object({
+  day: z.number().int().min(1),
+  description: z.string().trim().min(1, 'Task description is empty'),
+});
+
+export const generatedObjectiveSchema = z.object({
+  week: z.number().int().min(1),
+  objective: z.string().trim().min(1, 'Weekly objective is empty'),
+  dailyTasks: z.array(generatedTaskSchema).min(1).max(7),
+});
+
+export const generatedMilestoneSchema = z.object({
+  month: z.number().int().min(1),
+  milestone: z.string().trim().min(1, 'Monthly milestone is empty'),
+  weeklyObjectives: z.array(generatedObjectiveSchema).min(1),
+});
+
+export const generatedPlanSchema = z.object({
+  goal: z.string().trim().min(1),
+  monthlyMilestones: z.array(generatedMilestoneSchema).min(1),
+});
+
+export type GeneratedPlan = z.infer<typeof generatedPlanSchema>;
+
+// Longest plan the app offers, in calendar days (see custom-duration-modal.tsx)
+export const MAX_PLAN_DURATION_DAYS = 90;
+
+// `duration` of a `/api/generate-plan` request; the schedule is computed day by day from it
+export const planDurationSchema = z
+  .number()
+  .int('Duration must be a whole number of days')
+  .min(1, 'Duration must be at least 1 day')
+  .max(MAX_PLAN_DURATION_DAYS, `Duration must be at most ${MAX_PLAN_DURATION_DAYS} days`);
+
+/**
+ * Events emitted by `/api/generate-plan` in JSON mode, one JSON object per line.
+ */
+export type PlanStreamEvent =
+  | { type: 'chunk'; text: string }
+  | { type: 'retry'; attempt: number; issues: string[] }
+  | { type: 'plan'; plan: GeneratedPlan; issues: string[] }
+  | { type: 'error'; error: string; issues?: string[] };
+
+const WEEKS_PER_MONTH = 4;
+const DAYS_PER_WEEK = 7;
+
+/**
+ * Number of tasks expected in each week, grouped by month, for a plan of `duration` tasks.
+ * Weeks hold `tasksPerWeek` tasks (one per working day) except for the last one, months
+ * hold four weeks.
+ */
+export function getPlanShape(duration: number, tasksPerWeek: number = DAYS_PER_WEEK): number[][] {
+  const weeks = Math.ceil(duration / tasksPerWeek);
+  const shape: number[][] = [];
+  for (let week = 0; week < weeks; week++) {
+    const tasks = Math.min(tasksPerWeek, duration - week * tasksPerWeek);
+    if (week % WEEKS_PER_MONTH === 0) shape.push([]);
+    shape[shape.length - 1].push(tasks);
+  }
+  return shape;
+}
+
+/**
+ * Strips Markdown code fences and surrounding prose from a model response.
+ */
+export function extractJsonText(text: string): string {
+  const unfenced = text.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '');
+  const start = unfenced.indexOf('{');
+  return start === -1 ? '' : unfenced.slice(start);
+}
+
+/**
+ * Turns a truncated JSON document into a parseable one by cutting it back to the last
+ * point where an object or array was opened or closed, then closing whatever is still open.
+ * Partially streamed values are dropped rather than guessed.
+ */
+export function closePartialJson(text: string): string {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let safeEnd = 0;
+  let safeStack: string[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+      continue;
+    }
+    if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']');
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+    } else {
+      continue;
+    }
+    safeEnd = i + 1;
+    safeStack = [...stack];
+  }
+
+  return text.slice(0, safeEnd) + safeStack.reverse().join('');
+}
+
+/**
+ * Parses model output as JSON, tolerating code fences and truncation.
+ * Returns undefined when nothing usable could be recovered.
+ */
+export function parseJsonLoose(text: string): unknown {
+  const json = extractJsonText(text);
+  if (!json) return undefined;
+  try {
+    return JSON.parse(json);
+  } catch {
+    try {
+      return JSON.parse(closePartialJson(json));
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Validates generated JSON against the schema and the requested duration.
+ *
+ * Numbering is repaired in place (months, weeks and days are renumbered sequentially),
+ * since models frequently restart day numbers or skip weeks. Problems that cannot be
+ * repaired mechanically are returned as `issues` so the caller can re-ask the model.
+ * `plan` is null when the payload does not match the schema at all.
+ */
+export function validateGeneratedPlan(
+  value: unknown,
+  duration: number
+): { plan: GeneratedPlan | null; issues: string[] } {
+  const result = generatedPlanSchema.safeParse(value);
+  if (!result.success) {
+    return {
+      plan: null,
+      issues: result.error.issues
+        .slice(0, 10)
+        .map((issue) => `${issue.path.join('.') || 'plan'}: ${issue.message}`),
+    };
+  }
+
+  let weekNumber = 0;
+  const plan: GeneratedPlan = {
+    goal: result.data.goal,
+    monthlyMilestones: result.data.monthlyMilestones.map((month, monthIndex) => ({
+      ...month,
+      month: monthIndex + 1,
+      weeklyObjectives: month.weeklyObjectives.map((week) => ({
+        ...week,
+        week: ++weekNumber,
+        dailyTasks: week.dailyTasks.map((task, dayIndex) => ({ ...task, day: dayIndex + 1 })),
+      })),
+    })),
+  };
+
+  const issues: string[] = [];
+  const descriptions = plan.monthlyMilestones.flatMap((m) =>
+    m.weeklyObjectives.flatMap((w) => w.dailyTasks.map((t) => t.description.toLowerCase()))
+  );
+  if (descriptions.length !== duration) {
+    issues.push(`Expected exactly ${duration} daily tasks but got ${descriptions.length}.`);
+  }
+  const duplicates = descriptions.length - new Set(descriptions).size;
+  if (duplicates > 0) {
+    issues.push(`${duplicates} daily task${duplicates === 1 ? ' is a duplicate' : 's are duplicates'}; every task must be unique.`);
+  }
+
+  return { plan, issues };
+}
+
+/**
+ * Converts a validated generated plan into a `FullPlan` with fresh ids and no progress.
+ */
+export function toFullPlan(generated: GeneratedPlan): FullPlan {
+  return {
+    goal: generated.goal,
+    monthlyMilestones: generated.monthlyMilestones.map((month) => ({
+      id: createPlanItemId(),
+      month: month.month,
+      milestone: month.milestone,
+      weeklyObjectives: month.weeklyObjectives.map((week) => ({
+        id: createPlanItemId(),
+        week: week.week,
+        objective: week.objective,
+        dailyTasks: week.dailyTasks.map((task) => ({
+          id: createPlanItemId(),
+          day: task.day,
+          description: task.description,
+          completed: false,
+        })),
+      })),
+    })),
+  };
+}
@@ -0,0 +1,62 @@
+import type { FullPlan } from '../types/plan-types';
+import { parsePlanString, stripMarkdown } from './plan-parser';
+
+export interface SerializePlanOptions {
+  checkboxes?: boolean; // Emit `- [x]` / `- [ ]` so completion survives a round trip
+}
+
+/**
+ * Collapses line breaks, which would otherwise start a new line in the Markdown.
+ */
+function toSingleLine(text: string): string {
+  return text.replace(/\s*\r?\n\s*/g, ' ').trim();
+}
+
+/**
+ * Backslash-escapes Markdown characters in text the parser runs through `stripMarkdown`,
+ * but only when stripping would change it, so ordinary text stays readable.
+ */
+function escapeMarkdown(text: string): string {
+  const line = toSingleLine(text);
+  return stripMarkdown(line) === line ? line : line.replace(/[\\*`[\]]/g, '\\$&');
+}
+
+/**
+ * Renders a plan in the canonical Markdown format that `parsePlanString` reads and the AI is
+ * asked to produce:
+ *
+ * # Goal: [Goal]
+ *
+ * ## Month 1: [Milestone]
+ * ### Week 1: [Objective]
+ * - [x] Day 1: [Task]
+ *
+ * `parsePlanMarkdown(serializePlan(plan, { checkboxes: true }))` gives back the same goal,
+ * milestones, objectives (empty ones included), day numbers, descriptions and completion,
+ * with two limits of the line-based format: line breaks inside text become single spaces and
+ * surrounding whitespace is trimmed. Item ids and plan metadata (start date, chat history)
+ * are not part of the format.
+ */
+export function serializePlan(plan: FullPlan, options: SerializePlanOptions = {}): string {
+  const lines = [`# Goal: ${escapeMarkdown(plan.goal)}`];
+  for (const month of plan.monthlyMilestones) {
+    lines.push('', `## Month ${month.month}: ${toSingleLine(month.milestone)}`);
+    for (const week of month.weeklyObjectives) {
+      lines.push(`### Week ${week.week}: ${toSingleLine(week.objective)}`);
+      for (const task of week.dailyTasks) {
+        const checkbox = options.checkboxes ? (task.completed ? '[x] ' : '[ ] ') : '';
+        lines.push(`- ${checkbox}Day ${task.day}: ${escapeMarkdown(task.description)}`);
+      }
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Inverse of `serializePlan`: reads the goal from the `# Goal:` line and keeps every task,
+ * since repeated tasks in a serialized plan are intentional rather than AI repetition. Empty
+ * milestone and objective titles stay empty rather than getting placeholders.
+ */
+export function parsePlanMarkdown(markdown: string): FullPlan | null {
+  return parsePlanString(markdown, '', undefined, false, { keepSimilarTasks: true, keepEmptyTitles: true }).plan;
+}
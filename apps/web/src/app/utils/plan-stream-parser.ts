@@ -0,0 +1,249 @@
+import type { FullPlan, MonthlyMilestone, WeeklyObjective, DailyTask } from '../types/plan-types';
+import { createPlanItemId } from '@milestoneAI-next-js/backend/convex/lib/ids';
+
+/**
+ * Events emitted while a JSON-mode plan streams in. Numbering matches what
+ * `validateGeneratedPlan` assigns to the finished plan: months and days by position,
+ * weeks sequentially across the whole plan.
+ */
+export type PlanParseEvent =
+  | { type: 'goal'; goal: string }
+  | { type: 'milestone-started'; milestone: MonthlyMilestone }
+  | { type: 'objective-started'; milestoneId: string; objective: WeeklyObjective }
+  | { type: 'task-added'; milestoneId: string; objectiveId: string; task: DailyTask };
+
+export interface PlanStreamParser {
+  /** Consumes the next chunk of model output and returns what it completed, in order. */
+  push(chunk: string): PlanParseEvent[];
+  /** Plan built so far; a new object whenever an event changed it, null before the first milestone. */
+  readonly plan: FullPlan | null;
+}
+
+type FrameRole = 'root' | 'months' | 'month' | 'weeks' | 'week' | 'tasks' | 'task' | 'other';
+
+interface Frame {
+  container: 'object' | 'array';
+  role: FrameRole;
+  key: string | null; // Last key read in an object frame
+  expectKey: boolean;
+  title?: string; // Milestone or objective title once read
+  itemId?: string; // Id of the milestone/objective once started
+  description?: string; // Task description once read
+}
+
+// Child roles by parent role and the key the child is the value of
+const CHILD_ROLES: Partial<Record<FrameRole, { key: string | null; container: Frame['container']; role: FrameRole }>> = {
+  root: { key: 'monthlyMilestones', container: 'array', role: 'months' },
+  months: { key: null, container: 'object', role: 'month' },
+  month: { key: 'weeklyObjectives', container: 'array', role: 'weeks' },
+  weeks: { key: null, container: 'object', role: 'week' },
+  week: { key: 'dailyTasks', container: 'array', role: 'tasks' },
+  tasks: { key: null, container: 'object', role: 'task' },
+};
+
+/**
+ * Creates a parser for the JSON plan format streamed by `/api/generate-plan`. Chunks are
+ * tokenised as they arrive, keeping only the open containers and the value being read, so each
+ * chunk costs time proportional to its own length no matter how long the plan is. Updates to
+ * the plan are copy-on-write along the path to the change, so unchanged months and weeks keep
+ * their identity between renders.
+ *
+ * Text before the first `{` (code fences, prose) and after the root object closes is ignored.
+ */
+export function createPlanStreamParser(fallbackGoal: string): PlanStreamParser {
+  let goal = fallbackGoal;
+  let months: MonthlyMilestone[] = [];
+  let plan: FullPlan | null = null;
+  let weekCounter = 0;
+
+  const stack: Frame[] = [];
+  let started = false;
+  let finished = false;
+  let inString = false;
+  let escaped = false;
+  let stringBuffer = '';
+  let events: PlanParseEvent[] = [];
+
+  const commit = () => {
+    plan = months.length > 0 ? { goal, monthlyMilestones: months } : null;
+  };
+
+  // Replaces the last month, or the last week of the last month, with an updated copy
+  const updateLastMonth = (update: (month: MonthlyMilestone) => MonthlyMilestone) => {
+    months = [...months.slice(0, -1), update(months[months.length - 1])];
+  };
+  const updateLastWeek = (update: (week: WeeklyObjective) => WeeklyObjective) => {
+    updateLastMonth((month) => ({
+      ...month,
+      weeklyObjectives: [...month.weeklyObjectives.slice(0, -1), update(month.weeklyObjectives[month.weeklyObjectives.length - 1])],
+    }));
+  };
+
+  const frameOf = (role: FrameRole) => {
+    for (let i = stack.length - 1; i >= 0; i--) {
+      if (stack[i].role === role) return stack[i];
+    }
+    return undefined;
+  };
+
+  const startMonth = (frame: Frame) => {
+    if (frame.itemId) return;
+    const milestone: MonthlyMilestone = {
+      id: createPlanItemId(),
+      month: months.length + 1,
+      milestone: frame.title ?? `Month ${months.length + 1} Milestone`,
+      weeklyObjectives: [],
+    };
+    frame.itemId = milestone.id;
+    months = [...months, milestone];
+    events.push({ type: 'milestone-started', milestone });
+    commit();
+  };
+
+  const startWeek = (frame: Frame) => {
+    if (frame.itemId) return;
+    const monthFrame = frameOf('month');
+    if (!monthFrame) return;
+    startMonth(monthFrame);
+    weekCounter++;
+    const objective: WeeklyObjective = {
+      id: createPlanItemId(),
+      week: weekCounter,
+      objective: frame.title ?? `Week ${weekCounter} Objective`,
+      dailyTasks: [],
+    };
+    frame.itemId = objective.id;
+    updateLastMonth((month) => ({ ...month, weeklyObjectives: [...month.weeklyObjectives, objective] }));
+    events.push({ type: 'objective-started', milestoneId: monthFrame.itemId!, objective });
+    commit();
+  };
+
+  const addTask = (frame: Frame) => {
+    const description = frame.description?.trim();
+    const weekFrame = frameOf('week');
+    if (!description || !weekFrame) return;
+    startWeek(weekFrame);
+    const monthFrame = frameOf('month')!;
+    const lastMonth = months[months.length - 1];
+    const task: DailyTask = {
+      id: createPlanItemId(),
+      day: lastMonth.weeklyObjectives[lastMonth.weeklyObjectives.length - 1].dailyTasks.length + 1,
+      description,
+      completed: false,
+    };
+    updateLastWeek((week) => ({ ...week, dailyTasks: [...week.dailyTasks, task] }));
+    events.push({ type: 'task-added', milestoneId: monthFrame.itemId!, objectiveId: weekFrame.itemId!, task });
+    commit();
+  };
+
+  const handleValue = (value: string) => {
+    const frame = stack[stack.length - 1];
+    if (!frame || frame.container !== 'object') return;
+    if (frame.role === 'root' && frame.key === 'goal' && value.trim()) {
+      goal = value;
+      events.push({ type: 'goal', goal });
+      if (plan) commit();
+    } else if (frame.role === 'month' && frame.key === 'milestone' && value.trim()) {
+      frame.title = value;
+      if (frame.itemId) updateLastMonth((month) => ({ ...month, milestone: value }));
+      startMonth(frame);
+      commit();
+    } else if (frame.role === 'week' && frame.key === 'objective' && value.trim()) {
+      frame.title = value;
+      if (frame.itemId) updateLastWeek((week) => ({ ...week, objective: value }));
+      startWeek(frame);
+      commit();
+    } else if (frame.role === 'task' && frame.key === 'description') {
+      frame.description = value;
+    }
+  };
+
+  const finishString = () => {
+    let value: string;
+    try {
+      value = JSON.parse(`"${stringBuffer}"`);
+    } catch {
+      value = stringBuffer;
+    }
+    stringBuffer = '';
+    const frame = stack[stack.length - 1];
+    if (frame?.container === 'object' && frame.expectKey) {
+      frame.key = value;
+      frame.expectKey = false;
+    } else {
+      handleValue(value);
+    }
+  };
+
+  const open = (container: Frame['container']) => {
+    const parent = stack[stack.length - 1];
+    let role: FrameRole = 'other';
+    if (!parent) {
+      role = container === 'object' ? 'root' : 'other';
+    } else {
+      const child = CHILD_ROLES[parent.role];
+      const key = parent.container === 'object' ? parent.key : null;
+      if (child && child.container === container && child.key === key) role = child.role;
+    }
+    if (role === 'weeks') startMonth(parent);
+    if (role === 'tasks') startWeek(parent);
+    stack.push({ container, role, key: null, expectKey: container === 'object' });
+  };
+
+  const close = () => {
+    const frame = stack.pop();
+    if (!frame) return;
+    if (frame.role === 'task') addTask(frame);
+    if (stack.length === 0) finished = true;
+  };
+
+  const push = (chunk: string): PlanParseEvent[] => {
+    events = [];
+    for (const char of chunk) {
+      if (finished) break;
+      if (!started) {
+        if (char !== '{') continue;
+        started = true;
+      }
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+          finishString();
+          continue;
+        }
+        stringBuffer += char;
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === '{') {
+        open('object');
+      } else if (char === '[') {
+        open('array');
+      } else if (char === '}' || char === ']') {
+        close();
+      } else if (char === ',') {
+        const frame = stack[stack.length - 1];
+        if (frame?.container === 'object') {
+          frame.expectKey = true;
+          frame.key = null;
+        }
+      }
+      // Numbers and literals carry nothing the preview shows, since numbering is positional
+    }
+    return events;
+  };
+
+  return {
+    push,
+    get plan() {
+      return plan;
+    },
+  };
+}
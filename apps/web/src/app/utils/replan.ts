@@ -0,0 +1,162 @@
+import { z } from 'zod';
+import type { DailyTask, FullPlan } from '../types/plan-types';
+import {
+  flattenPlanTasks,
+  getPlanDayIndex,
+  getPlanScheduleDateKeys,
+  getPlanStartDateKey,
+  getTodayKey,
+  scheduleDateKeys,
+  subtractAvailableDays,
+} from './plan-dates';
+
+// One entry per day from today on; several ids merge tasks into one day's work
+export const replanResponseSchema = z.object({
+  summary: z.string().default(''),
+  schedule: z
+    .array(
+      z.object({
+        taskIds: z.array(z.string()).min(1),
+        description: z.string().trim().min(1).optional(),
+      })
+    )
+    .max(400),
+});
+
+export type ReplanResponse = z.infer<typeof replanResponseSchema>;
+
+export interface ReplanWindow {
+  todayIndex: number; // Zero-based plan day of today
+  remainingDays: number; // Working days from today to the original end date, today included
+  overdue: Array<{ dayNumber: number; task: DailyTask }>; // Incomplete tasks scheduled before today
+  upcoming: Array<{ dayNumber: number; task: DailyTask }>; // Incomplete tasks from today on
+}
+
+export type ReplanChange =
+  | { kind: 'moved'; taskId: string; description: string; fromDate: string; toDate: string }
+  | { kind: 'reworded'; taskId: string; from: string; to: string; fromDate: string; toDate: string }
+  | { kind: 'merged'; taskId: string; from: string[]; to: string; toDate: string }
+  | { kind: 'dropped'; taskId: string; description: string; fromDate: string };
+
+export interface ReplanPreview {
+  plan: FullPlan; // New content and start date
+  changes: ReplanChange[]; // Overdue tasks rescheduled, plus merged, reworded and dropped tasks
+  shiftedTasks: number; // Upcoming tasks that only moved to another day
+  endDate: string;
+  previousEndDate: string;
+}
+
+/**
+ * Returns what a "replan from today" works with, or null when there is nothing to replan:
+ * the plan has not started, has already ended, or has no overdue tasks.
+ */
+export function getReplanWindow(plan: FullPlan & { createdAt?: number }, now: Date = new Date()): ReplanWindow | null {
+  const tasks = flattenPlanTasks(plan);
+  const todayIndex = getPlanDayIndex(plan, now);
+  if (todayIndex <= 0 || todayIndex >= tasks.length) return null;
+
+  const numbered = tasks.map((task, index) => ({ dayNumber: index + 1, task }));
+  const overdue = numbered.slice(0, todayIndex).filter(({ task }) => !task.completed);
+  if (overdue.length === 0) return null;
+  return {
+    todayIndex,
+    remainingDays: tasks.length - todayIndex,
+    overdue,
+    upcoming: numbered.slice(todayIndex).filter(({ task }) => !task.completed),
+  };
+}
+
+/**
+ * Builds the replanned plan from the model's schedule. Completed tasks keep their order and
+ * end on the last working day before today; the schedule follows from today's (or the next)
+ * working day. The start date moves back over working days so that today lines up with the
+ * first scheduled task, and every task keeps the week of the day
+ * slot it now occupies, so the plan still ends by its original end date. Merged tasks keep
+ * the first task's id (and its chat thread and notes); tasks the schedule leaves out are
+ * dropped. Ids that are unknown, completed or already used are ignored, and days beyond
+ * the original end date are cut.
+ */
+export function applyReplan(
+  plan: FullPlan & { createdAt?: number },
+  response: ReplanResponse,
+  now: Date = new Date()
+): ReplanPreview {
+  const tasks = flattenPlanTasks(plan);
+  const previousDates = getPlanScheduleDateKeys(plan);
+  const todayKey = getTodayKey(plan.timezone, now);
+  const todayIndex = Math.min(Math.max(0, getPlanDayIndex(plan, now)), tasks.length);
+  const remainingDays = tasks.length - todayIndex;
+
+  const byId = new Map(tasks.map((task, index) => [task.id, { task, index }]));
+  const used = new Set<string>();
+  const schedule: Array<{ task: DailyTask; mergedFrom: DailyTask[] }> = [];
+  for (const entry of response.schedule) {
+    if (schedule.length >= remainingDays) break;
+    const entryTasks = entry.taskIds
+      .filter((id) => byId.has(id) && !byId.get(id)!.task.completed && !used.has(id))
+      .map((id) => byId.get(id)!.task);
+    if (entryTasks.length === 0) continue;
+    entryTasks.forEach((task) => used.add(task.id));
+    const description = entry.description ?? entryTasks.map((task) => task.description).join(' + ');
+    schedule.push({ task: { ...entryTasks[0], description, completed: false }, mergedFrom: entryTasks });
+  }
+
+  const done = tasks.filter((task) => task.completed);
+  const sequence = [...done, ...schedule.map((item) => item.task)];
+  const newStartKey = subtractAvailableDays(todayKey, done.length, plan.availability);
+  const newDates = scheduleDateKeys(newStartKey, sequence.length, plan.availability);
+
+  // Each new position takes the week of the original day slot it falls on
+  const slotWeeks = plan.monthlyMilestones.flatMap((month, m) =>
+    month.weeklyObjectives.flatMap((week, w) => week.dailyTasks.map(() => ({ m, w })))
+  );
+  const placed = plan.monthlyMilestones.map((month) => month.weeklyObjectives.map(() => [] as DailyTask[]));
+  sequence.forEach((task, position) => {
+    const slot = Math.min(Math.max(0, position + todayIndex - done.length), slotWeeks.length - 1);
+    const { m, w } = slotWeeks[slot];
+    placed[m][w].push({ ...task, day: placed[m][w].length + 1 });
+  });
+
+  const next: FullPlan = {
+    ...plan,
+    startDate: newStartKey,
+    monthlyMilestones: plan.monthlyMilestones
+      .map((month, m) => ({
+        ...month,
+        weeklyObjectives: month.weeklyObjectives
+          .map((week, w) => ({ ...week, dailyTasks: placed[m][w] }))
+          .filter((week) => week.dailyTasks.length > 0),
+      }))
+      .filter((month) => month.weeklyObjectives.length > 0),
+  };
+
+  const fromDate = (taskId: string) => previousDates[byId.get(taskId)!.index];
+  const changes: ReplanChange[] = [];
+  let shiftedTasks = 0;
+  schedule.forEach(({ task, mergedFrom }, i) => {
+    const toDate = newDates[done.length + i];
+    const original = byId.get(task.id)!;
+    if (mergedFrom.length > 1) {
+      changes.push({ kind: 'merged', taskId: task.id, from: mergedFrom.map((t) => t.description), to: task.description, toDate });
+    } else if (original.task.description !== task.description) {
+      changes.push({ kind: 'reworded', taskId: task.id, from: original.task.description, to: task.description, fromDate: fromDate(task.id), toDate });
+    } else if (original.index < todayIndex) {
+      changes.push({ kind: 'moved', taskId: task.id, description: task.description, fromDate: fromDate(task.id), toDate });
+    } else if (fromDate(task.id) !== toDate) {
+      shiftedTasks++;
+    }
+  });
+  for (const task of tasks) {
+    if (!task.completed && !used.has(task.id)) {
+      changes.push({ kind: 'dropped', taskId: task.id, description: task.description, fromDate: fromDate(task.id) });
+    }
+  }
+
+  return {
+    plan: next,
+    changes,
+    shiftedTasks,
+    endDate: newDates[newDates.length - 1] ?? newStartKey,
+    previousEndDate: previousDates[previousDates.length - 1] ?? getPlanStartDateKey(plan),
+  };
+}
@@ -0,0 +1,127 @@
+import type { DailyTask, FullPlan } from '../types/plan-types';
+import { flattenPlanTasks } from './plan-dates';
+
+// `/api/chat` rejects histories longer than this
+export const MAX_CHAT_HISTORY_ITEMS = 50;
+
+// Older messages are condensed into at most this many characters of prompt context
+const EARLIER_SUMMARY_MAX_CHARS = 3000;
+const EARLIER_MESSAGE_MAX_CHARS = 200;
+
+export interface TaskChatMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  createdAt?: number;
+}
+
+// Stored rolling summary of a thread's older messages (see convex/chatSummaries.ts)
+export interface TaskThreadSummary {
+  summary: string;
+  summarizedThrough: number; // createdAt of the newest message folded into the summary
+}
+
+export interface TaskChatHistory {
+  history: Array<{ role: 'user' | 'model'; parts: string }>;
+  earlierSummary: string | null; // Condensed messages that did not fit into `history`
+}
+
+export interface NeighbouringTask {
+  dayNumber: number; // 1-based position in the whole plan
+  task: DailyTask;
+}
+
+function truncate(text: string, maxChars: number): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > maxChars ? `${singleLine.slice(0, maxChars - 1)}…` : singleLine;
+}
+
+/**
+ * Turns a stored task thread (oldest first) into model history. The newest messages that fit
+ * the route's history limit are sent as turns; anything older is condensed into a transcript
+ * excerpt of the most recent earlier messages, so long threads keep their gist without
+ * exceeding the limit. Messages already covered by the thread's rolling summary are left out
+ * of the excerpt. History always starts with a user turn, as the route requires.
+ */
+export function buildTaskChatHistory(messages: TaskChatMessage[], summarizedThrough?: number): TaskChatHistory {
+  const turns = messages.filter((message) => message.role !== 'system' && message.content.trim());
+  let start = Math.max(0, turns.length - MAX_CHAT_HISTORY_ITEMS);
+  while (start < turns.length && turns[start].role !== 'user') start++;
+
+  const earlierLines: string[] = [];
+  let length = 0;
+  for (let i = start - 1; i >= 0; i--) {
+    if (summarizedThrough !== undefined && (turns[i].createdAt ?? Infinity) <= summarizedThrough) break;
+    const line = `${turns[i].role === 'user' ? 'User' : 'Assistant'}: ${truncate(turns[i].content, EARLIER_MESSAGE_MAX_CHARS)}`;
+    if (length + line.length > EARLIER_SUMMARY_MAX_CHARS) break;
+    earlierLines.unshift(line);
+    length += line.length + 1;
+  }
+  // Messages folded into the summary are not counted as omitted
+  const summarized = summarizedThrough === undefined
+    ? 0
+    : turns.slice(0, start).filter((message) => (message.createdAt ?? Infinity) <= summarizedThrough).length;
+  const omitted = start - summarized - earlierLines.length;
+
+  return {
+    history: turns.slice(start).map((message) => ({
+      role: message.role === 'user' ? ('user' as const) : ('model' as const),
+      parts: message.content,
+    })),
+    earlierSummary: earlierLines.length > 0
+      ? `${omitted > 0 ? `(${omitted} older messages omitted)\n` : ''}${earlierLines.join('\n')}`
+      : null,
+  };
+}
+
+/**
+ * Returns up to `radius` tasks scheduled before and after the given task across the whole
+ * plan, so the assistant can relate the task to what comes before and after it.
+ */
+export function findNeighbouringTasks(
+  plan: FullPlan,
+  taskId: string,
+  radius = 2
+): { before: NeighbouringTask[]; after: NeighbouringTask[] } {
+  const tasks = flattenPlanTasks(plan);
+  const index = tasks.findIndex((task) => task.id === taskId);
+  if (index < 0) return { before: [], after: [] };
+  const toNeighbour = (task: DailyTask, position: number): NeighbouringTask => ({ dayNumber: position + 1, task });
+  return {
+    before: tasks.slice(Math.max(0, index - radius), index).map((task, i) => toNeighbour(task, Math.max(0, index - radius) + i)),
+    after: tasks.slice(index + 1, index + 1 + radius).map((task, i) => toNeighbour(task, index + 1 + i)),
+  };
+}
+
+/**
+ * Renders the task's notes, neighbouring tasks, the thread's rolling summary and condensed
+ * earlier conversation as a context block for the task chat prompt. Sections without content
+ * are left out.
+ */
+export function formatTaskChatContext(options: {
+  plan: FullPlan;
+  taskId: string;
+  notes: string[];
+  threadSummary: string | null;
+  earlierSummary: string | null;
+}): string {
+  const sections: string[] = [];
+
+  if (options.notes.length > 0) {
+    sections.push(`The user's notes on this task:\n${options.notes.map((note) => `- ${truncate(note, 500)}`).join('\n')}`);
+  }
+
+  const { before, after } = findNeighbouringTasks(options.plan, options.taskId);
+  const describe = ({ dayNumber, task }: NeighbouringTask) =>
+    `- Day ${dayNumber}${task.completed ? ' (completed)' : ''}: ${task.description}`;
+  if (before.length > 0) sections.push(`Tasks just before this one:\n${before.map(describe).join('\n')}`);
+  if (after.length > 0) sections.push(`Tasks coming up next:\n${after.map(describe).join('\n')}`);
+
+  if (options.threadSummary) {
+    sections.push(`Summary of the earlier conversation in this thread:\n${options.threadSummary}`);
+  }
+  if (options.earlierSummary) {
+    sections.push(`Earlier in this conversation (condensed):\n${options.earlierSummary}`);
+  }
+
+  return sections.join('\n\n');
+}
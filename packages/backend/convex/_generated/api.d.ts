@@ -13,10 +13,35 @@ import type {
   FilterApi,
   FunctionReference,
 } from "convex/server";
+import type * as achievements from "../achievements.js";
+import type * as activity from "../activity.js";
+import type * as aiUsage from "../aiUsage.js";
+import type * as analytics from "../analytics.js";
+import type * as calendarFeed from "../calendarFeed.js";
 import type * as chat from "../chat.js";
+import type * as chatSummaries from "../chatSummaries.js";
+import type * as crons from "../crons.js";
+import type * as http from "../http.js";
 import type * as insights from "../insights.js";
+import type * as lib_achievements from "../lib/achievements.js";
+import type * as lib_aiUsage from "../lib/aiUsage.js";
+import type * as lib_analytics from "../lib/analytics.js";
+import type * as lib_dates from "../lib/dates.js";
+import type * as lib_heatmap from "../lib/heatmap.js";
+import type * as lib_ics from "../lib/ics.js";
+import type * as lib_ids from "../lib/ids.js";
+import type * as lib_llm from "../lib/llm.js";
+import type * as lib_llmFixtures from "../lib/llmFixtures.js";
+import type * as lib_progress from "../lib/progress.js";
+import type * as lib_rateLimit from "../lib/rateLimit.js";
+import type * as lib_serverSecret from "../lib/serverSecret.js";
+import type * as lib_streaks from "../lib/streaks.js";
+import type * as lib_validators from "../lib/validators.js";
+import type * as migrations from "../migrations.js";
 import type * as notes from "../notes.js";
 import type * as plans from "../plans.js";
+import type * as profile from "../profile.js";
+import type * as rateLimits from "../rateLimits.js";
 
 /**
  * A utility for referencing Convex functions in your app's API.
@@ -27,10 +52,35 @@ import type * as plans from "../plans.js";
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  achievements: typeof achievements;
+  activity: typeof activity;
+  aiUsage: typeof aiUsage;
+  analytics: typeof analytics;
+  calendarFeed: typeof calendarFeed;
   chat: typeof chat;
+  chatSummaries: typeof chatSummaries;
+  crons: typeof crons;
+  http: typeof http;
   insights: typeof insights;
+  "lib/achievements": typeof lib_achievements;
+  "lib/aiUsage": typeof lib_aiUsage;
+  "lib/analytics": typeof lib_analytics;
+  "lib/dates": typeof lib_dates;
+  "lib/heatmap": typeof lib_heatmap;
+  "lib/ics": typeof lib_ics;
+  "lib/ids": typeof lib_ids;
+  "lib/llm": typeof lib_llm;
+  "lib/llmFixtures": typeof lib_llmFixtures;
+  "lib/progress": typeof lib_progress;
+  "lib/rateLimit": typeof lib_rateLimit;
+  "lib/serverSecret": typeof lib_serverSecret;
+  "lib/streaks": typeof lib_streaks;
+  "lib/validators": typeof lib_validators;
+  migrations: typeof migrations;
   notes: typeof notes;
   plans: typeof plans;
+  profile: typeof profile;
+  rateLimits: typeof rateLimits;
 }>;
 export declare const api: FilterApi<
   typeof fullApi,
@@ -0,0 +1,224 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { achievementDefinitions, CHAT_MESSAGES_COUNTED, STREAK_ACHIEVEMENT_DAYS } from "./lib/achievements";
+import type { AchievementStats } from "./lib/achievements";
+import { applyPlanProgress, computePlanProgress, EMPTY_LIFETIME_TOTALS, isSamePlanProgress } from "./lib/progress";
+import { loadRecentStreakSummary } from "./activity";
+
+// Days of activity the engine reads: enough to see the longest streak achievement through
+const STREAK_WINDOW_DAYS = Math.max(...STREAK_ACHIEVEMENT_DAYS) + 1;
+
+/**
+ * User messages about the plan in its plan chat and task chats, counted up to
+ * CHAT_MESSAGES_COUNTED.
+ */
+async function countChatMessages(ctx: MutationCtx, plan: Doc<"plans">): Promise<number> {
+  let count = (plan.chatHistory ?? []).filter((message) => message.role === "user").length;
+  if (count >= CHAT_MESSAGES_COUNTED) return CHAT_MESSAGES_COUNTED;
+  for await (const message of ctx.db
+    .query("chatMessages")
+    .withIndex("by_plan_task_created", (q) => q.eq("planId", plan._id))) {
+    if (message.role === "user" && ++count >= CHAT_MESSAGES_COUNTED) break;
+  }
+  return Math.min(count, CHAT_MESSAGES_COUNTED);
+}
+
+async function getUserStats(ctx: QueryCtx, userId: string) {
+  return ctx.db
+    .query("userStats")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .unique();
+}
+
+type ProgressPlan = Parameters<typeof computePlanProgress>[0];
+
+/**
+ * Moves the user's lifetime totals by one plan's change: `before` is the plan as it was (null
+ * for a new plan), `after` as it is now (null once deleted). Called by every plan mutation
+ * that changes tasks, completion or category, before evaluateAchievements. Users whose totals
+ * predate `userStats` are set up by migrations:backfillUserStats; until then only a user's
+ * first plan starts them, since anything else would need a rescan of their plans.
+ */
+export async function recordPlanProgress(
+  ctx: MutationCtx,
+  userId: string,
+  before: ProgressPlan | null,
+  after: ProgressPlan | null
+): Promise<void> {
+  const previous = before && computePlanProgress(before);
+  const next = after && computePlanProgress(after);
+  if (isSamePlanProgress(previous, next)) return;
+
+  const stats = await getUserStats(ctx, userId);
+  const now = Date.now();
+  if (stats) {
+    const { tasksCompleted, plansCompleted, categories } = applyPlanProgress(stats, previous, next);
+    await ctx.db.patch(stats._id, { tasksCompleted, plansCompleted, categories, updatedAt: now });
+    return;
+  }
+  if (before !== null) return;
+  const plans = await ctx.db
+    .query("plans")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .take(2);
+  if (plans.length > 1) return;
+  await ctx.db.insert("userStats", { userId, ...applyPlanProgress(EMPTY_LIFETIME_TOTALS, null, next), updatedAt: now });
+}
+
+/**
+ * @description
+ * Achievements engine. Runs every definition in lib/achievements.ts against the plan, the
+ * user's activity and their lifetime totals, and records the ones that are newly met. Unlocks are permanent: undoing
+ * the work that earned one does not lock it again. Called at the end of plan mutations (task
+ * toggles, plan saves and edits, schedule changes, chat messages), so reads stay bounded:
+ * streaks come from the recent activity log only, lifetime totals from the user's running
+ * `userStats` sums, and the chat count is only loaded while an achievement that needs it is
+ * still locked.
+ *
+ * @receives data from:
+ * - plans.ts and chat.ts mutations: the changed plan and the caller's timezone
+ *
+ * @sends data to:
+ * - Convex database: `achievementUnlocks` rows and the plan's `unlockedAchievements` map
+ *
+ * @sideEffects:
+ * - Inserts unlock rows, which the web app picks up for toasts via listUnnotifiedUnlocks
+ */
+export async function evaluateAchievements(
+  ctx: MutationCtx,
+  planId: Id<"plans">,
+  options: { timezone?: string } = {}
+): Promise<string[]> {
+  const plan = await ctx.db.get(planId);
+  if (!plan) return [];
+
+  // At most one row per achievement: the user's own unlocks and this plan's
+  const userUnlocks = await ctx.db
+    .query("achievementUnlocks")
+    .withIndex("by_user_plan", (q) => q.eq("userId", plan.userId).eq("planId", undefined))
+    .collect();
+  const planUnlockRows = await ctx.db
+    .query("achievementUnlocks")
+    .withIndex("by_user_plan", (q) => q.eq("userId", plan.userId).eq("planId", planId))
+    .collect();
+  const unlockedIds = new Set([...userUnlocks, ...planUnlockRows].map((u) => `${u.planId ?? ""}|${u.achievementId}`));
+  const pending = achievementDefinitions.filter(
+    (definition) => !unlockedIds.has(`${definition.scope === "user" ? "" : planId}|${definition.id}`)
+  );
+  if (pending.length === 0) return [];
+  const needs = (stat: "streaks" | "chat" | "lifetime") => pending.some((definition) => definition.requires === stat);
+
+  const streaks = needs("streaks")
+    ? await loadRecentStreakSummary(ctx, plan.userId, STREAK_WINDOW_DAYS, options.timezone ?? plan.timezone)
+    : null;
+  // Users not backfilled yet have no totals; their lifetime achievements wait for the migration
+  const lifetime = needs("lifetime") ? await getUserStats(ctx, plan.userId) : null;
+  const stats: AchievementStats = {
+    currentStreak: streaks?.currentStreak ?? 0,
+    longestStreak: streaks?.longestStreak ?? 0,
+    chatMessages: needs("chat") ? await countChatMessages(ctx, plan) : undefined,
+    plansCompleted: lifetime?.plansCompleted,
+    tasksCompleted: lifetime?.tasksCompleted,
+    categoriesExplored: lifetime ? Object.keys(lifetime.categories).length : undefined,
+  };
+
+  const now = Date.now();
+  const unlocked = pending.filter((definition) => definition.checkCriteria(plan, stats));
+  for (const definition of unlocked) {
+    await ctx.db.insert("achievementUnlocks", {
+      userId: plan.userId,
+      planId: definition.scope === "plan" ? planId : undefined,
+      achievementId: definition.id,
+      unlockedAt: now,
+    });
+  }
+
+  // Keep the plan's own map in step for plan-scoped achievements
+  const planUnlocks = unlocked.filter((definition) => definition.scope === "plan");
+  if (planUnlocks.length > 0) {
+    const unlockedAchievements = { ...(plan.unlockedAchievements ?? {}) };
+    planUnlocks.forEach((definition) => (unlockedAchievements[definition.id] = true));
+    await ctx.db.patch(planId, { unlockedAchievements });
+  }
+  return unlocked.map((definition) => definition.id);
+}
+
+/**
+ * Removes a plan's unlock rows when the plan is deleted; user-scoped unlocks stay.
+ */
+export async function deletePlanUnlocks(ctx: MutationCtx, planId: Id<"plans">) {
+  const unlocks = await ctx.db
+    .query("achievementUnlocks")
+    .withIndex("by_plan", (q) => q.eq("planId", planId))
+    .collect();
+  await Promise.all(unlocks.map((d) => ctx.db.delete(d._id)));
+}
+
+/**
+ * @description
+ * Unlocks of the signed-in user, newest first: user-scoped ones plus those of the given plan
+ * (or of every plan when no plan is given).
+ *
+ * @receives data from:
+ * - components/modals/achievements-modal.tsx: current plan id
+ *
+ * @sends data to:
+ * - components/modals/achievements-modal.tsx: unlock rows for the gallery
+ *
+ * @sideEffects:
+ * - None
+ */
+export const listUnlocks = query({
+  args: { planId: v.optional(v.id("plans")) },
+  handler: async (ctx, { planId }) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const unlocks = await ctx.db
+      .query("achievementUnlocks")
+      .withIndex("by_user_unlocked", (q) => q.eq("userId", identity.subject))
+      .order("desc")
+      .collect();
+    return planId ? unlocks.filter((u) => u.planId === undefined || u.planId === planId) : unlocks;
+  },
+});
+
+/**
+ * @description
+ * Unlocks the web app has not announced yet, oldest first.
+ *
+ * @receives data from:
+ * - components/achievement-toasts.tsx: subscription while signed in
+ *
+ * @sends data to:
+ * - components/achievement-toasts.tsx: unlock rows to toast
+ *
+ * @sideEffects:
+ * - None
+ */
+export const listUnnotifiedUnlocks = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    return await ctx.db
+      .query("achievementUnlocks")
+      .withIndex("by_user_notified", (q) => q.eq("userId", identity.subject).eq("notifiedAt", undefined))
+      .take(20);
+  },
+});
+
+export const markUnlocksNotified = mutation({
+  args: { ids: v.array(v.id("achievementUnlocks")) },
+  handler: async (ctx, { ids }) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const now = Date.now();
+    for (const id of ids) {
+      const doc = await ctx.db.get(id);
+      if (!doc || doc.userId !== identity.subject) continue;
+      if (doc.notifiedAt === undefined) await ctx.db.patch(id, { notifiedAt: now });
+    }
+  },
+});
@@ -0,0 +1,125 @@
+import { v } from "convex/values";
+import { query } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { addDaysToKey, toDateKeyInTimezone } from "./lib/dates";
+import { computeCompletionHeatmap } from "./lib/heatmap";
+import { computeStreaks } from "./lib/streaks";
+import type { StreakSummary } from "./lib/streaks";
+
+/**
+ * Appends a task completion change to the user's activity log, stamped with the user's
+ * local calendar day so streaks follow their days rather than UTC.
+ */
+export async function logTaskActivity(
+  ctx: MutationCtx,
+  entry: { userId: string; planId: Id<"plans">; taskId: string; completed: boolean; timezone?: string }
+) {
+  const now = Date.now();
+  await ctx.db.insert("activityLog", {
+    userId: entry.userId,
+    planId: entry.planId,
+    taskId: entry.taskId,
+    kind: entry.completed ? "task_completed" : "task_reopened",
+    dateKey: toDateKeyInTimezone(now, entry.timezone),
+    createdAt: now,
+  });
+}
+
+/**
+ * Days on which at least one task was completed and stayed completed that day. Events arrive
+ * oldest first, so the last event per task and day decides.
+ */
+function activeDateKeys(events: Doc<"activityLog">[]): Set<string> {
+  const lastKindByTaskDay = new Map<string, Doc<"activityLog">["kind"]>();
+  for (const event of events) {
+    lastKindByTaskDay.set(`${event.dateKey}|${event.planId}|${event.taskId}`, event.kind);
+  }
+  const days = new Set<string>();
+  for (const [key, kind] of lastKindByTaskDay) {
+    if (kind === "task_completed") days.add(key.slice(0, key.indexOf("|")));
+  }
+  return days;
+}
+
+/**
+ * Streak summary of a user from their whole activity log, with "today" in the given timezone.
+ */
+export async function loadStreakSummary(ctx: QueryCtx, userId: string, timezone?: string): Promise<StreakSummary> {
+  const events = await ctx.db
+    .query("activityLog")
+    .withIndex("by_user_created", (q) => q.eq("userId", userId))
+    .collect();
+  return computeStreaks(activeDateKeys(events), toDateKeyInTimezone(Date.now(), timezone));
+}
+
+/**
+ * Streak summary from only the last `days` days of the activity log, so the read stays small
+ * however long the log grows. Streaks longer than the window are cut to it.
+ */
+export async function loadRecentStreakSummary(
+  ctx: QueryCtx,
+  userId: string,
+  days: number,
+  timezone?: string
+): Promise<StreakSummary> {
+  const todayKey = toDateKeyInTimezone(Date.now(), timezone);
+  const events = await ctx.db
+    .query("activityLog")
+    .withIndex("by_user_date", (q) => q.eq("userId", userId).gte("dateKey", addDaysToKey(todayKey, -(days - 1))))
+    .collect();
+  // The index orders by day; the last event per task and day must be the latest one
+  events.sort((a, b) => a.createdAt - b.createdAt);
+  return computeStreaks(activeDateKeys(events), todayKey);
+}
+
+/**
+ * @description
+ * Current and longest completion streaks of the signed-in user across all plans, from the
+ * activity log. A day counts once any task is completed on it.
+ *
+ * @receives data from:
+ * - components/milestone/streak-counter.tsx: the browser's timezone for "today"
+ *
+ * @sends data to:
+ * - components/milestone/streak-counter.tsx: streak summary
+ *
+ * @sideEffects:
+ * - None
+ */
+export const getStreaks = query({
+  args: { timezone: v.optional(v.string()) },
+  handler: async (ctx, { timezone }) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    return await loadStreakSummary(ctx, identity.subject, timezone);
+  },
+});
+
+/**
+ * @description
+ * Task completions per day over the last year across every plan the signed-in user owns,
+ * archived ones included, with the tasks done on each day for hover details and links
+ * back into the plan.
+ *
+ * @receives data from:
+ * - components/profile/completion-heatmap.tsx: the browser's timezone for calendar days
+ *
+ * @sends data to:
+ * - components/profile/completion-heatmap.tsx: completion heatmap
+ *
+ * @sideEffects:
+ * - None
+ */
+export const getCompletionHeatmap = query({
+  args: { timezone: v.optional(v.string()) },
+  handler: async (ctx, { timezone }) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const plans = await ctx.db
+      .query("plans")
+      .withIndex("by_user", (q) => q.eq("userId", identity.subject))
+      .collect();
+    return computeCompletionHeatmap(plans, toDateKeyInTimezone(Date.now(), timezone), timezone);
+  },
+});
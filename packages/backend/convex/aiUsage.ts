@@ -0,0 +1,163 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery, mutation, query } from "./_generated/server";
+import type { QueryCtx, MutationCtx } from "./_generated/server";
+import type { AIUsageEntry } from "./lib/aiUsage";
+import { getMonthlyTokenCap, startOfMonthUtc, startOfNextMonthUtc } from "./lib/aiUsage";
+import { assertServerSecret } from "./lib/serverSecret";
+
+const usageEntryArgs = {
+  route: v.union(v.literal("chat"), v.literal("generate-plan"), v.literal("validate-goal"), v.literal("insights"), v.literal("chat-summary"), v.literal("replan")),
+  provider: v.string(),
+  model: v.string(),
+  promptTokens: v.number(),
+  completionTokens: v.number(),
+  latencyMs: v.number(),
+  outcome: v.union(v.literal("success"), v.literal("error"), v.literal("cancelled"), v.literal("blocked")),
+  error: v.optional(v.string()),
+};
+
+async function insertUsage(ctx: MutationCtx, userId: string, entry: AIUsageEntry) {
+  const promptTokens = Math.max(0, Math.round(entry.promptTokens));
+  const completionTokens = Math.max(0, Math.round(entry.completionTokens));
+  await ctx.db.insert("aiUsage", {
+    userId,
+    ...entry,
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    createdAt: Date.now(),
+  });
+}
+
+/**
+ * Usage for the current calendar month (UTC) against the configured cap.
+ */
+async function getMonthlyQuota(ctx: QueryCtx, userId: string) {
+  const now = Date.now();
+  const entries = await ctx.db
+    .query("aiUsage")
+    .withIndex("by_user_created", (q) => q.eq("userId", userId).gte("createdAt", startOfMonthUtc(now)))
+    .collect();
+  const usedTokens = entries.reduce((sum, entry) => sum + entry.totalTokens, 0);
+  const cap = getMonthlyTokenCap();
+  return {
+    usedTokens,
+    cap,
+    exceeded: cap !== null && usedTokens >= cap,
+    resetsAt: startOfNextMonthUtc(now),
+  };
+}
+
+/**
+ * @description
+ * Records one AI call made by a Next.js API route. Called server-to-server with the shared
+ * `CONVEX_SERVER_SECRET`; anonymous demo calls are recorded under the "anonymous" user.
+ *
+ * @receives data from:
+ * - apps/web api/_lib/usage.ts; recordUsage: caller user id and usage entry
+ *
+ * @sends data to:
+ * - aiUsage table
+ *
+ * @sideEffects:
+ * - Inserts an `aiUsage` document
+ */
+export const record = mutation({
+  args: { secret: v.string(), userId: v.string(), ...usageEntryArgs },
+  handler: async (ctx, { secret, userId, ...entry }) => {
+    assertServerSecret(secret);
+    await insertUsage(ctx, userId, entry);
+  },
+});
+
+export const recordInternal = internalMutation({
+  args: { userId: v.string(), ...usageEntryArgs },
+  handler: async (ctx, { userId, ...entry }) => {
+    await insertUsage(ctx, userId, entry);
+  },
+});
+
+/**
+ * @description
+ * Monthly quota check for a user before an AI call from the Next.js API routes.
+ *
+ * @receives data from:
+ * - apps/web api/_lib/usage.ts; withUsageCap: caller user id
+ *
+ * @sends data to:
+ * - apps/web api/_lib/usage.ts: `{ usedTokens, cap, exceeded, resetsAt }`
+ *
+ * @sideEffects:
+ * - None
+ */
+export const getQuota = query({
+  args: { secret: v.string(), userId: v.string() },
+  handler: async (ctx, { secret, userId }) => {
+    assertServerSecret(secret);
+    return await getMonthlyQuota(ctx, userId);
+  },
+});
+
+export const getQuotaInternal = internalQuery({
+  args: { userId: v.string() },
+  handler: async (ctx, { userId }) => {
+    return await getMonthlyQuota(ctx, userId);
+  },
+});
+
+/**
+ * @description
+ * The signed-in user's AI usage for the current month: totals, a per-route breakdown, the
+ * monthly cap and the most recent calls.
+ *
+ * @receives data from:
+ * - components/usage/usage-page.tsx: current user
+ *
+ * @sends data to:
+ * - components/usage/usage-page.tsx: usage summary
+ *
+ * @sideEffects:
+ * - None
+ */
+export const getMyUsage = query({
+  args: { recentLimit: v.optional(v.number()) },
+  handler: async (ctx, { recentLimit = 25 }) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const userId = identity.subject;
+
+    const now = Date.now();
+    const monthStart = startOfMonthUtc(now);
+    const entries = await ctx.db
+      .query("aiUsage")
+      .withIndex("by_user_created", (q) => q.eq("userId", userId).gte("createdAt", monthStart))
+      .order("desc")
+      .collect();
+
+    const byRoute = new Map<string, { route: string; requests: number; totalTokens: number; errors: number; totalLatencyMs: number }>();
+    for (const entry of entries) {
+      const row = byRoute.get(entry.route) ?? { route: entry.route, requests: 0, totalTokens: 0, errors: 0, totalLatencyMs: 0 };
+      row.requests += 1;
+      row.totalTokens += entry.totalTokens;
+      row.totalLatencyMs += entry.latencyMs;
+      if (entry.outcome === "error") row.errors += 1;
+      byRoute.set(entry.route, row);
+    }
+
+    const cap = getMonthlyTokenCap();
+    const usedTokens = entries.reduce((sum, entry) => sum + entry.totalTokens, 0);
+    return {
+      monthStart,
+      resetsAt: startOfNextMonthUtc(now),
+      cap,
+      usedTokens,
+      promptTokens: entries.reduce((sum, entry) => sum + entry.promptTokens, 0),
+      completionTokens: entries.reduce((sum, entry) => sum + entry.completionTokens, 0),
+      requests: entries.length,
+      byRoute: [...byRoute.values()]
+        .map(({ totalLatencyMs, ...row }) => ({ ...row, avgLatencyMs: Math.round(totalLatencyMs / row.requests) }))
+        .sort((a, b) => b.totalTokens - a.totalTokens),
+      recent: entries.slice(0, recentLimit),
+    };
+  },
+});
@@ -0,0 +1,32 @@
+import { v } from "convex/values";
+import { query } from "./_generated/server";
+import { computePlanAnalytics } from "./lib/analytics";
+
+/**
+ * @description
+ * Progress analytics for one of the signed-in user's plans: burndown, weekly velocity,
+ * completion rates per milestone and weekday, and the projected finish date. Computed from
+ * the plan's schedule and task completion times, so the numbers are exact.
+ *
+ * @receives data from:
+ * - components/modals/analytics-modal.tsx: plan id and the browser's timezone
+ *
+ * @sends data to:
+ * - components/modals/analytics-modal.tsx: `PlanAnalytics`
+ *
+ * @sideEffects:
+ * - None
+ */
+export const getPlanAnalytics = query({
+  args: {
+    planId: v.id("plans"),
+    timezone: v.optional(v.string()), // Used only for legacy plans without a timezone
+  },
+  handler: async (ctx, { planId, timezone }) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const plan = await ctx.db.get(planId);
+    if (!plan || plan.userId !== identity.subject) throw new Error("Not found");
+    return computePlanAnalytics({ ...plan, timezone: plan.timezone ?? timezone });
+  },
+});
@@ -0,0 +1,117 @@
+import { v } from "convex/values";
+import { httpAction, internalQuery, mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { resolvePlanStartDate } from "./lib/dates";
+import { buildPlanCalendar } from "./lib/ics";
+import type { CalendarComponent } from "./lib/ics";
+
+const FEED_PATH_PREFIX = "/calendar/";
+
+function createFeedToken(): string {
+  const bytes = new Uint8Array(24);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function feedUrl(token: string): string {
+  return `${process.env.CONVEX_SITE_URL ?? ""}${FEED_PATH_PREFIX}${token}.ics`;
+}
+
+/**
+ * @description
+ * Subscribable iCalendar feeds for plans. Each plan can have one secret feed token; the
+ * feed URL is public to anyone holding it, so it can be rotated or disabled at any time.
+ *
+ * @receives data from:
+ * - components/modals/calendar-export-modal.tsx: feed lookup / enable / disable
+ * - Calendar apps: GET requests to `/calendar/<token>.ics` (see http.ts)
+ *
+ * @sends data to:
+ * - Calendar apps: text/calendar documents rendered by lib/ics.ts
+ *
+ * @sideEffects:
+ * - Reads/writes `plans.calendarFeedToken`
+ */
+export const getCalendarFeed = query({
+  args: { planId: v.id("plans") },
+  handler: async (ctx, { planId }) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const plan = await ctx.db.get(planId);
+    if (!plan || plan.userId !== identity.subject) throw new Error("Not found");
+    return plan.calendarFeedToken ? { url: feedUrl(plan.calendarFeedToken) } : null;
+  },
+});
+
+// Creates the feed, or rotates its token so previously shared URLs stop working
+export const enableCalendarFeed = mutation({
+  args: { planId: v.id("plans") },
+  handler: async (ctx, { planId }) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const plan = await ctx.db.get(planId);
+    if (!plan || plan.userId !== identity.subject) throw new Error("Not found");
+    const token = createFeedToken();
+    await ctx.db.patch(planId, { calendarFeedToken: token });
+    return { url: feedUrl(token) };
+  },
+});
+
+export const disableCalendarFeed = mutation({
+  args: { planId: v.id("plans") },
+  handler: async (ctx, { planId }) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const plan = await ctx.db.get(planId);
+    if (!plan || plan.userId !== identity.subject) throw new Error("Not found");
+    await ctx.db.patch(planId, { calendarFeedToken: undefined });
+  },
+});
+
+export const getPlanByFeedToken = internalQuery({
+  args: { token: v.string() },
+  handler: async (ctx, { token }) => {
+    return await ctx.db
+      .query("plans")
+      .withIndex("by_calendar_feed_token", (q) => q.eq("calendarFeedToken", token))
+      .unique();
+  },
+});
+
+/**
+ * @description
+ * Serves `/calendar/<token>.ics`. Append `?type=todo` for VTODO components (task apps);
+ * the default is all-day VEVENTs for calendar apps.
+ *
+ * @receives data from:
+ * - Calendar apps: GET request with the feed token in the path
+ *
+ * @sends data to:
+ * - Calendar apps: current plan as text/calendar, or 404 for unknown tokens
+ *
+ * @sideEffects:
+ * - None
+ */
+export const serveCalendarFeed = httpAction(async (ctx, request) => {
+  const url = new URL(request.url);
+  const token = url.pathname.slice(FEED_PATH_PREFIX.length).replace(/\.ics$/, "");
+  const plan = token ? await ctx.runQuery(internal.calendarFeed.getPlanByFeedToken, { token }) : null;
+  if (!plan) {
+    return new Response("Calendar feed not found", { status: 404 });
+  }
+
+  const component: CalendarComponent = url.searchParams.get("type") === "todo" ? "todo" : "event";
+  const body = buildPlanCalendar(plan, {
+    startDate: resolvePlanStartDate(plan),
+    availability: plan.availability,
+    component,
+    planKey: plan._id,
+  });
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": 'inline; filename="milestoneai-plan.ics"',
+      "Cache-Control": "no-cache",
+    },
+  });
+});
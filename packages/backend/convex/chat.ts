@@ -1,5 +1,8 @@
 import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
 import { mutation, query } from "./_generated/server";
+import { evaluateAchievements } from "./achievements";
+import { markThreadMessage } from "./chatSummaries";
 
 function requireUser(ctx: any) {
   return ctx.auth.getUserIdentity();
@@ -30,6 +33,7 @@ export const appendMessage = mutation({
       throw new Error("Not found");
     }
 
+    const createdAt = Date.now();
     await ctx.db.insert("chatMessages", {
       userId: identity.subject,
       planId: args.planId,
@@ -38,19 +42,26 @@ export const appendMessage = mutation({
       content: args.content,
       tokens: args.tokens,
       toolCalls: args.toolCalls,
-      createdAt: Date.now(),
+      createdAt,
     });
+    await markThreadMessage(ctx, {
+      userId: identity.subject,
+      planId: args.planId,
+      taskIdentifier: args.taskIdentifier,
+      createdAt,
+    });
+    if (args.role === "user") await evaluateAchievements(ctx, args.planId);
   },
 });
 
+// Whole task thread, oldest first, in pages; backs the full transcript view
 export const listMessages = query({
   args: {
     planId: v.id("plans"),
     taskIdentifier: v.string(),
-    limit: v.optional(v.number()),
-    cursor: v.optional(v.any())
+    paginationOpts: paginationOptsValidator,
   },
-  handler: async (ctx, { planId, taskIdentifier, limit = 100, cursor }) => {
+  handler: async (ctx, { planId, taskIdentifier, paginationOpts }) => {
     const identity = await ctx.auth.getUserIdentity();
     if (!identity) throw new Error("Unauthorized");
 
@@ -58,20 +69,43 @@ export const listMessages = query({
     const plan = await ctx.db.get(planId);
     if (!plan) {
       // Plan doesn't exist - return empty array
-      return { page: [], continueCursor: null, isDone: true };
+      return { page: [], continueCursor: "", isDone: true };
     }
 
     // Check plan ownership
     if (plan.userId !== identity.subject) {
       console.error(`[CHAT:listMessages] ACCESS DENIED: Plan belongs to ${plan.userId} but query is from ${identity.subject}`);
-      return { page: [], continueCursor: null, isDone: true };
+      return { page: [], continueCursor: "", isDone: true };
     }
 
     return await ctx.db
       .query("chatMessages")
       .withIndex("by_plan_task_created", (q) => q.eq("planId", planId).eq("taskIdentifier", taskIdentifier))
       .order("asc")
-      .paginate({ numItems: limit, cursor });
+      .paginate(paginationOpts);
+  },
+});
+
+// Newest `limit` messages of a task thread, oldest first; long threads show and send their latest turns
+export const listRecentMessages = query({
+  args: {
+    planId: v.id("plans"),
+    taskIdentifier: v.string(),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, { planId, taskIdentifier, limit = 100 }) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+
+    const plan = await ctx.db.get(planId);
+    if (!plan || plan.userId !== identity.subject) return [];
+
+    const newest = await ctx.db
+      .query("chatMessages")
+      .withIndex("by_plan_task_created", (q) => q.eq("planId", planId).eq("taskIdentifier", taskIdentifier))
+      .order("desc")
+      .take(Math.min(Math.max(1, limit), 200));
+    return newest.reverse();
   },
 });
 
@@ -0,0 +1,380 @@
+import { v } from "convex/values";
+import { internalAction, internalMutation, internalQuery, query } from "./_generated/server";
+import type { ActionCtx, MutationCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import type { Infer } from "convex/values";
+import type { chatHistoryValidator } from "./lib/validators";
+import { getLLMProvider } from "./lib/llm";
+import type { LLMProvider } from "./lib/llm";
+import { withUsageRecording } from "./lib/aiUsage";
+
+// The newest messages of a thread are never summarised; chat sends them verbatim
+const KEEP_RECENT_MESSAGES = 30;
+// Summarise once this many older messages are waiting, so each run folds in a useful batch
+const MIN_MESSAGES_TO_SUMMARIZE = 20;
+// Upper bound per run; longer backlogs are caught up over later runs while the thread is active
+const MAX_MESSAGES_PER_RUN = 200;
+// Unsummarised messages at which a task thread is marked for the cron; counts stop here
+const SUMMARY_DUE_COUNT = KEEP_RECENT_MESSAGES + MIN_MESSAGES_TO_SUMMARIZE;
+// Marked threads handled per cron run; the rest stay marked for the next run
+const MAX_THREADS_PER_RUN = 50;
+
+// Thread key of the plan-wide coach chat (`plans.chatHistory`); task threads are keyed by task id
+export const PLAN_CHAT_THREAD = "plan";
+
+type PlanChatMessage = Infer<typeof chatHistoryValidator>[number];
+
+/**
+ * Plan chat messages outside the recent window that the stored summary does not cover yet,
+ * oldest first. Messages stored before timestamps existed sort before every stamped one.
+ */
+export function planChatBacklog<M extends PlanChatMessage>(chatHistory: M[], summarizedThrough?: number): M[] {
+  const unsummarized = chatHistory.filter((m) => (m.createdAt ?? 0) > (summarizedThrough ?? -1));
+  return unsummarized.slice(0, Math.max(0, unsummarized.length - KEEP_RECENT_MESSAGES));
+}
+
+/**
+ * Messages of a task thread the stored summary does not cover yet, counted up to
+ * SUMMARY_DUE_COUNT so the read stays bounded however long the thread is.
+ */
+async function countUnsummarizedMessages(ctx: MutationCtx, planId: Id<"plans">, taskIdentifier: string): Promise<number> {
+  const summary = await ctx.db
+    .query("chatSummaries")
+    .withIndex("by_plan_task", (q) => q.eq("planId", planId).eq("taskIdentifier", taskIdentifier))
+    .unique();
+  const messages = await ctx.db
+    .query("chatMessages")
+    .withIndex("by_plan_task_created", (q) =>
+      q.eq("planId", planId).eq("taskIdentifier", taskIdentifier).gt("createdAt", summary?.summarizedThrough ?? -1)
+    )
+    .take(SUMMARY_DUE_COUNT);
+  return messages.length;
+}
+
+async function getThreadMarker(ctx: MutationCtx, planId: Id<"plans">, taskIdentifier: string) {
+  return ctx.db
+    .query("chatThreads")
+    .withIndex("by_plan_task", (q) => q.eq("planId", planId).eq("taskIdentifier", taskIdentifier))
+    .unique();
+}
+
+/**
+ * Keeps a task thread's `chatThreads` marker in step after a message is stored, and marks the
+ * thread for the cron once enough older messages wait to be summarised. A thread without a
+ * marker yet (older than markers) is counted once, within the same bound.
+ */
+export async function markThreadMessage(
+  ctx: MutationCtx,
+  thread: { userId: string; planId: Id<"plans">; taskIdentifier: string; createdAt: number }
+): Promise<void> {
+  const marker = await getThreadMarker(ctx, thread.planId, thread.taskIdentifier);
+  const unsummarizedCount = marker
+    ? Math.min(marker.unsummarizedCount + 1, SUMMARY_DUE_COUNT)
+    : await countUnsummarizedMessages(ctx, thread.planId, thread.taskIdentifier);
+  const fields = {
+    lastMessageAt: thread.createdAt,
+    unsummarizedCount,
+    needsSummary: unsummarizedCount >= SUMMARY_DUE_COUNT,
+  };
+  if (marker) {
+    await ctx.db.patch(marker._id, fields);
+  } else {
+    await ctx.db.insert("chatThreads", {
+      userId: thread.userId,
+      planId: thread.planId,
+      taskIdentifier: thread.taskIdentifier,
+      ...fields,
+    });
+  }
+}
+
+/**
+ * Recounts a task thread's marker after a summary run, or removes it once the plan is gone.
+ */
+async function refreshThreadMarker(ctx: MutationCtx, planId: Id<"plans">, taskIdentifier: string): Promise<void> {
+  const marker = await getThreadMarker(ctx, planId, taskIdentifier);
+  if (!marker) return;
+  if (!(await ctx.db.get(planId))) {
+    await ctx.db.delete(marker._id);
+    return;
+  }
+  const unsummarizedCount = await countUnsummarizedMessages(ctx, planId, taskIdentifier);
+  await ctx.db.patch(marker._id, { unsummarizedCount, needsSummary: unsummarizedCount >= SUMMARY_DUE_COUNT });
+}
+
+/**
+ * Whether appending to the plan chat grew its backlog past another multiple of
+ * `MIN_MESSAGES_TO_SUMMARIZE`. A run is scheduled each time, so a failed run is retried once
+ * more messages have arrived rather than on every append.
+ */
+export function isPlanChatSummaryDue(backlogBefore: number, backlogAfter: number): boolean {
+  return Math.floor(backlogAfter / MIN_MESSAGES_TO_SUMMARIZE) > Math.floor(backlogBefore / MIN_MESSAGES_TO_SUMMARIZE);
+}
+
+/**
+ * @description
+ * Rolling summaries of long chat threads. Storing a task chat message marks its thread in
+ * `chatThreads` once enough older messages have accumulated outside the recent window; an
+ * hourly cron takes the marked threads and folds those messages into a stored summary with
+ * the previous summary. The plan coach chat is summarised the
+ * same way under `PLAN_CHAT_THREAD`, scheduled by appendPlanChat as its backlog grows. Chat
+ * and insights use the summary as compact context; the messages themselves are kept.
+ *
+ * @receives data from:
+ * - crons.ts: periodic summarizeRecentThreads runs
+ * - chat.ts; appendMessage: thread markers via markThreadMessage
+ * - plans.ts; appendPlanChat: scheduled summarizePlanChat runs
+ * - components/modals/task-modal.tsx: summary lookup for chat context
+ * - insights.ts; recomputeInsightsForPlan: plan summaries for the insights prompt
+ *
+ * @sends data to:
+ * - LLM provider: summarisation prompts
+ *
+ * @sideEffects:
+ * - Reads/writes `chatSummaries` and `chatThreads`; records AI usage as "chat-summary"
+ */
+export const getThreadSummary = query({
+  args: { planId: v.id("plans"), taskIdentifier: v.string() },
+  handler: async (ctx, { planId, taskIdentifier }) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const plan = await ctx.db.get(planId);
+    if (!plan || plan.userId !== identity.subject) return null;
+
+    const doc = await ctx.db
+      .query("chatSummaries")
+      .withIndex("by_plan_task", (q) => q.eq("planId", planId).eq("taskIdentifier", taskIdentifier))
+      .unique();
+    return doc
+      ? { summary: doc.summary, summarizedThrough: doc.summarizedThrough, messageCount: doc.messageCount }
+      : null;
+  },
+});
+
+export const listSummariesForPlan = internalQuery({
+  args: { planId: v.id("plans"), limit: v.optional(v.number()) },
+  handler: async (ctx, { planId, limit = 5 }) => {
+    const docs = await ctx.db
+      .query("chatSummaries")
+      .withIndex("by_plan_task", (q) => q.eq("planId", planId))
+      .collect();
+    return docs
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .slice(0, limit)
+      .map((doc) => ({ taskIdentifier: doc.taskIdentifier, summary: doc.summary }));
+  },
+});
+
+// Task threads marked by markThreadMessage, most recently active first
+export const listThreadsNeedingSummary = internalQuery({
+  args: { limit: v.number() },
+  handler: async (ctx, { limit }) => {
+    const markers = await ctx.db
+      .query("chatThreads")
+      .withIndex("by_needs_summary", (q) => q.eq("needsSummary", true))
+      .order("desc")
+      .take(limit);
+    return markers.map((marker) => ({ planId: marker.planId, taskIdentifier: marker.taskIdentifier }));
+  },
+});
+
+export const syncThreadMarker = internalMutation({
+  args: { planId: v.id("plans"), taskIdentifier: v.string() },
+  handler: async (ctx, { planId, taskIdentifier }) => {
+    await refreshThreadMarker(ctx, planId, taskIdentifier);
+  },
+});
+
+/**
+ * Older messages of a thread that are due to be folded into its summary, or null when
+ * fewer than `MIN_MESSAGES_TO_SUMMARIZE` are waiting outside the recent window. The plan
+ * chat thread reads its messages from the plan document.
+ */
+export const getThreadBacklog = internalQuery({
+  args: { planId: v.id("plans"), taskIdentifier: v.string() },
+  handler: async (ctx, { planId, taskIdentifier }) => {
+    const plan = await ctx.db.get(planId);
+    if (!plan) return null;
+
+    const existing = await ctx.db
+      .query("chatSummaries")
+      .withIndex("by_plan_task", (q) => q.eq("planId", planId).eq("taskIdentifier", taskIdentifier))
+      .unique();
+
+    if (taskIdentifier === PLAN_CHAT_THREAD) {
+      const backlog = planChatBacklog(plan.chatHistory ?? [], existing?.summarizedThrough);
+      if (backlog.length < MIN_MESSAGES_TO_SUMMARIZE) return null;
+      return {
+        userId: plan.userId,
+        goal: plan.goal,
+        previousSummary: existing?.summary ?? null,
+        messages: backlog.slice(0, MAX_MESSAGES_PER_RUN).map((m) => ({
+          role: m.role === "ai" ? "assistant" : m.role,
+          content: m.text,
+          createdAt: m.createdAt ?? 0,
+        })),
+      };
+    }
+
+    const after = existing?.summarizedThrough ?? -1;
+    const unsummarized = await ctx.db
+      .query("chatMessages")
+      .withIndex("by_plan_task_created", (q) =>
+        q.eq("planId", planId).eq("taskIdentifier", taskIdentifier).gt("createdAt", after)
+      )
+      .collect();
+
+    const backlog = unsummarized.slice(0, Math.max(0, unsummarized.length - KEEP_RECENT_MESSAGES));
+    if (backlog.length < MIN_MESSAGES_TO_SUMMARIZE) return null;
+    return {
+      userId: plan.userId,
+      goal: plan.goal,
+      previousSummary: existing?.summary ?? null,
+      messages: backlog
+        .slice(0, MAX_MESSAGES_PER_RUN)
+        .map((m) => ({ role: m.role, content: m.content, createdAt: m.createdAt })),
+    };
+  },
+});
+
+export const saveThreadSummary = internalMutation({
+  args: {
+    userId: v.string(),
+    planId: v.id("plans"),
+    taskIdentifier: v.string(),
+    summary: v.string(),
+    summarizedThrough: v.number(),
+    messageCount: v.number(), // Messages folded in by this run
+  },
+  handler: async (ctx, { userId, planId, taskIdentifier, summary, summarizedThrough, messageCount }) => {
+    const existing = await ctx.db
+      .query("chatSummaries")
+      .withIndex("by_plan_task", (q) => q.eq("planId", planId).eq("taskIdentifier", taskIdentifier))
+      .unique();
+    const now = Date.now();
+    if (!existing) {
+      await ctx.db.insert("chatSummaries", {
+        userId,
+        planId,
+        taskIdentifier,
+        summary,
+        summarizedThrough,
+        messageCount,
+        updatedAt: now,
+      });
+    } else if (existing.summarizedThrough < summarizedThrough) {
+      await ctx.db.patch(existing._id, {
+        summary,
+        summarizedThrough,
+        messageCount: existing.messageCount + messageCount,
+        updatedAt: now,
+      });
+    }
+    // Otherwise a concurrent run already covered these messages
+    await refreshThreadMarker(ctx, planId, taskIdentifier);
+  },
+});
+
+function createSummaryPrompt(topic: string, goal: string, previousSummary: string | null, messages: Array<{ role: string; content: string }>): string {
+  const transcript = messages
+    .map((m) => `${m.role === "user" ? "User" : m.role === "assistant" ? "Assistant" : "Note"}: ${m.content.trim().slice(0, 2000)}`)
+    .join("\n");
+  return `You maintain a running summary of a conversation between a user and an AI assistant about ${topic} (goal: "${goal}").
+
+${previousSummary ? `SUMMARY SO FAR:\n${previousSummary}\n\n` : ""}NEW MESSAGES TO FOLD IN:
+${transcript}
+
+Write the updated summary in plain text, at most 200 words. Keep what the user is trying to do, their situation and constraints, questions asked, advice already given, decisions and commitments, and anything still open. Drop greetings and small talk. Return only the summary.`;
+}
+
+/**
+ * Summarises one thread's backlog, if it has one. Failures are logged so one thread cannot
+ * stop the rest of a cron run.
+ */
+async function summarizeThread(
+  ctx: ActionCtx,
+  baseProvider: LLMProvider,
+  planId: Id<"plans">,
+  taskIdentifier: string
+): Promise<boolean> {
+  const backlog = await ctx.runQuery(internal.chatSummaries.getThreadBacklog, { planId, taskIdentifier });
+  if (!backlog) {
+    // Nothing due after all (the plan or its messages are gone); unmark the thread
+    if (taskIdentifier !== PLAN_CHAT_THREAD) {
+      await ctx.runMutation(internal.chatSummaries.syncThreadMarker, { planId, taskIdentifier });
+    }
+    return false;
+  }
+
+  // Summaries are a background nicety; skip users over their monthly cap
+  const quota = await ctx.runQuery(internal.aiUsage.getQuotaInternal, { userId: backlog.userId });
+  if (quota.exceeded) return false;
+
+  try {
+    const provider = withUsageRecording(baseProvider, "chat-summary", (entry) =>
+      ctx.runMutation(internal.aiUsage.recordInternal, { userId: backlog.userId, ...entry })
+    );
+    const summary = (
+      await provider.generate({
+        purpose: "summary",
+        prompt: createSummaryPrompt(
+          taskIdentifier === PLAN_CHAT_THREAD ? "the user's plan as a whole" : "one task in the user's plan",
+          backlog.goal,
+          backlog.previousSummary,
+          backlog.messages
+        ),
+      })
+    ).trim();
+    if (!summary) return false;
+
+    await ctx.runMutation(internal.chatSummaries.saveThreadSummary, {
+      userId: backlog.userId,
+      planId,
+      taskIdentifier,
+      summary,
+      summarizedThrough: backlog.messages[backlog.messages.length - 1].createdAt,
+      messageCount: backlog.messages.length,
+    });
+    return true;
+  } catch (error) {
+    console.error(`[chatSummaries] Summarising thread ${planId}/${taskIdentifier} failed:`, error);
+    return false;
+  }
+}
+
+export const summarizeRecentThreads = internalAction({
+  args: {},
+  handler: async (ctx): Promise<{ checked: number; summarized: number }> => {
+    let provider: LLMProvider;
+    try {
+      provider = getLLMProvider();
+    } catch (configError) {
+      console.error("LLM provider not configured for chat summaries:", configError);
+      return { checked: 0, summarized: 0 };
+    }
+
+    const threads: Array<{ planId: Id<"plans">; taskIdentifier: string }> = await ctx.runQuery(internal.chatSummaries.listThreadsNeedingSummary, {
+      limit: MAX_THREADS_PER_RUN,
+    });
+    let summarized = 0;
+    for (const thread of threads) {
+      if (await summarizeThread(ctx, provider, thread.planId, thread.taskIdentifier)) summarized++;
+    }
+    return { checked: threads.length, summarized };
+  },
+});
+
+export const summarizePlanChat = internalAction({
+  args: { planId: v.id("plans") },
+  handler: async (ctx, { planId }): Promise<boolean> => {
+    let provider: LLMProvider;
+    try {
+      provider = getLLMProvider();
+    } catch (configError) {
+      console.error("LLM provider not configured for chat summaries:", configError);
+      return false;
+    }
+    return summarizeThread(ctx, provider, planId, PLAN_CHAT_THREAD);
+  },
+});
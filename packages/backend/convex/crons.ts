@@ -0,0 +1,12 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Idle rate limit buckets are full again; drop them so the table stays small
+crons.daily("prune stale rate limit buckets", { hourUTC: 4, minuteUTC: 0 }, internal.rateLimits.pruneStaleBuckets);
+
+// Fold the older part of long chat threads into rolling summaries used as compact AI context
+crons.interval("summarize long chat threads", { hours: 1 }, internal.chatSummaries.summarizeRecentThreads);
+
+export default crons;
@@ -0,0 +1,12 @@
+import { httpRouter } from "convex/server";
+import { serveCalendarFeed } from "./calendarFeed";
+
+const http = httpRouter();
+
+http.route({
+  pathPrefix: "/calendar/",
+  method: "GET",
+  handler: serveCalendarFeed,
+});
+
+export default http;
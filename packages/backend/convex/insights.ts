@@ -1,6 +1,11 @@
 import { v } from "convex/values";
 import { action, mutation, query } from "./_generated/server";
-import { api } from "./_generated/api";
+import { api, internal } from "./_generated/api";
+import { countAvailableDays, isAvailableDay, resolvePlanStartDate, toDateKeyInTimezone } from "./lib/dates";
+import { computePlanAnalytics, PACE_WINDOW_DAYS } from "./lib/analytics";
+import { getLLMProvider, stripJsonFences } from "./lib/llm";
+import { withUsageRecording } from "./lib/aiUsage";
+import { PLAN_CHAT_THREAD } from "./chatSummaries";
 
 function requireUser(ctx: any) {
   const identity = ctx.auth.getUserIdentity();
@@ -82,6 +87,7 @@ export const recomputeInsightsForPlan = action({
     }
 
     const { page: messages } = await ctx.runQuery(api.chat.listMessagesForPlan, { planId, limit: 20 });
+    const threadSummaries = await ctx.runQuery(internal.chatSummaries.listSummariesForPlan, { planId, limit: 3 });
 
     // Calculate all metrics in code for accuracy
     const totalTasks = plan.monthlyMilestones.flatMap(month =>
@@ -110,7 +116,30 @@ export const recomputeInsightsForPlan = action({
 
     // Calculate time-based context (use user's timezone if provided)
     const now = new Date();
-    const timezone = userTimezone || 'UTC';
+    const timezone = userTimezone || plan.timezone || 'UTC';
+
+    // Resolve where "today" falls in the plan schedule from its persisted start date
+    const allTasks = plan.monthlyMilestones.flatMap(month =>
+      month.weeklyObjectives.flatMap(week => week.dailyTasks)
+    );
+    const startDate = resolvePlanStartDate(plan);
+    const todayKey = toDateKeyInTimezone(now.getTime(), timezone);
+    const todayIndex = countAvailableDays(startDate, todayKey, plan.availability);
+    const isRestDay = !isAvailableDay(todayKey, plan.availability);
+    const todaysTask = isRestDay ? null : allTasks[todayIndex] ?? null;
+    const overdueTasks = allTasks.slice(0, Math.max(0, todayIndex)).filter(task => !task.completed).length;
+    const scheduleStatus = todayIndex < 0
+      ? `Plan starts in ${-todayIndex} day(s) on ${startDate}`
+      : todayIndex >= allTasks.length
+        ? `Plan schedule ended ${todayIndex - allTasks.length + 1} day(s) ago`
+        : isRestDay
+          ? `Rest day; next is day ${todayIndex + 1} of ${allTasks.length} (started ${startDate})`
+          : `Day ${todayIndex + 1} of ${allTasks.length} (started ${startDate})`;
+    // Exact pace from completion times, the same numbers the analytics dashboard shows
+    const analytics = computePlanAnalytics({ ...plan, timezone: plan.timezone ?? timezone }, now.getTime());
+    const paceStatus = analytics.pace === null
+      ? 'not enough history yet'
+      : `${analytics.pace.toFixed(2)} tasks per working day over the last ${PACE_WINDOW_DAYS} days; projected finish ${analytics.projectedFinish ?? 'unknown'} (scheduled end ${analytics.endDate})`;
     const timeContext = {
       dayOfWeek: now.toLocaleDateString('en-US', { weekday: 'long', timeZone: timezone }),
       date: now.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: timezone }),
@@ -147,10 +176,14 @@ export const recomputeInsightsForPlan = action({
                     progressPercentage < 75 ? 'making_progress' : 'nearing_completion'
     };
 
-    // Format recent chat activity (better messaging)
+    // Format recent chat activity (better messaging); messages arrive newest first
     const recentChat = messages.length > 0
-      ? messages.slice(-3).map(m => `${m.role}: ${m.content}`).join(' | ')
+      ? messages.slice(0, 3).reverse().map(m => `${m.role}: ${m.content}`).join(' | ')
       : 'fresh_plan';
+    // Rolling summaries of long task and coach conversations give the gist beyond the last few messages
+    const conversationSummaries = threadSummaries.length > 0
+      ? `\n\nEARLIER CONVERSATIONS (summarised):\n${threadSummaries.map(s => `- ${s.taskIdentifier === PLAN_CHAT_THREAD ? 'Plan coach: ' : 'Task: '}${s.summary.replace(/\s+/g, ' ')}`).join('\n')}`
+      : '';
 
     const prompt = `You are an expert project coach providing personalized insights. Use these exact calculated metrics to create exactly 2 concise insights:
 
@@ -162,8 +195,12 @@ CURRENT STATUS:
 - Progress: ${progressPercentage}%
 - Current Time: ${timeContext.time} on ${timeContext.dayOfWeek} (${timeContext.timeOfDay})
 - Monthly Breakdown: ${monthlyProgress.map(m => `Month ${m.month}: ${m.progressPercent}% complete`).join(' | ')}
+- Schedule: ${scheduleStatus}
+- Today's Task: ${todaysTask ? `"${todaysTask.description}" (${todaysTask.completed ? 'done' : 'not done yet'})` : 'none scheduled'}
+- Overdue Tasks: ${overdueTasks}
+- Pace: ${paceStatus}
 - Plan Status: ${insightPriorities.progressStatus.replace('_', ' ')}
-- Activity Level: ${recentChat === 'fresh_plan' ? 'New plan just created' : recentChat}
+- Activity Level: ${recentChat === 'fresh_plan' ? 'New plan just created' : recentChat}${conversationSummaries}
 
 Generate exactly 2 insights in this JSON format:
 [{"kind": "progress|milestone|motivation|tip|warning|celebration", "text": "insight message", "score": 1-10}]
@@ -174,6 +211,7 @@ Guidelines for Professional Insights:
 - Keep messages concise, professional, and actionable (1-2 sentences)
 - Reference specific progress metrics naturally
 - Consider time of day for appropriate advice
+- If there are overdue tasks, acknowledge them without guilt and suggest how to catch up
 - Be encouraging and focus on next steps
 - For new plans, focus on getting started and building momentum
 - Avoid technical jargon like "early_stage" or "Recent Activity: none"
@@ -186,29 +224,25 @@ Examples of good insights:
 Return only valid JSON array, no extra text or formatting.`;
 
     try {
-      // Get Gemini API key from environment
-      const apiKey = process.env.GEMINI_API_KEY;
-      if (!apiKey) {
-        console.error("GEMINI_API_KEY not configured for insights generation");
+      let provider;
+      try {
+        provider = getLLMProvider();
+      } catch (configError) {
+        console.error("LLM provider not configured for insights generation:", configError);
         return;
       }
 
-      // Import GoogleGenerativeAI dynamically to avoid issues
-      const { GoogleGenerativeAI } = await import("@google/generative-ai");
-      const genAI = new GoogleGenerativeAI(apiKey);
-      const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash" });
-
-      const result = await model.generateContent(prompt);
-      const response = result.response;
-      let text = response.text();
-
-      // Clean the response - remove markdown code blocks if present
-      text = text.trim();
-      if (text.startsWith('```json')) {
-        text = text.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-      } else if (text.startsWith('```')) {
-        text = text.replace(/^```\s*/, '').replace(/\s*```$/, '');
+      // Insights are a background nicety; skip them once the user is over their monthly cap
+      const quota = await ctx.runQuery(internal.aiUsage.getQuotaInternal, { userId });
+      if (quota.exceeded) {
+        console.warn(`Skipping insights for ${userId}: monthly AI token cap reached`);
+        return;
       }
+      provider = withUsageRecording(provider, "insights", (entry) =>
+        ctx.runMutation(internal.aiUsage.recordInternal, { userId, ...entry })
+      );
+
+      const text = stripJsonFences(await provider.generate({ purpose: "insights", prompt, json: true }));
 
       // Parse the JSON response
       const generatedInsights: Array<{ kind: string; text: string; score?: number }> = JSON.parse(text.trim());
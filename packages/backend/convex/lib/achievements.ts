@@ -0,0 +1,450 @@
+import { countAvailableDays, isAvailableDay, isDateKey, toDateKeyInTimezone } from "./dates";
+import type { PlanAvailability } from "./dates";
+import { isRecordedCompletion } from "./progress";
+
+/**
+ * @description
+ * Achievement definitions and their criteria. Shared by the Convex achievements engine, which
+ * evaluates them after plan mutations and records unlocks, and by the web app, which shows them.
+ * Criteria only read plan content and activity stats, so they run the same in both places.
+ * Like the lifetime totals (lib/progress.ts), they only count completions recorded in the app,
+ * so progress that arrives with an import or an edit unlocks nothing.
+ */
+
+type TaskLike = { completed: boolean; completedAt?: number };
+type ObjectiveLike = { dailyTasks: TaskLike[] };
+type MilestoneLike = { weeklyObjectives: ObjectiveLike[] };
+
+/**
+ * The parts of a plan achievements look at; both stored plans and the web `FullPlan` fit.
+ */
+export interface AchievementPlan {
+  goal: string;
+  monthlyMilestones: MilestoneLike[];
+  startDate?: string;
+  timezone?: string;
+  availability?: PlanAvailability;
+  createdAt?: number;
+}
+
+// --- Helper Functions ---
+
+/**
+ * Counts the total number of daily tasks in the plan.
+ */
+const countTotalTasks = (plan: AchievementPlan): number => {
+  return plan.monthlyMilestones.reduce((monthCount, month) => {
+    return (
+      monthCount +
+      month.weeklyObjectives.reduce((weekCount, week) => {
+        return weekCount + (week.dailyTasks?.length || 0);
+      }, 0)
+    );
+  }, 0);
+};
+
+/**
+ * Counts the number of completed daily tasks in the plan.
+ */
+const countCompletedTasks = (plan: AchievementPlan): number => {
+  return plan.monthlyMilestones.reduce((monthCount, month) => {
+    return (
+      monthCount +
+      month.weeklyObjectives.reduce((weekCount, week) => {
+        return (
+          weekCount +
+          (week.dailyTasks?.filter(isRecordedCompletion).length || 0)
+        );
+      }, 0)
+    );
+  }, 0);
+};
+
+/**
+ * Checks if all tasks in a specific week are completed.
+ */
+const isWeekComplete = (week: ObjectiveLike): boolean => {
+  return week.dailyTasks?.length > 0 && week.dailyTasks.every(isRecordedCompletion);
+};
+
+/**
+ * Checks if all tasks in a specific month are completed.
+ */
+const isMonthComplete = (month: MilestoneLike): boolean => {
+  return (
+    month.weeklyObjectives?.length > 0 &&
+    month.weeklyObjectives.every((week) => isWeekComplete(week))
+  );
+};
+
+/**
+ * Checks if any week in the plan has exactly 7 daily tasks.
+ */
+const hasSevenDayWeek = (plan: AchievementPlan): boolean => {
+  return plan.monthlyMilestones.some((month) =>
+    month.weeklyObjectives.some((week) => week.dailyTasks?.length === 7)
+  );
+};
+
+/**
+ * Counts completed tasks within a specific month (1-based index).
+ */
+const countCompletedTasksInMonth = (plan: AchievementPlan, monthIndex: number): number => {
+  const monthData = plan.monthlyMilestones?.[monthIndex - 1];
+  if (!monthData) return 0;
+
+  return monthData.weeklyObjectives.reduce((weekCount, week) => {
+    return weekCount + (week.dailyTasks?.filter(isRecordedCompletion).length || 0);
+  }, 0);
+};
+
+/**
+ * Checks if the plan is comprehensive (at least 3 months and 10 total weeks).
+ */
+const isComprehensivePlan = (plan: AchievementPlan): boolean => {
+  const totalMonths = plan.monthlyMilestones?.length || 0;
+  const totalWeeks = plan.monthlyMilestones.reduce((count, month) => {
+    return count + (month.weeklyObjectives?.length || 0);
+  }, 0);
+
+  return totalMonths >= 3 && totalWeeks >= 10;
+};
+
+/**
+ * Tasks in schedule order and today's zero-based position in the schedule (negative before
+ * the start, past the end once the plan is over). Today is taken in the plan's timezone.
+ */
+const scheduleProgress = (plan: AchievementPlan, now: number) => {
+  const tasks = plan.monthlyMilestones.flatMap((month) => month.weeklyObjectives.flatMap((week) => week.dailyTasks));
+  const todayKey = toDateKeyInTimezone(now, plan.timezone);
+  const startKey = isDateKey(plan.startDate) ? plan.startDate : toDateKeyInTimezone(plan.createdAt ?? now, plan.timezone);
+  const todayIndex = countAvailableDays(startKey, todayKey, plan.availability);
+  return { tasks, todayIndex, isWorkingDay: isAvailableDay(todayKey, plan.availability) };
+};
+
+/**
+ * Checks that the plan has started and every task scheduled before today is completed.
+ */
+const isOnSchedule = (plan: AchievementPlan, now = Date.now()): boolean => {
+  const { tasks, todayIndex } = scheduleProgress(plan, now);
+  return todayIndex >= 1 && tasks.slice(0, todayIndex).every(isRecordedCompletion);
+};
+
+/**
+ * Checks that today is a working day of the plan and its task is completed.
+ */
+const isTodaysTaskDone = (plan: AchievementPlan, now = Date.now()): boolean => {
+  const { tasks, todayIndex, isWorkingDay } = scheduleProgress(plan, now);
+  return isWorkingDay && tasks[todayIndex] !== undefined && isRecordedCompletion(tasks[todayIndex]);
+};
+
+/**
+ * Activity around the plan: streaks across all of the user's plans (from the activity log),
+ * coach chat messages the user sent about this plan, and lifetime totals over all plans
+ * (lib/progress.ts).
+ */
+export interface AchievementStats {
+  currentStreak: number; // Consecutive days with a completed task, ending today or yesterday
+  longestStreak: number; // Longest such run ever
+  chatMessages?: number; // User messages in the plan and task chats; counted up to CHAT_MESSAGES_COUNTED
+  plansCompleted?: number; // Plans with every task completed
+  tasksCompleted?: number; // Completed tasks across all plans
+  categoriesExplored?: number; // Distinct goal categories across all plans
+}
+
+// The engine stops counting chat messages here; no criterion needs more
+export const CHAT_MESSAGES_COUNTED = 25;
+
+/**
+ * Defines the structure for an achievement.
+ */
+export interface AchievementDefinition {
+  id: string; // Unique identifier (e.g., "first-task")
+  name: string; // User-facing name (e.g., "One Small Step")
+  description: string; // User-facing description
+  // "plan" achievements unlock once per plan; "user" ones (streaks, lifetime totals) once per user
+  scope: "plan" | "user";
+  // Stats the criteria read beyond the plan itself; the engine only loads what pending achievements need
+  requires?: "streaks" | "chat" | "lifetime";
+  // Function to check if the achievement criteria are met based on the plan and the user's activity
+  checkCriteria: (plan: AchievementPlan, stats?: AchievementStats) => boolean;
+}
+
+// Streak lengths (in days) that unlock an achievement, shortest first
+export const STREAK_ACHIEVEMENT_DAYS = [3, 7, 30] as const;
+
+/**
+ * List of all defined achievements in the application.
+ * Achievements are checked in the order they appear in this list.
+ */
+export const achievementDefinitions: AchievementDefinition[] = [
+  // --- Task Completion Achievements ---
+  {
+    id: "first-task",
+    name: "One Small Step",
+    description: "Completed your first daily task.",
+    scope: "plan",
+    checkCriteria: (plan) => countCompletedTasks(plan) >= 1,
+  },
+  {
+    id: "five-tasks",
+    name: "Getting Started",
+    description: "Completed 5 daily tasks.",
+    scope: "plan",
+    checkCriteria: (plan) => countCompletedTasks(plan) >= 5,
+  },
+  {
+    id: "ten-tasks",
+    name: "Making Progress",
+    description: "Completed 10 daily tasks.",
+    scope: "plan",
+    checkCriteria: (plan) => countCompletedTasks(plan) >= 10,
+  },
+  {
+    id: "twenty-five-tasks",
+    name: "Dedicated Learner",
+    description: "Completed 25 daily tasks.",
+    scope: "plan",
+    checkCriteria: (plan) => countCompletedTasks(plan) >= 25,
+  },
+  {
+    id: "fifty-tasks",
+    name: "Halfway There (Maybe!)",
+    description: "Completed 50 daily tasks.",
+    scope: "plan",
+    checkCriteria: (plan) => countCompletedTasks(plan) >= 50,
+  },
+
+  // --- Section Completion Achievements ---
+  {
+    id: "first-week-complete",
+    name: "Week Down!",
+    description: "Completed all tasks for your first week.",
+    scope: "plan",
+    checkCriteria: (plan) =>
+      plan.monthlyMilestones?.[0]?.weeklyObjectives?.[0] &&
+      isWeekComplete(plan.monthlyMilestones[0].weeklyObjectives[0]),
+  },
+  {
+    id: "first-month-complete",
+    name: "Month Mastered!",
+    description: "Completed all tasks for your first month.",
+    scope: "plan",
+    checkCriteria: (plan) =>
+      plan.monthlyMilestones?.[0] && isMonthComplete(plan.monthlyMilestones[0]),
+  },
+  {
+    id: "all-weeks-complete",
+    name: "Weekly Conqueror",
+    description: "Completed all tasks for every week in the plan.",
+    scope: "plan",
+    checkCriteria: (plan) =>
+      plan.monthlyMilestones.every((month) =>
+        month.weeklyObjectives.every((week) => isWeekComplete(week))
+      ),
+  },
+  {
+    id: "all-months-complete",
+    name: "Milestone Monarch",
+    description: "Completed all tasks for every month in the plan.",
+    scope: "plan",
+    checkCriteria: (plan) => plan.monthlyMilestones.every((month) => isMonthComplete(month)),
+  },
+  {
+    id: "plan-half-complete",
+    name: "Over the Hump",
+    description: "Completed 50% of all tasks in your plan.",
+    scope: "plan",
+    checkCriteria: (plan) => {
+      const total = countTotalTasks(plan);
+      return total > 0 && countCompletedTasks(plan) >= total / 2;
+    },
+  },
+  {
+    id: "plan-100-complete",
+    name: "Plan Perfected!",
+    description: "Completed 100% of all tasks in your plan!",
+    scope: "plan",
+    checkCriteria: (plan) => {
+      const total = countTotalTasks(plan);
+      return total > 0 && countCompletedTasks(plan) >= total;
+    },
+  },
+
+  // --- Plan Structure/Goal Achievements ---
+  {
+    id: "goal-set",
+    name: "Aiming High",
+    description: "Your plan has a defined goal.",
+    scope: "plan",
+    checkCriteria: (plan) => !!plan.goal && plan.goal.trim().length > 0,
+  },
+  {
+    id: "goal-detailed",
+    name: "Clear Vision",
+    description: "Your plan goal is detailed (over 50 characters).",
+    scope: "plan",
+    checkCriteria: (plan) => plan.goal?.length > 50,
+  },
+  {
+    id: "plan-packed",
+    name: "Action Packed",
+    description: "Your plan contains over 100 daily tasks.",
+    scope: "plan",
+    checkCriteria: (plan) => countTotalTasks(plan) > 100,
+  },
+  {
+    id: "completionist-prep",
+    name: "Ready for Anything",
+    description: "Your plan has more than 80 tasks.", // Encourages bigger plans
+    scope: "plan",
+    checkCriteria: (plan) => countTotalTasks(plan) > 80,
+  },
+  {
+    id: "comprehensive-plan",
+    name: "Comprehensive Plan",
+    description: "Your plan spans at least 3 months and 10 weeks.",
+    scope: "plan",
+    checkCriteria: (plan) => isComprehensivePlan(plan),
+  },
+  {
+    id: "task-master-week",
+    name: "Weekly Task Master",
+    description: "At least one week in your plan has 7 daily tasks.",
+    scope: "plan",
+    checkCriteria: (plan) => hasSevenDayWeek(plan),
+  },
+
+  // --- Miscellaneous Achievements ---
+  {
+    id: "month-1-starter",
+    name: "Month 1 Kickstart",
+    description: "Completed at least one task in the first month.",
+    scope: "plan",
+    checkCriteria: (plan) => countCompletedTasksInMonth(plan, 1) >= 1,
+  },
+  {
+    id: "month-2-progress",
+    name: "Month 2 Momentum",
+    description: "Completed at least one task in the second month.",
+    scope: "plan",
+    checkCriteria: (plan) => countCompletedTasksInMonth(plan, 2) >= 1,
+  },
+  {
+    id: "month-3-finisher",
+    name: "Month 3 Finisher",
+    description: "Completed at least one task in the third month.",
+    scope: "plan",
+    checkCriteria: (plan) => countCompletedTasksInMonth(plan, 3) >= 1,
+  },
+
+  // --- Schedule Achievements (relative to the plan's start date) ---
+  {
+    id: "on-schedule",
+    name: "Right on Schedule",
+    description: "Completed every task scheduled before today.",
+    scope: "plan",
+    checkCriteria: (plan) => isOnSchedule(plan),
+  },
+  {
+    id: "todays-task-done",
+    name: "Seize the Day",
+    description: "Completed today's scheduled task.",
+    scope: "plan",
+    checkCriteria: (plan) => isTodaysTaskDone(plan),
+  },
+
+  // --- Streak Achievements (consecutive days with a completed task, across plans) ---
+  {
+    id: "streak-3",
+    name: "On a Roll",
+    description: "Completed tasks on 3 days in a row.",
+    scope: "user",
+    requires: "streaks",
+    checkCriteria: (_plan, stats) => (stats?.longestStreak ?? 0) >= 3,
+  },
+  {
+    id: "streak-7",
+    name: "Week Warrior",
+    description: "Completed tasks on 7 days in a row.",
+    scope: "user",
+    requires: "streaks",
+    checkCriteria: (_plan, stats) => (stats?.longestStreak ?? 0) >= 7,
+  },
+  {
+    id: "streak-30",
+    name: "Unstoppable",
+    description: "Completed tasks on 30 days in a row.",
+    scope: "user",
+    requires: "streaks",
+    checkCriteria: (_plan, stats) => (stats?.longestStreak ?? 0) >= 30,
+  },
+
+  // --- Lifetime Achievements (across all of the user's plans) ---
+  {
+    id: "plans-completed-1",
+    name: "Finisher",
+    description: "Completed every task in a plan.",
+    scope: "user",
+    requires: "lifetime",
+    checkCriteria: (_plan, stats) => (stats?.plansCompleted ?? 0) >= 1,
+  },
+  {
+    id: "plans-completed-3",
+    name: "Serial Finisher",
+    description: "Completed every task in 3 plans.",
+    scope: "user",
+    requires: "lifetime",
+    checkCriteria: (_plan, stats) => (stats?.plansCompleted ?? 0) >= 3,
+  },
+  {
+    id: "lifetime-100-tasks",
+    name: "Centurion",
+    description: "Completed 100 tasks across all your plans.",
+    scope: "user",
+    requires: "lifetime",
+    checkCriteria: (_plan, stats) => (stats?.tasksCompleted ?? 0) >= 100,
+  },
+  {
+    id: "lifetime-500-tasks",
+    name: "Long Hauler",
+    description: "Completed 500 tasks across all your plans.",
+    scope: "user",
+    requires: "lifetime",
+    checkCriteria: (_plan, stats) => (stats?.tasksCompleted ?? 0) >= 500,
+  },
+  {
+    id: "categories-3",
+    name: "Explorer",
+    description: "Made plans for goals in 3 different categories.",
+    scope: "user",
+    requires: "lifetime",
+    checkCriteria: (_plan, stats) => (stats?.categoriesExplored ?? 0) >= 3,
+  },
+  {
+    id: "categories-5",
+    name: "Renaissance Mind",
+    description: "Made plans for goals in 5 different categories.",
+    scope: "user",
+    requires: "lifetime",
+    checkCriteria: (_plan, stats) => (stats?.categoriesExplored ?? 0) >= 5,
+  },
+
+  // --- Coach Chat Achievements ---
+  {
+    id: "first-chat",
+    name: "Asking for Directions",
+    description: "Sent your first message to the plan coach.",
+    scope: "plan",
+    requires: "chat",
+    checkCriteria: (_plan, stats) => (stats?.chatMessages ?? 0) >= 1,
+  },
+  {
+    id: "chat-regular",
+    name: "Deep Diver",
+    description: `Sent ${CHAT_MESSAGES_COUNTED} messages to the plan coach.`,
+    scope: "plan",
+    requires: "chat",
+    checkCriteria: (_plan, stats) => (stats?.chatMessages ?? 0) >= CHAT_MESSAGES_COUNTED,
+  },
+];
@@ -0,0 +1,114 @@
+import type { LLMProvider, LLMRequest, LLMUsage } from "./llm";
+
+/**
+ * @description
+ * AI usage accounting shared by the Next.js API routes and Convex actions. Every LLM call
+ * made through a provider wrapped with `withUsageRecording` produces one `aiUsage` entry.
+ */
+
+export type AIUsageRoute = "chat" | "generate-plan" | "validate-goal" | "insights" | "chat-summary" | "replan";
+export type AIUsageOutcome = "success" | "error" | "cancelled" | "blocked";
+
+export interface AIUsageEntry {
+  route: AIUsageRoute;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  outcome: AIUsageOutcome;
+  error?: string;
+}
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * Monthly token cap per user from `AI_MONTHLY_TOKEN_CAP` (Convex environment), or null
+ * when unset. Months are calendar months in UTC.
+ */
+export function getMonthlyTokenCap(env: Env = process.env): number | null {
+  const cap = Number(env.AI_MONTHLY_TOKEN_CAP);
+  return Number.isFinite(cap) && cap > 0 ? Math.floor(cap) : null;
+}
+
+export function startOfMonthUtc(now: number): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+}
+
+export function startOfNextMonthUtc(now: number): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+}
+
+/**
+ * Wraps a provider so each `generate` / `stream` call is timed and recorded with its token
+ * usage and outcome. Recording failures are logged and never fail the AI call itself.
+ */
+export function withUsageRecording(
+  provider: LLMProvider,
+  route: AIUsageRoute,
+  record: (entry: AIUsageEntry) => Promise<unknown>
+): LLMProvider {
+  const track = (request: LLMRequest) => {
+    const startedAt = Date.now();
+    let usage: LLMUsage | null = null;
+    const tracked: LLMRequest = {
+      ...request,
+      onUsage: (reported) => {
+        usage = reported;
+        request.onUsage?.(reported);
+      },
+    };
+    const finish = async (outcome: AIUsageOutcome, error?: unknown) => {
+      const reported = usage as LLMUsage | null;
+      try {
+        await record({
+          route,
+          provider: provider.name,
+          model: reported?.model ?? "unknown",
+          promptTokens: reported?.promptTokens ?? 0,
+          completionTokens: reported?.completionTokens ?? 0,
+          latencyMs: Date.now() - startedAt,
+          outcome,
+          ...(error === undefined ? {} : { error: String(error instanceof Error ? error.message : error).slice(0, 500) }),
+        });
+      } catch (recordError) {
+        console.error("[aiUsage] Failed to record AI usage:", recordError);
+      }
+    };
+    return { tracked, finish };
+  };
+
+  return {
+    name: provider.name,
+    async generate(request) {
+      const { tracked, finish } = track(request);
+      try {
+        const text = await provider.generate(tracked);
+        await finish("success");
+        return text;
+      } catch (error) {
+        await finish("error", error);
+        throw error;
+      }
+    },
+    async *stream(request) {
+      const { tracked, finish } = track(request);
+      let finished = false;
+      try {
+        yield* provider.stream(tracked);
+        finished = true;
+        await finish("success");
+      } catch (error) {
+        finished = true;
+        // An aborted call was stopped on purpose, not a failure
+        await finish(request.signal?.aborted ? "cancelled" : "error", error);
+        throw error;
+      } finally {
+        // The consumer stopped reading early (e.g. the client disconnected)
+        if (!finished) await finish("cancelled");
+      }
+    },
+  };
+}
@@ -0,0 +1,198 @@
+import {
+  addDaysToKey,
+  countAvailableDays,
+  daysBetweenKeys,
+  isDateKey,
+  scheduleDateKeys,
+  toDateKeyInTimezone,
+  weekdayOfKey,
+} from "./dates";
+import type { PlanAvailability } from "./dates";
+
+/**
+ * @description
+ * Progress analytics for one plan, computed from its schedule and the `completedAt` stamps of
+ * its tasks: burndown against the schedule, weekly velocity, completion rates per milestone
+ * and per weekday, and a finish date projected from the recent pace. Dates are calendar days
+ * in the plan's timezone.
+ */
+
+type TaskLike = { completed: boolean; completedAt?: number };
+type MilestoneLike = { month: number; milestone: string; weeklyObjectives: Array<{ dailyTasks: TaskLike[] }> };
+
+export interface AnalyticsPlan {
+  monthlyMilestones: MilestoneLike[];
+  startDate?: string;
+  timezone?: string;
+  availability?: PlanAvailability;
+  createdAt: number;
+}
+
+// Recent calendar days the pace is measured over
+export const PACE_WINDOW_DAYS = 14;
+// Longest burndown and velocity range; keeps long-abandoned plans to a sensible size
+const MAX_RANGE_DAYS = 400;
+// Projections further out than this are reported as unknown
+const MAX_PROJECTION_DAYS = 3650;
+
+export interface BurndownPoint {
+  date: string;
+  ideal: number; // Tasks still scheduled after this day
+  remaining: number | null; // Tasks not completed by the end of this day; null for future days
+}
+
+export interface VelocityWeek {
+  weekStart: string; // Monday of the week
+  completed: number;
+  scheduled: number;
+}
+
+export interface MilestoneRate {
+  month: number;
+  milestone: string;
+  total: number;
+  due: number; // Tasks scheduled before today
+  completed: number;
+}
+
+export interface WeekdayRate {
+  weekday: number; // 0 = Sunday
+  due: number; // Tasks scheduled on this weekday before today
+  completedOnTime: number; // Of those, tasks completed by the end of their day
+  completions: number; // Tasks completed on this weekday, whatever day they were scheduled for
+}
+
+export interface PlanAnalytics {
+  todayKey: string;
+  startDate: string;
+  endDate: string; // Scheduled date of the last task
+  totalTasks: number;
+  completedTasks: number;
+  undatedCompletions: number; // Completed before completion times were recorded; counted on the start date
+  burndown: BurndownPoint[];
+  velocity: VelocityWeek[];
+  milestones: MilestoneRate[];
+  weekdays: WeekdayRate[];
+  pace: number | null; // Tasks completed per working day over the last PACE_WINDOW_DAYS
+  projectedFinish: string | null; // Completion date at the current pace; null when there is no pace
+}
+
+const weekStartOf = (key: string) => addDaysToKey(key, -((weekdayOfKey(key) + 6) % 7));
+
+export function computePlanAnalytics(plan: AnalyticsPlan, now: number = Date.now()): PlanAnalytics {
+  const todayKey = toDateKeyInTimezone(now, plan.timezone);
+  const startDate = isDateKey(plan.startDate) ? plan.startDate : toDateKeyInTimezone(plan.createdAt, plan.timezone);
+
+  const tasks = plan.monthlyMilestones.flatMap((month, m) =>
+    month.weeklyObjectives.flatMap((week) => week.dailyTasks.map((task) => ({ task, m })))
+  );
+  const scheduled = scheduleDateKeys(startDate, tasks.length, plan.availability);
+  const endDate = scheduled[scheduled.length - 1] ?? startDate;
+
+  // Completion day of each completed task; legacy completions without a time count on the start date
+  let undatedCompletions = 0;
+  const completedOn = tasks.map(({ task }) => {
+    if (!task.completed) return null;
+    if (task.completedAt === undefined) {
+      undatedCompletions++;
+      return startDate;
+    }
+    return toDateKeyInTimezone(task.completedAt, plan.timezone);
+  });
+  const completionDates = completedOn.filter((key): key is string => key !== null).sort();
+  const completedTasks = completionDates.length;
+
+  const rangeEnd = todayKey > endDate ? todayKey : endDate;
+  const rangeDays = Math.min(Math.max(0, daysBetweenKeys(startDate, rangeEnd)) + 1, MAX_RANGE_DAYS);
+  const rangeKeys = Array.from({ length: rangeDays }, (_, i) => addDaysToKey(startDate, i));
+
+  // Both series only ever fall, so one pass with moving cursors suffices
+  const sortedSchedule = [...scheduled].sort();
+  const burndown: BurndownPoint[] = [];
+  let scheduledThrough = 0;
+  let completedThrough = 0;
+  for (const date of rangeKeys) {
+    while (scheduledThrough < sortedSchedule.length && sortedSchedule[scheduledThrough] <= date) scheduledThrough++;
+    while (completedThrough < completionDates.length && completionDates[completedThrough] <= date) completedThrough++;
+    burndown.push({
+      date,
+      ideal: tasks.length - scheduledThrough,
+      remaining: date <= todayKey ? tasks.length - completedThrough : null,
+    });
+  }
+
+  const velocityByWeek = new Map<string, VelocityWeek>();
+  for (const date of rangeKeys) {
+    const weekStart = weekStartOf(date);
+    if (!velocityByWeek.has(weekStart)) velocityByWeek.set(weekStart, { weekStart, completed: 0, scheduled: 0 });
+  }
+  scheduled.forEach((key) => {
+    const week = velocityByWeek.get(weekStartOf(key));
+    if (week) week.scheduled++;
+  });
+  completionDates.forEach((key) => {
+    const week = velocityByWeek.get(weekStartOf(key < startDate ? startDate : key));
+    if (week) week.completed++;
+  });
+
+  const milestones: MilestoneRate[] = plan.monthlyMilestones.map((month) => ({
+    month: month.month,
+    milestone: month.milestone,
+    total: 0,
+    due: 0,
+    completed: 0,
+  }));
+  const weekdays: WeekdayRate[] = Array.from({ length: 7 }, (_, weekday) => ({
+    weekday,
+    due: 0,
+    completedOnTime: 0,
+    completions: 0,
+  }));
+  tasks.forEach(({ task, m }, i) => {
+    const isDue = scheduled[i] < todayKey;
+    milestones[m].total++;
+    if (isDue) milestones[m].due++;
+    if (task.completed) milestones[m].completed++;
+    if (isDue) {
+      const weekday = weekdays[weekdayOfKey(scheduled[i])];
+      weekday.due++;
+      if (completedOn[i] !== null && completedOn[i]! <= scheduled[i]) weekday.completedOnTime++;
+    }
+    if (task.completed && task.completedAt !== undefined) weekdays[weekdayOfKey(completedOn[i]!)].completions++;
+  });
+
+  // Pace over the recent window (or since the start, for younger plans), per working day
+  const windowStart = [startDate, addDaysToKey(todayKey, -(PACE_WINDOW_DAYS - 1))].sort()[1];
+  const windowWorkingDays = countAvailableDays(windowStart, addDaysToKey(todayKey, 1), plan.availability);
+  const windowCompletions = completedOn.filter(
+    (key, i) => key !== null && tasks[i].task.completedAt !== undefined && key >= windowStart && key <= todayKey
+  ).length;
+  const pace = windowWorkingDays > 0 ? windowCompletions / windowWorkingDays : null;
+
+  const remaining = tasks.length - completedTasks;
+  let projectedFinish: string | null = null;
+  if (tasks.length > 0 && remaining === 0) {
+    projectedFinish = completionDates[completionDates.length - 1];
+  } else if (pace && remaining > 0) {
+    const needed = Math.ceil(remaining / pace);
+    if (needed <= MAX_PROJECTION_DAYS) {
+      const keys = scheduleDateKeys(todayKey > startDate ? todayKey : startDate, needed, plan.availability);
+      projectedFinish = keys[keys.length - 1];
+    }
+  }
+
+  return {
+    todayKey,
+    startDate,
+    endDate,
+    totalTasks: tasks.length,
+    completedTasks,
+    undatedCompletions,
+    burndown,
+    velocity: [...velocityByWeek.values()],
+    milestones,
+    weekdays,
+    pace,
+    projectedFinish,
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * @description
+ * Calendar-date helpers shared by Convex functions. Plan schedules are anchored to a
+ * `YYYY-MM-DD` start date so that "Day N" always maps to the same calendar day: the Nth day
+ * on or after the start that the plan's availability (working weekdays, days off) allows.
+ */
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Returns the `YYYY-MM-DD` key for the given instant in an IANA timezone (UTC fallback).
+ */
+export function toDateKeyInTimezone(ms: number, timezone?: string): string {
+  try {
+    return new Intl.DateTimeFormat("en-CA", {
+      timeZone: timezone || "UTC",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+    }).format(new Date(ms));
+  } catch {
+    // Invalid timezone - fall back to UTC
+    return new Date(ms).toISOString().slice(0, 10);
+  }
+}
+
+/**
+ * Whole calendar days from `fromKey` to `toKey` (negative if `toKey` is earlier).
+ */
+export function daysBetweenKeys(fromKey: string, toKey: string): number {
+  const [fy, fm, fd] = fromKey.split("-").map(Number);
+  const [ty, tm, td] = toKey.split("-").map(Number);
+  return Math.round((Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / MS_PER_DAY);
+}
+
+/**
+ * Returns a new `YYYY-MM-DD` key offset by the given number of days.
+ */
+export function addDaysToKey(key: string, days: number): string {
+  const [y, m, d] = key.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * Whether the value is a `YYYY-MM-DD` key of a real calendar day; "2024-02-30" is rejected
+ * because it does not survive a round trip through `Date.UTC`.
+ */
+export function isDateKey(value: unknown): value is string {
+  return typeof value === "string" && DATE_KEY_PATTERN.test(value) && addDaysToKey(value, 0) === value;
+}
+
+/**
+ * Resolves a plan's start date, falling back to its creation day for legacy documents.
+ */
+export function resolvePlanStartDate(plan: {
+  startDate?: string;
+  timezone?: string;
+  createdAt: number;
+}): string {
+  if (isDateKey(plan.startDate)) return plan.startDate;
+  return toDateKeyInTimezone(plan.createdAt, plan.timezone);
+}
+
+/**
+ * Which days a plan schedules work on. Plans without availability work every day.
+ */
+export interface PlanAvailability {
+  activeWeekdays: number[]; // 0 = Sunday … 6 = Saturday
+  blackoutDates: string[]; // `YYYY-MM-DD` days off, e.g. holidays or a skipped day
+}
+
+/**
+ * Day of the week of a `YYYY-MM-DD` key, 0 = Sunday.
+ */
+export function weekdayOfKey(key: string): number {
+  const [y, m, d] = key.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+}
+
+/**
+ * Whether tasks can be scheduled on a date. A plan with no active weekdays would never
+ * schedule anything, so it is treated as working every day.
+ */
+export function isAvailableDay(key: string, availability?: PlanAvailability | null): boolean {
+  if (!availability) return true;
+  if (availability.blackoutDates.includes(key)) return false;
+  return availability.activeWeekdays.length === 0 || availability.activeWeekdays.includes(weekdayOfKey(key));
+}
+
+/**
+ * The first `count` available dates on or after `startKey`: task N of the plan is on the Nth.
+ */
+export function scheduleDateKeys(startKey: string, count: number, availability?: PlanAvailability | null): string[] {
+  const keys: string[] = [];
+  let key = startKey;
+  while (keys.length < count) {
+    if (isAvailableDay(key, availability)) keys.push(key);
+    key = addDaysToKey(key, 1);
+  }
+  return keys;
+}
+
+/**
+ * Available dates from `fromKey` up to but excluding `toKey`; negative calendar days
+ * when `toKey` is earlier, so "days until the start" stays meaningful.
+ */
+export function countAvailableDays(fromKey: string, toKey: string, availability?: PlanAvailability | null): number {
+  const span = daysBetweenKeys(fromKey, toKey);
+  if (span <= 0 || !availability) return span;
+  let count = 0;
+  for (let i = 0; i < span; i++) {
+    if (isAvailableDay(addDaysToKey(fromKey, i), availability)) count++;
+  }
+  return count;
+}
+
+/**
+ * The date `count` available days before `key` (the latest available date when `count`
+ * is 1), or `key` itself when `count` is 0.
+ */
+export function subtractAvailableDays(key: string, count: number, availability?: PlanAvailability | null): string {
+  let result = key;
+  for (let remaining = count; remaining > 0; ) {
+    result = addDaysToKey(result, -1);
+    if (isAvailableDay(result, availability)) remaining--;
+  }
+  return result;
+}
+
+/**
+ * Sorts and de-duplicates availability input, dropping invalid weekdays and dates.
+ */
+export function normalizeAvailability(availability: PlanAvailability): PlanAvailability {
+  const activeWeekdays = [...new Set(availability.activeWeekdays)]
+    .filter((day) => Number.isInteger(day) && day >= 0 && day <= 6)
+    .sort((a, b) => a - b);
+  const blackoutDates = [...new Set(availability.blackoutDates)].filter(isDateKey).sort();
+  return { activeWeekdays, blackoutDates };
+}
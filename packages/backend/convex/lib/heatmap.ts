@@ -0,0 +1,100 @@
+import { addDaysToKey, resolvePlanStartDate, scheduleDateKeys, toDateKeyInTimezone, weekdayOfKey } from "./dates";
+import type { PlanAvailability } from "./dates";
+
+/**
+ * @description
+ * Year-long contribution heatmap of a user: task completions per calendar day across all of
+ * their plans, from the `completedAt` stamps of completed tasks. Completions recorded before
+ * completion times existed have no day and are left out.
+ */
+
+type TaskLike = { description: string; completed: boolean; completedAt?: number };
+type MilestoneLike = { weeklyObjectives: Array<{ dailyTasks: TaskLike[] }> };
+
+export interface HeatmapPlan<PlanId extends string = string> {
+  _id: PlanId;
+  goal: string;
+  monthlyMilestones: MilestoneLike[];
+  startDate?: string;
+  timezone?: string;
+  availability?: PlanAvailability;
+  createdAt: number;
+}
+
+// Whole weeks shown, Sunday to Saturday, ending with the current week
+export const HEATMAP_WEEKS = 53;
+
+export interface HeatmapTask<PlanId extends string = string> {
+  planId: PlanId;
+  goal: string;
+  description: string;
+  dayNumber: number; // "Day N" of the plan
+  scheduledDate: string; // Calendar day the task is scheduled on
+  completedAt: number;
+}
+
+export interface HeatmapDay<PlanId extends string = string> {
+  date: string;
+  count: number;
+  tasks: HeatmapTask<PlanId>[]; // In completion order
+}
+
+export interface CompletionHeatmap<PlanId extends string = string> {
+  startDate: string; // A Sunday
+  endDate: string; // Today
+  days: HeatmapDay<PlanId>[]; // Only days with completions, oldest first
+  totalCompletions: number;
+  activeDays: number;
+  maxCount: number; // Most completions on a single day, for scaling colours
+}
+
+/**
+ * Builds the heatmap ending on `todayKey`. Completion days use the viewer's timezone when
+ * given, so the heatmap lines up with their calendar, and each plan's own timezone otherwise.
+ */
+export function computeCompletionHeatmap<PlanId extends string>(
+  plans: HeatmapPlan<PlanId>[],
+  todayKey: string,
+  timezone?: string
+): CompletionHeatmap<PlanId> {
+  const currentWeekStart = addDaysToKey(todayKey, -weekdayOfKey(todayKey));
+  const startDate = addDaysToKey(currentWeekStart, -(HEATMAP_WEEKS - 1) * 7);
+
+  const byDate = new Map<string, HeatmapTask<PlanId>[]>();
+  for (const plan of plans) {
+    const tasks = plan.monthlyMilestones.flatMap((month) => month.weeklyObjectives.flatMap((week) => week.dailyTasks));
+    const scheduled = scheduleDateKeys(resolvePlanStartDate(plan), tasks.length, plan.availability);
+    tasks.forEach((task, i) => {
+      if (!task.completed || task.completedAt === undefined) return;
+      const date = toDateKeyInTimezone(task.completedAt, timezone || plan.timezone);
+      if (date < startDate || date > todayKey) return;
+      const entry: HeatmapTask<PlanId> = {
+        planId: plan._id,
+        goal: plan.goal,
+        description: task.description,
+        dayNumber: i + 1,
+        scheduledDate: scheduled[i],
+        completedAt: task.completedAt,
+      };
+      const day = byDate.get(date);
+      if (day) day.push(entry);
+      else byDate.set(date, [entry]);
+    });
+  }
+
+  const days = [...byDate]
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([date, tasks]) => ({
+      date,
+      count: tasks.length,
+      tasks: tasks.sort((a, b) => a.completedAt - b.completedAt),
+    }));
+  return {
+    startDate,
+    endDate: todayKey,
+    days,
+    totalCompletions: days.reduce((sum, day) => sum + day.count, 0),
+    activeDays: days.length,
+    maxCount: days.reduce((max, day) => Math.max(max, day.count), 0),
+  };
+}
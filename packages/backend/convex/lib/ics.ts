@@ -0,0 +1,144 @@
+import { addDaysToKey, scheduleDateKeys } from "./dates";
+import type { PlanAvailability } from "./dates";
+
+/**
+ * @description
+ * iCalendar (RFC 5545) rendering for plans. Each daily task becomes one all-day component
+ * on the calendar date its plan day maps to. Shared by the in-app `.ics` download and the
+ * subscribable Convex feed so both produce identical calendars.
+ */
+
+export type CalendarComponent = "event" | "todo";
+
+type TaskLike = { id?: string; day: number; description: string; completed: boolean };
+type ObjectiveLike = { objective: string; dailyTasks: TaskLike[] };
+type MilestoneLike = { milestone: string; weeklyObjectives: ObjectiveLike[] };
+
+export interface CalendarPlan {
+  goal: string;
+  monthlyMilestones: MilestoneLike[];
+}
+
+export interface CalendarOptions {
+  startDate: string; // `YYYY-MM-DD` that Day 1 maps to
+  availability?: PlanAvailability; // Working days; days off get no tasks
+  component?: CalendarComponent; // VEVENT (default, widest support) or VTODO
+  planKey?: string; // Stable prefix for UIDs of tasks without ids
+  now?: number;
+}
+
+const PRODID = "-//MilestoneAI//Plan Calendar//EN";
+
+export function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Folds a content line to at most 75 octets per line, continuation lines starting with a space.
+ */
+export function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74; // Continuations spend one octet on the space
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+const toIcsDate = (dateKey: string) => dateKey.replace(/-/g, "");
+
+const toIcsTimestamp = (ms: number) =>
+  new Date(ms).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+/**
+ * Renders the plan as a complete VCALENDAR document with CRLF line endings.
+ */
+export function buildPlanCalendar(plan: CalendarPlan, options: CalendarOptions): string {
+  const component = options.component ?? "event";
+  const stamp = toIcsTimestamp(options.now ?? Date.now());
+  const planKey = options.planKey ?? "plan";
+  const lines: string[] = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(plan.goal)}`,
+    `X-WR-CALDESC:${escapeIcsText(`MilestoneAI plan: ${plan.goal}`)}`,
+    // Hint for subscribed calendars to pick up completion changes reasonably quickly
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+  ];
+
+  const taskCount = plan.monthlyMilestones.reduce(
+    (total, month) => total + month.weeklyObjectives.reduce((sum, week) => sum + week.dailyTasks.length, 0),
+    0
+  );
+  const dates = scheduleDateKeys(options.startDate, taskCount, options.availability);
+  let index = 0;
+  for (const month of plan.monthlyMilestones) {
+    for (const week of month.weeklyObjectives) {
+      for (const task of week.dailyTasks) {
+        const date = dates[index];
+        const planDay = index + 1;
+        index++;
+
+        const description = [
+          `Goal: ${plan.goal}`,
+          `Milestone: ${month.milestone}`,
+          `Weekly objective: ${week.objective}`,
+          `Status: ${task.completed ? "completed" : "not done yet"}`,
+        ].join("\n");
+        const summary = `Day ${planDay}: ${task.description}`;
+        const uid = `${task.id ?? `${planKey}-day-${planDay}`}@milestoneai`;
+
+        if (component === "todo") {
+          lines.push(
+            "BEGIN:VTODO",
+            `UID:${uid}`,
+            `DTSTAMP:${stamp}`,
+            `DTSTART;VALUE=DATE:${toIcsDate(date)}`,
+            `DUE;VALUE=DATE:${toIcsDate(date)}`,
+            `SUMMARY:${escapeIcsText(summary)}`,
+            `DESCRIPTION:${escapeIcsText(description)}`,
+            `STATUS:${task.completed ? "COMPLETED" : "NEEDS-ACTION"}`,
+            `PERCENT-COMPLETE:${task.completed ? 100 : 0}`,
+            "END:VTODO"
+          );
+        } else {
+          // VEVENT has no completion status, so completed tasks are marked in the title
+          lines.push(
+            "BEGIN:VEVENT",
+            `UID:${uid}`,
+            `DTSTAMP:${stamp}`,
+            `DTSTART;VALUE=DATE:${toIcsDate(date)}`,
+            `DTEND;VALUE=DATE:${toIcsDate(addDaysToKey(date, 1))}`,
+            `SUMMARY:${escapeIcsText(`${task.completed ? "✓ " : ""}${summary}`)}`,
+            `DESCRIPTION:${escapeIcsText(description)}`,
+            "STATUS:CONFIRMED",
+            "TRANSP:TRANSPARENT",
+            "END:VEVENT"
+          );
+        }
+      }
+    }
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+}
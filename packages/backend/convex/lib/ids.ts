@@ -0,0 +1,50 @@
+/**
+ * @description
+ * Stable identifiers for plan items. Milestones, objectives and daily tasks carry a
+ * persistent `id` so chat threads, notes and completion toggles survive reordering and
+ * AI refinements that change positions within the plan.
+ */
+
+type TaskLike = { id?: string };
+type ObjectiveLike = { id?: string; dailyTasks: TaskLike[] };
+type MilestoneLike = { id?: string; weeklyObjectives: ObjectiveLike[] };
+
+export function createPlanItemId(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * Returns a copy of the plan items where every milestone, objective and task has an id.
+ * Existing ids are preserved; duplicates (e.g. from copy/paste) are replaced.
+ */
+export function ensurePlanItemIds<M extends MilestoneLike>(monthlyMilestones: M[]): M[] {
+  const seen = new Set<string>();
+  const claim = (id: string | undefined) => {
+    const next = id && !seen.has(id) ? id : createPlanItemId();
+    seen.add(next);
+    return next;
+  };
+
+  return monthlyMilestones.map((month) => ({
+    ...month,
+    id: claim(month.id),
+    weeklyObjectives: month.weeklyObjectives.map((week) => ({
+      ...week,
+      id: claim(week.id),
+      dailyTasks: week.dailyTasks.map((task) => ({ ...task, id: claim(task.id) })),
+    })),
+  })) as M[];
+}
+
+/**
+ * Returns true if every milestone, objective and task already has an id.
+ */
+export function hasAllPlanItemIds(monthlyMilestones: MilestoneLike[]): boolean {
+  return monthlyMilestones.every(
+    (month) =>
+      !!month.id &&
+      month.weeklyObjectives.every(
+        (week) => !!week.id && week.dailyTasks.every((task) => !!task.id)
+      )
+  );
+}
@@ -0,0 +1,272 @@
+import { fakeResponse } from "./llmFixtures";
+
+/**
+ * Shared LLM provider layer used by the Next.js API routes and Convex actions.
+ *
+ * Select a provider with `LLM_PROVIDER`:
+ * - `gemini` (default when `GEMINI_API_KEY` is set): Google Generative AI
+ * - `openai`: any OpenAI-compatible `/chat/completions` endpoint (`OPENAI_BASE_URL`,
+ *   `OPENAI_MODEL`, optional `OPENAI_API_KEY`), e.g. a local Ollama or LM Studio server
+ * - `fake`: deterministic fixture responses, no network; for offline dev and tests
+ */
+
+export type LLMPurpose = "plan" | "chat" | "validation" | "insights" | "summary" | "replan";
+
+export interface LLMMessage {
+  role: "user" | "model";
+  text: string;
+}
+
+export interface LLMUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LLMRequest {
+  purpose: LLMPurpose;
+  prompt: string;
+  system?: string;
+  history?: LLMMessage[]; // Prior turns, oldest first
+  json?: boolean; // Ask the model for a JSON response
+  onUsage?: (usage: LLMUsage) => void; // Called once per completed call with token counts
+  signal?: AbortSignal; // Aborts the call, e.g. when the client disconnects; it then rejects with an AbortError
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  generate(request: LLMRequest): Promise<string>;
+  stream(request: LLMRequest): AsyncIterable<string>;
+}
+
+export const LLM_CONFIG: Record<LLMPurpose, { temperature: number; topK: number; topP: number; maxOutputTokens: number }> = {
+  plan: { temperature: 0.6, topK: 40, topP: 0.95, maxOutputTokens: 8192 },
+  chat: { temperature: 0.6, topK: 40, topP: 0.95, maxOutputTokens: 8192 },
+  validation: { temperature: 0.3, topK: 40, topP: 0.95, maxOutputTokens: 8192 },
+  insights: { temperature: 0.6, topK: 40, topP: 0.95, maxOutputTokens: 2048 },
+  summary: { temperature: 0.3, topK: 40, topP: 0.95, maxOutputTokens: 1024 },
+  replan: { temperature: 0.4, topK: 40, topP: 0.95, maxOutputTokens: 8192 },
+};
+
+const GEMINI_MODELS: Record<LLMPurpose, string> = {
+  plan: "gemini-flash-latest",
+  chat: "gemini-flash-latest",
+  validation: "gemini-flash-latest",
+  insights: "gemini-2.5-flash",
+  summary: "gemini-2.5-flash",
+  replan: "gemini-flash-latest",
+};
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * Resolves the configured provider. Throws with a user-presentable message when the
+ * selected provider is missing required configuration.
+ */
+export function getLLMProvider(env: Env = process.env): LLMProvider {
+  const name = env.LLM_PROVIDER ?? (env.GEMINI_API_KEY ? "gemini" : undefined);
+  switch (name) {
+    case "gemini":
+      if (!env.GEMINI_API_KEY) throw new Error("GEMINI_API_KEY is not set");
+      return createGeminiProvider(env.GEMINI_API_KEY, env.GEMINI_MODEL);
+    case "openai":
+      return createOpenAICompatibleProvider({
+        baseUrl: env.OPENAI_BASE_URL ?? "http://localhost:11434/v1",
+        apiKey: env.OPENAI_API_KEY,
+        model: env.OPENAI_MODEL ?? "llama3.1",
+      });
+    case "fake":
+      return createFakeProvider();
+    case undefined:
+      throw new Error("No LLM provider configured. Set GEMINI_API_KEY or LLM_PROVIDER.");
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}"`);
+  }
+}
+
+/**
+ * Rough token count (~4 characters per token) for providers that do not report usage.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function estimatePromptTokens(request: LLMRequest): number {
+  const history = (request.history ?? []).reduce((sum, h) => sum + estimateTokens(h.text), 0);
+  return estimateTokens(request.system ?? "") + history + estimateTokens(request.prompt);
+}
+
+/**
+ * Strips Markdown code fences that models sometimes wrap JSON responses in.
+ */
+export function stripJsonFences(text: string): string {
+  const trimmed = text.trim();
+  return trimmed.replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "").trim();
+}
+
+export function createGeminiProvider(apiKey: string, modelOverride?: string): LLMProvider {
+  const modelName = (request: LLMRequest) => modelOverride ?? GEMINI_MODELS[request.purpose];
+  const getModel = async (request: LLMRequest) => {
+    // Imported lazily so the fake and OpenAI-compatible providers never load the SDK
+    const { GoogleGenerativeAI } = await import("@google/generative-ai");
+    const config = LLM_CONFIG[request.purpose];
+    return new GoogleGenerativeAI(apiKey).getGenerativeModel({
+      model: modelName(request),
+      systemInstruction: request.system,
+      generationConfig: {
+        ...config,
+        responseMimeType: request.json ? "application/json" : undefined,
+      },
+    });
+  };
+  const toHistory = (history: LLMMessage[] = []) =>
+    history.map((h) => ({ role: h.role, parts: [{ text: h.text }] }));
+  const reportUsage = (
+    request: LLMRequest,
+    metadata: { promptTokenCount?: number; candidatesTokenCount?: number } | undefined,
+    text: string
+  ) =>
+    request.onUsage?.({
+      model: modelName(request),
+      promptTokens: metadata?.promptTokenCount ?? estimatePromptTokens(request),
+      completionTokens: metadata?.candidatesTokenCount ?? estimateTokens(text),
+    });
+
+  return {
+    name: "gemini",
+    async generate(request) {
+      const model = await getModel(request);
+      const options = { signal: request.signal };
+      const result = request.history?.length
+        ? await model.startChat({ history: toHistory(request.history) }).sendMessage(request.prompt, options)
+        : await model.generateContent(request.prompt, options);
+      const text = result.response.text();
+      reportUsage(request, result.response.usageMetadata, text);
+      return text;
+    },
+    async *stream(request) {
+      const model = await getModel(request);
+      const options = { signal: request.signal };
+      const result = request.history?.length
+        ? await model.startChat({ history: toHistory(request.history) }).sendMessageStream(request.prompt, options)
+        : await model.generateContentStream(request.prompt, options);
+      let fullText = "";
+      for await (const chunk of result.stream) {
+        const text = chunk.text?.();
+        if (text) {
+          fullText += text;
+          yield text;
+        }
+      }
+      reportUsage(request, (await result.response).usageMetadata, fullText);
+    },
+  };
+}
+
+export function createOpenAICompatibleProvider(options: { baseUrl: string; apiKey?: string; model: string }): LLMProvider {
+  const url = `${options.baseUrl.replace(/\/$/, "")}/chat/completions`;
+
+  const request = async (req: LLMRequest, stream: boolean) => {
+    const config = LLM_CONFIG[req.purpose];
+    const messages = [
+      ...(req.system ? [{ role: "system", content: req.system }] : []),
+      ...(req.history ?? []).map((h) => ({ role: h.role === "model" ? "assistant" : "user", content: h.text })),
+      { role: "user", content: req.prompt },
+    ];
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: options.model,
+        messages,
+        stream,
+        temperature: config.temperature,
+        top_p: config.topP,
+        max_tokens: config.maxOutputTokens,
+        ...(req.json ? { response_format: { type: "json_object" } } : {}),
+        ...(stream ? { stream_options: { include_usage: true } } : {}),
+      }),
+      signal: req.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`LLM request failed: ${response.status} ${response.statusText}`);
+    }
+    return response;
+  };
+  const reportUsage = (req: LLMRequest, usage: { prompt_tokens?: number; completion_tokens?: number } | undefined, text: string) =>
+    req.onUsage?.({
+      model: options.model,
+      promptTokens: usage?.prompt_tokens ?? estimatePromptTokens(req),
+      completionTokens: usage?.completion_tokens ?? estimateTokens(text),
+    });
+
+  return {
+    name: "openai",
+    async generate(req) {
+      const response = await request(req, false);
+      const data = await response.json();
+      const text: string = data?.choices?.[0]?.message?.content ?? "";
+      reportUsage(req, data?.usage, text);
+      return text;
+    },
+    async *stream(req) {
+      const response = await request(req, true);
+      const reader = response.body?.getReader();
+      if (!reader) throw new Error("No response stream available");
+      const decoder = new TextDecoder();
+      let buffer = "";
+      let fullText = "";
+      // Servers that honour `stream_options.include_usage` send it on the final chunk
+      let usage: { prompt_tokens?: number; completion_tokens?: number } | undefined;
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split("\n");
+          buffer = lines.pop() ?? "";
+          for (const line of lines) {
+            const payload = line.replace(/^data:\s*/, "").trim();
+            if (!payload || payload === "[DONE]" || !line.startsWith("data:")) continue;
+            const data = JSON.parse(payload);
+            if (data?.usage) usage = data.usage;
+            const text = data?.choices?.[0]?.delta?.content;
+            if (text) {
+              fullText += text;
+              yield text as string;
+            }
+          }
+        }
+      } finally {
+        reader.releaseLock();
+      }
+      reportUsage(req, usage, fullText);
+    },
+  };
+}
+
+export function createFakeProvider(): LLMProvider {
+  const reportUsage = (request: LLMRequest, text: string) =>
+    request.onUsage?.({ model: "fake", promptTokens: estimatePromptTokens(request), completionTokens: estimateTokens(text) });
+
+  return {
+    name: "fake",
+    async generate(request) {
+      const text = fakeResponse(request);
+      reportUsage(request, text);
+      return text;
+    },
+    async *stream(request) {
+      const text = fakeResponse(request);
+      // Fixed-size chunks keep streaming behaviour deterministic
+      for (let i = 0; i < text.length; i += 64) {
+        request.signal?.throwIfAborted();
+        yield text.slice(i, i + 64);
+      }
+      reportUsage(request, text);
+    },
+  };
+}
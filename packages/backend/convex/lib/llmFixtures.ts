@@ -0,0 +1,93 @@
+import type { LLMRequest } from "./llm";
+
+/**
+ * Deterministic responses for the fake LLM provider. Each fixture derives its output from
+ * the request only (no randomness, no clock), so the same prompt always yields the same text.
+ */
+
+const PHASES = ["Research", "Practice", "Build", "Review", "Refine", "Share", "Reflect on"];
+
+function extractGoal(prompt: string): string {
+  return prompt.match(/GOAL: "([\s\S]*?)"\n/)?.[1]?.trim() || "your goal";
+}
+
+// The task count, not the calendar span: with days off a plan has fewer tasks than days
+function extractTaskCount(prompt: string): number {
+  const match = prompt.match(/EXACTLY (\d+) UNIQUE/) ?? prompt.match(/Create a (\d+)-day plan/);
+  const taskCount = match ? Number(match[1]) : 90;
+  return Number.isFinite(taskCount) && taskCount > 0 ? taskCount : 90;
+}
+
+function fixturePlan(prompt: string) {
+  const goal = extractGoal(prompt);
+  const taskCount = extractTaskCount(prompt);
+  const monthlyMilestones: Array<{
+    month: number;
+    milestone: string;
+    weeklyObjectives: Array<{ week: number; objective: string; dailyTasks: Array<{ day: number; description: string }> }>;
+  }> = [];
+
+  for (let taskNumber = 1; taskNumber <= taskCount; taskNumber++) {
+    const weekNumber = Math.ceil(taskNumber / 7);
+    const monthNumber = Math.ceil(weekNumber / 4);
+    if (!monthlyMilestones[monthNumber - 1]) {
+      monthlyMilestones.push({ month: monthNumber, milestone: `Milestone ${monthNumber} for ${goal}`, weeklyObjectives: [] });
+    }
+    const month = monthlyMilestones[monthNumber - 1];
+    let week = month.weeklyObjectives[month.weeklyObjectives.length - 1];
+    if (!week || week.week !== weekNumber) {
+      week = { week: weekNumber, objective: `Week ${weekNumber} objective for ${goal}`, dailyTasks: [] };
+      month.weeklyObjectives.push(week);
+    }
+    week.dailyTasks.push({
+      day: week.dailyTasks.length + 1,
+      description: `${PHASES[(taskNumber - 1) % PHASES.length]} step ${taskNumber} of ${goal}`,
+    });
+  }
+
+  return { goal, monthlyMilestones };
+}
+
+// Overdue work first, then upcoming tasks, one per day; overflow is merged into the last day
+function fixtureReplan(prompt: string) {
+  const days = Number(prompt.match(/REMAINING DAYS: (\d+)/)?.[1] ?? 0);
+  const taskIds = [...prompt.matchAll(/\[task:([^\]]+)\]/g)].map((match) => match[1]);
+  const schedule: Array<{ taskIds: string[]; description?: string }> = taskIds
+    .slice(0, Math.max(0, days - 1))
+    .map((id) => ({ taskIds: [id] }));
+  const overflow = taskIds.slice(schedule.length);
+  if (days > 0 && overflow.length === 1) schedule.push({ taskIds: overflow });
+  if (days > 0 && overflow.length > 1) schedule.push({ taskIds: overflow, description: "Catch up on the remaining work" });
+  return { summary: "Offline replan: overdue tasks come first and the rest of the plan follows in order.", schedule };
+}
+
+/**
+ * Returns the canned response for a request.
+ */
+export function fakeResponse(request: LLMRequest): string {
+  switch (request.purpose) {
+    case "plan":
+      return JSON.stringify(fixturePlan(request.prompt), null, 2);
+    case "validation":
+      return JSON.stringify({
+        isValid: true,
+        confidence: 80,
+        feedback: "Offline validation: the goal looks specific and achievable.",
+        suggestions: [],
+        category: "other",
+      });
+    case "insights":
+      return JSON.stringify([
+        { kind: "progress", text: "Offline insight: keep a steady pace and finish today's task first.", score: 6 },
+        { kind: "motivation", text: "Offline insight: small daily wins add up over the whole plan.", score: 5 },
+      ]);
+    case "replan":
+      return JSON.stringify(fixtureReplan(request.prompt));
+    case "summary":
+      return "Offline summary: the user has been discussing this task with the assistant and is working through it step by step.";
+    case "chat": {
+      const reply = `Offline assistant reply to: "${request.prompt.trim().slice(0, 200)}". Break the work into one small step and start there.`;
+      return request.json ? JSON.stringify({ reply, operations: [] }) : reply;
+    }
+  }
+}
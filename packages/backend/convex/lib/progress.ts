@@ -0,0 +1,142 @@
+/**
+ * @description
+ * Lifetime progress across all of a user's plans: plans finished, tasks done, goal categories
+ * tried, and the XP and level derived from completions. Shared by the achievements engine and
+ * the profile query so both count the same way. Only completions recorded in the app count:
+ * those with a `completedAt` from plans.setTaskCompletion, not progress that arrived with an
+ * import or an edit (or was made before completion times were recorded). The engine keeps the
+ * totals it needs as running sums (`userStats`, see achievements.ts); `applyPlanProgress`
+ * moves them by one plan's change.
+ */
+
+type TaskLike = { completed: boolean; completedAt?: number };
+type MilestoneLike = { weeklyObjectives: Array<{ dailyTasks: TaskLike[] }> };
+type PlanLike = { monthlyMilestones: MilestoneLike[]; category?: string };
+
+// XP per completed task, and the bonus for finishing every task of a plan
+export const XP_PER_TASK = 10;
+export const XP_PER_PLAN = 100;
+
+// "other" is also the fallback when goal validation fails, so it does not count as explored
+const UNEXPLORED_CATEGORY = "other";
+
+export interface LevelProgress {
+  level: number; // Starts at 1
+  xpIntoLevel: number; // XP earned since reaching `level`
+  xpForNextLevel: number; // XP needed to go from `level` to `level + 1`
+}
+
+export interface LifetimeStats extends LevelProgress {
+  plans: number;
+  plansCompleted: number; // Plans with at least one task, all completed in the app
+  tasksCompleted: number;
+  tasksTotal: number;
+  categories: Array<{ category: string; plans: number }>; // Goal categories tried, most plans first
+  xp: number;
+}
+
+/**
+ * Level reached with the given XP. Each level takes 100 XP more than the one before:
+ * level 2 at 100 XP, level 3 at 300, level 4 at 600, and so on.
+ */
+/**
+ * Lifetime totals the achievements engine keeps per user, the sum of every plan's `PlanProgress`.
+ */
+export interface LifetimeTotals {
+  tasksCompleted: number;
+  plansCompleted: number;
+  categories: Record<string, number>; // Plans per explored goal category
+}
+
+/**
+ * One plan's share of the lifetime totals.
+ */
+export interface PlanProgress {
+  tasksCompleted: number;
+  completed: boolean; // Has at least one task, all completed in the app
+  category?: string; // Only an explored category
+}
+
+export const EMPTY_LIFETIME_TOTALS: LifetimeTotals = { tasksCompleted: 0, plansCompleted: 0, categories: {} };
+
+/**
+ * Whether a task's completion was recorded in the app, the only kind that earns progress.
+ */
+export function isRecordedCompletion(task: TaskLike): boolean {
+  return task.completed && task.completedAt !== undefined;
+}
+
+export function computePlanProgress(plan: PlanLike): PlanProgress {
+  const tasks = plan.monthlyMilestones.flatMap((month) => month.weeklyObjectives.flatMap((week) => week.dailyTasks));
+  const tasksCompleted = tasks.filter(isRecordedCompletion).length;
+  return {
+    tasksCompleted,
+    completed: tasks.length > 0 && tasksCompleted === tasks.length,
+    category: plan.category && plan.category !== UNEXPLORED_CATEGORY ? plan.category : undefined,
+  };
+}
+
+export function isSamePlanProgress(a: PlanProgress | null, b: PlanProgress | null): boolean {
+  return a?.tasksCompleted === b?.tasksCompleted && a?.completed === b?.completed && a?.category === b?.category;
+}
+
+/**
+ * Moves lifetime totals from a plan's previous progress to its new one; null stands for a plan
+ * that did not exist before or no longer exists.
+ */
+export function applyPlanProgress(
+  totals: LifetimeTotals,
+  before: PlanProgress | null,
+  after: PlanProgress | null
+): LifetimeTotals {
+  const categories = { ...totals.categories };
+  const count = (progress: PlanProgress | null, sign: 1 | -1) => {
+    if (!progress?.category) return;
+    const plans = (categories[progress.category] ?? 0) + sign;
+    if (plans > 0) categories[progress.category] = plans;
+    else delete categories[progress.category];
+  };
+  count(before, -1);
+  count(after, 1);
+  return {
+    tasksCompleted: totals.tasksCompleted - (before?.tasksCompleted ?? 0) + (after?.tasksCompleted ?? 0),
+    plansCompleted: totals.plansCompleted - (before?.completed ? 1 : 0) + (after?.completed ? 1 : 0),
+    categories,
+  };
+}
+
+export function levelForXp(xp: number): LevelProgress {
+  let level = 1;
+  let remaining = Math.max(0, xp);
+  while (remaining >= level * 100) {
+    remaining -= level * 100;
+    level++;
+  }
+  return { level, xpIntoLevel: remaining, xpForNextLevel: level * 100 };
+}
+
+export function computeLifetimeStats(plans: PlanLike[]): LifetimeStats {
+  let totals = EMPTY_LIFETIME_TOTALS;
+  let tasksTotal = 0;
+  for (const plan of plans) {
+    totals = applyPlanProgress(totals, null, computePlanProgress(plan));
+    tasksTotal += plan.monthlyMilestones.reduce(
+      (sum, month) => sum + month.weeklyObjectives.reduce((weekSum, week) => weekSum + week.dailyTasks.length, 0),
+      0
+    );
+  }
+
+  const { tasksCompleted, plansCompleted } = totals;
+  const xp = tasksCompleted * XP_PER_TASK + plansCompleted * XP_PER_PLAN;
+  return {
+    plans: plans.length,
+    plansCompleted,
+    tasksCompleted,
+    tasksTotal,
+    categories: Object.entries(totals.categories)
+      .map(([category, count]) => ({ category, plans: count }))
+      .sort((a, b) => b.plans - a.plans || a.category.localeCompare(b.category)),
+    xp,
+    ...levelForXp(xp),
+  };
+}
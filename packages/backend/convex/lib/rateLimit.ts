@@ -0,0 +1,48 @@
+/**
+ * Per-route token bucket quotas for the AI API routes. Shared by the Convex-backed limiter
+ * and the in-memory fallback used in local development. `anonymous-demo` is the allowance
+ * for signed-out callers when `AI_ANONYMOUS_DEMO` is enabled: 10 AI requests a day per IP.
+ */
+export const RATE_LIMITS = {
+  chat: { limitPerMinute: 60, burst: 30 },
+  "generate-plan": { limitPerMinute: 20, burst: 10 },
+  "validate-goal": { limitPerMinute: 30, burst: 10 },
+  replan: { limitPerMinute: 10, burst: 5 },
+  "anonymous-demo": { limitPerMinute: 10 / (24 * 60), burst: 10 },
+} as const;
+
+export type RateLimitedRoute = keyof typeof RATE_LIMITS;
+
+export type RateLimitResult =
+  | { ok: true; remaining: number }
+  | { ok: false; retryAfterMs: number };
+
+export function isRateLimitedRoute(route: string): route is RateLimitedRoute {
+  return Object.prototype.hasOwnProperty.call(RATE_LIMITS, route);
+}
+
+/**
+ * Refills a bucket for the elapsed time and tries to take one token.
+ * A missing bucket starts full.
+ */
+export function takeToken(
+  route: RateLimitedRoute,
+  bucket: { tokens: number; lastRefillMs: number } | null,
+  now: number
+): { bucket: { tokens: number; lastRefillMs: number }; result: RateLimitResult } {
+  const { limitPerMinute, burst } = RATE_LIMITS[route];
+  const refillRatePerMs = limitPerMinute / 60000;
+  const elapsed = bucket ? Math.max(0, now - bucket.lastRefillMs) : 0;
+  const tokens = bucket ? Math.min(burst, bucket.tokens + elapsed * refillRatePerMs) : burst;
+
+  if (tokens < 1) {
+    return {
+      bucket: { tokens, lastRefillMs: now },
+      result: { ok: false, retryAfterMs: Math.ceil((1 - tokens) / refillRatePerMs) },
+    };
+  }
+  return {
+    bucket: { tokens: tokens - 1, lastRefillMs: now },
+    result: { ok: true, remaining: Math.floor(tokens - 1) },
+  };
+}
@@ -0,0 +1,8 @@
+/**
+ * Guards functions that are called server-to-server from the Next.js API routes rather than
+ * by signed-in clients. Both sides share `CONVEX_SERVER_SECRET`.
+ */
+export function assertServerSecret(secret: string): void {
+  const expected = process.env.CONVEX_SERVER_SECRET;
+  if (!expected || secret !== expected) throw new Error("Unauthorized");
+}
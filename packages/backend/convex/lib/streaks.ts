@@ -0,0 +1,41 @@
+import { addDaysToKey, daysBetweenKeys } from "./dates";
+
+/**
+ * @description
+ * Streak arithmetic over `YYYY-MM-DD` activity days. A streak is a run of consecutive
+ * calendar days with at least one completed task. Today does not break the current streak
+ * until it is over: a streak that ended yesterday is still current.
+ */
+
+export interface StreakSummary {
+  currentStreak: number;
+  longestStreak: number;
+  activeToday: boolean;
+  lastActiveDate: string | null;
+  activeDays: number;
+}
+
+export function computeStreaks(activeDateKeys: Iterable<string>, todayKey: string): StreakSummary {
+  const days = [...new Set(activeDateKeys)].filter((key) => key <= todayKey).sort();
+  if (days.length === 0) {
+    return { currentStreak: 0, longestStreak: 0, activeToday: false, lastActiveDate: null, activeDays: 0 };
+  }
+
+  let longestStreak = 1;
+  let run = 1;
+  for (let i = 1; i < days.length; i++) {
+    run = daysBetweenKeys(days[i - 1], days[i]) === 1 ? run + 1 : 1;
+    longestStreak = Math.max(longestStreak, run);
+  }
+
+  // `run` is the streak ending on the last active day; it only counts while that day is today or yesterday
+  const lastActiveDate = days[days.length - 1];
+  const isCurrent = lastActiveDate === todayKey || lastActiveDate === addDaysToKey(todayKey, -1);
+  return {
+    currentStreak: isCurrent ? run : 0,
+    longestStreak,
+    activeToday: lastActiveDate === todayKey,
+    lastActiveDate,
+    activeDays: days.length,
+  };
+}
@@ -0,0 +1,47 @@
+import { v } from "convex/values";
+
+/**
+ * @description
+ * Shared validators for plan content, used by the schema and by function args so the
+ * stored shape and the accepted shape cannot drift apart.
+ */
+
+export const dailyTaskValidator = v.object({
+  id: v.optional(v.string()),
+  day: v.number(),
+  description: v.string(),
+  completed: v.boolean(),
+  completedAt: v.optional(v.number()), // When the task was last marked complete
+});
+
+export const weeklyObjectiveValidator = v.object({
+  id: v.optional(v.string()),
+  week: v.number(),
+  objective: v.string(),
+  dailyTasks: v.array(dailyTaskValidator),
+});
+
+export const monthlyMilestoneValidator = v.object({
+  id: v.optional(v.string()),
+  month: v.number(),
+  milestone: v.string(),
+  weeklyObjectives: v.array(weeklyObjectiveValidator),
+});
+
+export const chatHistoryValidator = v.array(
+  v.object({
+    role: v.union(
+      v.literal("user"),
+      v.literal("ai"),
+      v.literal("system")
+    ),
+    text: v.string(),
+    createdAt: v.optional(v.number()), // Set by the server when the message is stored
+  })
+);
+
+// Working weekdays (0 = Sunday) and `YYYY-MM-DD` days off; see lib/dates.ts
+export const planAvailabilityValidator = v.object({
+  activeWeekdays: v.array(v.number()),
+  blackoutDates: v.array(v.string()),
+});
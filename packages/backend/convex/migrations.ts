@@ -0,0 +1,168 @@
+import { v } from "convex/values";
+import { internalMutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { addDaysToKey, toDateKeyInTimezone, weekdayOfKey } from "./lib/dates";
+import { ensurePlanItemIds, hasAllPlanItemIds } from "./lib/ids";
+import { applyPlanProgress, computePlanProgress, EMPTY_LIFETIME_TOTALS } from "./lib/progress";
+
+/**
+ * @description
+ * One-off data migrations. Run from the CLI, e.g.
+ * `npx convex run migrations:backfillPlanItemIds`.
+ *
+ * @receives data from:
+ * - Convex CLI / dashboard: Manual invocation
+ *
+ * @sends data to:
+ * - Convex database: Rewrites `plans` and `chatMessages`; creates `userStats`
+ *
+ * @sideEffects:
+ * - Schedules itself until every batch has been processed.
+ */
+
+/**
+ * Parses a legacy positional task identifier ("monthIndex-weekIndex-day").
+ */
+function parseLegacyTaskIdentifier(identifier: string) {
+  const match = identifier.match(/^(\d+)-(\d+)-(\d+)$/);
+  if (!match) return null;
+  return { monthIndex: Number(match[1]), weekIndex: Number(match[2]), day: Number(match[3]) };
+}
+
+/**
+ * Rebuilds the legacy calendar layout the positional identifiers came from. That calendar
+ * started at the day it was viewed and put task N on the Nth day after it; `monthIndex`
+ * counted calendar months from there, `weekIndex` the Sunday-started week rows within that
+ * month, and `day` was the task's own `day` field. Returns the ids of the tasks each
+ * identifier pointed to on that day.
+ */
+function legacyCalendarTaskIds(
+  monthlyMilestones: Array<{ weeklyObjectives: Array<{ dailyTasks: Array<{ id?: string; day: number }> }> }>,
+  viewedOn: string
+): Map<string, string[]> {
+  const tasks = monthlyMilestones.flatMap((month) => month.weeklyObjectives.flatMap((week) => week.dailyTasks));
+  const byIdentifier = new Map<string, string[]>();
+  let monthIndex = 0;
+  let weekIndex = 0;
+  tasks.forEach((task, i) => {
+    const date = addDaysToKey(viewedOn, i);
+    if (i > 0) {
+      if (date.slice(0, 7) !== addDaysToKey(date, -1).slice(0, 7)) {
+        monthIndex++;
+        weekIndex = 0;
+      } else if (weekdayOfKey(date) === 0) {
+        weekIndex++;
+      }
+    }
+    if (!task.id) return;
+    const identifier = `${monthIndex}-${weekIndex}-${task.day}`;
+    byIdentifier.set(identifier, [...(byIdentifier.get(identifier) ?? []), task.id]);
+  });
+  return byIdentifier;
+}
+
+export const backfillPlanItemIds = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())), batchSize: v.optional(v.number()) },
+  handler: async (ctx, { cursor = null, batchSize = 50 }) => {
+    const { page, continueCursor, isDone } = await ctx.db
+      .query("plans")
+      .paginate({ numItems: batchSize, cursor });
+
+    let migratedPlans = 0;
+    let migratedMessages = 0;
+    const unresolvedMessages: string[] = [];
+
+    for (const plan of page) {
+      const monthlyMilestones = hasAllPlanItemIds(plan.monthlyMilestones)
+        ? plan.monthlyMilestones
+        : ensurePlanItemIds(plan.monthlyMilestones);
+      if (monthlyMilestones !== plan.monthlyMilestones) {
+        await ctx.db.patch(plan._id, { monthlyMilestones });
+        migratedPlans++;
+      }
+
+      // Re-key positional chat threads to the stable task id. The layout depended on the day
+      // the calendar was viewed, so each message is resolved against the day it was sent;
+      // identifiers that do not point at exactly one task are left as they are and reported
+      const messages = await ctx.db
+        .query("chatMessages")
+        .withIndex("by_plan_task_created", (q) => q.eq("planId", plan._id))
+        .collect();
+      const layouts = new Map<string, Map<string, string[]>>();
+      for (const message of messages) {
+        if (!parseLegacyTaskIdentifier(message.taskIdentifier)) continue;
+        const viewedOn = toDateKeyInTimezone(message.createdAt, plan.timezone);
+        let layout = layouts.get(viewedOn);
+        if (!layout) {
+          layout = legacyCalendarTaskIds(monthlyMilestones, viewedOn);
+          layouts.set(viewedOn, layout);
+        }
+        const taskIds = layout.get(message.taskIdentifier) ?? [];
+        if (taskIds.length !== 1) {
+          unresolvedMessages.push(message._id);
+          continue;
+        }
+        await ctx.db.patch(message._id, { taskIdentifier: taskIds[0] });
+        migratedMessages++;
+      }
+    }
+
+    if (unresolvedMessages.length > 0) {
+      console.warn(
+        `[migrations] ${unresolvedMessages.length} legacy chat messages could not be matched to a task:`,
+        unresolvedMessages
+      );
+    }
+
+    if (!isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.backfillPlanItemIds, {
+        cursor: continueCursor,
+        batchSize,
+      });
+    }
+
+    return { migratedPlans, migratedMessages, unresolvedMessages, isDone };
+  },
+});
+
+/**
+ * Creates the running lifetime totals of users who had plans before `userStats` existed, from
+ * all of their plans. Users who already have totals are skipped, so the plan mutations that
+ * keep them in step are never counted twice.
+ */
+export const backfillUserStats = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())), batchSize: v.optional(v.number()) },
+  handler: async (ctx, { cursor = null, batchSize = 50 }) => {
+    const { page, continueCursor, isDone } = await ctx.db
+      .query("plans")
+      .paginate({ numItems: batchSize, cursor });
+
+    let createdStats = 0;
+    for (const userId of new Set(page.map((plan) => plan.userId))) {
+      const existing = await ctx.db
+        .query("userStats")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .unique();
+      if (existing) continue;
+      const plans = await ctx.db
+        .query("plans")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .collect();
+      const totals = plans.reduce(
+        (sum, plan) => applyPlanProgress(sum, null, computePlanProgress(plan)),
+        EMPTY_LIFETIME_TOTALS
+      );
+      await ctx.db.insert("userStats", { userId, ...totals, updatedAt: Date.now() });
+      createdStats++;
+    }
+
+    if (!isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.backfillUserStats, {
+        cursor: continueCursor,
+        batchSize,
+      });
+    }
+
+    return { createdStats, isDone };
+  },
+});
@@ -8,11 +8,17 @@ async function requireUser(ctx: any) {
 }
 
 export const addNote = mutation({
-  args: { planId: v.optional(v.id("plans")), text: v.string(), pinned: v.optional(v.boolean()) },
-  handler: async (ctx, { planId, text, pinned = false }) => {
+  args: {
+    planId: v.optional(v.id("plans")),
+    taskId: v.optional(v.string()),
+    text: v.string(),
+    pinned: v.optional(v.boolean()),
+  },
+  handler: async (ctx, { planId, taskId, text, pinned = false }) => {
     const identity = await ctx.auth.getUserIdentity();
     if (!identity) throw new Error("Unauthorized");
     const userId = identity.subject;
+    if (taskId && !planId) throw new Error("Task notes require a plan");
     if (planId) {
       const plan = await ctx.db.get(planId);
       if (!plan || plan.userId !== userId) throw new Error("Not found");
@@ -21,6 +27,7 @@ export const addNote = mutation({
     return await ctx.db.insert("notes", {
       userId,
       planId,
+      taskId,
       text,
       pinned,
       createdAt: now,
@@ -40,12 +47,24 @@ export const updateNote = mutation({
 });
 
 export const listNotes = query({
-  args: { planId: v.optional(v.id("plans")), limit: v.optional(v.number()), cursor: v.optional(v.any()) },
-  handler: async (ctx, { planId, limit = 50, cursor }) => {
+  args: {
+    planId: v.optional(v.id("plans")),
+    taskId: v.optional(v.string()),
+    limit: v.optional(v.number()),
+    cursor: v.optional(v.any()),
+  },
+  handler: async (ctx, { planId, taskId, limit = 50, cursor }) => {
     const userId = await requireUser(ctx);
     if (planId) {
       const plan = await ctx.db.get(planId);
       if (!plan || plan.userId !== userId) throw new Error("Not found");
+      if (taskId) {
+        return await ctx.db
+          .query("notes")
+          .withIndex("by_plan_task_created", (q) => q.eq("planId", planId).eq("taskId", taskId))
+          .order("desc")
+          .paginate({ numItems: limit, cursor });
+      }
       return await ctx.db
         .query("notes")
         .withIndex("by_plan_created", (q) => q.eq("planId", planId))
@@ -1,19 +1,92 @@
 import { query, mutation } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
 import { v } from "convex/values";
+import { isDateKey, normalizeAvailability, toDateKeyInTimezone } from "./lib/dates";
+import { ensurePlanItemIds, hasAllPlanItemIds } from "./lib/ids";
+import { logTaskActivity } from "./activity";
+import { deletePlanUnlocks, evaluateAchievements, recordPlanProgress } from "./achievements";
+import { isPlanChatSummaryDue, PLAN_CHAT_THREAD, planChatBacklog } from "./chatSummaries";
+import { internal } from "./_generated/api";
+import { chatHistoryValidator, monthlyMilestoneValidator, planAvailabilityValidator } from "./lib/validators";
+
+/**
+ * Appends a content snapshot of the plan to `planVersions` and bumps `currentVersion`.
+ */
+async function insertPlanVersion(
+  ctx: MutationCtx,
+  plan: Doc<"plans">,
+  source: string,
+  summary?: string
+): Promise<number> {
+  const version = (plan.currentVersion ?? 0) + 1;
+  await ctx.db.insert("planVersions", {
+    userId: plan.userId,
+    planId: plan._id,
+    version,
+    goal: plan.goal,
+    monthlyMilestones: plan.monthlyMilestones,
+    source,
+    summary,
+    createdAt: Date.now(),
+  });
+  await ctx.db.patch(plan._id, { currentVersion: version });
+  return version;
+}
+
+/**
+ * Completion times are only recorded by setTaskCompletion. Content written by the client keeps
+ * the recorded time of tasks that are still completed and drops any other, so progress that
+ * arrives with an import or an edit does not count towards XP and lifetime achievements.
+ */
+function keepRecordedCompletions(
+  monthlyMilestones: Doc<"plans">["monthlyMilestones"],
+  previous: Doc<"plans">["monthlyMilestones"] = []
+): Doc<"plans">["monthlyMilestones"] {
+  const recordedById = new Map<string, number>();
+  for (const month of previous) {
+    for (const week of month.weeklyObjectives) {
+      for (const task of week.dailyTasks) {
+        if (task.id && task.completed && task.completedAt !== undefined) recordedById.set(task.id, task.completedAt);
+      }
+    }
+  }
+  return monthlyMilestones.map((month) => ({
+    ...month,
+    weeklyObjectives: month.weeklyObjectives.map((week) => ({
+      ...week,
+      dailyTasks: week.dailyTasks.map((task) => ({
+        ...task,
+        completedAt: task.completed && task.id ? recordedById.get(task.id) : undefined,
+      })),
+    })),
+  }));
+}
+
+async function deletePlanVersions(ctx: MutationCtx, planId: Id<"plans">) {
+  const versions = await ctx.db
+    .query("planVersions")
+    .withIndex("by_plan_version", (q) => q.eq("planId", planId))
+    .collect();
+  await Promise.all(versions.map((d) => ctx.db.delete(d._id)));
+}
 
 /**
  * @description
- * Convex queries and mutations for plan persistence. Supports creating/saving plan
- * snapshots, listing plans by user, deleting a plan, and deleting all versions by goal.
+ * Convex queries and mutations for plan persistence. Supports creating a plan, committing
+ * new content versions to an existing plan, listing/restoring versions, setting the start date
+ * and working days, listing plans by user, deleting a plan, and deleting all plans by goal.
  *
  * @receives data from:
  * - web app via Convex client: Plan CRUD requests
  *
  * @sends data to:
- * - Convex database: Reads/writes `plans` table
+ * - Convex database: Reads/writes `plans` and `planVersions` tables
  *
  * @sideEffects:
  * - Creates, updates, and deletes documents in the Convex DB.
+ * - Runs the achievements engine (achievements.ts) after changes to a plan's content,
+ *   schedule, task progress or chat.
  */
 export const savePlan = mutation({
   // Deprecated client arg `userId` retained for compatibility; identity is enforced server-side
@@ -21,50 +94,43 @@ export const savePlan = mutation({
     userId: v.string(),
     plan: v.object({
       goal: v.string(),
-      monthlyMilestones: v.array(v.object({
-        month: v.number(),
-        milestone: v.string(),
-        weeklyObjectives: v.array(v.object({
-          week: v.number(),
-          objective: v.string(),
-          dailyTasks: v.array(
-            v.object({
-              day: v.number(),
-              description: v.string(),
-              completed: v.boolean(),
-            })
-          ),
-        })),
-      })),
-      chatHistory: v.optional(
-        v.array(
-          v.object({
-            role: v.union(
-              v.literal("user"),
-              v.literal("ai"),
-              v.literal("system")
-            ),
-            text: v.string(),
-          })
-        )
-      ),
+      monthlyMilestones: v.array(monthlyMilestoneValidator),
+      chatHistory: v.optional(chatHistoryValidator),
       interactionMode: v.optional(v.string()),
       unlockedAchievements: v.optional(v.record(v.string(), v.boolean())),
+      category: v.optional(v.string()),
+      startDate: v.optional(v.string()),
+      timezone: v.optional(v.string()),
+      availability: v.optional(planAvailabilityValidator),
     }),
+    source: v.optional(v.string()), // Initial version source; defaults to "generate"
   },
-  handler: async (ctx, { plan }) => {
+  handler: async (ctx, { plan, source = "generate" }) => {
     const identity = await ctx.auth.getUserIdentity();
     if (!identity) throw new Error("Unauthorized");
 
     const now = Date.now();
+    if (plan.startDate !== undefined && !isDateKey(plan.startDate)) {
+      throw new Error("Invalid start date");
+    }
     const id = await ctx.db.insert("plans", {
       userId: identity.subject,
       ...plan,
+      monthlyMilestones: keepRecordedCompletions(ensurePlanItemIds(plan.monthlyMilestones)),
+      // Anchor the schedule to a fixed calendar date so Day N never drifts
+      startDate: plan.startDate ?? toDateKeyInTimezone(now, plan.timezone),
+      availability: plan.availability && normalizeAvailability(plan.availability),
       createdAt: now,
       updatedAt: now,
       archived: false,
       status: "draft",
     });
+    const doc = await ctx.db.get(id);
+    if (doc) {
+      await insertPlanVersion(ctx, doc, source);
+      await recordPlanProgress(ctx, identity.subject, null, doc);
+    }
+    await evaluateAchievements(ctx, id);
     return id;
   },
 });
@@ -92,6 +158,9 @@ export const deletePlan = mutation({
     if (!identity) throw new Error("Unauthorized");
     const doc = await ctx.db.get(id);
     if (!doc || doc.userId !== identity.subject) return { success: false };
+    await recordPlanProgress(ctx, doc.userId, doc, null);
+    await deletePlanVersions(ctx, id);
+    await deletePlanUnlocks(ctx, id);
     await ctx.db.delete(id);
     return { success: true };
   },
@@ -107,7 +176,12 @@ export const deletePlansByGoal = mutation({
       .query("plans")
       .withIndex("by_user_goal", (q) => q.eq("userId", identity.subject).eq("goal", goal))
       .collect();
-    await Promise.all(docs.map((d) => ctx.db.delete(d._id)));
+    for (const d of docs) {
+      await recordPlanProgress(ctx, d.userId, d, null);
+      await deletePlanVersions(ctx, d._id);
+      await deletePlanUnlocks(ctx, d._id);
+      await ctx.db.delete(d._id);
+    }
     return { deleted: docs.length };
   },
 });
@@ -124,14 +198,64 @@ export const getPlan = query({
   },
 });
 
+// Plans saved before stable ids existed get them here when they are opened, so the ids the
+// client keys completion, notes and chat threads off are the saved ones
+export const assignPlanItemIds = mutation({
+  args: { id: v.id("plans") },
+  handler: async (ctx, { id }) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const doc = await ctx.db.get(id);
+    if (!doc || doc.userId !== identity.subject) throw new Error("Not found");
+    if (hasAllPlanItemIds(doc.monthlyMilestones)) return doc;
+    await ctx.db.patch(id, { monthlyMilestones: ensurePlanItemIds(doc.monthlyMilestones) });
+    return (await ctx.db.get(id))!;
+  },
+});
+
 export const updatePlan = mutation({
-  args: { id: v.id("plans"), patch: v.any() },
-  handler: async (ctx, { id, patch }) => {
+  args: {
+    id: v.id("plans"),
+    // Only fields the client edits; ownership, versioning and feed fields stay server-managed
+    patch: v.object({
+      goal: v.optional(v.string()),
+      monthlyMilestones: v.optional(v.array(monthlyMilestoneValidator)),
+      category: v.optional(v.string()),
+      startDate: v.optional(v.string()),
+      timezone: v.optional(v.string()),
+      availability: v.optional(planAvailabilityValidator),
+      interactionMode: v.optional(v.string()),
+      status: v.optional(v.string()),
+      summary: v.optional(v.string()),
+    }),
+    source: v.optional(v.string()), // When set, the patched content is recorded as a version
+    summary: v.optional(v.string()),
+  },
+  handler: async (ctx, { id, patch, source, summary }) => {
     const identity = await ctx.auth.getUserIdentity();
     if (!identity) throw new Error("Unauthorized");
     const doc = await ctx.db.get(id);
     if (!doc || doc.userId !== identity.subject) throw new Error("Not found");
-    await ctx.db.patch(id, { ...patch, updatedAt: Date.now() });
+    if (patch.startDate !== undefined && !isDateKey(patch.startDate)) throw new Error("Invalid start date");
+    const next = { ...patch, updatedAt: Date.now() };
+    if (patch.monthlyMilestones) {
+      next.monthlyMilestones = keepRecordedCompletions(ensurePlanItemIds(patch.monthlyMilestones), doc.monthlyMilestones);
+    }
+    if (patch.availability) {
+      next.availability = normalizeAvailability(patch.availability);
+    }
+
+    // Legacy plans have no history yet; keep their current content as the baseline
+    if (source && doc.currentVersion === undefined) {
+      await insertPlanVersion(ctx, doc, "initial");
+    }
+    await ctx.db.patch(id, next);
+    const updated = (await ctx.db.get(id))!;
+    await recordPlanProgress(ctx, doc.userId, doc, updated);
+    if (source) {
+      await insertPlanVersion(ctx, updated, source, summary);
+    }
+    await evaluateAchievements(ctx, id);
   },
 });
 
@@ -146,4 +270,271 @@ export const archivePlan = mutation({
   },
 });
 
+export const setPlanStartDate = mutation({
+  args: { id: v.id("plans"), startDate: v.string(), timezone: v.optional(v.string()) },
+  handler: async (ctx, { id, startDate, timezone }) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    if (!isDateKey(startDate)) throw new Error("Invalid start date");
+    const doc = await ctx.db.get(id);
+    if (!doc || doc.userId !== identity.subject) throw new Error("Not found");
+    await ctx.db.patch(id, {
+      startDate,
+      timezone: timezone ?? doc.timezone,
+      updatedAt: Date.now(),
+    });
+    await evaluateAchievements(ctx, id);
+  },
+});
 
+export const setPlanAvailability = mutation({
+  args: { id: v.id("plans"), availability: v.union(planAvailabilityValidator, v.null()) },
+  handler: async (ctx, { id, availability }) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    if (availability && availability.blackoutDates.some((key) => !isDateKey(key))) {
+      throw new Error("Invalid blackout date");
+    }
+    const doc = await ctx.db.get(id);
+    if (!doc || doc.userId !== identity.subject) throw new Error("Not found");
+    // null clears the settings so the plan works every day again
+    await ctx.db.patch(id, {
+      availability: availability ? normalizeAvailability(availability) : undefined,
+      updatedAt: Date.now(),
+    });
+    await evaluateAchievements(ctx, id);
+  },
+});
+
+export const setTaskCompletion = mutation({
+  args: {
+    id: v.id("plans"),
+    taskId: v.string(),
+    completed: v.boolean(),
+    timezone: v.optional(v.string()), // Caller's timezone for the activity log day; defaults to the plan's
+  },
+  handler: async (ctx, { id, taskId, completed, timezone }) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const doc = await ctx.db.get(id);
+    if (!doc || doc.userId !== identity.subject) throw new Error("Not found");
+
+    let found = false;
+    let changed = false;
+    const now = Date.now();
+    const monthlyMilestones = doc.monthlyMilestones.map((month) => ({
+      ...month,
+      weeklyObjectives: month.weeklyObjectives.map((week) => ({
+        ...week,
+        dailyTasks: week.dailyTasks.map((task) => {
+          if (task.id !== taskId) return task;
+          found = true;
+          changed = task.completed !== completed;
+          if (!changed) return task;
+          return { ...task, completed, completedAt: completed ? now : undefined };
+        }),
+      })),
+    }));
+    if (!found) throw new Error("Task not found");
+    if (!changed) return;
+
+    await ctx.db.patch(id, { monthlyMilestones, updatedAt: now });
+    await recordPlanProgress(ctx, doc.userId, doc, { ...doc, monthlyMilestones });
+    await logTaskActivity(ctx, {
+      userId: doc.userId,
+      planId: id,
+      taskId,
+      completed,
+      timezone: timezone ?? doc.timezone,
+    });
+    await evaluateAchievements(ctx, id, { timezone });
+  },
+});
+
+// Oldest plan chat messages are dropped past this many, keeping the plan document small
+const MAX_PLAN_CHAT_MESSAGES = 200;
+
+/**
+ * Stored rolling summary of the plan chat's older messages (see chatSummaries.ts).
+ */
+async function getPlanChatSummary(ctx: QueryCtx, planId: Id<"plans">) {
+  return ctx.db
+    .query("chatSummaries")
+    .withIndex("by_plan_task", (q) => q.eq("planId", planId).eq("taskIdentifier", PLAN_CHAT_THREAD))
+    .unique();
+}
+
+/**
+ * @description
+ * Plan-wide coach chat: the stored conversation, the rolling summary of its older messages
+ * and whether replies may propose plan edits ("plan") or give advice only ("chat"). Plans
+ * without a stored mode default to "chat".
+ *
+ * @receives data from:
+ * - components/milestone/plan-chat.tsx: plan id
+ *
+ * @sends data to:
+ * - components/milestone/plan-chat.tsx: chat history, summary and interaction mode
+ */
+export const getPlanChat = query({
+  args: { id: v.id("plans") },
+  handler: async (ctx, { id }) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const doc = await ctx.db.get(id);
+    if (!doc || doc.userId !== identity.subject) throw new Error("Not found");
+    const summary = await getPlanChatSummary(ctx, id);
+    return {
+      chatHistory: doc.chatHistory ?? [],
+      summary: summary ? { summary: summary.summary, summarizedThrough: summary.summarizedThrough } : null,
+      interactionMode: doc.interactionMode === "plan" ? ("plan" as const) : ("chat" as const),
+    };
+  },
+});
+
+export const appendPlanChat = mutation({
+  args: { id: v.id("plans"), messages: chatHistoryValidator },
+  handler: async (ctx, { id, messages }) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const doc = await ctx.db.get(id);
+    if (!doc || doc.userId !== identity.subject) throw new Error("Not found");
+    const previous = doc.chatHistory ?? [];
+    const now = Date.now();
+    // Messages are stamped in order, ending now; ones stored before stamps existed are stamped too
+    const combined: typeof previous = [...previous, ...messages.map(({ role, text }) => ({ role, text }))];
+    const chatHistory = combined
+      .map((message, i) =>
+        message.createdAt !== undefined ? message : { ...message, createdAt: now - (combined.length - 1 - i) }
+      )
+      .slice(-MAX_PLAN_CHAT_MESSAGES);
+    await ctx.db.patch(id, { chatHistory, updatedAt: now });
+
+    // Fold older messages into the summary before the cap drops them
+    const summarizedThrough = (await getPlanChatSummary(ctx, id))?.summarizedThrough;
+    if (isPlanChatSummaryDue(
+      planChatBacklog(previous, summarizedThrough).length,
+      planChatBacklog(chatHistory, summarizedThrough).length
+    )) {
+      await ctx.scheduler.runAfter(0, internal.chatSummaries.summarizePlanChat, { planId: id });
+    }
+    await evaluateAchievements(ctx, id);
+  },
+});
+
+export const clearPlanChat = mutation({
+  args: { id: v.id("plans") },
+  handler: async (ctx, { id }) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const doc = await ctx.db.get(id);
+    if (!doc || doc.userId !== identity.subject) throw new Error("Not found");
+    await ctx.db.patch(id, { chatHistory: [], updatedAt: Date.now() });
+    const summary = await getPlanChatSummary(ctx, id);
+    if (summary) await ctx.db.delete(summary._id);
+  },
+});
+
+export const setInteractionMode = mutation({
+  args: { id: v.id("plans"), interactionMode: v.union(v.literal("plan"), v.literal("chat")) },
+  handler: async (ctx, { id, interactionMode }) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const doc = await ctx.db.get(id);
+    if (!doc || doc.userId !== identity.subject) throw new Error("Not found");
+    await ctx.db.patch(id, { interactionMode, updatedAt: Date.now() });
+  },
+});
+
+export const commitPlanVersion = mutation({
+  args: {
+    id: v.id("plans"),
+    goal: v.string(),
+    monthlyMilestones: v.array(monthlyMilestoneValidator),
+    source: v.string(),
+    summary: v.optional(v.string()),
+  },
+  handler: async (ctx, { id, goal, monthlyMilestones, source, summary }) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const doc = await ctx.db.get(id);
+    if (!doc || doc.userId !== identity.subject) throw new Error("Not found");
+
+    // Legacy plans have no history yet; keep their current content as the baseline
+    if (doc.currentVersion === undefined) {
+      await insertPlanVersion(ctx, doc, "initial");
+    }
+
+    await ctx.db.patch(id, {
+      goal,
+      monthlyMilestones: keepRecordedCompletions(ensurePlanItemIds(monthlyMilestones), doc.monthlyMilestones),
+      updatedAt: Date.now(),
+    });
+    const updated = (await ctx.db.get(id))!;
+    await recordPlanProgress(ctx, doc.userId, doc, updated);
+    const version = await insertPlanVersion(ctx, updated, source, summary);
+    await evaluateAchievements(ctx, id);
+    return { version };
+  },
+});
+
+export const listVersions = query({
+  args: { planId: v.id("plans") },
+  handler: async (ctx, { planId }) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const plan = await ctx.db.get(planId);
+    if (!plan || plan.userId !== identity.subject) return [];
+    return await ctx.db
+      .query("planVersions")
+      .withIndex("by_plan_version", (q) => q.eq("planId", planId))
+      .order("desc")
+      .collect();
+  },
+});
+
+export const restoreVersion = mutation({
+  args: { planId: v.id("plans"), version: v.number() },
+  handler: async (ctx, { planId, version }) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const plan = await ctx.db.get(planId);
+    if (!plan || plan.userId !== identity.subject) throw new Error("Not found");
+    const snapshot = await ctx.db
+      .query("planVersions")
+      .withIndex("by_plan_version", (q) => q.eq("planId", planId).eq("version", version))
+      .unique();
+    if (!snapshot) throw new Error("Version not found");
+
+    // Progress made since the snapshot is kept for tasks that still exist
+    const progressById = new Map<string, { completed: boolean; completedAt?: number }>();
+    for (const month of plan.monthlyMilestones) {
+      for (const week of month.weeklyObjectives) {
+        for (const task of week.dailyTasks) {
+          if (task.id) progressById.set(task.id, { completed: task.completed, completedAt: task.completedAt });
+        }
+      }
+    }
+    const monthlyMilestones = snapshot.monthlyMilestones.map((month) => ({
+      ...month,
+      weeklyObjectives: month.weeklyObjectives.map((week) => ({
+        ...week,
+        dailyTasks: week.dailyTasks.map((task) => {
+          const progress = task.id ? progressById.get(task.id) : undefined;
+          return progress ? { ...task, ...progress } : task;
+        }),
+      })),
+    }));
+
+    await ctx.db.patch(planId, {
+      goal: snapshot.goal,
+      monthlyMilestones: ensurePlanItemIds(monthlyMilestones),
+      updatedAt: Date.now(),
+    });
+    const updated = (await ctx.db.get(planId))!;
+    await recordPlanProgress(ctx, plan.userId, plan, updated);
+    await insertPlanVersion(ctx, updated, "restore", `Restored version ${version}`);
+    await evaluateAchievements(ctx, planId);
+    return (await ctx.db.get(planId))!;
+  },
+});
@@ -0,0 +1,63 @@
+import { v } from "convex/values";
+import { query } from "./_generated/server";
+import { loadStreakSummary } from "./activity";
+import { computeLifetimeStats } from "./lib/progress";
+
+/**
+ * @description
+ * Lifetime profile of the signed-in user: totals across all plans, XP and level, goal
+ * categories tried, streaks, per-plan progress and recent achievement unlocks.
+ *
+ * @receives data from:
+ * - components/profile/profile-page.tsx: the browser's timezone for streaks
+ *
+ * @sends data to:
+ * - components/profile/profile-page.tsx: profile summary
+ *
+ * @sideEffects:
+ * - None
+ */
+export const getProfile = query({
+  args: { timezone: v.optional(v.string()), recentUnlocksLimit: v.optional(v.number()) },
+  handler: async (ctx, { timezone, recentUnlocksLimit = 10 }) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) throw new Error("Unauthorized");
+    const userId = identity.subject;
+
+    const plans = await ctx.db
+      .query("plans")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .order("desc")
+      .collect();
+    const unlocks = await ctx.db
+      .query("achievementUnlocks")
+      .withIndex("by_user_unlocked", (q) => q.eq("userId", userId))
+      .order("desc")
+      .collect();
+
+    const goalById = new Map(plans.map((plan) => [plan._id, plan.goal]));
+    return {
+      lifetime: computeLifetimeStats(plans),
+      streaks: await loadStreakSummary(ctx, userId, timezone),
+      plans: plans.map((plan) => {
+        const tasks = plan.monthlyMilestones.flatMap((month) => month.weeklyObjectives.flatMap((week) => week.dailyTasks));
+        return {
+          _id: plan._id,
+          goal: plan.goal,
+          category: plan.category,
+          archived: plan.archived ?? false,
+          tasksCompleted: tasks.filter((task) => task.completed).length,
+          tasksTotal: tasks.length,
+          createdAt: plan.createdAt,
+        };
+      }),
+      achievementsUnlocked: unlocks.length,
+      recentUnlocks: unlocks.slice(0, recentUnlocksLimit).map((unlock) => ({
+        _id: unlock._id,
+        achievementId: unlock.achievementId,
+        unlockedAt: unlock.unlockedAt,
+        planGoal: unlock.planId ? goalById.get(unlock.planId) : undefined,
+      })),
+    };
+  },
+});
@@ -0,0 +1,56 @@
+import { internalMutation, mutation } from "./_generated/server";
+import { v } from "convex/values";
+import { isRateLimitedRoute, takeToken } from "./lib/rateLimit";
+import { assertServerSecret } from "./lib/serverSecret";
+
+// Buckets idle for this long are full again and can be dropped
+const STALE_BUCKET_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * @description
+ * Durable token bucket shared by every web server instance. Called server-to-server from
+ * the Next.js API routes, authenticated with the `CONVEX_SERVER_SECRET` shared secret.
+ *
+ * @receives data from:
+ * - apps/web api/_lib/rate-limit.ts; checkRateLimit: route name and caller key
+ *
+ * @sends data to:
+ * - apps/web api/_lib/rate-limit.ts: `{ ok, remaining }` or `{ ok: false, retryAfterMs }`
+ *
+ * @sideEffects:
+ * - Reads/writes the `rateLimits` table
+ */
+export const consume = mutation({
+  args: { route: v.string(), key: v.string(), secret: v.string() },
+  handler: async (ctx, { route, key, secret }) => {
+    assertServerSecret(secret);
+    if (!isRateLimitedRoute(route)) throw new Error(`Unknown rate limited route "${route}"`);
+
+    const bucketKey = `${route}:${key}`;
+    const existing = await ctx.db
+      .query("rateLimits")
+      .withIndex("by_key", (q) => q.eq("key", bucketKey))
+      .unique();
+    const { bucket, result } = takeToken(route, existing, Date.now());
+
+    if (existing) {
+      await ctx.db.patch(existing._id, bucket);
+    } else {
+      await ctx.db.insert("rateLimits", { key: bucketKey, ...bucket });
+    }
+    return result;
+  },
+});
+
+export const pruneStaleBuckets = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const cutoff = Date.now() - STALE_BUCKET_MS;
+    const stale = await ctx.db
+      .query("rateLimits")
+      .withIndex("by_last_refill", (q) => q.lt("lastRefillMs", cutoff))
+      .take(500);
+    await Promise.all(stale.map((d) => ctx.db.delete(d._id)));
+    return { deleted: stale.length };
+  },
+});
@@ -1,40 +1,24 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
+import { chatHistoryValidator, monthlyMilestoneValidator, planAvailabilityValidator } from "./lib/validators";
 
 export default defineSchema({
-  // Plans hold structured plan content; augmented with optional fields for future UX
+  // Plans hold structured plan content; augmented with optional fields for future UX.
+  // Milestone/objective/task `id`s are stable across edits; optional only until
+  // `migrations:backfillPlanItemIds` has run on existing documents.
   plans: defineTable({
     userId: v.string(),
     goal: v.string(),
-    monthlyMilestones: v.array(v.object({
-      month: v.number(),
-      milestone: v.string(),
-      weeklyObjectives: v.array(v.object({
-        week: v.number(),
-        objective: v.string(),
-        dailyTasks: v.array(
-          v.object({
-            day: v.number(),
-            description: v.string(),
-            completed: v.boolean(),
-          })
-        ),
-      })),
-    })),
-    chatHistory: v.optional(
-      v.array(
-        v.object({
-          role: v.union(
-            v.literal("user"),
-            v.literal("ai"),
-            v.literal("system")
-          ),
-          text: v.string(),
-        })
-      )
-    ),
+    monthlyMilestones: v.array(monthlyMilestoneValidator),
+    chatHistory: v.optional(chatHistoryValidator),
     interactionMode: v.optional(v.string()),
     unlockedAchievements: v.optional(v.record(v.string(), v.boolean())),
+    category: v.optional(v.string()), // Goal category from goal validation, e.g. "health"
+    // Calendar date (YYYY-MM-DD) that Day 1 maps to, and the IANA timezone it was chosen in
+    startDate: v.optional(v.string()),
+    timezone: v.optional(v.string()),
+    // Days tasks are scheduled on; absent means every day
+    availability: v.optional(planAvailabilityValidator),
     createdAt: v.number(),
 
     // New optional metadata to support listing/archiving without breaking existing docs
@@ -42,15 +26,32 @@ export default defineSchema({
     archived: v.optional(v.boolean()),
     status: v.optional(v.string()), // "draft" | "final"
     summary: v.optional(v.string()),
+    currentVersion: v.optional(v.number()), // Latest `planVersions.version`; absent on legacy docs
+    calendarFeedToken: v.optional(v.string()), // Secret for the subscribable `.ics` feed; absent when disabled
   })
     .index("by_user", ["userId"])
-    .index("by_user_goal", ["userId", "goal"]),
+    .index("by_user_goal", ["userId", "goal"])
+    .index("by_calendar_feed_token", ["calendarFeedToken"]),
+
+  // Content snapshots of a single logical plan. A new version is written whenever the
+  // plan structure changes (AI refinement, manual save, restore) - not on task toggles.
+  planVersions: defineTable({
+    userId: v.string(),
+    planId: v.id("plans"),
+    version: v.number(),
+    goal: v.string(),
+    monthlyMilestones: v.array(monthlyMilestoneValidator),
+    source: v.string(), // "initial" | "generate" | "import" | "refine" | "manual" | "restore" | "chat-edit" | "replan"
+    summary: v.optional(v.string()),
+    createdAt: v.number(),
+  })
+    .index("by_plan_version", ["planId", "version"]),
 
   // Per-plan, per-task chat messages for the AI chat modal
   chatMessages: defineTable({
     userId: v.string(),
     planId: v.id("plans"),
-    taskIdentifier: v.string(), // Format: "month-week-day" e.g., "1-2-3"
+    taskIdentifier: v.string(), // Stable DailyTask `id` (legacy docs used "monthIndex-weekIndex-day")
     role: v.union(v.literal("user"), v.literal("assistant"), v.literal("system")),
     content: v.string(),
     tokens: v.optional(v.number()),
@@ -58,7 +59,72 @@ export default defineSchema({
     createdAt: v.number(),
   })
     .index("by_plan_task_created", ["planId", "taskIdentifier", "createdAt"])
-    .index("by_user_created", ["userId", "createdAt"]),
+    .index("by_user_created", ["userId", "createdAt"])
+    .index("by_created", ["createdAt"]),
+
+  // Rolling summary of the older part of a task chat thread, maintained by the
+  // `chatSummaries:summarizeRecentThreads` cron; the messages themselves are kept
+  chatSummaries: defineTable({
+    userId: v.string(),
+    planId: v.id("plans"),
+    taskIdentifier: v.string(),
+    summary: v.string(),
+    summarizedThrough: v.number(), // `createdAt` of the newest message the summary covers
+    messageCount: v.number(), // Messages folded into the summary so far
+    updatedAt: v.number(),
+  })
+    .index("by_plan_task", ["planId", "taskIdentifier"]),
+
+  // One marker per task chat thread, kept by `chat:appendMessage`; the summaries cron reads the
+  // threads marked `needsSummary` instead of scanning recent messages
+  chatThreads: defineTable({
+    userId: v.string(),
+    planId: v.id("plans"),
+    taskIdentifier: v.string(),
+    lastMessageAt: v.number(),
+    unsummarizedCount: v.number(), // Messages the summary does not cover; counted up to the due threshold
+    needsSummary: v.boolean(),
+  })
+    .index("by_plan_task", ["planId", "taskIdentifier"])
+    .index("by_needs_summary", ["needsSummary", "lastMessageAt"]),
+
+  // Append-only log of task completion changes per user; streaks are computed from it
+  activityLog: defineTable({
+    userId: v.string(),
+    planId: v.id("plans"),
+    taskId: v.string(), // Stable DailyTask `id`
+    kind: v.union(v.literal("task_completed"), v.literal("task_reopened")),
+    dateKey: v.string(), // User's local calendar day (YYYY-MM-DD) of the change
+    createdAt: v.number(),
+  })
+    .index("by_user_created", ["userId", "createdAt"])
+    .index("by_user_date", ["userId", "dateKey"])
+    .index("by_plan_created", ["planId", "createdAt"]),
+
+  // Achievements a user has unlocked: plan-scoped ones once per plan, user-scoped ones
+  // (streaks) once per user with no plan. Written by the engine in `achievements.ts`.
+  achievementUnlocks: defineTable({
+    userId: v.string(),
+    planId: v.optional(v.id("plans")),
+    achievementId: v.string(), // `AchievementDefinition.id` from lib/achievements.ts
+    unlockedAt: v.number(),
+    notifiedAt: v.optional(v.number()), // Set once the web app has shown the unlock toast
+  })
+    .index("by_user_unlocked", ["userId", "unlockedAt"])
+    .index("by_user_notified", ["userId", "notifiedAt"])
+    .index("by_user_plan", ["userId", "planId"])
+    .index("by_plan", ["planId"]),
+
+  // Running lifetime totals per user (lib/progress.ts), moved by each plan mutation so the
+  // achievements engine never rescans every plan; see achievements.ts recordPlanProgress
+  userStats: defineTable({
+    userId: v.string(),
+    tasksCompleted: v.number(),
+    plansCompleted: v.number(),
+    categories: v.record(v.string(), v.number()), // Plans per explored goal category
+    updatedAt: v.number(),
+  })
+    .index("by_user", ["userId"]),
 
   // Insights generated from plans and/or chat
   insights: defineTable({
@@ -77,11 +143,38 @@ export default defineSchema({
   notes: defineTable({
     userId: v.string(),
     planId: v.optional(v.id("plans")),
+    taskId: v.optional(v.string()), // Stable DailyTask `id` for task-scoped notes
     text: v.string(),
     pinned: v.boolean(),
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index("by_user_created", ["userId", "createdAt"]) 
-    .index("by_plan_created", ["planId", "createdAt"]),
+    .index("by_plan_created", ["planId", "createdAt"])
+    .index("by_plan_task_created", ["planId", "taskId", "createdAt"]),
+
+  // One row per LLM call (Next.js AI routes and Convex insight runs), for usage pages and monthly caps
+  aiUsage: defineTable({
+    userId: v.string(), // Clerk user id, or "anonymous" for demo calls
+    route: v.string(), // "chat" | "generate-plan" | "validate-goal" | "insights" | "chat-summary" | "replan"
+    provider: v.string(),
+    model: v.string(),
+    promptTokens: v.number(),
+    completionTokens: v.number(),
+    totalTokens: v.number(),
+    latencyMs: v.number(),
+    outcome: v.string(), // "success" | "error" | "cancelled" | "blocked"
+    error: v.optional(v.string()),
+    createdAt: v.number(),
+  })
+    .index("by_user_created", ["userId", "createdAt"]),
+
+  // Token buckets for the AI API routes, keyed by "<route>:user:<id>" or "<route>:ip:<addr>"
+  rateLimits: defineTable({
+    key: v.string(),
+    tokens: v.number(),
+    lastRefillMs: v.number(),
+  })
+    .index("by_key", ["key"])
+    .index("by_last_refill", ["lastRefillMs"]),
 });